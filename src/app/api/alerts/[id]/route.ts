@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+
+/**
+ * PUT /api/alerts/[id] — Acknowledge an alert
+ *
+ * Hides it from the unread badge for everyone in the role. The alert stays
+ * open until its cause is cleared, and resurfaces if it gets worse.
+ */
+export const PUT = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const alertId = Number(id);
+
+    const alert = alertId ? await prisma.cms_alerts.findUnique({ where: { id: alertId } }) : null;
+    if (!alert) {
+      return NextResponse.json({ error: "Alert not found" }, { status: 404 });
+    }
+
+    if (session.roleKey !== "super_admin") {
+      const role = await prisma.cms_roles.findFirst({
+        where: { role_key: session.roleKey },
+        select: { id: true },
+      });
+      if (role?.id !== alert.role_id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    }
+
+    const now = new Date();
+    await prisma.cms_alerts.update({
+      where: { id: alert.id },
+      data: { acknowledged_by: session.userId, acknowledged_at: now, updated_at: now },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("PUT /api/alerts/[id] error:", err);
+    return NextResponse.json({ error: "Failed to acknowledge alert" }, { status: 500 });
+  }
+});
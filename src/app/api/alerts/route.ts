@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+
+/**
+ * GET /api/alerts — Open CMS alerts for the caller's role
+ *
+ * super_admin sees every open alert. `unacknowledged` drives the badge
+ * on the header bell.
+ */
+export const GET = withPermission(async (_req, _ctx, session) => {
+  try {
+    const isSuperAdmin = session.roleKey === "super_admin";
+    const role = await prisma.cms_roles.findFirst({
+      where: { role_key: session.roleKey },
+      select: { id: true },
+    });
+    if (!role && !isSuperAdmin) {
+      return NextResponse.json({ alerts: [], unacknowledged: 0 });
+    }
+
+    const alerts = await prisma.cms_alerts.findMany({
+      where: {
+        is_resolved: false,
+        ...(isSuperAdmin ? {} : { role_id: role!.id }),
+      },
+      orderBy: { updated_at: "desc" },
+      take: 100,
+    });
+
+    const roles = await prisma.cms_roles.findMany({
+      where: { id: { in: [...new Set(alerts.map((a) => a.role_id))] } },
+      select: { id: true, role_name: true },
+    });
+    const roleNames = new Map(roles.map((r) => [r.id, r.role_name]));
+
+    return NextResponse.json({
+      alerts: alerts.map((a) => ({
+        ...a,
+        role_name: roleNames.get(a.role_id) || null,
+        is_acknowledged: a.acknowledged_at !== null,
+      })),
+      unacknowledged: alerts.filter((a) => a.acknowledged_at === null).length,
+    });
+  } catch (err) {
+    console.error("GET /api/alerts error:", err);
+    return NextResponse.json({ error: "Failed to fetch alerts" }, { status: 500 });
+  }
+});
@@ -1,11 +1,12 @@
 import { NextResponse } from "next/server";
-import { getSession } from "@/lib/auth";
+import { getUserRoleAndPermissions } from "@/lib/rbac";
+import { withPermission } from "@/lib/route-guard";
+
+// GET /api/auth/me — current user + live effective permissions
+export const GET = withPermission(async (_req, _ctx, session) => {
+  // Recompute rather than echo the JWT so RBAC edits show up immediately
+  const role = await getUserRoleAndPermissions(session.userId);
 
-export async function GET() {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-  }
   return NextResponse.json({
     user: {
       userId: session.userId,
@@ -13,9 +14,9 @@ export async function GET() {
       email: session.email,
       firstName: session.firstName,
       lastName: session.lastName,
-      roleKey: session.roleKey,
-      roleName: session.roleName,
-      permissions: session.permissions,
+      roleKey: role.roleKey,
+      roleName: role.roleName,
+      permissions: role.permissions,
     },
   });
-}
+});
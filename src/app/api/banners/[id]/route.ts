@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * PUT /api/banners/[id] — Update a slider
  */
-export async function PUT(
+export const PUT = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const sliderId = parseInt(id, 10);
@@ -43,15 +44,15 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/banners/[id] — Delete a slider
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const sliderId = parseInt(id, 10);
@@ -66,4 +67,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,11 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/banners — Returns all sliders + grid elements (mobile banners)
  */
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     const [sliders, grids] = await Promise.all([
       prisma.$queryRawUnsafe(`
@@ -104,12 +105,12 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/banners — Create a new slider
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { text, btn_text, btn_url, main_image, r_store_id } = body;
@@ -142,4 +143,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,15 +1,16 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * Cursor-based pagination for products within a category (+ its descendants).
  * GET /api/categories/[id]/products?cursor=...&pageSize=50
  */
-export async function GET(
+export const GET = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const categoryId = Number.parseInt(id, 10);
@@ -154,7 +155,7 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 async function getCategoryDescendantIds(categoryId: number): Promise<number[]> {
   const result = [categoryId];
@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/categories/[id] - Get full category detail with children, parent chain, product count
  */
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const categoryId = Number.parseInt(id, 10);
@@ -99,7 +100,7 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/categories/[id] - Update category fields
@@ -108,10 +109,10 @@ export async function GET(
  *           air_shipping_rate, tax_min_qty_air, tax_min_qty_sea,
  *           show_in_navbar, order_number, parent
  */
-export async function PATCH(
+export const PATCH = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const categoryId = Number.parseInt(id, 10);
@@ -181,7 +182,7 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
 async function getCategoryDescendantIds(categoryId: number): Promise<number[]> {
   // Fetch entire parent→child tree in ONE query, then traverse in-memory
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 // In-memory cache for excluded category IDs (rebuild every 60s)
 let excludedCache: { ids: Set<number>; ts: number } | null = null;
@@ -56,7 +57,7 @@ async function getExcludedCategoryIds(): Promise<Set<number>> {
  *   parentId   - filter by direct parent
  *   hasImage   - "yes" | "no"
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
     const sp = request.nextUrl.searchParams;
     const cursor = sp.get("cursor");
@@ -240,4 +241,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { invalidateTreeCache } from "@/app/api/categories/tree/route";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * POST /api/categories/reorder
@@ -11,7 +12,7 @@ import { invalidateTreeCache } from "@/app/api/categories/tree/route";
  *  1. Same-parent reorder — fast path: just shift siblings + update order_number
  *  2. Reparent — full path: circular-ref check, level updates, has_children updates
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const { categoryId, newParentId, newOrder } = await request.json();
 
@@ -156,7 +157,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 async function getParentLevel(parentId: number): Promise<number> {
   const parent = await prisma.category.findUnique({
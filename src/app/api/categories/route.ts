@@ -1,12 +1,13 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 // ── In-memory cache for categories (rarely change) ──
 let cachedResponse: { categories: any[]; excludedCategoryIds: number[] } | null = null;
 let cacheTimestamp = 0;
 const CACHE_TTL = 300_000; // 5 minutes
 
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     // Return cached response if fresh
     if (cachedResponse && Date.now() - cacheTimestamp < CACHE_TTL) {
@@ -73,4 +74,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
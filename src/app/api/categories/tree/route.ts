@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * In-memory cache for the FULL tree endpoint.
@@ -28,7 +29,7 @@ export function invalidateTreeCache() {
  *   ?parent=<id>      Direct children of a specific parent
  *   (no params)       Root categories only (parent IS NULL or = 0, level = 0)
  */
-export async function GET(req: NextRequest) {
+export const GET = withPermission(async (req: NextRequest) => {
   try {
     const sp = req.nextUrl.searchParams;
     const mode = sp.get("mode");
@@ -67,7 +68,7 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 async function buildTreeData() {
   // Use raw SQL — Prisma ORM adds ~8-10s overhead on 9,700 rows over a remote DB
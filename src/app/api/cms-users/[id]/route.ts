@@ -1,17 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession, hashPassword } from "@/lib/auth";
+import { hashPassword, bumpSessionVersion } from "@/lib/auth";
+import { withPermission } from "@/lib/route-guard";
 
 // GET /api/cms-users/[id] — get a single CMS user
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+) => {
   const { id } = await params;
   const userId = Number.parseInt(id);
   if (Number.isNaN(userId)) {
@@ -39,18 +35,14 @@ export async function GET(
   }
 
   return NextResponse.json({ user });
-}
+});
 
 // PUT /api/cms-users/[id] — update a CMS user
-export async function PUT(
+export const PUT = withPermission(async (
   request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   const { id } = await params;
   const userId = Number.parseInt(id);
   if (Number.isNaN(userId)) {
@@ -130,31 +122,37 @@ export async function PUT(
 
     // Handle role change
     if (role_key) {
+      // Legacy user_role integer — custom roles have no legacy equivalent
       const roleKeyMap: Record<string, number> = {
         super_admin: 1,
         buyer: 2,
         china_warehouse: 3,
         lebanon_warehouse: 4,
       };
-      if (roleKeyMap[role_key]) {
-        updateData.user_role = roleKeyMap[role_key];
-
-        // Update cms_user_roles: delete old, insert new
-        const cmsRole = await prisma.cms_roles.findFirst({
-          where: { role_key },
-        });
-        if (cmsRole) {
-          await prisma.cms_user_roles.deleteMany({
-            where: { user_id: userId },
-          });
-          await prisma.cms_user_roles.create({
-            data: {
-              user_id: userId,
-              role_id: cmsRole.id,
-            },
-          });
-        }
+
+      const cmsRole = await prisma.cms_roles.findFirst({
+        where: { role_key, is_active: true },
+      });
+      if (!cmsRole) {
+        return NextResponse.json(
+          { error: "Unknown or inactive role" },
+          { status: 400 }
+        );
       }
+      updateData.user_role = roleKeyMap[role_key] ?? 0;
+
+      // Update cms_user_roles: delete old, insert new
+      await prisma.cms_user_roles.deleteMany({
+        where: { user_id: userId },
+      });
+      await prisma.cms_user_roles.create({
+        data: {
+          user_id: userId,
+          role_id: cmsRole.id,
+        },
+      });
+      // Active sessions pick up the new role on their next request
+      await bumpSessionVersion([userId]);
     }
 
     const user = await prisma.ag_users.update({
@@ -180,18 +178,14 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/cms-users/[id] — delete a CMS user
-export async function DELETE(
+export const DELETE = withPermission(async (
   _request: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   const { id } = await params;
   const userId = Number.parseInt(id);
   if (Number.isNaN(userId)) {
@@ -211,6 +205,9 @@ export async function DELETE(
       where: { user_id: userId },
     });
 
+    // Revoke any session the deleted user still holds
+    await bumpSessionVersion([userId]);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Delete CMS user error:", error);
@@ -219,4 +216,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession, hashPassword } from "@/lib/auth";
+import { hashPassword } from "@/lib/auth";
+import { withPermission } from "@/lib/route-guard";
 
 // GET /api/cms-users — list all CMS admin users
-export async function GET() {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const GET = withPermission(async () => {
   const users = await prisma.ag_users.findMany({
     select: {
       user_id: true,
@@ -52,20 +48,16 @@ export async function GET() {
 
   // Also return available roles for dropdowns
   const roles = await prisma.cms_roles.findMany({
+    where: { is_active: true },
     select: { id: true, role_key: true, role_name: true },
     orderBy: { id: "asc" },
   });
 
   return NextResponse.json({ users: usersWithRole, roles });
-}
+});
 
 // POST /api/cms-users — create a new CMS admin user
-export async function POST(request: NextRequest) {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
+export const POST = withPermission(async (request: NextRequest, _ctx, session) => {
   try {
     const body = await request.json();
     const {
@@ -117,15 +109,25 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Map role_key to user_role integer
+    // Any active CMS role may be assigned; fall back to super_admin
+    const cmsRole = await prisma.cms_roles.findFirst({
+      where: { role_key: role_key || "super_admin", is_active: true },
+    });
+    if (role_key && !cmsRole) {
+      return NextResponse.json(
+        { error: "Unknown or inactive role" },
+        { status: 400 }
+      );
+    }
+
+    // Legacy user_role integer — custom roles have no legacy equivalent
     const roleKeyMap: Record<string, number> = {
       super_admin: 1,
       buyer: 2,
       china_warehouse: 3,
       lebanon_warehouse: 4,
     };
-    const selectedRoleKey = role_key && roleKeyMap[role_key] ? role_key : "super_admin";
-    const userRoleInt = roleKeyMap[selectedRoleKey];
+    const userRoleInt = roleKeyMap[cmsRole?.role_key || "super_admin"] ?? 0;
 
     const hashedPassword = await hashPassword(password);
 
@@ -152,9 +154,6 @@ export async function POST(request: NextRequest) {
     });
 
     // Create cms_user_roles entry
-    const cmsRole = await prisma.cms_roles.findFirst({
-      where: { role_key: selectedRoleKey },
-    });
     if (cmsRole) {
       await prisma.cms_user_roles.create({
         data: {
@@ -172,4 +171,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/coupons/[id] — Get single coupon
  */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   try {
     const coupon = await prisma.coupon_code.findUnique({
@@ -24,15 +25,15 @@ export async function GET(
   } catch (err: any) {
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
-}
+});
 
 /**
  * PUT /api/coupons/[id] — Update coupon
  */
-export async function PUT(
+export const PUT = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   try {
     const body = await request.json();
@@ -67,15 +68,15 @@ export async function PUT(
     }
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/coupons/[id] — Delete coupon (cascades to usage records)
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   try {
     await prisma.coupon_code.delete({ where: { id: Number(id) } });
@@ -83,4 +84,4 @@ export async function DELETE(
   } catch (err: any) {
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
-}
+});
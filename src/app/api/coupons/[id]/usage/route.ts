@@ -1,15 +1,16 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/coupons/[id]/usage — Get all usage records for a coupon
  * Returns user info, order info, status, timestamps
  */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   try {
     const usages = await prisma.coupon_usage.findMany({
@@ -61,4 +62,4 @@ export async function GET(
     console.error("GET /api/coupons/[id]/usage error:", err);
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
-}
+});
@@ -1,11 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/coupons — List all coupons with usage stats
  */
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     // Fetch coupons and usage stats in parallel (avoid loading all usage records)
     const [coupons, usageStats] = await Promise.all([
@@ -69,12 +70,12 @@ export async function GET() {
     console.error("GET /api/coupons error:", err);
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
-}
+});
 
 /**
  * POST /api/coupons — Create a new coupon
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -106,4 +107,4 @@ export async function POST(request: NextRequest) {
     }
     return NextResponse.json({ error: err.message }, { status: 500 });
   }
-}
+});
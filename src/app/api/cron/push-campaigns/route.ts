@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasCronSecret } from "@/lib/route-guard";
+import { dispatchPushCampaigns } from "@/lib/push-campaigns";
+
+/**
+ * GET|POST /api/cron/push-campaigns — Push campaign dispatcher
+ *
+ * Starts scheduled campaigns that are due and pushes their pending
+ * recipients for up to ~50 seconds. Authenticates with
+ * `Authorization: Bearer $CRON_SECRET` like the other cron routes.
+ */
+async function handler(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not configured; refusing to dispatch push campaigns");
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 503 });
+  }
+  if (!hasCronSecret(req, secret)) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const result = await dispatchPushCampaigns();
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    console.error("POST /api/cron/push-campaigns error:", err);
+    return NextResponse.json({ error: "Campaign dispatch failed" }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasCronSecret } from "@/lib/route-guard";
+import { raiseSlaAlerts } from "@/lib/sla";
+
+/**
+ * GET|POST /api/cron/sla-alerts — Scheduled SLA check
+ *
+ * Called by a scheduler (system cron, Vercel Cron) rather than a signed-in
+ * user, so it sits outside the session guard and authenticates with
+ * `Authorization: Bearer $CRON_SECRET` instead.
+ */
+async function handler(req: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not configured; refusing to run SLA alerts");
+    return NextResponse.json({ error: "Cron is not configured" }, { status: 503 });
+  }
+  if (!hasCronSecret(req, secret)) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  try {
+    const result = await raiseSlaAlerts();
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    console.error("POST /api/cron/sla-alerts error:", err);
+    return NextResponse.json({ error: "SLA check failed" }, { status: 500 });
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
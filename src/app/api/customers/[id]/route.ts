@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/customers/[id] — Full customer profile with all related data
  */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const userId = Number(id);
 
@@ -182,15 +183,15 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/customers/[id] — Update customer (toggle active, etc)
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   const { id } = await params;
   const body = await req.json();
 
@@ -216,7 +217,7 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /* ─── Order status labels ─── */
 const ORDER_STATUS_LABELS: Record<number, string> = {
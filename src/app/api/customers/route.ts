@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/customers — List all customers with stats
  * Query params: page, limit, search, sort, order, status, device
  */
-export async function GET(req: NextRequest) {
+export const GET = withPermission(async (req: NextRequest) => {
   const sp = req.nextUrl.searchParams;
   const page = Math.max(1, Number(sp.get("page") || 1));
   const limit = Math.min(100, Math.max(1, Number(sp.get("limit") || 25)));
@@ -155,4 +156,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 export const dynamic = "force-dynamic";
 
@@ -8,7 +9,7 @@ let cachedResponse: object | null = null;
 let cacheTimestamp = 0;
 const CACHE_TTL = 60_000; // 60 seconds
 
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     // Return cached data if still fresh
     const now = Date.now();
@@ -268,4 +269,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
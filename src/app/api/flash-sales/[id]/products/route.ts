@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { invalidateHomeCache } from "@/lib/cache-invalidation";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * Get pricing settings (markup + CNY→USD exchange rate).
@@ -40,10 +41,10 @@ function convertPrice(
 /**
  * GET /api/flash-sales/[id]/products — List products in a flash sale
  */
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
 
@@ -90,16 +91,16 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/flash-sales/[id]/products — Add products to a flash sale
  * Body: { product_ids: number[] }
  */
-export async function POST(
+export const POST = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const numId = Number(id);
@@ -155,16 +156,16 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/flash-sales/[id]/products — Remove products from a flash sale
  * Body: { product_ids: number[] }
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const numId = Number(id);
@@ -203,4 +204,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -2,14 +2,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { invalidateHomeCache } from "@/lib/cache-invalidation";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/flash-sales/[id] — Get detail for a single flash sale with its products
  */
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
 
@@ -71,15 +72,15 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/flash-sales/[id] — Update a flash sale
  */
-export async function PUT(
+export const PUT = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const body = await request.json();
@@ -127,15 +128,15 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/flash-sales/[id] — Delete a flash sale and its product associations
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const numId = Number(id);
@@ -166,4 +167,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -2,11 +2,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { invalidateHomeCache } from "@/lib/cache-invalidation";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/flash-sales — List all flash sales with their product counts
  */
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     const [sales, productCounts] = await Promise.all([
       prisma.$queryRawUnsafe(`
@@ -53,12 +54,12 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/flash-sales — Create a new flash sale
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -115,4 +116,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
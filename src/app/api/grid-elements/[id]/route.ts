@@ -2,14 +2,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { invalidateHomeCache } from "@/lib/cache-invalidation";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * PUT /api/grid-elements/[id] — Update a grid element
  */
-export async function PUT(
+export const PUT = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const numId = Number(id);
@@ -46,15 +47,15 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/grid-elements/[id] — Delete a grid element
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     await prisma.grid_elements.delete({ where: { id: Number(id) } });
@@ -70,4 +71,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
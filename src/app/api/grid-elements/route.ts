@@ -2,11 +2,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { invalidateHomeCache } from "@/lib/cache-invalidation";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * POST /api/grid-elements — Create a new grid element in the mobile grid
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -67,4 +68,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  loadInvoiceBranding,
+  loadInvoiceDocument,
+  renderInvoice,
+} from "@/lib/invoice-documents";
+
+/**
+ * GET /api/invoices/[id]/document — The invoice rendered by the CMS
+ *
+ * Query:
+ *   format    html (default, print view — opens the print dialog) | pdf
+ *   download  1 → PDF as an attachment instead of inline
+ */
+export const GET = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const invoiceId = Number(id);
+    if (!invoiceId) {
+      return NextResponse.json({ error: "Invalid invoice ID" }, { status: 400 });
+    }
+
+    const sp = req.nextUrl.searchParams;
+    const format = sp.get("format") || "html";
+    if (format !== "html" && format !== "pdf") {
+      return NextResponse.json({ error: "Format must be 'html' or 'pdf'" }, { status: 400 });
+    }
+
+    const [doc, branding] = await Promise.all([
+      loadInvoiceDocument(invoiceId),
+      loadInvoiceBranding(),
+    ]);
+    if (!doc) {
+      return NextResponse.json({ error: "Invoice not found" }, { status: 404 });
+    }
+
+    const { body, headers } = await renderInvoice(doc, branding, format, {
+      download: sp.get("download") === "1",
+    });
+    return new NextResponse(body, { headers });
+  } catch (err) {
+    console.error("GET /api/invoices/[id]/document error:", err);
+    return NextResponse.json({ error: "Failed to render invoice" }, { status: 500 });
+  }
+});
@@ -1,17 +1,16 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
+import { withPermission } from "@/lib/route-guard";
+import { invoiceDocumentUrls } from "@/lib/invoices";
 
 /**
  * GET /api/invoices/[id] — Fetch a single invoice
  */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const invoiceId = Number(id);
@@ -45,7 +44,7 @@ export async function GET(
             ? JSON.parse(invoice.billing_address)
             : invoice.billing_address
           : null,
-        view_url: `${BACKEND_URL}/v3_0_0-invoice/view?id=${invoice.id}`,
+        ...invoiceDocumentUrls(invoice.id),
       },
     });
   } catch (err) {
@@ -55,7 +54,7 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/invoices/[id] — Update an invoice (admin)
@@ -70,10 +69,10 @@ export async function GET(
  *   total?: number
  * }
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const invoiceId = Number(id);
@@ -139,7 +138,7 @@ export async function PUT(
         tax_amount: Number(updated.tax_amount),
         discount_amount: Number(updated.discount_amount),
         total: Number(updated.total),
-        view_url: `${BACKEND_URL}/v3_0_0-invoice/view?id=${updated.id}`,
+        ...invoiceDocumentUrls(updated.id),
       },
     });
   } catch (err) {
@@ -149,4 +148,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
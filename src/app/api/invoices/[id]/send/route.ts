@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { invoiceDocumentUrls } from "@/lib/invoices";
+import { InvoiceDeliveryError, sendInvoiceEmail } from "@/lib/invoice-delivery";
+import { MailerError } from "@/lib/mailer";
+
+/**
+ * POST /api/invoices/[id]/send — Email the invoice PDF to the customer
+ *
+ * Body: {
+ *   to?: string        // defaults to the customer's account email
+ *   message?: string   // added above the standard text
+ * }
+ *
+ * Can be repeated to re-send; every attempt is written to the delivery log.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const invoiceId = Number(id);
+    if (!invoiceId) {
+      return NextResponse.json({ error: "Invalid invoice ID" }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { delivery, invoice } = await sendInvoiceEmail(
+      invoiceId,
+      {
+        to: typeof body.to === "string" ? body.to : null,
+        message: typeof body.message === "string" ? body.message : null,
+      },
+      session.userId
+    );
+
+    return NextResponse.json({
+      success: true,
+      delivery,
+      invoice: {
+        ...invoice,
+        subtotal: Number(invoice.subtotal),
+        shipping_amount: Number(invoice.shipping_amount),
+        tax_amount: Number(invoice.tax_amount),
+        discount_amount: Number(invoice.discount_amount),
+        total: Number(invoice.total),
+        ...invoiceDocumentUrls(invoice.id),
+      },
+    });
+  } catch (err) {
+    if (err instanceof InvoiceDeliveryError || err instanceof MailerError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/invoices/[id]/send error:", err);
+    return NextResponse.json({ error: "Failed to send invoice" }, { status: 500 });
+  }
+});
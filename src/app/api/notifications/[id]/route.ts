@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 const ORDER_STATUS_LABELS: Record<number, string> = {
   0: "Pending",
@@ -15,10 +16,10 @@ const ORDER_STATUS_LABELS: Record<number, string> = {
 };
 
 /* ─── GET /api/notifications/[id] ─── */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const notifId = Number(id);
@@ -125,13 +126,13 @@ export async function GET(
     console.error("GET /api/notifications/[id] error:", err);
     return NextResponse.json({ error: "Failed to fetch notification" }, { status: 500 });
   }
-}
+});
 
 /* ─── DELETE /api/notifications/[id] ─── */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const notifId = Number(id);
@@ -148,7 +149,7 @@ export async function DELETE(
     console.error("DELETE /api/notifications/[id] error:", err);
     return NextResponse.json({ error: "Failed to delete notification" }, { status: 500 });
   }
-}
+});
 
 /* ─── Helper: fetch related entity ─── */
 async function getRelatedEntity(
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { cancelCampaign, findCampaign, PushCampaignError } from "@/lib/push-campaigns";
+
+/**
+ * POST /api/notifications/campaigns/[id]/cancel — Cancel a draft or
+ * scheduled campaign, or stop one that is sending (pending recipients are
+ * marked cancelled; pushes already sent stay sent)
+ */
+export const POST = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const cancelled = await cancelCampaign(Number(id));
+    return NextResponse.json({ success: true, campaign: await findCampaign(cancelled.id) });
+  } catch (err) {
+    if (err instanceof PushCampaignError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/notifications/campaigns/[id]/cancel error:", err);
+    return NextResponse.json({ error: "Failed to cancel campaign" }, { status: 500 });
+  }
+});
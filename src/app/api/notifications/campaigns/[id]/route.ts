@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  dispatchIfDue,
+  findCampaign,
+  getCampaign,
+  PushCampaignError,
+  updateCampaign,
+} from "@/lib/push-campaigns";
+
+/**
+ * GET /api/notifications/campaigns/[id] — Campaign with per-status
+ * recipient counts and a page of recipients
+ *
+ * Query: status? (pending|sent|failed|skipped|cancelled), page?, limit?
+ */
+export const GET = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const sp = req.nextUrl.searchParams;
+    const page = Math.max(1, Number(sp.get("page")) || 1);
+    const limit = Math.min(100, Math.max(1, Number(sp.get("limit")) || 50));
+    const { total, ...detail } = await getCampaign(Number(id), { recipientStatus: sp.get("status"), page, limit });
+    return NextResponse.json({
+      ...detail,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (err) {
+    if (err instanceof PushCampaignError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("GET /api/notifications/campaigns/[id] error:", err);
+    return NextResponse.json({ error: "Failed to fetch campaign" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/notifications/campaigns/[id] — Edit, schedule or unschedule a
+ * draft or scheduled campaign. Same body as POST; omitted fields keep
+ * their value.
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const updated = await updateCampaign(Number(id), body);
+    await dispatchIfDue(updated);
+    return NextResponse.json({ success: true, campaign: await findCampaign(updated.id) });
+  } catch (err) {
+    if (err instanceof PushCampaignError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("PUT /api/notifications/campaigns/[id] error:", err);
+    return NextResponse.json({ error: "Failed to update campaign" }, { status: 500 });
+  }
+});
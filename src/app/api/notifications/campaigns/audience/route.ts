@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { audienceOptions, countAudience, parseSegment, PushCampaignError } from "@/lib/push-campaigns";
+
+/**
+ * GET /api/notifications/campaigns/audience — Device types and countries
+ * of active customers, for the segment builder
+ */
+export const GET = withPermission(async () => {
+  try {
+    return NextResponse.json(await audienceOptions());
+  } catch (err) {
+    console.error("GET /api/notifications/campaigns/audience error:", err);
+    return NextResponse.json({ error: "Failed to load audience options" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/notifications/campaigns/audience — Dry run: count the
+ * customers a segment reaches right now (and how many have a push token)
+ *
+ * Body: { segment }
+ */
+export const POST = withPermission(async (req: NextRequest) => {
+  try {
+    const body = await req.json();
+    return NextResponse.json(await countAudience(parseSegment(body.segment)));
+  } catch (err) {
+    if (err instanceof PushCampaignError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/notifications/campaigns/audience error:", err);
+    return NextResponse.json({ error: "Failed to count audience" }, { status: 500 });
+  }
+});
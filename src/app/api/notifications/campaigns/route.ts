@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  createCampaign,
+  dispatchIfDue,
+  findCampaign,
+  listCampaigns,
+  PushCampaignError,
+} from "@/lib/push-campaigns";
+
+/**
+ * GET /api/notifications/campaigns — Push campaigns, newest first
+ *
+ * Query: status?, page?, limit?
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const page = Math.max(1, Number(sp.get("page")) || 1);
+    const limit = Math.min(100, Math.max(1, Number(sp.get("limit")) || 20));
+    const { campaigns, total } = await listCampaigns({ status: sp.get("status"), page, limit });
+    return NextResponse.json({
+      campaigns,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (err) {
+    console.error("GET /api/notifications/campaigns error:", err);
+    return NextResponse.json({ error: "Failed to fetch campaigns" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/notifications/campaigns — Create a campaign
+ *
+ * Body: {
+ *   name, subject, body, notification_type?, row_id?, action_url?, image_url?,
+ *   send_push?: boolean,             // false = in-app only
+ *   segment: { device_types?, countries?, last_login_within_days?, inactive_for_days?,
+ *              min_orders?, max_orders?, interest_category_ids?, favorite_category_ids? },
+ *   status?: "draft" | "scheduled",  // scheduled without send_at = send now
+ *   send_at?: "YYYY-MM-DDTHH:mm",    // wall-clock time in `timezone`
+ *   timezone?: string,               // IANA name, default UTC
+ * }
+ */
+export const POST = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const body = await req.json();
+    const created = await createCampaign(body, session.userId);
+    await dispatchIfDue(created);
+    return NextResponse.json({ success: true, campaign: await findCampaign(created.id) }, { status: 201 });
+  } catch (err) {
+    if (err instanceof PushCampaignError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/notifications/campaigns error:", err);
+    return NextResponse.json({ error: "Failed to create campaign" }, { status: 500 });
+  }
+});
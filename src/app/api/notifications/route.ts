@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { isNotificationTemplateKey, renderNotification } from "@/lib/notification-templates";
 
 /* ─── GET /api/notifications ─── */
-export async function GET(req: NextRequest) {
+export const GET = withPermission(async (req: NextRequest) => {
   try {
     const sp = req.nextUrl.searchParams;
     const page = Math.max(1, Number(sp.get("page")) || 1);
@@ -118,22 +120,42 @@ export async function GET(req: NextRequest) {
     console.error("GET /api/notifications error:", err);
     return NextResponse.json({ error: "Failed to fetch notifications" }, { status: 500 });
   }
-}
+});
 
-/* ─── POST /api/notifications (Create + optionally send push) ─── */
-export async function POST(req: NextRequest) {
+/* ─── POST /api/notifications (Create + optionally send push) ───
+   Either `subject` + `body`, or `template_key` + `values` to render a
+   notification template — in the recipient's language for single-user
+   sends, in the default language for broadcasts. */
+export const POST = withPermission(async (req: NextRequest) => {
   try {
     const body = await req.json();
     const {
-      subject,
-      body: notifBody,
       notification_type,
       r_user_id, // null = broadcast
       row_id,
       action_url,
       image_url,
       send_push,
+      template_key,
+      values,
     } = body;
+    let { subject, body: notifBody } = body;
+
+    if (template_key) {
+      if (typeof template_key !== "string" || !isNotificationTemplateKey(template_key)) {
+        return NextResponse.json({ error: "Unknown notification template" }, { status: 400 });
+      }
+      const recipient = r_user_id
+        ? await prisma.users.findUnique({ where: { id: r_user_id }, select: { language_id: true } })
+        : null;
+      const rendered = await renderNotification(
+        template_key,
+        { ...(row_id ? { order_id: row_id } : {}), ...(values && typeof values === "object" ? values : {}) },
+        recipient?.language_id
+      );
+      subject = rendered.title;
+      notifBody = rendered.message;
+    }
 
     if (!subject || !notifBody) {
       return NextResponse.json({ error: "Subject and body are required" }, { status: 400 });
@@ -227,4 +249,4 @@ export async function POST(req: NextRequest) {
     console.error("POST /api/notifications error:", err);
     return NextResponse.json({ error: "Failed to create notification" }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { NotificationRuleError, resetNotificationRule, updateNotificationRule } from "@/lib/notification-rules";
+
+/**
+ * PUT /api/notifications/rules/[event] — Update one rule
+ *
+ * Body: {
+ *   is_enabled?: boolean,
+ *   send_push?: boolean,        // false = in-app notification only
+ * }
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ event: string }> },
+  session
+) => {
+  try {
+    const { event } = await params;
+    const body = await req.json();
+    const rule = await updateNotificationRule(event, body, session.userId);
+    return NextResponse.json({ success: true, rule });
+  } catch (err) {
+    if (err instanceof NotificationRuleError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("PUT /api/notifications/rules/[event] error:", err);
+    return NextResponse.json({ error: "Failed to update notification rule" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/notifications/rules/[event] — Reset a rule to its default
+ */
+export const DELETE = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ event: string }> }
+) => {
+  try {
+    const { event } = await params;
+    const rule = await resetNotificationRule(event);
+    return NextResponse.json({ success: true, rule });
+  } catch (err) {
+    if (err instanceof NotificationRuleError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("DELETE /api/notifications/rules/[event] error:", err);
+    return NextResponse.json({ error: "Failed to reset notification rule" }, { status: 500 });
+  }
+});
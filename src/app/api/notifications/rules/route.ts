@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { loadNotificationRules } from "@/lib/notification-rules";
+
+/**
+ * GET /api/notifications/rules — Automated workflow notification rules.
+ * Their text is edited under /api/notifications/templates.
+ */
+export const GET = withPermission(async () => {
+  try {
+    return NextResponse.json({ rules: await loadNotificationRules() });
+  } catch (err) {
+    console.error("GET /api/notifications/rules error:", err);
+    return NextResponse.json({ error: "Failed to fetch notification rules" }, { status: 500 });
+  }
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { NotificationTemplateError, previewNotificationTemplate } from "@/lib/notification-templates";
+
+/**
+ * POST /api/notifications/templates/[key]/preview — Render with sample data
+ *
+ * Body: {
+ *   title?: string, body?: string,   // draft text; omit both to render the stored variant
+ *   language_id?: number,            // stored variant to render (default language when omitted)
+ *   values?: { [placeholder]: string | number },   // overrides for the samples
+ * }
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) => {
+  try {
+    const { key } = await params;
+    const body = await req.json().catch(() => ({}));
+    return NextResponse.json(await previewNotificationTemplate(key, body));
+  } catch (err) {
+    if (err instanceof NotificationTemplateError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/notifications/templates/[key]/preview error:", err);
+    return NextResponse.json({ error: "Failed to preview notification template" }, { status: 500 });
+  }
+});
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  NotificationTemplateError,
+  resetNotificationTemplate,
+  saveNotificationTemplate,
+} from "@/lib/notification-templates";
+
+/**
+ * PUT /api/notifications/templates/[key] — Save one language variant
+ *
+ * Body: {
+ *   language_id: number,
+ *   title: string,
+ *   body: string,     // {{order_id}}, {{customer_name}}, … — only the template's own placeholders
+ * }
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> },
+  session
+) => {
+  try {
+    const { key } = await params;
+    const body = await req.json();
+    const template = await saveNotificationTemplate(key, body, session.userId);
+    return NextResponse.json({ success: true, template });
+  } catch (err) {
+    if (err instanceof NotificationTemplateError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("PUT /api/notifications/templates/[key] error:", err);
+    return NextResponse.json({ error: "Failed to save notification template" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/notifications/templates/[key]?language_id= — Drop a language
+ * variant; that language falls back to the default language, then to the
+ * built-in text
+ */
+export const DELETE = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) => {
+  try {
+    const { key } = await params;
+    const template = await resetNotificationTemplate(key, req.nextUrl.searchParams.get("language_id"));
+    return NextResponse.json({ success: true, template });
+  } catch (err) {
+    if (err instanceof NotificationTemplateError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("DELETE /api/notifications/templates/[key] error:", err);
+    return NextResponse.json({ error: "Failed to reset notification template" }, { status: 500 });
+  }
+});
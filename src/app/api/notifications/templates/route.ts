@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { listNotificationTemplates, NOTIFICATION_PLACEHOLDERS } from "@/lib/notification-templates";
+
+/**
+ * GET /api/notifications/templates — Every system notification template
+ * with its per-language variants, the languages and the placeholders
+ */
+export const GET = withPermission(async () => {
+  try {
+    const { templates, languages } = await listNotificationTemplates();
+    return NextResponse.json({ templates, languages, placeholders: NOTIFICATION_PLACEHOLDERS });
+  } catch (err) {
+    console.error("GET /api/notifications/templates error:", err);
+    return NextResponse.json({ error: "Failed to fetch notification templates" }, { status: 500 });
+  }
+});
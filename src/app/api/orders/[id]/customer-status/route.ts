@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { projectCustomerStatus } from "@/lib/customer-status";
+
+/**
+ * GET /api/orders/[id]/customer-status — What the customer sees for this order
+ *
+ * Order and per-item customer status (from customer_bucket) plus the
+ * order_tracking timeline as the customer app reads it.
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const order = await prisma.orders.findUnique({
+      where: { id: Number(id) || 0 },
+      select: { id: true },
+    });
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await projectCustomerStatus(order.id));
+  } catch (err) {
+    console.error("GET /api/orders/[id]/customer-status error:", err);
+    return NextResponse.json({ error: "Failed to compute customer status" }, { status: 500 });
+  }
+});
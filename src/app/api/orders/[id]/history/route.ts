@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { getStatusHistory, parseHistoryFilters } from "@/lib/item-history";
+
+/**
+ * GET /api/orders/[id]/history — Status change timeline of every item in an order
+ *
+ * Query: user_id, from, to (YYYY-MM-DD, inclusive)
+ */
+export const GET = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const order = await prisma.orders.findUnique({
+      where: { id: Number(id) || 0 },
+      select: { id: true },
+    });
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const history = await getStatusHistory(
+      { orderId: order.id },
+      parseHistoryFilters(req.nextUrl.searchParams)
+    );
+
+    return NextResponse.json({ order_id: order.id, ...history });
+  } catch (err) {
+    console.error("GET /api/orders/[id]/history error:", err);
+    return NextResponse.json({ error: "Failed to fetch order history" }, { status: 500 });
+  }
+});
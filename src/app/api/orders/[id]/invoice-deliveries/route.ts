@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { listInvoiceDeliveries } from "@/lib/invoice-delivery";
+
+/**
+ * GET /api/orders/[id]/invoice-deliveries — Invoice email log for an
+ * order, newest first (failed attempts included)
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    return NextResponse.json({ deliveries: await listInvoiceDeliveries(orderId) });
+  } catch (err) {
+    console.error("GET /api/orders/[id]/invoice-deliveries error:", err);
+    return NextResponse.json({ error: "Failed to fetch invoice deliveries" }, { status: 500 });
+  }
+});
@@ -1,17 +1,22 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
+import { withPermission } from "@/lib/route-guard";
+import { allocateDocumentNumber } from "@/lib/document-numbers";
+import {
+  invoiceBillingAddress,
+  invoiceDocumentUrls,
+  invoicePaymentMethod,
+} from "@/lib/invoices";
 
 /**
- * GET /api/orders/[id]/invoices — Fetch all invoices for an order
+ * GET /api/orders/[id]/invoices — Fetch all invoices for an order,
+ * including credit notes issued by refunds (`type: "credit_note"`)
  */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
@@ -38,7 +43,7 @@ export async function GET(
           ? JSON.parse(inv.billing_address)
           : inv.billing_address
         : null,
-      view_url: `${BACKEND_URL}/v3_0_0-invoice/view?id=${inv.id}`,
+      ...invoiceDocumentUrls(inv.id),
     }));
 
     return NextResponse.json({ invoices: serialized });
@@ -49,7 +54,7 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/orders/[id]/invoices — Generate a new invoice for an order (admin)
@@ -59,10 +64,10 @@ export async function GET(
  *   notes?: string
  * }
  */
-export async function POST(
+export const POST = withPermission(async (
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
@@ -97,18 +102,6 @@ export async function POST(
       );
     }
 
-    // Generate invoice number
-    const lastInvoice = await prisma.invoices.findFirst({
-      orderBy: { id: "desc" },
-      select: { invoice_number: true },
-    });
-    let nextNum = 1;
-    if (lastInvoice?.invoice_number) {
-      const match = lastInvoice.invoice_number.match(/INV-(\d+)/);
-      if (match) nextNum = Number.parseInt(match[1], 10) + 1;
-    }
-    const invoiceNumber = `INV-${String(nextNum).padStart(8, "0")}`;
-
     // Build invoice data based on type
     let subtotal = 0;
     let shippingAmount = 0;
@@ -163,28 +156,8 @@ export async function POST(
       }
     }
 
-    // Build billing address
-    const billingAddress = {
-      first_name: order.address_first_name || "",
-      last_name: order.address_last_name || "",
-      address: order.address || "",
-      building_name: order.building_name || "",
-      floor_number: order.floor_number || "",
-      city: order.city || "",
-      state: order.state || "",
-      country: order.country || "",
-      country_code: order.address_country_code || "",
-      phone_number: order.address_phone_number || "",
-    };
-
-    // Determine payment method
-    const paymentTypeMap: Record<number, string> = {
-      0: "Cash on Delivery",
-      1: "Credit Card",
-      2: "WhishMoney",
-      3: "Wallet",
-    };
-    const paymentMethod = paymentTypeMap[order.payment_type] || `Type ${order.payment_type}`;
+    const billingAddress = invoiceBillingAddress(order);
+    const paymentMethod = invoicePaymentMethod(order);
 
     // Get payment reference
     const transaction = await prisma.payment_transactions.findFirst({
@@ -193,36 +166,54 @@ export async function POST(
       select: { external_id: true },
     });
 
-    // Create the invoice
-    const invoice = await prisma.invoices.create({
-      data: {
-        order_id: orderId,
-        user_id: order.r_user_id,
-        invoice_number: invoiceNumber,
-        type: type as any,
-        subtotal,
-        shipping_amount: shippingAmount,
-        tax_amount: taxAmount,
-        discount_amount: discountAmount,
-        total,
-        currency: "USD",
-        items: items,
-        billing_address: billingAddress,
-        payment_method: paymentMethod,
-        payment_reference: transaction?.external_id || order.payment_id || null,
-        status: "generated",
-        notes: body.notes || null,
-        created_at: new Date(),
-        updated_at: new Date(),
-      },
-    });
+    // Number and insert in one transaction — a failed insert releases the number.
+    // The order lock keeps two requests from both passing the duplicate check.
+    const invoice = await prisma.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+      const duplicate = await tx.invoices.findFirst({
+        where: { order_id: orderId, type: type as any },
+        select: { invoice_number: true },
+      });
+      if (duplicate) return { duplicate: duplicate.invoice_number };
+
+      const created = await tx.invoices.create({
+        data: {
+          order_id: orderId,
+          user_id: order.r_user_id,
+          invoice_number: await allocateDocumentNumber(tx, "invoice"),
+          type: type as any,
+          subtotal,
+          shipping_amount: shippingAmount,
+          tax_amount: taxAmount,
+          discount_amount: discountAmount,
+          total,
+          currency: "USD",
+          items: items,
+          billing_address: billingAddress,
+          payment_method: paymentMethod,
+          payment_reference: transaction?.external_id || order.payment_id || null,
+          status: "generated",
+          notes: body.notes || null,
+          created_at: new Date(),
+          updated_at: new Date(),
+        },
+      });
 
-    // Update order invoice_generated_at
-    await prisma.orders.update({
-      where: { id: orderId },
-      data: { invoice_generated_at: new Date() },
+      // Update order invoice_generated_at
+      await tx.orders.update({
+        where: { id: orderId },
+        data: { invoice_generated_at: new Date() },
+      });
+      return created;
     });
 
+    if ("duplicate" in invoice) {
+      return NextResponse.json(
+        { error: `A ${type} invoice already exists for this order (INV #${invoice.duplicate})` },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       invoice: {
@@ -232,7 +223,7 @@ export async function POST(
         tax_amount: Number(invoice.tax_amount),
         discount_amount: Number(invoice.discount_amount),
         total: Number(invoice.total),
-        view_url: `${BACKEND_URL}/v3_0_0-invoice/view?id=${invoice.id}`,
+        ...invoiceDocumentUrls(invoice.id),
       },
     });
   } catch (err) {
@@ -242,4 +233,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
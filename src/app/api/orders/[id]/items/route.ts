@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { deriveOrderStatusFromItems } from "@/lib/rbac";
+import { withPermission } from "@/lib/route-guard";
+import { transitionItems, WorkflowError, SKIP_HTTP_STATUS } from "@/lib/workflow";
 
 /**
  * PUT /api/orders/[id]/items — Update individual order item
@@ -9,21 +10,31 @@ import { deriveOrderStatusFromItems } from "@/lib/rbac";
  * Body: {
  *   item_id: number,                // order_product ID (required)
  *   workflow_status_key?: string,    // workflow status key (e.g. "processing", "ordered")
+ *   expected_from_status?: string,   // status key the user saw — 409 if the item has moved
  *   tracking_number?: string,
  *   shipping_method?: "air" | "sea",
  *   shipping?: number,              // per-item shipping cost
  *   quantity?: number,
  * }
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
     const body = await req.json();
-    const { item_id, workflow_status_key, tracking_number, shipping_method, shipping, quantity } = body;
+    const {
+      item_id,
+      workflow_status_key,
+      expected_from_status,
+      tracking_number,
+      shipping_method,
+      shipping,
+      quantity,
+    } = body;
 
     if (!item_id) {
       return NextResponse.json({ error: "item_id is required" }, { status: 400 });
@@ -45,25 +56,6 @@ export async function PUT(
     const updateData: any = {};
     const updatedFields: string[] = [];
 
-    // ── Workflow status update ───────────────────────────────────
-    if (workflow_status_key !== undefined) {
-      const workflowStatus = await prisma.cms_order_item_statuses.findFirst({
-        where: { status_key: workflow_status_key },
-      });
-      if (!workflowStatus) {
-        return NextResponse.json({ error: `Invalid workflow status key: ${workflow_status_key}` }, { status: 400 });
-      }
-      updateData.workflow_status_id = workflowStatus.id;
-      updatedFields.push("workflow_status");
-
-      // Also update the legacy status field for terminal states
-      if (workflow_status_key === "cancelled") {
-        updateData.status = 5;
-      } else if (workflow_status_key === "refunded") {
-        updateData.status = 6;
-      }
-    }
-
     if (tracking_number !== undefined) {
       updateData.tracking_number = tracking_number || null;
       updatedFields.push("tracking_number");
@@ -104,6 +96,34 @@ export async function PUT(
       updatedFields.push("quantity");
     }
 
+    // ── Workflow status update ───────────────────────────────────
+    // Runs after the other fields are validated so a rejected field cannot
+    // leave a half-applied change. Role rules, tracking requirement, audit
+    // history and order status derivation all live in the workflow service.
+    let orderStatusUpdated = false;
+    if (workflow_status_key !== undefined) {
+      const result = await transitionItems({
+        itemIds: [item.id],
+        orderId,
+        toStatusKey: workflow_status_key,
+        expectedFromStatus: expected_from_status
+          ? { [item.id]: expected_from_status }
+          : undefined,
+        trackingNumber: tracking_number,
+        note: "Order item edit",
+        actor: session,
+      });
+
+      const skip = result.skipped[0];
+      if (skip && skip.code !== "unchanged") {
+        return NextResponse.json({ error: skip.reason }, { status: SKIP_HTTP_STATUS[skip.code] });
+      }
+      if (result.updated.length) {
+        updatedFields.push("workflow_status");
+        orderStatusUpdated = Object.keys(result.orderStatusChanges).length > 0;
+      }
+    }
+
     if (updatedFields.length === 0) {
       return NextResponse.json(
         { error: "No fields to update. Send at least one of: status, tracking_number, shipping_method, shipping, quantity" },
@@ -112,17 +132,12 @@ export async function PUT(
     }
 
     // Update the item
-    const updatedItem = await prisma.order_products.update({
-      where: { id: Number(item_id) },
-      data: updateData,
-    });
-
-    // ── Auto-derive order status from items (shared logic) ──
-    let orderStatusUpdated = false;
-    if (updatedFields.includes("workflow_status")) {
-      const result = await deriveOrderStatusFromItems(orderId);
-      orderStatusUpdated = result !== null;
-    }
+    const updatedItem = Object.keys(updateData).length
+      ? await prisma.order_products.update({
+          where: { id: Number(item_id) },
+          data: updateData,
+        })
+      : await prisma.order_products.findUniqueOrThrow({ where: { id: Number(item_id) } });
 
     // ── Recalc order shipping_amount from items (excluding cancelled) ─────
     // Also recalc when workflow status changes (item may have been cancelled/uncancelled)
@@ -218,10 +233,13 @@ export async function PUT(
       order_total: freshOrder?.total,
     });
   } catch (err) {
+    if (err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("PUT /api/orders/[id]/items error:", err);
     return NextResponse.json(
       { error: "Failed to update order item" },
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  applyOrderLineEdit,
+  listOrderEdits,
+  OrderEditError,
+  parseOrderLineEdit,
+} from "@/lib/order-editing";
+import { WorkflowError } from "@/lib/workflow";
+
+/**
+ * GET /api/orders/[id]/lines — Line edit log for an order, newest first
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    return NextResponse.json({ edits: await listOrderEdits(orderId) });
+  } catch (err) {
+    console.error("GET /api/orders/[id]/lines error:", err);
+    return NextResponse.json({ error: "Failed to fetch order edits" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/orders/[id]/lines — Add, remove or replace an order line
+ *
+ * Body: {
+ *   action: "add" | "remove" | "replace",
+ *   product_id?: number,        // add (required), replace (defaults to the line's product)
+ *   variant_id?: number,        // product_variant ID — required when the product has variants
+ *   item_id?: number,           // remove / replace
+ *   quantity?: number,
+ *   unit_price?: number,        // overrides the catalog price
+ *   shipping_method?: "air" | "sea", shipping?: number,   // add only
+ *   note?: string,
+ *   notify_customer?: boolean,  // default true
+ * }
+ *
+ * Subtotal, quantity, shipping and total are recalculated; the response
+ * carries the new totals. A removed line moves to cancelled. Edits that
+ * would change a paid product or shipping amount are refused (409).
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const result = await applyOrderLineEdit({
+      orderId,
+      edit: parseOrderLineEdit(body),
+      actor: session,
+      note: typeof body.note === "string" ? body.note : null,
+      notifyCustomer: body.notify_customer !== false,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof OrderEditError || err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/orders/[id]/lines error:", err);
+    return NextResponse.json({ error: "Failed to edit order" }, { status: 500 });
+  }
+});
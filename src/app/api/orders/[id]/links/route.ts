@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { listOrderLinks } from "@/lib/order-split-merge";
+
+/**
+ * GET /api/orders/[id]/links — Splits and merges involving this order,
+ * newest first, with the related order's invoices
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    return NextResponse.json({ links: await listOrderLinks(orderId) });
+  } catch (err) {
+    console.error("GET /api/orders/[id]/links error:", err);
+    return NextResponse.json({ error: "Failed to fetch linked orders" }, { status: 500 });
+  }
+});
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { listMergeCandidates, mergeOrders, OrderSplitMergeError } from "@/lib/order-split-merge";
+
+/**
+ * GET /api/orders/[id]/merge — The customer's other open orders, each with
+ * `blockers` explaining why it cannot be merged into this one (empty if it can)
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    return NextResponse.json({ candidates: await listMergeCandidates(orderId) });
+  } catch (err) {
+    if (err instanceof OrderSplitMergeError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("GET /api/orders/[id]/merge error:", err);
+    return NextResponse.json({ error: "Failed to fetch merge candidates" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/orders/[id]/merge — Merge another order into this one
+ *
+ * Body: {
+ *   source_order_id: number,    // same customer, address, currency and payment state; no refunds
+ *   note?: string,
+ *   notify_customer?: boolean,  // default true
+ * }
+ *
+ * The source order's items, amounts and coupon usage move here. The
+ * source is zeroed and cancelled.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const sourceOrderId = Number(body.source_order_id);
+    if (!Number.isInteger(sourceOrderId) || sourceOrderId <= 0) {
+      return NextResponse.json({ error: "source_order_id is required" }, { status: 400 });
+    }
+
+    const result = await mergeOrders({
+      targetOrderId: orderId,
+      sourceOrderId,
+      actor: session,
+      note: typeof body.note === "string" ? body.note : null,
+      notifyCustomer: body.notify_customer !== false,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof OrderSplitMergeError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/orders/[id]/merge error:", err);
+    return NextResponse.json({ error: "Failed to merge orders" }, { status: 500 });
+  }
+});
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { WorkflowError } from "@/lib/workflow";
+import {
+  createItemRefund,
+  getRefundSummary,
+  previewItemRefund,
+  RefundError,
+} from "@/lib/refunds";
+
+/**
+ * GET /api/orders/[id]/refunds — Refund ledger, amounts paid / refundable
+ * and per-item refundable quantities
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getRefundSummary(Number(id) || 0));
+  } catch (err) {
+    if (err instanceof RefundError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("GET /api/orders/[id]/refunds error:", err);
+    return NextResponse.json({ error: "Failed to fetch refunds" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/orders/[id]/refunds — Refund item quantities
+ *
+ * Body: {
+ *   items: { item_id: number, quantity: number }[],
+ *   notes?: string,
+ *   dry_run?: boolean,   // price the refund without recording it
+ * }
+ *
+ * Items refunded in full move to `refunded` in the same transaction.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id) || 0;
+    const body = await req.json();
+    const lines = Array.isArray(body.items) ? body.items : [];
+
+    if (body.dry_run) {
+      return NextResponse.json(await previewItemRefund(orderId, lines));
+    }
+
+    const result = await createItemRefund({
+      orderId,
+      lines,
+      notes: typeof body.notes === "string" ? body.notes : null,
+      actor: session,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof RefundError || err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/orders/[id]/refunds error:", err);
+    return NextResponse.json({ error: "Failed to process refund" }, { status: 500 });
+  }
+});
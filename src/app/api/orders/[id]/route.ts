@@ -1,8 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession } from "@/lib/auth";
 import { SHIPPING_STATUS, PAYMENT_TYPES } from "@/lib/order-constants";
+import { withPermission } from "@/lib/route-guard";
 
 const STATUS_COLORS: Record<string, string> = {
   processing: "yellow",
@@ -19,10 +19,11 @@ const STATUS_COLORS: Record<string, string> = {
 /**
  * GET /api/orders/[id] — Full order detail with products, tracking, transactions
  */
-export async function GET(
+export const GET = withPermission(async (
   _req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
@@ -30,11 +31,6 @@ export async function GET(
       return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
     }
 
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
-
     // ── Fetch order ────────────────────────────────────────────────
     const order = await prisma.orders.findUnique({
       where: { id: orderId },
@@ -308,15 +304,15 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/orders/[id] — Update admin notes, is_paid toggle
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
@@ -345,4 +341,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { getOrderSettlements, ShippingPaymentError } from "@/lib/shipping-payments";
+
+/**
+ * GET /api/orders/[id]/settlements — Product and shipping payments as two
+ * settlements: amount due, paid transactions, outstanding balance, and for
+ * shipping when the price was confirmed and how often the customer was
+ * reminded
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    return NextResponse.json(await getOrderSettlements(orderId));
+  } catch (err) {
+    if (err instanceof ShippingPaymentError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("GET /api/orders/[id]/settlements error:", err);
+    return NextResponse.json({ error: "Failed to fetch settlements" }, { status: 500 });
+  }
+});
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 const BACKEND_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
@@ -14,10 +15,10 @@ const BACKEND_URL =
  *
  * Returns: { air: number, sea: number, selected_method: string }
  */
-export async function GET(
+export const GET = withPermission(async (
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
@@ -97,4 +98,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  applyShippingQuote,
+  getShippingQuote,
+  parseQuoteSelections,
+  ShippingQuoteError,
+} from "@/lib/shipping-quotes";
+
+/**
+ * GET /api/orders/[id]/shipping-quote — Per-item air and sea shipping and
+ * tax, computed from product dimensions and category-inherited rates
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    return NextResponse.json(await getShippingQuote(orderId));
+  } catch (err) {
+    if (err instanceof ShippingQuoteError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("GET /api/orders/[id]/shipping-quote error:", err);
+    return NextResponse.json({ error: "Failed to build shipping quote" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/orders/[id]/shipping-quote — Apply the quote with per-item methods
+ *
+ * Body: {
+ *   items: { item_id: number, method: "air" | "sea" }[],  // lines not listed keep their method
+ *   confirm?: boolean,   // also set shipping_status = 1 and notify the customer
+ * }
+ *
+ * Writes each line's method and costs, then the order's shipping_amount,
+ * tax_amount, shipping_method and total.
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const result = await applyShippingQuote({
+      orderId,
+      selections: parseQuoteSelections(body),
+      confirm: body.confirm === true,
+      confirmedBy: session.userId,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof ShippingQuoteError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("PUT /api/orders/[id]/shipping-quote error:", err);
+    return NextResponse.json({ error: "Failed to apply shipping quote" }, { status: 500 });
+  }
+});
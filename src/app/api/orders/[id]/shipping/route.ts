@@ -1,9 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
+import { withPermission } from "@/lib/route-guard";
+import { notifyOrderCustomer } from "@/lib/customer-notifications";
+import { clearShippingConfirmation, recordShippingConfirmation } from "@/lib/shipping-payments";
 
 /**
  * PUT /api/orders/[id]/shipping — Admin updates shipping details and/or shipping status
@@ -15,13 +15,15 @@ const BACKEND_URL =
  *   shipping_status?: 0 | 1    // explicitly set shipping status (cannot set to 2, that's user payment)
  * }
  *
- * If shipping_status = 1 is set (Confirm shipping price), we also notify the user.
+ * If shipping_status = 1 is set (Confirm shipping price), we also notify the user
+ * and start the unpaid-shipping clock; resetting to 0 stops it.
  * Editing amounts alone does NOT change shipping_status.
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
@@ -80,57 +82,23 @@ export async function PUT(
     data.total = subtotal + shipping + tax - discount;
 
     await prisma.orders.update({ where: { id: orderId }, data });
+    if (isConfirmingPrice) {
+      await recordShippingConfirmation(orderId, session.userId);
+    } else if (requestedShippingStatus === 0 && order.shipping_status === 1) {
+      await clearShippingConfirmation(orderId);
+    }
 
     // Only send notification when admin confirms shipping price (0 → 1)
     if (isConfirmingPrice) {
-      try {
-        const user = await prisma.users.findUnique({
-          where: { id: order.r_user_id },
-          select: { mobile_token: true },
-        });
-
-        const shippingCost = data.shipping_amount ?? order.shipping_amount;
-
-        if (user?.mobile_token) {
-          const pushRes = await fetch(`${BACKEND_URL}/v3_0_0-notification/send-push`, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              fcm_token: user.mobile_token,
-              title: "🚚 Shipping Cost Confirmed",
-              body: `Your shipping cost has been confirmed! Pay $${Number(shippingCost).toFixed(2)} to proceed.`,
-              data: {
-                type: "shipping",
-                notification_type: "order",
-                order_id: String(orderId),
-                target_id: String(orderId),
-                click_action: "FLUTTER_NOTIFICATION_CLICK",
-              },
-            }),
-          });
-          if (!pushRes.ok) {
-            const errText = await pushRes.text().catch(() => "");
-            console.error(`FCM push failed [${pushRes.status}]:`, errText);
-          }
-        }
-
-        await prisma.notifications.create({
-          data: {
-            r_user_id: order.r_user_id,
-            notification_type: "shipping",
-            subject: "🚚 Shipping Cost Confirmed",
-            body: JSON.stringify({
-              message: `Your shipping cost has been confirmed! Pay $${Number(shippingCost).toFixed(2)} to proceed.`,
-              order_id: orderId,
-              shipping_amount: shippingCost,
-            }),
-            row_id: orderId,
-            created_by: 1,
-          },
-        });
-      } catch (notifErr) {
-        console.warn("Shipping notification failed (non-fatal):", notifErr);
-      }
+      const shippingCost = data.shipping_amount ?? order.shipping_amount;
+      await notifyOrderCustomer({
+        userId: order.r_user_id,
+        orderId,
+        type: "shipping",
+        template: "shipping_confirmed",
+        values: { shipping_amount: Number(shippingCost).toFixed(2) },
+        details: { shipping_amount: shippingCost },
+      });
     }
 
     return NextResponse.json({
@@ -147,4 +115,4 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
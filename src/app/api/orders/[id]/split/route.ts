@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { OrderSplitMergeError, splitOrder } from "@/lib/order-split-merge";
+
+/**
+ * POST /api/orders/[id]/split — Move selected items into a new order
+ *
+ * Body: {
+ *   item_ids: number[],         // order_products IDs; at least one item must stay
+ *   note?: string,
+ *   notify_customer?: boolean,  // default true
+ * }
+ *
+ * The new order copies the customer, address and payment fields. It gets
+ * a prorated share of subtotal, shipping, tax and discount, and the
+ * original keeps the rest.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const orderId = Number(id);
+    if (!orderId) {
+      return NextResponse.json({ error: "Invalid order ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const itemIds = Array.isArray(body.item_ids) ? body.item_ids.map(Number) : [];
+    if (!itemIds.length || itemIds.some((n: number) => !Number.isInteger(n) || n <= 0)) {
+      return NextResponse.json({ error: "item_ids must be a non-empty array of item IDs" }, { status: 400 });
+    }
+
+    const result = await splitOrder({
+      orderId,
+      itemIds,
+      actor: session,
+      note: typeof body.note === "string" ? body.note : null,
+      notifyCustomer: body.notify_customer !== false,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof OrderSplitMergeError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/orders/[id]/split error:", err);
+    return NextResponse.json({ error: "Failed to split order" }, { status: 500 });
+  }
+});
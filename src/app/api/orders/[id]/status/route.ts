@@ -1,141 +1,99 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
+import { withPermission } from "@/lib/route-guard";
+import { transitionItems, WorkflowError } from "@/lib/workflow";
 
 /**
- * PUT /api/orders/[id]/status — Bulk-update all non-terminal order items to a new workflow status
+ * PUT /api/orders/[id]/status — Move all non-terminal order items to a new workflow status
+ *
+ * Body: {
+ *   workflow_status_key: string,  // e.g. "ordered", "shipped_to_wh", etc.
+ *   tracking_number?: string,     // applied to every moved item
+ * }
  *
- * Body: { workflow_status_key: string }   e.g. "ordered", "shipped_to_wh", etc.
+ * Goes through the shared workflow service, so each item is checked against
+ * the caller's role transitions; items that cannot move are returned in
+ * `skipped`. The customer is notified per the notification rules when the
+ * order's customer-visible status changes.
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
-  { params }: { params: Promise<{ id: string }> }
-) {
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
   try {
     const { id } = await params;
     const orderId = Number(id);
     const body = await req.json();
-    const { workflow_status_key } = body;
+    const { workflow_status_key, tracking_number } = body;
 
     if (!workflow_status_key) {
       return NextResponse.json({ error: "workflow_status_key is required" }, { status: 400 });
     }
 
-    // Look up the workflow status
-    const newStatus = await prisma.cms_order_item_statuses.findFirst({
-      where: { status_key: workflow_status_key },
-    });
-
-    if (!newStatus) {
-      return NextResponse.json({ error: `Invalid workflow status key: ${workflow_status_key}` }, { status: 400 });
-    }
-
     // Get current order
     const order = await prisma.orders.findUnique({
       where: { id: orderId },
-      select: { id: true, r_user_id: true },
+      select: { id: true },
     });
 
     if (!order) {
       return NextResponse.json({ error: "Order not found" }, { status: 404 });
     }
 
-    // Find terminal statuses (cancelled, refunded) to exclude
+    // Terminal items (cancelled, refunded) are left alone
     const terminalStatuses = await prisma.cms_order_item_statuses.findMany({
       where: { is_terminal: true },
+      select: { id: true },
     });
     const terminalIds = terminalStatuses.map((s) => s.id);
 
-    // Update all non-terminal items to the new workflow status
-    const updateResult = await prisma.order_products.updateMany({
+    const items = await prisma.order_products.findMany({
       where: {
         r_order_id: orderId,
         ...(terminalIds.length > 0
-          ? { workflow_status_id: { notIn: terminalIds } }
+          ? { OR: [{ workflow_status_id: null }, { workflow_status_id: { notIn: terminalIds } }] }
           : {}),
       },
-      data: { workflow_status_id: newStatus.id },
+      select: { id: true },
     });
 
-    // Create tracking entry
-    await prisma.order_tracking.create({
-      data: {
-        r_order_id: orderId,
-        r_status_id: newStatus.status_order,
-        track_date: new Date(),
-      },
-    });
-
-    // Update order timestamp
-    await prisma.orders.update({
-      where: { id: orderId },
-      data: { updated_at: new Date() },
+    const result = await transitionItems({
+      itemIds: items.map((i) => i.id),
+      orderId,
+      toStatusKey: workflow_status_key,
+      trackingNumber: tracking_number || undefined,
+      note: "Order-level status change",
+      actor: session,
     });
 
-    // Send notification via PHP backend
-    try {
-      const statusLabel = newStatus.status_label;
-      const user = await prisma.users.findUnique({
-        where: { id: order.r_user_id },
-        select: { mobile_token: true },
-      });
-
-      if (user?.mobile_token) {
-        const pushRes = await fetch(`${BACKEND_URL}/v3_0_0-notification/send-push`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            fcm_token: user.mobile_token,
-            title: `Order #${orderId} ${statusLabel}`,
-            body: `Your order has been ${statusLabel.toLowerCase()}.`,
-            data: {
-              type: "order",
-              notification_type: "order",
-              order_id: String(orderId),
-              target_id: String(orderId),
-              click_action: "FLUTTER_NOTIFICATION_CLICK",
-            },
-          }),
-        });
-        if (!pushRes.ok) {
-          const errText = await pushRes.text().catch(() => "");
-          console.error(`FCM push failed [${pushRes.status}]:`, errText);
-        }
-      }
+    const skipped = result.skipped
+      .filter((s) => s.code !== "unchanged")
+      .map(({ id, reason }) => ({ id, reason }));
 
-      // Create notification record
-      await prisma.notifications.create({
-        data: {
-          r_user_id: order.r_user_id,
-          notification_type: "order",
-          subject: `Order #${orderId} ${statusLabel}`,
-          body: JSON.stringify({
-            message: `Your order has been ${statusLabel.toLowerCase()}.`,
-            order_id: orderId,
-            workflow_status_key: workflow_status_key,
-          }),
-          row_id: orderId,
-          created_by: 1,
-        },
-      });
-    } catch (notifErr) {
-      console.warn("Notification send failed (non-fatal):", notifErr);
+    if (result.updated.length === 0) {
+      return NextResponse.json(
+        { error: skipped[0]?.reason || "No items could be transitioned", skipped },
+        { status: 400 }
+      );
     }
 
     return NextResponse.json({
       success: true,
       workflow_status_key: workflow_status_key,
-      workflow_status_label: newStatus.status_label,
-      items_updated: updateResult.count,
+      workflow_status_label: result.targetStatus.label,
+      items_updated: result.updated.length,
+      skipped,
+      order_status_changes: result.orderStatusChanges,
     });
   } catch (err) {
+    if (err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("PUT /api/orders/[id]/status error:", err);
     return NextResponse.json(
       { error: "Failed to update status" },
       { status: 500 }
     );
   }
-}
+});
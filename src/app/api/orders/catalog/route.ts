@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { searchOrderCatalog } from "@/lib/order-editing";
+
+/**
+ * GET /api/orders/catalog — Products and their active variants, priced
+ * for an order line, for the order line editor
+ *
+ * Query:
+ *   search      product code (CN-… or digits) or name
+ *   product_id  one product (e.g. to swap a line's variant)
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const productId = Number(sp.get("product_id")) || undefined;
+    const products = await searchOrderCatalog({
+      search: sp.get("search") || "",
+      productId,
+    });
+    return NextResponse.json({ products });
+  } catch (err) {
+    console.error("GET /api/orders/catalog error:", err);
+    return NextResponse.json({ error: "Failed to search products" }, { status: 500 });
+  }
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { getStatusHistory, parseHistoryFilters } from "@/lib/item-history";
+
+/**
+ * GET /api/orders/items/[itemId]/history — Status change timeline of one item
+ *
+ * Query: user_id, from, to (YYYY-MM-DD, inclusive)
+ */
+export const GET = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ itemId: string }> }
+) => {
+  try {
+    const { itemId } = await params;
+    const item = await prisma.order_products.findUnique({
+      where: { id: Number(itemId) || 0 },
+      select: { id: true, r_order_id: true, product_name: true },
+    });
+    if (!item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    const history = await getStatusHistory(
+      { itemId: item.id },
+      parseHistoryFilters(req.nextUrl.searchParams)
+    );
+
+    return NextResponse.json({
+      item_id: item.id,
+      order_id: item.r_order_id,
+      product_name: item.product_name,
+      ...history,
+    });
+  } catch (err) {
+    console.error("GET /api/orders/items/[itemId]/history error:", err);
+    return NextResponse.json({ error: "Failed to fetch item history" }, { status: 500 });
+  }
+});
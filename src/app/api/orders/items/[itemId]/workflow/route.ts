@@ -1,22 +1,18 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession } from "@/lib/auth";
-import { hasPermission, getAllowedTransitions, deriveOrderStatusFromItems } from "@/lib/rbac";
+import { getAllowedTransitions } from "@/lib/rbac";
+import { withPermission } from "@/lib/route-guard";
+import { transitionItems, WorkflowError, SKIP_HTTP_STATUS } from "@/lib/workflow";
 
 /**
  * GET /api/orders/items/[itemId]/workflow — Get allowed transitions for this item
  */
-export async function GET(
+export const GET = withPermission(async (
   req: NextRequest,
-  { params }: { params: Promise<{ itemId: string }> }
-) {
+  { params }: { params: Promise<{ itemId: string }> },
+  session
+) => {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
-
     const { itemId } = await params;
     const item = await prisma.order_products.findUnique({
       where: { id: Number(itemId) },
@@ -43,139 +39,69 @@ export async function GET(
     console.error("GET /api/orders/items/[itemId]/workflow error:", err);
     return NextResponse.json({ error: "Failed to get transitions" }, { status: 500 });
   }
-}
+});
 
 /**
  * PUT /api/orders/items/[itemId]/workflow — Change workflow status of an item
  *
  * Body: {
  *   to_status_key: string,        // e.g. "ordered", "cancelled"
+ *   expected_from_status?: string, // status key the user saw — 409 if the item has moved
  *   tracking_number?: string,     // required if transition requires it
  *   note?: string,                // optional note for audit trail
  * }
  */
-export async function PUT(
+export const PUT = withPermission(async (
   req: NextRequest,
-  { params }: { params: Promise<{ itemId: string }> }
-) {
+  { params }: { params: Promise<{ itemId: string }> },
+  session
+) => {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
-
-    if (!hasPermission(session.permissions, "action.orders.item.status.change")) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const { itemId } = await params;
     const body = await req.json();
-    const { to_status_key, tracking_number, note } = body;
+    const { to_status_key, expected_from_status, tracking_number, note } = body;
 
     if (!to_status_key) {
       return NextResponse.json({ error: "to_status_key is required" }, { status: 400 });
     }
 
-    // Check terminal-specific permissions
-    if (to_status_key === "cancelled" && !hasPermission(session.permissions, "action.orders.item.cancel")) {
-      return NextResponse.json({ error: "You do not have permission to cancel items" }, { status: 403 });
-    }
-    if (to_status_key === "refunded" && !hasPermission(session.permissions, "action.orders.item.refund")) {
-      return NextResponse.json({ error: "You do not have permission to refund items" }, { status: 403 });
-    }
-
-    const item = await prisma.order_products.findUnique({
-      where: { id: Number(itemId) },
+    const result = await transitionItems({
+      itemIds: [Number(itemId)],
+      toStatusKey: to_status_key,
+      expectedFromStatus: expected_from_status
+        ? { [Number(itemId)]: expected_from_status }
+        : undefined,
+      trackingNumber: tracking_number,
+      note,
+      actor: session,
     });
 
-    if (!item) {
-      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    const skip = result.skipped[0];
+    if (skip) {
+      return NextResponse.json({ error: skip.reason }, { status: SKIP_HTTP_STATUS[skip.code] });
     }
 
-    if (!item.workflow_status_id) {
-      return NextResponse.json({ error: "Item has no workflow status assigned" }, { status: 400 });
-    }
-
-    // Verify the transition is allowed for this role
-    const transitions = await getAllowedTransitions(session.roleKey, item.workflow_status_id);
-    const target = transitions.find((t) => t.toStatusKey === to_status_key);
-
-    if (!target) {
-      return NextResponse.json(
-        { error: `Transition to '${to_status_key}' is not allowed for your role from the current status` },
-        { status: 403 }
-      );
-    }
-
-    // Check tracking number requirement
-    if (target.requiresTracking && !tracking_number && !item.tracking_number) {
-      return NextResponse.json(
-        { error: "Tracking number is required for this transition" },
-        { status: 400 }
-      );
-    }
-
-    // Build update
-    const updateData: any = {
-      workflow_status_id: target.toStatusId,
-      workflow_status_updated_at: new Date(),
-      workflow_status_updated_by: session.userId,
-    };
-
-    if (tracking_number !== undefined) {
-      updateData.tracking_number = tracking_number || null;
-    }
-
-    // Also update the legacy status field for cancelled/refunded
-    if (to_status_key === "cancelled") {
-      updateData.status = 5;
-    } else if (to_status_key === "refunded") {
-      updateData.status = 6;
-    }
-
-    // Execute update
-    const updatedItem = await prisma.order_products.update({
-      where: { id: Number(itemId) },
-      data: updateData,
-    });
-
-    // Write audit trail
-    await prisma.order_product_status_history.create({
-      data: {
-        order_product_id: item.id,
-        order_id: item.r_order_id,
-        from_status_id: item.workflow_status_id,
-        to_status_id: target.toStatusId,
-        changed_by_user_id: session.userId,
-        tracking_number_snapshot: updatedItem.tracking_number || null,
-        note: note || null,
-        changed_at: new Date(),
-      },
-    });
-
-    // Auto-derive order status (handles all-cancelled/all-refunded)
-    const orderStatusUpdate = await deriveOrderStatusFromItems(item.r_order_id);
-
-    // Get the new status label for response
-    const newStatus = await prisma.cms_order_item_statuses.findUnique({
-      where: { id: target.toStatusId },
-    });
+    const updated = result.updated[0];
+    const orderStatusUpdate = result.orderStatusChanges[updated.orderId] ?? null;
 
     return NextResponse.json({
       success: true,
       item: {
-        id: updatedItem.id,
-        order_id: updatedItem.r_order_id,
-        workflow_status_key: newStatus?.status_key,
-        workflow_status_label: newStatus?.status_label,
-        is_terminal: newStatus?.is_terminal === true,
-        tracking_number: updatedItem.tracking_number,
+        id: updated.id,
+        order_id: updated.orderId,
+        workflow_status_key: result.targetStatus.key,
+        workflow_status_label: result.targetStatus.label,
+        is_terminal: result.targetStatus.isTerminal,
+        tracking_number: updated.trackingNumber,
       },
       order_status_changed: orderStatusUpdate !== null,
       order_new_status: orderStatusUpdate,
     });
   } catch (err) {
+    if (err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
     console.error("PUT /api/orders/items/[itemId]/workflow error:", err);
     return NextResponse.json({ error: "Failed to update workflow status" }, { status: 500 });
   }
-}
+});
@@ -1,8 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession } from "@/lib/auth";
-import { hasPermission, getAllowedTransitions } from "@/lib/rbac";
+import { getAllowedTransitions } from "@/lib/rbac";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/orders/items — Order Item Master List
@@ -11,17 +11,8 @@ import { hasPermission, getAllowedTransitions } from "@/lib/rbac";
  *   page, limit, search, workflow_status, tracking_number,
  *   order_id, group_by_order (1|0), sort_by, sort_dir
  */
-export async function GET(req: NextRequest) {
+export const GET = withPermission(async (req: NextRequest, _ctx, session) => {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
-
-    if (!hasPermission(session.permissions, "page.orders.item_master_list")) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const sp = req.nextUrl.searchParams;
     const limit = Math.min(100, Math.max(1, Number(sp.get("limit")) || 50));
     const cursor = sp.get("cursor");
@@ -266,4 +257,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,8 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession } from "@/lib/auth";
 import { SHIPPING_STATUS, PAYMENT_TYPES } from "@/lib/order-constants";
+import { withPermission } from "@/lib/route-guard";
+import { shippingConfirmationsFor, shippingUnpaidWhere } from "@/lib/shipping-payments";
 
 /**
  * Role-based order visibility:
@@ -23,15 +24,11 @@ const ROLE_ORDER_VISIBLE_STATUSES: Record<string, string[]> = {
  *   shipping_method, payment_type, date_from, date_to,
  *   sort_by (created_at|total|status), sort_dir (asc|desc),
  *   fully_paid_first (1|0), customer_id,
+ *   shipping_unpaid_days (shipping confirmed, still unpaid, for at least N days),
  *   cursor (id of last order, for infinite-scroll mode)
  */
-export async function GET(req: NextRequest) {
+export const GET = withPermission(async (req: NextRequest, _ctx, session) => {
   try {
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
-    }
-
     const sp = req.nextUrl.searchParams;
 
     const limit = Math.min(100, Math.max(1, Number(sp.get("limit")) || 25));
@@ -51,6 +48,7 @@ export async function GET(req: NextRequest) {
     const sortBy = sp.get("sort_by") || "created_at";
     const sortDir = sp.get("sort_dir") === "asc" ? "asc" : "desc";
     const fullyPaidFirst = sp.get("fully_paid_first") === "1";
+    const shippingUnpaidDays = sp.get("shipping_unpaid_days");
 
     // ── Role-based order visibility ─────────────────────────────────
     // Warehouse roles only see orders that have at least one non-terminal
@@ -119,6 +117,11 @@ export async function GET(req: NextRequest) {
       where.shipping_status = Number(shippingStatus);
     }
 
+    if (shippingUnpaidDays !== null && shippingUnpaidDays !== "") {
+      const days = Math.max(0, Math.floor(Number(shippingUnpaidDays)) || 0);
+      where.AND.push(shippingUnpaidWhere(days));
+    }
+
     if (shippingMethod === "air" || shippingMethod === "sea") {
       where.shipping_method = shippingMethod;
     }
@@ -230,6 +233,9 @@ export async function GET(req: NextRequest) {
       itemCounts.map((ic) => [ic.r_order_id, ic._count.id])
     );
 
+    // When Ready-to-Pay orders were confirmed, for the "waiting N days" hint
+    const shippingConfirmations = await shippingConfirmationsFor(orders);
+
     // Fetch all workflow statuses for lookup
     const allStatuses = await prisma.cms_order_item_statuses.findMany({
       where: { is_active: true },
@@ -309,6 +315,7 @@ export async function GET(req: NextRequest) {
         shipping_status_color: SHIPPING_STATUS[o.shipping_status]?.color || "gray",
         payment_type_label: PAYMENT_TYPES[o.payment_type] || `Type ${o.payment_type}`,
         customer_name: `${o.address_first_name} ${o.address_last_name}`.trim(),
+        shipping_confirmation: shippingConfirmations.get(o.id) ?? null,
       };
     });
 
@@ -396,4 +403,4 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
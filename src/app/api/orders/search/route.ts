@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 const ORDER_STATUS_LABELS: Record<number, string> = {
   0: "Pending",
@@ -18,7 +19,7 @@ const ORDER_STATUS_LABELS: Record<number, string> = {
  * GET /api/orders/search?search=...&limit=8
  * Lightweight order search for the notification entity picker.
  */
-export async function GET(req: NextRequest) {
+export const GET = withPermission(async (req: NextRequest) => {
   try {
     const sp = req.nextUrl.searchParams;
     const search = sp.get("search")?.trim() || "";
@@ -67,4 +68,4 @@ export async function GET(req: NextRequest) {
     console.error("GET /api/orders/search error:", err);
     return NextResponse.json({ error: "Failed to search orders" }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { sendShippingReminders, ShippingPaymentError } from "@/lib/shipping-payments";
+
+/**
+ * POST /api/orders/shipping-reminders — Remind customers to pay confirmed shipping
+ *
+ * Body: { order_ids: number[] }   // up to 200
+ *
+ * Orders that are not Ready to Pay, or were reminded in the last 24 hours,
+ * are skipped. Returns { sent: number[], skipped: [{ order_id, reason }] }.
+ */
+export const POST = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const body = await req.json();
+    const result = await sendShippingReminders({ orderIds: body.order_ids, actor: session });
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof ShippingPaymentError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/orders/shipping-reminders error:", err);
+    return NextResponse.json({ error: "Failed to send shipping reminders" }, { status: 500 });
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { PaymentReconcileError, reconcileTransaction, type ReconcileAction } from "@/lib/payments";
+
+/**
+ * POST /api/payments/[id]/reconcile — Manually reconcile a transaction
+ *
+ * Body: {
+ *   action: "mark_paid" | "mark_failed" | "link_order" | "acknowledge",
+ *   order_id?: number,   // link_order
+ *   note: string,        // required — kept in the audit trail
+ * }
+ *
+ * mark_paid also marks the order paid (or its shipping, for shipping
+ * payments). Returns the updated transaction detail.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const transactionId = Number(id);
+    if (!transactionId) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const result = await reconcileTransaction({
+      transactionId,
+      action: body.action as ReconcileAction,
+      orderId: body.order_id ?? null,
+      note: typeof body.note === "string" ? body.note : "",
+      actor: session,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    if (err instanceof PaymentReconcileError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/payments/[id]/reconcile error:", err);
+    return NextResponse.json({ error: "Failed to reconcile transaction" }, { status: 500 });
+  }
+});
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { getPaymentTransaction, PaymentReconcileError } from "@/lib/payments";
+
+/**
+ * GET /api/payments/[id] — One transaction with its raw gateway payloads,
+ * the order's other transactions and the reconciliation log
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const transactionId = Number(id);
+    if (!transactionId) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    return NextResponse.json(await getPaymentTransaction(transactionId));
+  } catch (err) {
+    if (err instanceof PaymentReconcileError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("GET /api/payments/[id] error:", err);
+    return NextResponse.json({ error: "Failed to fetch transaction" }, { status: 500 });
+  }
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { listPaymentTransactions } from "@/lib/payments";
+
+/**
+ * GET /api/payments — Payment transactions with reconciliation flags
+ *
+ * Query: page, limit, gateway, status, date_from, date_to (YYYY-MM-DD),
+ *        search (external ID, transaction ID or order ID),
+ *        flagged=1 (only transactions with unacknowledged flags)
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const result = await listPaymentTransactions({
+      gateway: sp.get("gateway"),
+      status: sp.get("status"),
+      dateFrom: sp.get("date_from"),
+      dateTo: sp.get("date_to"),
+      search: sp.get("search"),
+      flagged: sp.get("flagged") === "1",
+      page: Math.max(1, Number(sp.get("page")) || 1),
+      limit: Math.min(100, Math.max(1, Number(sp.get("limit")) || 25)),
+    });
+
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("GET /api/payments error:", err);
+    return NextResponse.json({ error: "Failed to fetch payments" }, { status: 500 });
+  }
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  HTML_HEADERS,
+  LABEL_LAYOUTS,
+  MAX_PRINT_ITEMS,
+  SYMBOLOGIES,
+  loadPrintableItems,
+  parseIdList,
+  renderItemLabels,
+  type LabelLayout,
+  type Symbology,
+} from "@/lib/print-documents";
+
+/**
+ * GET /api/print/labels — Printable item labels (HTML, opens the print dialog)
+ *
+ * Query:
+ *   item_ids   comma-separated order_products ids   (or)
+ *   order_id   every item of one order
+ *   symbology  code128 (default) | qrcode
+ *   layout     thermal (default, 100×50 mm per label) | a4 (3×8 sticker sheet)
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const itemIds = parseIdList(sp.get("item_ids"));
+    const orderId = Number(sp.get("order_id")) || 0;
+    const symbology = (sp.get("symbology") || "code128") as Symbology;
+    const layout = (sp.get("layout") || "thermal") as LabelLayout;
+
+    if (!itemIds.length && !orderId) {
+      return NextResponse.json({ error: "item_ids or order_id is required" }, { status: 400 });
+    }
+    if (itemIds.length > MAX_PRINT_ITEMS) {
+      return NextResponse.json(
+        { error: `Print at most ${MAX_PRINT_ITEMS} labels at a time` },
+        { status: 400 }
+      );
+    }
+    if (!SYMBOLOGIES.includes(symbology) || !LABEL_LAYOUTS.includes(layout)) {
+      return NextResponse.json({ error: "Invalid symbology or layout" }, { status: 400 });
+    }
+
+    const { items, truncated } = await loadPrintableItems(
+      orderId ? { orderId } : { itemIds }
+    );
+    if (!items.length) {
+      return NextResponse.json({ error: "No items found" }, { status: 404 });
+    }
+    if (truncated) {
+      return NextResponse.json(
+        { error: `Print at most ${MAX_PRINT_ITEMS} labels at a time` },
+        { status: 400 }
+      );
+    }
+
+    return new NextResponse(renderItemLabels(items, { symbology, layout }), {
+      headers: HTML_HEADERS,
+    });
+  } catch (err) {
+    console.error("GET /api/print/labels error:", err);
+    return NextResponse.json({ error: "Failed to generate labels" }, { status: 500 });
+  }
+});
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { batchCode } from "@/lib/shipments";
+import {
+  HTML_HEADERS,
+  MAX_PRINT_ITEMS,
+  groupItemsByOrder,
+  loadPrintableItems,
+  parseIdList,
+  renderPackingSlip,
+  type PackingSlip,
+} from "@/lib/print-documents";
+
+/**
+ * GET /api/print/packing-slip — Printable packing slip (HTML, opens the print dialog)
+ *
+ * Query:
+ *   item_ids   comma-separated order_products ids — the contents of one
+ *              consolidated parcel, possibly spanning many orders   (or)
+ *   order_id   every item of one order   (or)
+ *   shipment_id  manifest of a consolidated shipment batch
+ *
+ * Items are grouped by order with the delivery contact, one row per item
+ * with its ITEM-<id> barcode and a tick box for the packer.
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const itemIds = parseIdList(sp.get("item_ids"));
+    const orderId = Number(sp.get("order_id")) || 0;
+    const shipmentId = Number(sp.get("shipment_id")) || 0;
+
+    if (!itemIds.length && !orderId && !shipmentId) {
+      return NextResponse.json(
+        { error: "item_ids, order_id or shipment_id is required" },
+        { status: 400 }
+      );
+    }
+    if (itemIds.length > MAX_PRINT_ITEMS) {
+      return NextResponse.json(
+        { error: `A packing slip can list at most ${MAX_PRINT_ITEMS} items` },
+        { status: 400 }
+      );
+    }
+
+    let selection: { itemIds: number[] } | { orderId: number } = orderId
+      ? { orderId }
+      : { itemIds };
+    let header: Omit<PackingSlip, "orders"> | null = null;
+    if (shipmentId) {
+      const batch = await prisma.cms_shipment_batches.findUnique({
+        where: { id: shipmentId },
+        include: { items: { select: { order_product_id: true } } },
+      });
+      if (!batch) {
+        return NextResponse.json({ error: "Shipment not found" }, { status: 404 });
+      }
+      selection = { itemIds: batch.items.map((i) => i.order_product_id) };
+      const day = (d: Date | null) => (d ? d.toISOString().slice(0, 10) : "—");
+      header = {
+        reference: batchCode(batch),
+        title: "Shipment Manifest",
+        details: [
+          { label: "Carrier", value: batch.carrier },
+          { label: "Method", value: batch.shipping_method.toUpperCase() },
+          ...(batch.reference ? [{ label: "Reference", value: batch.reference }] : []),
+          { label: "Departure", value: day(batch.departure_date) },
+          { label: "ETA", value: day(batch.eta_date) },
+        ],
+      };
+    }
+
+    const { items, truncated } = await loadPrintableItems(selection);
+    if (!items.length) {
+      return NextResponse.json({ error: "No items found" }, { status: 404 });
+    }
+    if (truncated) {
+      return NextResponse.json(
+        { error: `A packing slip can list at most ${MAX_PRINT_ITEMS} items` },
+        { status: 400 }
+      );
+    }
+
+    if (!header) {
+      const now = new Date();
+      header = {
+        reference: "orderId" in selection
+          ? `ORDER-${selection.orderId}`
+          : `SLIP-${now.toISOString().slice(0, 16).replace(/[-:T]/g, "")}`,
+        title: "Packing Slip",
+      };
+    }
+
+    const html = renderPackingSlip({ ...header, orders: await groupItemsByOrder(items) });
+
+    return new NextResponse(html, { headers: HTML_HEADERS });
+  } catch (err) {
+    console.error("GET /api/print/packing-slip error:", err);
+    return NextResponse.json({ error: "Failed to generate packing slip" }, { status: 500 });
+  }
+});
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 const BACKEND_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
@@ -11,10 +12,10 @@ const BACKEND_URL =
  * This calls the backend's actionGetProductById which triggers
  * refreshProductDetailsIfNeeded() → TMAPI → saves variants to DB.
  */
-export async function POST(
+export const POST = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: idStr } = await params;
     const id = Number.parseInt(idStr, 10);
@@ -102,4 +103,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { computeShippingEstimation, resolveInheritedShippingFields } from "@/lib/shipping-estimation";
 
 const BACKEND_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
@@ -58,171 +60,6 @@ async function fetchBackendProduct(productId: number): Promise<BackendTranslated
   }
 }
 
-/**
- * Walk up the category parent chain to inherit shipping fields.
- * Returns resolved values (first non-null in chain, or defaults).
- */
-async function resolveInheritedShippingFields(category: any) {
-  const result = {
-    air_shipping_rate: null as number | null,
-    cbm_rate: null as number | null,
-    shipping_surcharge_percent: 0,
-    tax_air: 0,
-    tax_sea: 0,
-    tax_min_qty_air: null as number | null,
-    tax_min_qty_sea: null as number | null,
-    source_category: null as string | null,
-  };
-
-  if (!category) return result;
-
-  const visited = new Set<number>();
-  let current = category;
-
-  while (current) {
-    visited.add(current.id);
-    applyInheritedField(result, current);
-    if (!current.parent || visited.has(current.parent)) break;
-    current = await prisma.category.findUnique({
-      where: { id: current.parent },
-      select: {
-        id: true,
-        parent: true,
-        category_name: true,
-        category_name_en: true,
-        air_shipping_rate: true,
-        cbm_rate: true,
-        shipping_surcharge_percent: true,
-        tax_air: true,
-        tax_sea: true,
-        tax_min_qty_air: true,
-        tax_min_qty_sea: true,
-      },
-    });
-  }
-
-  return result;
-}
-
-/** Apply a single category node's values to the result (first-non-null wins). */
-function applyInheritedField(result: any, cat: any) {
-  const numOrNull = (v: any) => (v == null ? null : Number(v));
-  const numOrZero = (v: any) => (v == null ? 0 : Number(v));
-
-  if (result.air_shipping_rate === null) result.air_shipping_rate = numOrNull(cat.air_shipping_rate);
-  if (result.cbm_rate === null) result.cbm_rate = numOrNull(cat.cbm_rate);
-  if (result.shipping_surcharge_percent === 0) result.shipping_surcharge_percent = numOrZero(cat.shipping_surcharge_percent);
-  if (result.tax_air === 0) result.tax_air = numOrZero(cat.tax_air);
-  if (result.tax_sea === 0) result.tax_sea = numOrZero(cat.tax_sea);
-  if (result.tax_min_qty_air === null && cat.tax_min_qty_air != null) result.tax_min_qty_air = cat.tax_min_qty_air;
-  if (result.tax_min_qty_sea === null && cat.tax_min_qty_sea != null) result.tax_min_qty_sea = cat.tax_min_qty_sea;
-  if (result.source_category === null && (cat.air_shipping_rate != null || cat.cbm_rate != null)) {
-    result.source_category = cat.category_name_en || cat.category_name;
-  }
-}
-
-/**
- * Compute shipping cost estimation for 1 unit of the product.
- */
-function computeShippingEstimation(
-  product: any,
-  shippingFields: any,
-  exchangeRate: number,
-  shippingSettings: any
-) {
-  const weight = product.product_weight ? Number(product.product_weight) : null;
-  const length = product.length_m ? Number(product.length_m) : null;
-  const width = product.width_m ? Number(product.width_m) : null;
-  const height = product.height_m ? Number(product.height_m) : null;
-  const originPrice = product.origin_price ? Number(product.origin_price) : null;
-
-  // Fallback dimensions when product has none
-  const estWeight = weight ?? 0.5;
-  const estLength = length ?? 0.2;
-  const estWidth = width ?? 0.15;
-  const estHeight = height ?? 0.1;
-  const hasDimensions = weight !== null || (length !== null && width !== null && height !== null);
-
-  // Rates (category overrides, then global, then hardcoded fallback)
-  const globalAirRate = shippingSettings?.air_price_per_kg
-    ? Number(shippingSettings.air_price_per_kg)
-    : 8;
-  const globalSeaRate = shippingSettings?.sea_price_per_cbm
-    ? Number(shippingSettings.sea_price_per_cbm)
-    : 150;
-
-  const airRate = shippingFields.air_shipping_rate ?? globalAirRate;
-  const seaRate = shippingFields.cbm_rate ?? globalSeaRate;
-
-  // Air: weight × rate
-  const airCost = Math.max(estWeight * airRate, 0.5);
-
-  // Sea: max(CBM, tons) × rate
-  const cbm = estLength * estWidth * estHeight;
-  const tons = estWeight / 1000;
-  const chargeable = Math.max(cbm, tons);
-  const chargedBy = cbm >= tons ? "volume" : "weight";
-  const seaCost = Math.max(chargeable * seaRate, 0.5);
-
-  // Surcharge (on product price in USD)
-  let surchargeAmount = 0;
-  const surchargePercent = shippingFields.shipping_surcharge_percent ?? 0;
-  if (surchargePercent > 0 && originPrice) {
-    const priceUSD = originPrice * exchangeRate;
-    surchargeAmount = priceUSD * (surchargePercent / 100);
-  }
-
-  return {
-    hasDimensions,
-    status: hasDimensions ? "calculated" : "estimated",
-    product: {
-      weight,
-      length,
-      width,
-      height,
-      usedWeight: estWeight,
-      usedLength: estLength,
-      usedWidth: estWidth,
-      usedHeight: estHeight,
-    },
-    rates: {
-      airRate,
-      airRateSource: shippingFields.air_shipping_rate === null ? "global" : "category",
-      seaRate,
-      seaRateSource: shippingFields.cbm_rate === null ? "global" : "category",
-      sourceCategory: shippingFields.source_category,
-    },
-    air: {
-      baseCost: round2(airCost),
-      surcharge: round2(surchargeAmount),
-      total: round2(airCost + surchargeAmount),
-    },
-    sea: {
-      cbm: round6(cbm),
-      tons: round6(tons),
-      chargeable: round6(chargeable),
-      chargedBy,
-      baseCost: round2(seaCost),
-      surcharge: round2(surchargeAmount),
-      total: round2(seaCost + surchargeAmount),
-    },
-    surchargePercent,
-    tax: {
-      air: shippingFields.tax_air,
-      sea: shippingFields.tax_sea,
-      minQtyAir: shippingFields.tax_min_qty_air,
-      minQtySea: shippingFields.tax_min_qty_sea,
-    },
-  };
-}
-
-function round2(n: number) {
-  return Math.round(n * 100) / 100;
-}
-function round6(n: number) {
-  return Math.round(n * 1000000) / 1000000;
-}
-
 async function fetchProductDetail(id: number) {
   // First, check if this is a 1688-source product that might need on-demand refresh
   const productCheck = await prisma.product.findUnique({
@@ -434,10 +271,10 @@ async function fetchProductDetail(id: number) {
   };
 }
 
-export async function GET(
+export const GET = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: idStr } = await params;
     const id = parseId(idStr);
@@ -458,12 +295,12 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
-export async function PATCH(
+export const PATCH = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: idStr } = await params;
     const id = parseId(idStr);
@@ -523,12 +360,12 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
-export async function DELETE(
+export const DELETE = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id: idStr } = await params;
     const id = parseId(idStr);
@@ -568,4 +405,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
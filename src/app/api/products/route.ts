@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /** Check if search looks like a product code (CN-XXX or pure digits) */
 function isProductCodeSearch(s: string): boolean {
@@ -40,7 +41,7 @@ const PRODUCT_SELECT = {
  *   stock    - "in_stock" | "out_of_stock"
  *   excluded - "excluded" | "not_excluded"
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams;
     const cursor = searchParams.get("cursor");
@@ -274,7 +275,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * Build the count promise based on load context.
@@ -383,7 +384,7 @@ async function getExcludedCategoryIds(): Promise<number[]> {
   return [...allExcluded];
 }
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { ids } = body;
@@ -441,4 +442,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
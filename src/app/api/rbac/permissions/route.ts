@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+
+/**
+ * GET /api/rbac/permissions — Permission × role matrix
+ *
+ * Returns permissions grouped by permission_scope, and for each role the
+ * ids of the permissions it is granted.
+ */
+export const GET = withPermission(async () => {
+  try {
+    const [permissions, roles, grants] = await Promise.all([
+      prisma.cms_permissions.findMany({
+        orderBy: [{ permission_scope: "asc" }, { permission_key: "asc" }],
+      }),
+      prisma.cms_roles.findMany({
+        select: { id: true, role_key: true, role_name: true, is_active: true },
+        orderBy: { id: "asc" },
+      }),
+      prisma.cms_role_permissions.findMany({
+        where: { allowed: true },
+        select: { role_id: true, permission_id: true },
+      }),
+    ]);
+
+    const groups: Record<string, typeof permissions> = {};
+    for (const p of permissions) {
+      (groups[p.permission_scope] ||= []).push(p);
+    }
+
+    const matrix: Record<number, number[]> = {};
+    for (const r of roles) matrix[r.id] = [];
+    for (const g of grants) matrix[g.role_id]?.push(g.permission_id);
+
+    return NextResponse.json({
+      groups: Object.entries(groups).map(([scope, perms]) => ({ scope, permissions: perms })),
+      roles,
+      matrix,
+    });
+  } catch (err) {
+    console.error("GET /api/rbac/permissions error:", err);
+    return NextResponse.json({ error: "Failed to fetch permissions" }, { status: 500 });
+  }
+});
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { bumpRoleSessionVersion } from "@/lib/auth";
+import { withPermission } from "@/lib/route-guard";
+
+/** Permissions needed to reach and save the Roles page */
+const ROLE_MANAGEMENT_PERMISSIONS = ["page.roles", "action.roles.manage"];
+
+/**
+ * PUT /api/rbac/roles/[id]/permissions — Toggle permissions for a role
+ *
+ * Body: { changes: { permission_id: number, allowed: boolean }[] }
+ *
+ * Members' sessions are refreshed so the change applies on their next request.
+ * Role management cannot be revoked from the super admin role or your own role.
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const roleId = Number(id);
+    if (!roleId) {
+      return NextResponse.json({ error: "Invalid role ID" }, { status: 400 });
+    }
+    const body = await req.json();
+    const changes: { permission_id: number; allowed: boolean }[] = Array.isArray(body.changes)
+      ? body.changes
+      : [];
+
+    if (!changes.length) {
+      return NextResponse.json({ error: "changes must be a non-empty array" }, { status: 400 });
+    }
+
+    const role = await prisma.cms_roles.findUnique({ where: { id: roleId } });
+    if (!role) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+
+    const permissionIds = [...new Set(changes.map((c) => Number(c.permission_id)))];
+    const existing = await prisma.cms_permissions.count({
+      where: { id: { in: permissionIds } },
+    });
+    if (existing !== permissionIds.length) {
+      return NextResponse.json({ error: "Unknown permission in changes" }, { status: 400 });
+    }
+
+    // Guard against leaving nobody able to manage roles
+    if (role.role_key === "super_admin" || role.role_key === session.roleKey) {
+      const revoked = changes.filter((c) => !c.allowed).map((c) => Number(c.permission_id));
+      const locked = revoked.length
+        ? await prisma.cms_permissions.count({
+            where: { id: { in: revoked }, permission_key: { in: ROLE_MANAGEMENT_PERMISSIONS } },
+          })
+        : 0;
+      if (locked) {
+        return NextResponse.json(
+          { error: "You cannot remove role management from the super admin role or your own role" },
+          { status: 400 }
+        );
+      }
+    }
+
+    await prisma.$transaction(
+      changes.map((c) =>
+        prisma.cms_role_permissions.upsert({
+          where: {
+            role_id_permission_id: { role_id: roleId, permission_id: Number(c.permission_id) },
+          },
+          create: { role_id: roleId, permission_id: Number(c.permission_id), allowed: !!c.allowed },
+          update: { allowed: !!c.allowed },
+        })
+      )
+    );
+
+    await bumpRoleSessionVersion(roleId);
+
+    return NextResponse.json({ success: true, updated: changes.length });
+  } catch (err) {
+    console.error("PUT /api/rbac/roles/[id]/permissions error:", err);
+    return NextResponse.json({ error: "Failed to update role permissions" }, { status: 500 });
+  }
+});
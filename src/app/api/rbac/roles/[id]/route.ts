@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { bumpRoleSessionVersion } from "@/lib/auth";
+import { withPermission } from "@/lib/route-guard";
+
+/**
+ * PUT /api/rbac/roles/[id] — Rename or (de)activate a role
+ *
+ * Body: { role_name?: string, is_active?: boolean }
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const roleId = Number(id);
+    const body = await req.json();
+
+    const role = await prisma.cms_roles.findUnique({ where: { id: roleId } });
+    if (!role) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+
+    const updateData: Record<string, unknown> = { updated_at: new Date() };
+
+    if (body.role_name !== undefined) {
+      const roleName = String(body.role_name).trim();
+      if (!roleName) {
+        return NextResponse.json({ error: "role_name cannot be empty" }, { status: 400 });
+      }
+      updateData.role_name = roleName;
+    }
+
+    const activeChanged = body.is_active !== undefined && !!body.is_active !== role.is_active;
+    if (activeChanged) {
+      // Guard against locking everyone out of the CMS
+      if (!body.is_active && (role.role_key === "super_admin" || role.role_key === session.roleKey)) {
+        return NextResponse.json(
+          { error: "You cannot deactivate the super admin role or your own role" },
+          { status: 400 }
+        );
+      }
+      updateData.is_active = !!body.is_active;
+    }
+
+    const updated = await prisma.cms_roles.update({
+      where: { id: roleId },
+      data: updateData,
+    });
+
+    if (activeChanged) {
+      await bumpRoleSessionVersion(roleId);
+    }
+
+    return NextResponse.json({ role: updated, success: true });
+  } catch (err) {
+    console.error("PUT /api/rbac/roles/[id] error:", err);
+    return NextResponse.json({ error: "Failed to update role" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/rbac/roles/[id] — Delete a role that has no members
+ */
+export const DELETE = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const roleId = Number(id);
+
+    const role = await prisma.cms_roles.findUnique({ where: { id: roleId } });
+    if (!role) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+    if (role.role_key === "super_admin") {
+      return NextResponse.json({ error: "The super admin role cannot be deleted" }, { status: 400 });
+    }
+
+    const members = await prisma.cms_user_roles.count({ where: { role_id: roleId } });
+    if (members > 0) {
+      return NextResponse.json(
+        { error: `Role still has ${members} user(s) — reassign them first` },
+        { status: 409 }
+      );
+    }
+
+    // Role permissions + transition rules cascade via FK
+    await prisma.cms_roles.delete({ where: { id: roleId } });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("DELETE /api/rbac/roles/[id] error:", err);
+    return NextResponse.json({ error: "Failed to delete role" }, { status: 500 });
+  }
+});
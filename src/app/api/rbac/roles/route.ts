@@ -0,0 +1,119 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+
+const ROLE_KEY_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+
+/**
+ * GET /api/rbac/roles — List roles with member + permission counts
+ */
+export const GET = withPermission(async () => {
+  try {
+    const [roles, memberCounts, permCounts] = await Promise.all([
+      prisma.cms_roles.findMany({ orderBy: { id: "asc" } }),
+      prisma.cms_user_roles.groupBy({
+        by: ["role_id"],
+        _count: { user_id: true },
+      }),
+      prisma.cms_role_permissions.groupBy({
+        by: ["role_id"],
+        where: { allowed: true },
+        _count: { permission_id: true },
+      }),
+    ]);
+
+    const memberMap = new Map(memberCounts.map((m) => [m.role_id, m._count.user_id]));
+    const permMap = new Map(permCounts.map((p) => [p.role_id, p._count.permission_id]));
+
+    return NextResponse.json({
+      roles: roles.map((r) => ({
+        ...r,
+        user_count: memberMap.get(r.id) || 0,
+        permission_count: permMap.get(r.id) || 0,
+      })),
+    });
+  } catch (err) {
+    console.error("GET /api/rbac/roles error:", err);
+    return NextResponse.json({ error: "Failed to fetch roles" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/rbac/roles — Create a role, optionally cloning another one
+ *
+ * Body: {
+ *   role_key: string,             // lowercase snake_case, unique
+ *   role_name: string,
+ *   clone_from_role_id?: number,  // copies role permissions + item transition rules
+ * }
+ */
+export const POST = withPermission(async (req: NextRequest) => {
+  try {
+    const body = await req.json();
+    const roleKey = String(body.role_key || "").trim();
+    const roleName = String(body.role_name || "").trim();
+    const cloneFromId = body.clone_from_role_id ? Number(body.clone_from_role_id) : null;
+
+    if (!ROLE_KEY_PATTERN.test(roleKey)) {
+      return NextResponse.json(
+        { error: "role_key must be lowercase letters, digits or underscores (2-64 chars)" },
+        { status: 400 }
+      );
+    }
+    if (!roleName) {
+      return NextResponse.json({ error: "role_name is required" }, { status: 400 });
+    }
+
+    if (cloneFromId) {
+      const source = await prisma.cms_roles.findUnique({ where: { id: cloneFromId } });
+      if (!source) {
+        return NextResponse.json({ error: "Role to clone not found" }, { status: 404 });
+      }
+    }
+
+    const role = await prisma.$transaction(async (tx) => {
+      const created = await tx.cms_roles.create({
+        data: { role_key: roleKey, role_name: roleName },
+      });
+
+      if (cloneFromId) {
+        const [perms, transitions] = await Promise.all([
+          tx.cms_role_permissions.findMany({ where: { role_id: cloneFromId } }),
+          tx.cms_role_item_transition_permissions.findMany({ where: { role_id: cloneFromId } }),
+        ]);
+
+        if (perms.length) {
+          await tx.cms_role_permissions.createMany({
+            data: perms.map((p) => ({
+              role_id: created.id,
+              permission_id: p.permission_id,
+              allowed: p.allowed,
+            })),
+          });
+        }
+        if (transitions.length) {
+          await tx.cms_role_item_transition_permissions.createMany({
+            data: transitions.map((t) => ({
+              role_id: created.id,
+              from_status_id: t.from_status_id,
+              to_status_id: t.to_status_id,
+              can_transition: t.can_transition,
+              requires_tracking_number: t.requires_tracking_number,
+            })),
+          });
+        }
+      }
+
+      return created;
+    });
+
+    return NextResponse.json({ role, success: true }, { status: 201 });
+  } catch (err: any) {
+    console.error("POST /api/rbac/roles error:", err);
+    if (err.code === "P2002") {
+      return NextResponse.json({ error: "A role with this key already exists" }, { status: 409 });
+    }
+    return NextResponse.json({ error: "Failed to create role" }, { status: 500 });
+  }
+});
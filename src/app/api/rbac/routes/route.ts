@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { AUTHENTICATED, PUBLIC, listRoutePermissions } from "@/lib/route-permissions";
+
+/**
+ * GET /api/rbac/routes — Audit listing of every guarded page + API route
+ *
+ * Each entry reports the permission key(s) it requires and flags keys that
+ * are missing from cms_permissions (i.e. nobody but a per-user override can
+ * ever pass that check).
+ */
+export const GET = withPermission(async () => {
+  try {
+    const routes = listRoutePermissions();
+
+    const known = await prisma.cms_permissions.findMany({
+      select: { permission_key: true },
+    });
+    const knownKeys = new Set(known.map((p) => p.permission_key));
+
+    const result = routes.map((r) => ({
+      ...r,
+      missing_permissions: r.permissions.filter(
+        (p) => p !== PUBLIC && p !== AUTHENTICATED && !knownKeys.has(p)
+      ),
+    }));
+
+    return NextResponse.json({
+      routes: result,
+      total: result.length,
+      missing_count: result.filter((r) => r.missing_permissions.length > 0).length,
+    });
+  } catch (err) {
+    console.error("GET /api/rbac/routes error:", err);
+    return NextResponse.json({ error: "Failed to list route permissions" }, { status: 500 });
+  }
+});
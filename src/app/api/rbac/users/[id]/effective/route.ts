@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getUserRoleAndPermissions } from "@/lib/rbac";
+import { withPermission } from "@/lib/route-guard";
+
+/**
+ * GET /api/rbac/users/[id]/effective — Preview a user's effective permissions
+ *
+ * Runs the same getUserRoleAndPermissions() the session uses, then annotates
+ * each key with where it came from so admins can see why a user can (or
+ * cannot) do something.
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const userId = Number(id);
+
+    const user = await prisma.ag_users.findUnique({
+      where: { user_id: userId },
+      select: { user_id: true, user_name: true, first_name: true, last_name: true, email_address: true },
+    });
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const [effective, overrides] = await Promise.all([
+      getUserRoleAndPermissions(userId),
+      prisma.cms_user_permission_overrides.findMany({ where: { user_id: userId } }),
+    ]);
+
+    const overrideMap = new Map(overrides.map((o) => [o.permission_key, o]));
+
+    const permissions = effective.permissions.sort().map((key) => {
+      const ov = overrideMap.get(key);
+      return {
+        permission_key: key,
+        source: ov?.allowed ? "override" : "role",
+        reason: ov?.allowed ? ov.reason : null,
+      };
+    });
+
+    const denied = overrides
+      .filter((o) => !o.allowed)
+      .map((o) => ({ permission_key: o.permission_key, reason: o.reason }));
+
+    return NextResponse.json({
+      user,
+      role_key: effective.roleKey,
+      role_name: effective.roleName,
+      permissions,
+      denied,
+    });
+  } catch (err) {
+    console.error("GET /api/rbac/users/[id]/effective error:", err);
+    return NextResponse.json({ error: "Failed to compute effective permissions" }, { status: 500 });
+  }
+});
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { bumpSessionVersion } from "@/lib/auth";
+import { withPermission } from "@/lib/route-guard";
+
+/**
+ * GET /api/rbac/users/[id]/overrides — Per-user allow/deny overrides
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const overrides = await prisma.cms_user_permission_overrides.findMany({
+      where: { user_id: Number(id) },
+      orderBy: { permission_key: "asc" },
+    });
+
+    return NextResponse.json({
+      overrides: overrides.map((o) => ({ ...o, id: Number(o.id) })),
+    });
+  } catch (err) {
+    console.error("GET /api/rbac/users/[id]/overrides error:", err);
+    return NextResponse.json({ error: "Failed to fetch overrides" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/rbac/users/[id]/overrides — Create or replace an override
+ *
+ * Body: { permission_key: string, allowed: boolean, reason: string }
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const userId = Number(id);
+    const body = await req.json();
+    const permissionKey = String(body.permission_key || "").trim();
+    const reason = String(body.reason || "").trim();
+
+    if (!permissionKey || typeof body.allowed !== "boolean") {
+      return NextResponse.json(
+        { error: "permission_key and allowed (boolean) are required" },
+        { status: 400 }
+      );
+    }
+    if (!reason) {
+      return NextResponse.json({ error: "A reason is required for overrides" }, { status: 400 });
+    }
+
+    const [user, permission] = await Promise.all([
+      prisma.ag_users.findUnique({ where: { user_id: userId }, select: { user_id: true } }),
+      prisma.cms_permissions.findUnique({ where: { permission_key: permissionKey } }),
+    ]);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (!permission) {
+      return NextResponse.json({ error: "Unknown permission key" }, { status: 400 });
+    }
+
+    const override = await prisma.cms_user_permission_overrides.upsert({
+      where: { user_id_permission_key: { user_id: userId, permission_key: permissionKey } },
+      create: {
+        user_id: userId,
+        permission_key: permissionKey,
+        allowed: body.allowed,
+        reason: reason.slice(0, 255),
+      },
+      update: {
+        allowed: body.allowed,
+        reason: reason.slice(0, 255),
+        updated_at: new Date(),
+      },
+    });
+
+    await bumpSessionVersion([userId]);
+
+    return NextResponse.json({
+      override: { ...override, id: Number(override.id) },
+      success: true,
+    });
+  } catch (err) {
+    console.error("POST /api/rbac/users/[id]/overrides error:", err);
+    return NextResponse.json({ error: "Failed to save override" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/rbac/users/[id]/overrides?permission_key=... — Remove an override
+ */
+export const DELETE = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const userId = Number(id);
+    const permissionKey = req.nextUrl.searchParams.get("permission_key");
+
+    if (!permissionKey) {
+      return NextResponse.json({ error: "permission_key is required" }, { status: 400 });
+    }
+
+    const { count } = await prisma.cms_user_permission_overrides.deleteMany({
+      where: { user_id: userId, permission_key: permissionKey },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Override not found" }, { status: 404 });
+    }
+
+    await bumpSessionVersion([userId]);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("DELETE /api/rbac/users/[id]/overrides error:", err);
+    return NextResponse.json({ error: "Failed to delete override" }, { status: 500 });
+  }
+});
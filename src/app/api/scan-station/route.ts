@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getAllowedTransitions } from "@/lib/rbac";
+import { withPermission } from "@/lib/route-guard";
+import { transitionItems, WorkflowError } from "@/lib/workflow";
+
+/** Item labels encode the order_products id as ITEM-<id>; bare numbers are accepted too */
+const ITEM_CODE_PATTERN = /^(?:ITEM-?)?(\d{1,10})$/i;
+const MAX_MATCHES = 50;
+
+/**
+ * GET /api/scan-station?code=... — Resolve a scanned code
+ *
+ * Matches order_products by exact tracking_number, or by item id when the
+ * code looks like an item label. Each match carries the transitions the
+ * caller's role may perform from its current status, plus a flag:
+ *   - "terminal"   item is cancelled/refunded/etc.
+ *   - "misrouted"  item is in a status this role does not handle
+ * A code with no matches is flagged "unknown".
+ */
+export const GET = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const code = req.nextUrl.searchParams.get("code")?.trim() || "";
+    if (!code) {
+      return NextResponse.json({ error: "code is required" }, { status: 400 });
+    }
+
+    const idMatch = ITEM_CODE_PATTERN.exec(code);
+    const items = await prisma.order_products.findMany({
+      where: {
+        OR: [
+          { tracking_number: code },
+          ...(idMatch ? [{ id: Number(idMatch[1]) }] : []),
+        ],
+      },
+      select: {
+        id: true,
+        r_order_id: true,
+        product_name: true,
+        variation_name: true,
+        main_image: true,
+        variation_image: true,
+        quantity: true,
+        shipping_method: true,
+        tracking_number: true,
+        workflow_status_id: true,
+      },
+      orderBy: { id: "asc" },
+      take: MAX_MATCHES,
+    });
+
+    if (!items.length) {
+      return NextResponse.json({ code, flag: "unknown", items: [] });
+    }
+
+    const statusIds = [...new Set(items.map((i) => i.workflow_status_id ?? 0))];
+    const statuses = await prisma.cms_order_item_statuses.findMany({
+      where: { id: { in: statusIds } },
+    });
+    const statusMap = new Map(statuses.map((s) => [s.id, s]));
+
+    const transitionCache = new Map<number, Awaited<ReturnType<typeof getAllowedTransitions>>>();
+    const result = [];
+    for (const item of items) {
+      const ws = item.workflow_status_id ? statusMap.get(item.workflow_status_id) : null;
+      let transitions: Awaited<ReturnType<typeof getAllowedTransitions>> = [];
+      if (ws) {
+        transitions = transitionCache.get(ws.id) ?? (await getAllowedTransitions(session.roleKey, ws.id));
+        transitionCache.set(ws.id, transitions);
+      }
+
+      let flag: "terminal" | "misrouted" | null = null;
+      if (ws?.is_terminal) flag = "terminal";
+      else if (!transitions.length) flag = "misrouted";
+
+      result.push({
+        id: item.id,
+        order_id: item.r_order_id,
+        product_name: item.product_name,
+        variation_name: item.variation_name,
+        image_url: item.variation_image || item.main_image,
+        quantity: item.quantity,
+        shipping_method: item.shipping_method,
+        tracking_number: item.tracking_number,
+        workflow_status_key: ws?.status_key || null,
+        workflow_status_label: ws?.status_label || "Unset",
+        match: item.tracking_number === code ? "tracking_number" : "item_id",
+        allowed_transitions: transitions,
+        flag,
+      });
+    }
+
+    return NextResponse.json({ code, flag: null, items: result });
+  } catch (err) {
+    console.error("GET /api/scan-station error:", err);
+    return NextResponse.json({ error: "Failed to resolve code" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/scan-station — Apply a transition to scanned items
+ *
+ * Body: {
+ *   item_ids: number[],
+ *   to_status_key: string,
+ *   expected_from_statuses: Record<itemId, string>,  // statuses shown at scan time
+ *   tracking_number?: string,
+ * }
+ */
+export const POST = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const body = await req.json();
+    const { item_ids, to_status_key, expected_from_statuses, tracking_number } = body;
+
+    if (!Array.isArray(item_ids) || item_ids.length === 0 || item_ids.length > MAX_MATCHES) {
+      return NextResponse.json(
+        { error: `item_ids must contain 1-${MAX_MATCHES} items` },
+        { status: 400 }
+      );
+    }
+    if (!to_status_key) {
+      return NextResponse.json({ error: "to_status_key is required" }, { status: 400 });
+    }
+
+    const result = await transitionItems({
+      itemIds: item_ids,
+      toStatusKey: to_status_key,
+      expectedFromStatus:
+        expected_from_statuses && typeof expected_from_statuses === "object"
+          ? expected_from_statuses
+          : undefined,
+      trackingNumber: tracking_number || undefined,
+      note: "Scan station",
+      actor: session,
+    });
+
+    const skipped = result.skipped.map(({ id, code, reason }) => ({ id, code, reason }));
+
+    if (result.updated.length === 0) {
+      return NextResponse.json(
+        { error: skipped[0]?.reason || "No items could be transitioned", skipped },
+        { status: skipped.every((s) => s.code === "conflict") ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      updated: result.updated.map((u) => u.id),
+      skipped,
+      target_status: {
+        key: result.targetStatus.key,
+        label: result.targetStatus.label,
+      },
+    });
+  } catch (err) {
+    if (err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/scan-station error:", err);
+    return NextResponse.json({ error: "Failed to apply transition" }, { status: 500 });
+  }
+});
@@ -1,13 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getSession } from "@/lib/auth";
-
-export async function GET(request: NextRequest) {
-  const session = await getSession();
-  if (!session) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
+import { withPermission } from "@/lib/route-guard";
 
+export const GET = withPermission(async (request: NextRequest) => {
   const q = request.nextUrl.searchParams.get("q")?.trim();
   if (!q || q.length < 2) {
     return NextResponse.json({ results: [] });
@@ -156,7 +151,7 @@ export async function GET(request: NextRequest) {
     console.error("Search error:", error);
     return NextResponse.json({ results: [] });
   }
-}
+});
 
 function isNumeric(str: string): boolean {
   return /^\d+$/.test(str);
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { findDocumentGaps, isDocumentType } from "@/lib/document-numbers";
+
+/**
+ * GET /api/settings/document-sequences/gaps — Numbers missing from a
+ * sequence in its current format
+ *
+ * Query: doc_type (required), year (yearly sequences, default current year)
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const docType = sp.get("doc_type");
+    if (!isDocumentType(docType)) {
+      return NextResponse.json({ error: "Unknown document type" }, { status: 400 });
+    }
+    const year = Number(sp.get("year")) || undefined;
+    if (year !== undefined && (!Number.isInteger(year) || year < 2000 || year > 9999)) {
+      return NextResponse.json({ error: "Invalid year" }, { status: 400 });
+    }
+
+    return NextResponse.json(await findDocumentGaps(prisma, docType, year));
+  } catch (err) {
+    console.error("GET /api/settings/document-sequences/gaps error:", err);
+    return NextResponse.json({ error: "Failed to check document gaps" }, { status: 500 });
+  }
+});
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import {
+  DocumentNumberError,
+  isDocumentType,
+  listDocumentSequences,
+  updateDocumentSequence,
+} from "@/lib/document-numbers";
+
+/**
+ * GET /api/settings/document-sequences — Numbering format and next number
+ * per document type
+ */
+export const GET = withPermission(async () => {
+  try {
+    return NextResponse.json({ sequences: await listDocumentSequences(prisma) });
+  } catch (err) {
+    console.error("GET /api/settings/document-sequences error:", err);
+    return NextResponse.json({ error: "Failed to fetch document sequences" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/settings/document-sequences — Change a sequence's format
+ *
+ * Body: { doc_type: "invoice" | "credit_note", prefix?: string, padding?: number, yearly_reset?: boolean }
+ */
+export const PUT = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const body = await req.json();
+    if (!isDocumentType(body.doc_type)) {
+      return NextResponse.json({ error: "Unknown document type" }, { status: 400 });
+    }
+
+    await updateDocumentSequence(prisma, body.doc_type, body, session.userId);
+    return NextResponse.json({ success: true, sequences: await listDocumentSequences(prisma) });
+  } catch (err) {
+    if (err instanceof DocumentNumberError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("PUT /api/settings/document-sequences error:", err);
+    return NextResponse.json({ error: "Failed to update document sequence" }, { status: 500 });
+  }
+});
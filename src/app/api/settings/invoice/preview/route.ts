@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import {
+  DEFAULT_INVOICE_BRANDING,
+  isValidInvoiceColor,
+  loadInvoiceBranding,
+  renderInvoice,
+  sampleInvoiceDocument,
+  type InvoiceBranding,
+} from "@/lib/invoice-documents";
+
+/**
+ * POST /api/settings/invoice/preview — A sample invoice with the given
+ * (unsaved) branding; fields left out fall back to the saved template
+ *
+ * Body: { color?, notes?, terms_conditions?, main_image?, format?: "html" | "pdf" }
+ */
+export const POST = withPermission(async (req: NextRequest) => {
+  try {
+    const body = await req.json();
+    const format = body.format || "html";
+    if (format !== "html" && format !== "pdf") {
+      return NextResponse.json({ error: "Format must be 'html' or 'pdf'" }, { status: 400 });
+    }
+
+    const saved = await loadInvoiceBranding();
+    const branding: InvoiceBranding = {
+      color:
+        typeof body.color === "string"
+          ? isValidInvoiceColor(body.color)
+            ? body.color
+            : DEFAULT_INVOICE_BRANDING.color
+          : saved.color,
+      notes: typeof body.notes === "string" ? body.notes : saved.notes,
+      terms_conditions:
+        typeof body.terms_conditions === "string" ? body.terms_conditions : saved.terms_conditions,
+      main_image: body.main_image !== undefined ? body.main_image || null : saved.main_image,
+    };
+
+    const { body: rendered, headers } = await renderInvoice(sampleInvoiceDocument(), branding, format, {
+      autoPrint: false,
+    });
+    return new NextResponse(rendered, { headers });
+  } catch (err) {
+    console.error("POST /api/settings/invoice/preview error:", err);
+    return NextResponse.json({ error: "Failed to render preview" }, { status: 500 });
+  }
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import { isValidInvoiceColor, loadInvoiceBranding } from "@/lib/invoice-documents";
+
+/**
+ * GET /api/settings/invoice — Invoice branding (`invoice_details`)
+ */
+export const GET = withPermission(async () => {
+  try {
+    return NextResponse.json({ branding: await loadInvoiceBranding() });
+  } catch (err) {
+    console.error("GET /api/settings/invoice error:", err);
+    return NextResponse.json({ error: "Failed to fetch invoice settings" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/settings/invoice — Update invoice branding
+ *
+ * Body: { color: "#rrggbb", notes: string, terms_conditions: string, main_image: string | null }
+ */
+export const PUT = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const body = await req.json();
+    const color = String(body.color ?? "").trim();
+    if (!isValidInvoiceColor(color)) {
+      return NextResponse.json(
+        { error: "Color must be a hex value like #1f2937" },
+        { status: 400 }
+      );
+    }
+
+    const data = {
+      color,
+      notes: typeof body.notes === "string" ? body.notes : "",
+      terms_conditions: typeof body.terms_conditions === "string" ? body.terms_conditions : "",
+      main_image:
+        typeof body.main_image === "string" && body.main_image.trim() ? body.main_image.trim() : null,
+    };
+
+    // The template is the latest invoice_details row
+    const existing = await prisma.invoice_details.findFirst({
+      orderBy: { id: "desc" },
+      select: { id: true },
+    });
+    if (existing) {
+      await prisma.invoice_details.update({
+        where: { id: existing.id },
+        data: { ...data, updated_by: session.userId, updated_at: new Date() },
+      });
+    } else {
+      await prisma.invoice_details.create({
+        data: { ...data, created_by: session.userId, created_at: new Date(), updated_at: new Date() },
+      });
+    }
+
+    return NextResponse.json({ success: true, branding: await loadInvoiceBranding() });
+  } catch (err) {
+    console.error("PUT /api/settings/invoice error:", err);
+    return NextResponse.json({ error: "Failed to update invoice settings" }, { status: 500 });
+  }
+});
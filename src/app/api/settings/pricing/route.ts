@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     const [settings, exchangeRateRow] = await Promise.all([
       prisma.general_settings.findFirst({
@@ -28,9 +29,9 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { markupPercent, exchangeRate } = body;
@@ -77,4 +78,4 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
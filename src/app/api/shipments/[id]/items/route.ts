@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+
+/** Items per request — a 40ft container rarely holds more distinct order items */
+const MAX_ITEMS_PER_REQUEST = 500;
+
+function parseItemIds(value: unknown): number[] | null {
+  if (!Array.isArray(value) || !value.length || value.length > MAX_ITEMS_PER_REQUEST) return null;
+  return [...new Set(value.map(Number).filter((n) => Number.isInteger(n) && n > 0))];
+}
+
+async function findOpenBatch(id: string) {
+  const batchId = Number(id);
+  const batch = batchId
+    ? await prisma.cms_shipment_batches.findUnique({ where: { id: batchId } })
+    : null;
+  if (!batch) {
+    return { error: NextResponse.json({ error: "Shipment not found" }, { status: 404 }) };
+  }
+  if (batch.status !== "open") {
+    return {
+      error: NextResponse.json(
+        { error: "Items can only be changed while the shipment is open" },
+        { status: 409 }
+      ),
+    };
+  }
+  return { batch };
+}
+
+/**
+ * POST /api/shipments/[id]/items — Assign items to an open batch
+ *
+ * Body: { item_ids: number[] }
+ *
+ * Items are skipped (with a reason) when they do not exist, are closed
+ * (terminal status), ship by the other method, or already sit in another
+ * batch. Items already in this batch are ignored.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const { batch, error } = await findOpenBatch(id);
+    if (error) return error;
+
+    const body = await req.json();
+    const ids = parseItemIds(body.item_ids);
+    if (!ids) {
+      return NextResponse.json(
+        { error: `item_ids must contain 1-${MAX_ITEMS_PER_REQUEST} items` },
+        { status: 400 }
+      );
+    }
+
+    const [items, existing] = await Promise.all([
+      prisma.order_products.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, shipping_method: true, workflow_status_id: true },
+      }),
+      prisma.cms_shipment_batch_items.findMany({
+        where: { order_product_id: { in: ids } },
+        select: { order_product_id: true, batch_id: true },
+      }),
+    ]);
+    const terminalStatuses = await prisma.cms_order_item_statuses.findMany({
+      where: { is_terminal: true },
+      select: { id: true },
+    });
+    const terminal = new Set(terminalStatuses.map((s) => s.id));
+    const itemMap = new Map(items.map((i) => [i.id, i]));
+    const batchOf = new Map(existing.map((e) => [e.order_product_id, e.batch_id]));
+
+    const toAdd: number[] = [];
+    const skipped: { id: number; reason: string }[] = [];
+    for (const itemId of ids) {
+      const item = itemMap.get(itemId);
+      const inBatch = batchOf.get(itemId);
+      if (!item) {
+        skipped.push({ id: itemId, reason: "Item not found" });
+      } else if (inBatch === batch.id) {
+        continue;
+      } else if (inBatch) {
+        skipped.push({ id: itemId, reason: `Already in shipment #${inBatch}` });
+      } else if (item.workflow_status_id && terminal.has(item.workflow_status_id)) {
+        skipped.push({ id: itemId, reason: "Item is closed" });
+      } else if (item.shipping_method && item.shipping_method !== batch.shipping_method) {
+        skipped.push({ id: itemId, reason: `Item ships by ${item.shipping_method}` });
+      } else {
+        toAdd.push(itemId);
+      }
+    }
+
+    if (toAdd.length) {
+      await prisma.cms_shipment_batch_items.createMany({
+        data: toAdd.map((order_product_id) => ({
+          batch_id: batch.id,
+          order_product_id,
+          added_by: session.userId,
+        })),
+        // Another request may have claimed an item in the meantime
+        skipDuplicates: true,
+      });
+      await prisma.cms_shipment_batches.update({
+        where: { id: batch.id },
+        data: { updated_at: new Date() },
+      });
+    }
+
+    if (!toAdd.length && skipped.length) {
+      return NextResponse.json({ error: skipped[0].reason, skipped }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, added: toAdd, skipped });
+  } catch (err) {
+    console.error("POST /api/shipments/[id]/items error:", err);
+    return NextResponse.json({ error: "Failed to add items" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/shipments/[id]/items — Remove items from an open batch
+ *
+ * Body: { item_ids: number[] }
+ */
+export const DELETE = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const { batch, error } = await findOpenBatch(id);
+    if (error) return error;
+
+    const body = await req.json();
+    const ids = parseItemIds(body.item_ids);
+    if (!ids) {
+      return NextResponse.json(
+        { error: `item_ids must contain 1-${MAX_ITEMS_PER_REQUEST} items` },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.cms_shipment_batch_items.deleteMany({
+      where: { batch_id: batch.id, order_product_id: { in: ids } },
+    });
+
+    return NextResponse.json({ success: true, removed: count });
+  } catch (err) {
+    console.error("DELETE /api/shipments/[id]/items error:", err);
+    return NextResponse.json({ error: "Failed to remove items" }, { status: 500 });
+  }
+});
@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import {
+  batchCode,
+  getBatchTransitions,
+  loadBatchItems,
+  parseBatchDate,
+  BATCH_STATUS_LABELS,
+} from "@/lib/shipments";
+
+/**
+ * GET /api/shipments/[id] — Batch manifest
+ *
+ * Returns the batch, its items grouped by order (with delivery contact),
+ * a per-status item summary and the transitions the caller's role can
+ * apply to the whole batch.
+ */
+export const GET = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const batchId = Number(id);
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid shipment ID" }, { status: 400 });
+    }
+
+    const batch = await prisma.cms_shipment_batches.findUnique({ where: { id: batchId } });
+    if (!batch) {
+      return NextResponse.json({ error: "Shipment not found" }, { status: 404 });
+    }
+
+    const items = await loadBatchItems(batch.id);
+    const orderIds = [...new Set(items.map((i) => i.order_id))];
+    const [orders, transitions] = await Promise.all([
+      prisma.orders.findMany({
+        where: { id: { in: orderIds } },
+        select: {
+          id: true,
+          address_first_name: true,
+          address_last_name: true,
+          city: true,
+          country: true,
+        },
+      }),
+      getBatchTransitions(session.roleKey, items),
+    ]);
+    const orderMap = new Map(orders.map((o) => [o.id, o]));
+
+    const byStatus = new Map<string, { key: string | null; label: string; count: number }>();
+    for (const item of items) {
+      const key = item.workflow_status_key || "unset";
+      const entry = byStatus.get(key) || {
+        key: item.workflow_status_key,
+        label: item.workflow_status_label,
+        count: 0,
+      };
+      entry.count++;
+      byStatus.set(key, entry);
+    }
+
+    return NextResponse.json({
+      batch: {
+        ...batch,
+        code: batchCode(batch),
+        status_label: BATCH_STATUS_LABELS[batch.status],
+      },
+      summary: {
+        item_count: items.length,
+        order_count: orderIds.length,
+        unit_count: items.reduce((n, i) => n + (i.quantity || 0), 0),
+        by_status: Array.from(byStatus.values()),
+      },
+      orders: orderIds.map((orderId) => {
+        const o = orderMap.get(orderId);
+        return {
+          order_id: orderId,
+          customer_name: o ? `${o.address_first_name} ${o.address_last_name}`.trim() : "",
+          city: o?.city || "",
+          country: o?.country || "",
+          items: items.filter((i) => i.order_id === orderId),
+        };
+      }),
+      allowed_transitions: transitions,
+    });
+  } catch (err) {
+    console.error("GET /api/shipments/[id] error:", err);
+    return NextResponse.json({ error: "Failed to fetch shipment" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/shipments/[id] — Update batch details
+ *
+ * Body: { carrier?, reference?, departure_date?, eta_date?, notes? }
+ * The shipping method is fixed once the batch exists.
+ */
+export const PUT = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const batchId = Number(id);
+    const body = await req.json();
+
+    const batch = batchId
+      ? await prisma.cms_shipment_batches.findUnique({ where: { id: batchId } })
+      : null;
+    if (!batch) {
+      return NextResponse.json({ error: "Shipment not found" }, { status: 404 });
+    }
+
+    const data: {
+      carrier?: string;
+      reference?: string | null;
+      departure_date?: Date | null;
+      eta_date?: Date | null;
+      notes?: string | null;
+      updated_at: Date;
+    } = { updated_at: new Date() };
+
+    if (body.carrier !== undefined) {
+      const carrier = String(body.carrier || "").trim();
+      if (!carrier) {
+        return NextResponse.json({ error: "carrier cannot be empty" }, { status: 400 });
+      }
+      data.carrier = carrier;
+    }
+    if (body.reference !== undefined) data.reference = String(body.reference || "").trim() || null;
+    if (body.notes !== undefined) data.notes = body.notes || null;
+    for (const field of ["departure_date", "eta_date"] as const) {
+      if (body[field] === undefined) continue;
+      const date = parseBatchDate(body[field]);
+      if (date === undefined) {
+        return NextResponse.json({ error: `Invalid ${field}` }, { status: 400 });
+      }
+      data[field] = date;
+    }
+
+    const departure = data.departure_date !== undefined ? data.departure_date : batch.departure_date;
+    const eta = data.eta_date !== undefined ? data.eta_date : batch.eta_date;
+    if (departure && eta && eta < departure) {
+      return NextResponse.json({ error: "ETA cannot be before departure" }, { status: 400 });
+    }
+
+    const updated = await prisma.cms_shipment_batches.update({
+      where: { id: batch.id },
+      data,
+    });
+
+    return NextResponse.json({
+      success: true,
+      batch: {
+        ...updated,
+        code: batchCode(updated),
+        status_label: BATCH_STATUS_LABELS[updated.status],
+      },
+    });
+  } catch (err) {
+    console.error("PUT /api/shipments/[id] error:", err);
+    return NextResponse.json({ error: "Failed to update shipment" }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE /api/shipments/[id] — Delete an open batch
+ *
+ * Only batches that have not left the warehouse can be deleted; their
+ * items are released and can be assigned to another batch.
+ */
+export const DELETE = withPermission(async (
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params;
+    const batchId = Number(id);
+
+    const batch = batchId
+      ? await prisma.cms_shipment_batches.findUnique({ where: { id: batchId } })
+      : null;
+    if (!batch) {
+      return NextResponse.json({ error: "Shipment not found" }, { status: 404 });
+    }
+    if (batch.status !== "open") {
+      return NextResponse.json(
+        { error: "Only open shipments can be deleted" },
+        { status: 409 }
+      );
+    }
+
+    // Batch items cascade with the batch
+    await prisma.cms_shipment_batches.delete({ where: { id: batch.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("DELETE /api/shipments/[id] error:", err);
+    return NextResponse.json({ error: "Failed to delete shipment" }, { status: 500 });
+  }
+});
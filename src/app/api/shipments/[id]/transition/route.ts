@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { WorkflowError } from "@/lib/workflow";
+import { transitionBatch } from "@/lib/shipments";
+
+/**
+ * POST /api/shipments/[id]/transition — Move every open item in the batch
+ *
+ * Body: {
+ *   to_status_key: string,                            // e.g. "shipped_to_leb"
+ *   expected_from_statuses?: Record<itemId, string>,  // statuses shown on the manifest
+ *   tracking_number?: string,
+ *   note?: string,
+ * }
+ *
+ * Each item goes through the workflow service (role rules, history,
+ * order status derivation). Items that cannot move are returned in
+ * `skipped`; the batch status only advances when none were skipped.
+ */
+export const POST = withPermission(async (
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+  session
+) => {
+  try {
+    const { id } = await params;
+    const batchId = Number(id);
+    const body = await req.json();
+    const { to_status_key, expected_from_statuses, tracking_number, note } = body;
+
+    if (!batchId) {
+      return NextResponse.json({ error: "Invalid shipment ID" }, { status: 400 });
+    }
+    if (!to_status_key) {
+      return NextResponse.json({ error: "to_status_key is required" }, { status: 400 });
+    }
+
+    const result = await transitionBatch({
+      batchId,
+      toStatusKey: to_status_key,
+      actor: session,
+      trackingNumber: tracking_number || undefined,
+      note: note || null,
+      expectedFromStatus:
+        expected_from_statuses && typeof expected_from_statuses === "object"
+          ? expected_from_statuses
+          : undefined,
+    });
+
+    const skipped = result.skipped
+      .filter((s) => s.code !== "unchanged")
+      .map(({ id, code, reason }) => ({ id, code, reason }));
+
+    if (result.updated.length === 0 && skipped.length) {
+      return NextResponse.json(
+        { error: skipped[0].reason, skipped },
+        { status: skipped.every((s) => s.code === "conflict") ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      updated: result.updated.map((u) => u.id),
+      skipped,
+      target_status: {
+        key: result.targetStatus.key,
+        label: result.targetStatus.label,
+      },
+      batch_status: result.batchStatus,
+    });
+  } catch (err) {
+    if (err instanceof WorkflowError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("POST /api/shipments/[id]/transition error:", err);
+    return NextResponse.json({ error: "Failed to move shipment" }, { status: 500 });
+  }
+});
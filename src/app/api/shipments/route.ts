@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import {
+  batchCode,
+  parseBatchDate,
+  BATCH_METHODS,
+  BATCH_STATUS_LABELS,
+  type BatchShippingMethod,
+  type BatchStatus,
+} from "@/lib/shipments";
+
+
+/**
+ * GET /api/shipments — List shipment batches
+ *
+ * Query: status (open | in_transit | received), method (air | sea)
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const status = req.nextUrl.searchParams.get("status");
+    const method = req.nextUrl.searchParams.get("method");
+
+    const batches = await prisma.cms_shipment_batches.findMany({
+      where: {
+        ...(status && status in BATCH_STATUS_LABELS ? { status: status as BatchStatus } : {}),
+        ...(method && BATCH_METHODS.includes(method as BatchShippingMethod)
+          ? { shipping_method: method as BatchShippingMethod }
+          : {}),
+      },
+      include: { _count: { select: { items: true } } },
+      orderBy: { id: "desc" },
+    });
+
+    return NextResponse.json({
+      batches: batches.map(({ _count, ...b }) => ({
+        ...b,
+        code: batchCode(b),
+        status_label: BATCH_STATUS_LABELS[b.status],
+        item_count: _count.items,
+      })),
+    });
+  } catch (err) {
+    console.error("GET /api/shipments error:", err);
+    return NextResponse.json({ error: "Failed to fetch shipments" }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/shipments — Create a shipment batch
+ *
+ * Body: {
+ *   carrier: string,
+ *   shipping_method: "air" | "sea",
+ *   reference?: string,        // container number / AWB
+ *   departure_date?: "YYYY-MM-DD",
+ *   eta_date?: "YYYY-MM-DD",
+ *   notes?: string,
+ * }
+ */
+export const POST = withPermission(async (req: NextRequest, _ctx, session) => {
+  try {
+    const body = await req.json();
+    const carrier = String(body.carrier || "").trim();
+    const departure = parseBatchDate(body.departure_date);
+    const eta = parseBatchDate(body.eta_date);
+
+    if (!carrier) {
+      return NextResponse.json({ error: "carrier is required" }, { status: 400 });
+    }
+    if (!BATCH_METHODS.includes(body.shipping_method)) {
+      return NextResponse.json({ error: "shipping_method must be air or sea" }, { status: 400 });
+    }
+    if (departure === undefined || eta === undefined) {
+      return NextResponse.json({ error: "Invalid departure or ETA date" }, { status: 400 });
+    }
+    if (departure && eta && eta < departure) {
+      return NextResponse.json({ error: "ETA cannot be before departure" }, { status: 400 });
+    }
+
+    const batch = await prisma.cms_shipment_batches.create({
+      data: {
+        carrier,
+        shipping_method: body.shipping_method,
+        reference: String(body.reference || "").trim() || null,
+        departure_date: departure,
+        eta_date: eta,
+        notes: body.notes || null,
+        created_by: session.userId,
+      },
+    });
+
+    return NextResponse.json(
+      { success: true, batch: { ...batch, code: batchCode(batch) } },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error("POST /api/shipments error:", err);
+    return NextResponse.json({ error: "Failed to create shipment" }, { status: 500 });
+  }
+});
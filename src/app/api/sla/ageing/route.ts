@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/route-guard";
+import { getAgeingReport } from "@/lib/sla";
+
+/**
+ * GET /api/sla/ageing — Items overdue against their status SLA
+ *
+ * Query: status (status_key), role (role_key)
+ * Returns per-status and per-role overdue counts plus the oldest overdue
+ * items (up to 50 per status), most overdue first.
+ */
+export const GET = withPermission(async (req: NextRequest) => {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const report = await getAgeingReport({
+      statusKey: sp.get("status") || undefined,
+      roleKey: sp.get("role") || undefined,
+    });
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error("GET /api/sla/ageing error:", err);
+    return NextResponse.json({ error: "Failed to load ageing report" }, { status: 500 });
+  }
+});
@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/splash-ads/[id] — Get single splash ad
  */
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const ad = await prisma.splash_ads.findUnique({
@@ -37,15 +38,15 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PUT /api/splash-ads/[id] — Update splash ad
  */
-export async function PUT(
+export const PUT = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const body = await request.json();
@@ -88,15 +89,15 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/splash-ads/[id] — Delete splash ad
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     await prisma.splash_ads.delete({ where: { id: parseInt(id, 10) } });
@@ -108,4 +109,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,11 +1,12 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/splash-ads — List all splash ads
  */
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     const ads = (await prisma.$queryRawUnsafe(`
       SELECT id, title, media_type, media_url, thumbnail_url, link_type, link_value,
@@ -42,12 +43,12 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/splash-ads — Create a new splash ad
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
 
@@ -81,4 +82,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/tryon-generations
@@ -14,7 +15,7 @@ import { prisma } from "@/lib/prisma";
  *   product_id - filter by specific product
  *   user_id    - filter by specific user
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
     const sp = request.nextUrl.searchParams;
     const view = sp.get("view") || "all";
@@ -242,4 +243,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/tryon-generations/stats
  * Returns aggregate statistics for the AI Try-On feature
  */
-export async function GET() {
+export const GET = withPermission(async () => {
   try {
     const [totals, todayCount, avgTime, topProducts, topUsers, statusBreakdown, dailyTrend] =
       await Promise.all([
@@ -100,4 +101,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/tryon-prompts/[id] — Get a single prompt with category details
  */
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const promptId = Number.parseInt(id, 10);
@@ -55,15 +56,15 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * PATCH /api/tryon-prompts/[id] — Update a prompt
  */
-export async function PATCH(
+export const PATCH = withPermission(async (
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const promptId = Number.parseInt(id, 10);
@@ -129,15 +130,15 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * DELETE /api/tryon-prompts/[id] — Delete a prompt
  */
-export async function DELETE(
+export const DELETE = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params;
     const promptId = Number.parseInt(id, 10);
@@ -155,4 +156,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
+});
@@ -1,15 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/tryon-prompts/by-category/[categoryId]
  * Check if a specific category has a try-on prompt.
  * Also walks up the parent chain (like the mobile app does).
  */
-export async function GET(
+export const GET = withPermission(async (
   _request: NextRequest,
   { params }: { params: Promise<{ categoryId: string }> }
-) {
+) => {
   try {
     const { categoryId } = await params;
     const catId = Number.parseInt(categoryId, 10);
@@ -88,4 +89,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/tryon-prompts — List all prompts with category info
  * Query params: search, is_active, page, pageSize
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
     const sp = request.nextUrl.searchParams;
     const search = sp.get("search") || "";
@@ -124,12 +125,12 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST /api/tryon-prompts — Create a new prompt
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { category_id, prompt_template, is_active } = body;
@@ -182,4 +183,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,13 +1,14 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 /**
  * GET /api/tryon-prompts/search-categories?q=shoes
  * Fast category search for the add-prompt form.
  * Returns categories with whether they already have a prompt.
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission(async (request: NextRequest) => {
   try {
     const q = request.nextUrl.searchParams.get("q") || "";
     if (q.length < 1) {
@@ -86,4 +87,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
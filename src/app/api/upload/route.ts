@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import sharp from "sharp";
 import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
 
 const BACKEND_URL =
   process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
@@ -20,7 +21,7 @@ const BACKEND_URL =
  *  - record_id  : string  (optional — ID of the record to link in ag_attachment)
  *  - table_name : string  (optional — table name for ag_attachment)
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission(async (request: NextRequest) => {
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File;
@@ -168,4 +169,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
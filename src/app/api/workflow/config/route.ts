@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/route-guard";
+import {
+  validateWorkflowConfig,
+  edgeKey,
+  type WorkflowConfig,
+  type WorkflowStatusConfig,
+} from "@/lib/workflow-config";
+
+/**
+ * GET /api/workflow/config — Item workflow graph
+ *
+ * Returns every status (including retired ones), the global transitions and
+ * the per-role transition rules, keyed by status_key. Role rules whose edge
+ * is missing from the global transition table are folded in as transitions
+ * so the editor shows what getAllowedTransitions actually allows.
+ */
+export const GET = withPermission(async () => {
+  try {
+    const [statuses, transitions, rules, roles, itemCounts] = await Promise.all([
+      prisma.cms_order_item_statuses.findMany({ orderBy: { status_order: "asc" } }),
+      prisma.cms_order_item_status_transitions.findMany({ where: { is_active: true } }),
+      prisma.cms_role_item_transition_permissions.findMany(),
+      prisma.cms_roles.findMany({
+        select: { id: true, role_key: true, role_name: true, is_active: true },
+        orderBy: { id: "asc" },
+      }),
+      prisma.order_products.groupBy({
+        by: ["workflow_status_id"],
+        _count: { id: true },
+      }),
+    ]);
+
+    const keyById = new Map(statuses.map((s) => [s.id, s.status_key]));
+    const countMap = new Map(itemCounts.map((c) => [c.workflow_status_id, c._count.id]));
+
+    const edges = new Map<string, { from: string; to: string }>();
+    for (const t of [...transitions, ...rules]) {
+      const from = keyById.get(t.from_status_id);
+      const to = keyById.get(t.to_status_id);
+      if (from && to) edges.set(edgeKey(from, to), { from, to });
+    }
+
+    return NextResponse.json({
+      statuses: statuses.map((s) => ({
+        id: s.id,
+        status_key: s.status_key,
+        status_label: s.status_label,
+        status_order: s.status_order,
+        customer_bucket: s.customer_bucket,
+        is_terminal: s.is_terminal,
+        is_active: s.is_active,
+        sla_hours: s.sla_hours,
+        item_count: countMap.get(s.id) || 0,
+      })),
+      transitions: Array.from(edges.values()),
+      role_rules: rules
+        .filter((r) => keyById.has(r.from_status_id) && keyById.has(r.to_status_id))
+        .map((r) => ({
+          role_id: r.role_id,
+          from: keyById.get(r.from_status_id)!,
+          to: keyById.get(r.to_status_id)!,
+          can_transition: r.can_transition,
+          requires_tracking_number: r.requires_tracking_number,
+        })),
+      roles,
+    });
+  } catch (err) {
+    console.error("GET /api/workflow/config error:", err);
+    return NextResponse.json({ error: "Failed to load workflow" }, { status: 500 });
+  }
+});
+
+/**
+ * PUT /api/workflow/config — Replace the item workflow graph
+ *
+ * Body: WorkflowConfig { statuses, transitions, role_rules } (see lib/workflow-config)
+ *
+ * The whole graph is validated before anything is written; invalid configs
+ * return 400 with { errors, warnings }. Statuses are upserted by key and
+ * never deleted, transitions missing from the body are deactivated, and
+ * role rules are replaced wholesale.
+ */
+export const PUT = withPermission(async (req: NextRequest) => {
+  try {
+    const body = (await req.json()) as WorkflowConfig;
+    const config: WorkflowConfig = {
+      statuses: Array.isArray(body.statuses) ? body.statuses : [],
+      transitions: Array.isArray(body.transitions) ? body.transitions : [],
+      role_rules: Array.isArray(body.role_rules) ? body.role_rules : [],
+    };
+
+    const existing = await prisma.cms_order_item_statuses.findMany();
+    const { errors, warnings } = validateWorkflowConfig(
+      config,
+      existing.map((s) => s.status_key)
+    );
+
+    const roleIds = [...new Set(config.role_rules.map((r) => Number(r.role_id)))];
+    const knownRoles = await prisma.cms_roles.count({ where: { id: { in: roleIds } } });
+    if (knownRoles !== roleIds.length) {
+      errors.push("Role rules reference an unknown role");
+    }
+
+    if (errors.length) {
+      return NextResponse.json(
+        { error: errors[0], errors, warnings },
+        { status: 400 }
+      );
+    }
+
+    // Items cannot be stranded in a status that is being retired
+    const retiring = existing.filter((s) => {
+      const next = config.statuses.find((c) => c.status_key === s.status_key);
+      return s.is_active && next && !next.is_active;
+    });
+    if (retiring.length) {
+      const stranded = await prisma.order_products.groupBy({
+        by: ["workflow_status_id"],
+        where: { workflow_status_id: { in: retiring.map((s) => s.id) } },
+        _count: { id: true },
+      });
+      if (stranded.length) {
+        const detail = stranded.map((g) => {
+          const s = retiring.find((r) => r.id === g.workflow_status_id);
+          return `"${s?.status_key}" (${g._count.id} items)`;
+        });
+        const error = `Move items out before retiring ${detail.join(", ")}`;
+        return NextResponse.json({ error, errors: [error], warnings }, { status: 409 });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const idByKey = new Map<string, number>();
+      for (const s of config.statuses as WorkflowStatusConfig[]) {
+        const data = {
+          status_label: s.status_label.trim(),
+          status_order: s.status_order,
+          customer_bucket: s.customer_bucket,
+          is_terminal: !!s.is_terminal,
+          is_active: !!s.is_active,
+          sla_hours: s.sla_hours ?? null,
+        };
+        const saved = await tx.cms_order_item_statuses.upsert({
+          where: { status_key: s.status_key },
+          create: { status_key: s.status_key, ...data },
+          update: data,
+        });
+        idByKey.set(saved.status_key, saved.id);
+      }
+
+      // Deactivate every transition, then re-activate the configured ones
+      await tx.cms_order_item_status_transitions.updateMany({ data: { is_active: false } });
+      for (const t of config.transitions) {
+        const from_status_id = idByKey.get(t.from)!;
+        const to_status_id = idByKey.get(t.to)!;
+        await tx.cms_order_item_status_transitions.upsert({
+          where: { from_status_id_to_status_id: { from_status_id, to_status_id } },
+          create: { from_status_id, to_status_id, is_active: true },
+          update: { is_active: true },
+        });
+      }
+
+      await tx.cms_role_item_transition_permissions.deleteMany();
+      if (config.role_rules.length) {
+        await tx.cms_role_item_transition_permissions.createMany({
+          data: config.role_rules.map((r) => ({
+            role_id: Number(r.role_id),
+            from_status_id: idByKey.get(r.from)!,
+            to_status_id: idByKey.get(r.to)!,
+            can_transition: !!r.can_transition,
+            requires_tracking_number: !!r.requires_tracking_number,
+          })),
+        });
+      }
+    });
+
+    return NextResponse.json({ success: true, warnings });
+  } catch (err) {
+    console.error("PUT /api/workflow/config error:", err);
+    return NextResponse.json({ error: "Failed to save workflow" }, { status: 500 });
+  }
+});
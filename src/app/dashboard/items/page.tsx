@@ -1,8 +1,9 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, Suspense } from "react";
 // Using plain <img> for product images since they come from many unpredictable CDN domains
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import {
   ClipboardList,
   Search,
@@ -15,8 +16,14 @@ import {
   CheckSquare,
   Square,
   MinusSquare,
+  Printer,
+  FileText,
+  AlarmClock,
+  History,
 } from "lucide-react";
 import { thumbnailUrl } from "@/lib/image-url";
+import { AgeingPanel } from "@/components/sla/ageing-panel";
+import { StatusHistoryTimeline } from "@/components/orders/status-history-timeline";
 import { useVirtualizer } from "@tanstack/react-virtual";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -51,6 +58,33 @@ function WorkflowBadge({ statusKey, label }: { statusKey: string | null; label:
   );
 }
 
+// ── Status history modal ──────────────────────────────────────────────
+function HistoryModal({ item, onClose }: { item: any; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className="flex max-h-[85vh] w-full max-w-lg flex-col rounded-lg bg-background p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold">Status History</h3>
+            <p className="text-sm text-muted-foreground">
+              {item.product_name} (Item #{item.id}, Order #{item.order_id})
+            </p>
+          </div>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="overflow-y-auto">
+          <StatusHistoryTimeline url={`/api/orders/items/${item.id}/history`} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ── Workflow status change modal ──────────────────────────────────────
 function WorkflowModal({
   item,
@@ -101,6 +135,7 @@ function WorkflowModal({
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           to_status_key: toStatusKey,
+          expected_from_status: item.workflow_status_key,
           tracking_number: trackingNumber || undefined,
           note: note || undefined,
         }),
@@ -228,6 +263,18 @@ function WorkflowModal({
 
 // ── Main page ─────────────────────────────────────────────────────────
 export default function ItemListPage() {
+  return (
+    <Suspense>
+      <ItemListPageContent />
+    </Suspense>
+  );
+}
+
+function ItemListPageContent() {
+  // ?overdue[=status_key] — opened from an SLA alert or the dashboard
+  const searchParams = useSearchParams();
+  const overdueParam = searchParams.get("overdue");
+  const [showOverdue, setShowOverdue] = useState(overdueParam !== null);
   const [items, setItems] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
@@ -239,6 +286,7 @@ export default function ItemListPage() {
   const [statusFilter, setStatusFilter] = useState("");
   const [statusSummary, setStatusSummary] = useState<any[]>([]);
   const [selectedItem, setSelectedItem] = useState<any>(null);
+  const [historyItem, setHistoryItem] = useState<any>(null);
   const [orderIdFilter, setOrderIdFilter] = useState("");
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [showBulkModal, setShowBulkModal] = useState(false);
@@ -387,8 +435,19 @@ export default function ItemListPage() {
             <p className="text-sm text-muted-foreground">{totalCount} items across all orders</p>
           </div>
         </div>
+        <button
+          onClick={() => setShowOverdue((v) => !v)}
+          className={`flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm font-medium transition-colors ${
+            showOverdue ? "border-orange-300 bg-orange-50 text-orange-700 dark:border-orange-800 dark:bg-orange-950/30 dark:text-orange-400" : "hover:bg-accent"
+          }`}
+        >
+          <AlarmClock className="h-4 w-4" />
+          Overdue
+        </button>
       </div>
 
+      {showOverdue && <AgeingPanel statusKey={overdueParam || undefined} />}
+
       {/* Status filter tabs */}
       <div className="flex flex-wrap gap-2">
         <button
@@ -484,6 +543,24 @@ export default function ItemListPage() {
           >
             Bulk Change Status
           </button>
+          <a
+            href={`/api/print/labels?item_ids=${[...selectedIds].join(",")}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-accent transition-colors"
+          >
+            <Printer className="h-4 w-4" />
+            Print Labels
+          </a>
+          <a
+            href={`/api/print/packing-slip?item_ids=${[...selectedIds].join(",")}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm font-medium hover:bg-accent transition-colors"
+          >
+            <FileText className="h-4 w-4" />
+            Packing Slip
+          </a>
           <button
             onClick={() => setSelectedIds(new Set())}
             className="ml-auto rounded-md border px-3 py-1.5 text-sm text-muted-foreground hover:text-foreground transition-colors"
@@ -510,7 +587,7 @@ export default function ItemListPage() {
             {/* Header row – stays fixed */}
             <div
               className="grid items-center border-b bg-muted/80 text-sm font-medium"
-              style={{ gridTemplateColumns: (userRole === "super_admin" || userRole === "buyer") ? "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 90px 120px" : "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 120px" }}
+              style={{ gridTemplateColumns: (userRole === "super_admin" || userRole === "buyer") ? "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 90px 150px" : "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 150px" }}
             >
               <div className="px-3 py-3 flex justify-center">
                 <button onClick={toggleSelectAll} className="text-muted-foreground hover:text-foreground">
@@ -552,7 +629,7 @@ export default function ItemListPage() {
                         !item.is_terminal ? "cursor-pointer" : ""
                       } ${selectedIds.has(item.id) ? "bg-primary/5" : ""}`}
                       style={{
-                        gridTemplateColumns: (userRole === "super_admin" || userRole === "buyer") ? "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 90px 120px" : "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 120px",
+                        gridTemplateColumns: (userRole === "super_admin" || userRole === "buyer") ? "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 90px 150px" : "40px minmax(160px,2fr) 90px 50px 140px minmax(100px,1fr) 150px",
                         height: `${virtualRow.size}px`,
                         transform: `translateY(${virtualRow.start}px)`,
                       }}
@@ -661,7 +738,7 @@ export default function ItemListPage() {
                       )}
 
                       {/* Actions */}
-                      <div className="px-3 py-2">
+                      <div className="flex items-center gap-1 px-3 py-2">
                         {!item.is_terminal && (
                           <button
                             onClick={(e) => { e.stopPropagation(); setSelectedItem(item); }}
@@ -670,6 +747,13 @@ export default function ItemListPage() {
                             Change Status
                           </button>
                         )}
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setHistoryItem(item); }}
+                          className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-foreground transition-colors"
+                          title="Status history"
+                        >
+                          <History className="h-3.5 w-3.5" />
+                        </button>
                       </div>
                     </div>
                   );
@@ -794,17 +878,24 @@ export default function ItemListPage() {
                   )}
                 </div>
 
-                {/* Action button */}
-                {!item.is_terminal && (
-                  <div className="mt-3 flex justify-end">
+                {/* Action buttons */}
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); setHistoryItem(item); }}
+                    className="inline-flex items-center gap-1 rounded-md border px-3 py-1.5 text-xs font-medium text-muted-foreground hover:bg-accent transition-colors"
+                  >
+                    <History className="h-3.5 w-3.5" />
+                    History
+                  </button>
+                  {!item.is_terminal && (
                     <button
                       onClick={(e) => { e.stopPropagation(); setSelectedItem(item); }}
                       className="rounded-md bg-primary/10 px-3 py-1.5 text-xs font-medium text-primary hover:bg-primary/20 transition-colors"
                     >
                       Change Status
                     </button>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
             ))}
 
@@ -840,6 +931,11 @@ export default function ItemListPage() {
         />
       )}
 
+      {/* Status history modal */}
+      {historyItem && (
+        <HistoryModal item={historyItem} onClose={() => setHistoryItem(null)} />
+      )}
+
       {/* Bulk workflow modal */}
       {showBulkModal && selectedItemsData.length > 0 && (
         <BulkWorkflowModal
@@ -956,6 +1052,9 @@ function BulkWorkflowModal({
         body: JSON.stringify({
           item_ids: items.map((i) => i.id),
           to_status_key: toStatusKey,
+          expected_from_statuses: Object.fromEntries(
+            items.map((i) => [i.id, i.workflow_status_key])
+          ),
           tracking_number: trackingNumber || undefined,
         }),
       });
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState, useEffect, useCallback, use } from "react";
+import Link from "next/link";
+import { ArrowLeft, Ban, ChevronLeft, ChevronRight, Loader2, Megaphone, Pencil, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  CampaignForm,
+  CampaignStatusBadge,
+  describeSegment,
+  formatSchedule,
+  type CategoryOption,
+  type PushCampaign,
+  type RecipientStatus,
+} from "@/components/notifications/campaign-form";
+
+interface Recipient {
+  id: number;
+  user_id: number;
+  status: RecipientStatus;
+  attempts: number;
+  error: string | null;
+  sent_at: string | null;
+  user: { id: number; first_name: string | null; last_name: string | null; email: string | null; device_type: string | null } | null;
+}
+
+interface CampaignDetail {
+  campaign: PushCampaign;
+  categories: CategoryOption[];
+  status_counts: Partial<Record<RecipientStatus, number>>;
+  recipients: Recipient[];
+  pagination: { page: number; totalPages: number; total: number };
+}
+
+const RECIPIENT_STATUSES: RecipientStatus[] = ["pending", "sent", "failed", "skipped", "cancelled"];
+
+const RECIPIENT_STYLES: Record<RecipientStatus, string> = {
+  pending: "text-muted-foreground",
+  sent: "text-green-600 dark:text-green-400",
+  failed: "text-red-600 dark:text-red-400",
+  skipped: "text-yellow-600 dark:text-yellow-400",
+  cancelled: "text-muted-foreground line-through",
+};
+
+export default function PushCampaignDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+  const [recipientStatus, setRecipientStatus] = useState("");
+  const [page, setPage] = useState(1);
+  const [canSend, setCanSend] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+
+  const fetchDetail = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "50" });
+      if (recipientStatus) params.set("status", recipientStatus);
+      const res = await fetch(`/api/notifications/campaigns/${id}?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load campaign");
+      setDetail(data);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load campaign");
+    }
+  }, [id, page, recipientStatus]);
+
+  useEffect(() => {
+    fetchDetail();
+  }, [fetchDetail]);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((meData) => setCanSend((meData.user?.permissions || []).includes("action.notifications.send")))
+      .catch(() => setCanSend(false));
+  }, []);
+
+  // Follow delivery progress while the dispatcher works through the queue
+  const sending = detail?.campaign.status === "sending";
+  useEffect(() => {
+    if (!sending) return;
+    const timer = setInterval(fetchDetail, 10_000);
+    return () => clearInterval(timer);
+  }, [sending, fetchDetail]);
+
+  const handleCancel = async () => {
+    if (!detail) return;
+    const pending = detail.status_counts.pending ?? 0;
+    const message =
+      detail.campaign.status === "sending"
+        ? `Stop this campaign? ${pending} customer(s) still waiting for the push will not get it.`
+        : "Cancel this campaign? It will not be sent.";
+    if (!confirm(message)) return;
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/notifications/campaigns/${id}/cancel`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to cancel campaign");
+      toast.success("Campaign cancelled");
+      fetchDetail();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel campaign");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (!detail) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const { campaign, categories, status_counts, recipients, pagination } = detail;
+  const editable = campaign.status === "draft" || campaign.status === "scheduled";
+  const cancellable = editable || campaign.status === "sending";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <Link
+            href="/dashboard/notifications/campaigns"
+            className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" /> Push Campaigns
+          </Link>
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight md:text-3xl">
+            <Megaphone className="h-6 w-6" /> {campaign.name}
+          </h1>
+          <div className="mt-1 flex items-center gap-2 text-sm text-muted-foreground">
+            <CampaignStatusBadge status={campaign.status} />
+            <span>{formatSchedule(campaign)}</span>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={fetchDetail} className="gap-2">
+            <RefreshCw className="h-4 w-4" /> Refresh
+          </Button>
+          {canSend && editable && !editing && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)} className="gap-2">
+              <Pencil className="h-4 w-4" /> Edit
+            </Button>
+          )}
+          {canSend && cancellable && (
+            <Button variant="destructive" size="sm" onClick={handleCancel} disabled={cancelling} className="gap-2">
+              {cancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+              {campaign.status === "sending" ? "Stop sending" : "Cancel campaign"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {editing && editable ? (
+        <CampaignForm
+          campaign={campaign}
+          categories={categories}
+          onSaved={() => {
+            setEditing(false);
+            fetchDetail();
+          }}
+        />
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          {/* Message */}
+          <div className="rounded-xl border bg-card p-5 shadow-sm">
+            <p className="mb-2 text-[10px] font-medium uppercase text-muted-foreground">Message</p>
+            <p className="font-semibold">{campaign.subject}</p>
+            <p className="mt-1 whitespace-pre-line text-sm text-muted-foreground">{campaign.body}</p>
+            <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              <span>Type: {campaign.notification_type}</span>
+              {campaign.row_id !== null && <span>Row: #{campaign.row_id}</span>}
+              {campaign.action_url && <span className="truncate">Link: {campaign.action_url}</span>}
+              <span>{campaign.send_push ? "Push + in-app" : "In-app only"}</span>
+            </div>
+          </div>
+
+          {/* Audience & delivery */}
+          <div className="rounded-xl border bg-card p-5 shadow-sm">
+            <p className="mb-2 text-[10px] font-medium uppercase text-muted-foreground">Audience</p>
+            <p className="text-sm">{describeSegment(campaign.segment, categories)}</p>
+            {campaign.started_at ? (
+              <div className="mt-4 grid grid-cols-4 gap-2 text-center">
+                {(["sent", "pending", "failed", "skipped"] as const).map((s) => (
+                  <div key={s} className="rounded-lg bg-muted/40 p-2">
+                    <p className={`font-mono text-lg font-semibold ${RECIPIENT_STYLES[s]}`}>
+                      {(status_counts[s] ?? 0).toLocaleString()}
+                    </p>
+                    <p className="text-[10px] uppercase text-muted-foreground">{s}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-3 text-xs text-muted-foreground">
+                Recipients are resolved from the segment when the campaign starts sending.
+              </p>
+            )}
+            {campaign.completed_at && (
+              <p className="mt-3 text-xs text-muted-foreground">
+                Finished {new Date(campaign.completed_at).toLocaleString()}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Recipients */}
+      {campaign.started_at && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="font-semibold">Recipients ({campaign.recipient_count.toLocaleString()})</h2>
+            <select
+              value={recipientStatus}
+              onChange={(e) => {
+                setRecipientStatus(e.target.value);
+                setPage(1);
+              }}
+              className="rounded-lg border bg-background px-3 py-2 text-sm capitalize"
+            >
+              <option value="">All statuses</option>
+              {RECIPIENT_STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s} ({status_counts[s] ?? 0})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="overflow-x-auto rounded-xl border bg-card shadow-sm">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-muted/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  <th className="px-4 py-3">Customer</th>
+                  <th className="px-4 py-3">Device</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3 text-right">Attempts</th>
+                  <th className="px-4 py-3">Sent at</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recipients.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                      No recipients
+                    </td>
+                  </tr>
+                ) : (
+                  recipients.map((r) => (
+                    <tr key={r.id} className="border-b last:border-0">
+                      <td className="px-4 py-3">
+                        <Link href={`/dashboard/customers?viewUser=${r.user_id}`} className="text-sm font-medium hover:underline">
+                          {[r.user?.first_name, r.user?.last_name].filter(Boolean).join(" ") || `User #${r.user_id}`}
+                        </Link>
+                        {r.user?.email && <p className="text-xs text-muted-foreground">{r.user.email}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-sm capitalize">{r.user?.device_type || "—"}</td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`capitalize ${RECIPIENT_STYLES[r.status]}`}>{r.status}</span>
+                        {r.error && <p className="max-w-xs truncate text-xs text-muted-foreground">{r.error}</p>}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono text-sm">{r.attempts}</td>
+                      <td className="px-4 py-3 text-sm text-muted-foreground">
+                        {r.sent_at ? new Date(r.sent_at).toLocaleString() : "—"}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page <= 1}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= pagination.totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, Megaphone } from "lucide-react";
+import { CampaignForm } from "@/components/notifications/campaign-form";
+
+export default function NewPushCampaignPage() {
+  const router = useRouter();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/dashboard/notifications/campaigns"
+          className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" /> Push Campaigns
+        </Link>
+        <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight md:text-3xl">
+          <Megaphone className="h-6 w-6" /> New Campaign
+        </h1>
+      </div>
+
+      <CampaignForm onSaved={(campaign) => router.push(`/dashboard/notifications/campaigns/${campaign.id}`)} />
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, ChevronLeft, ChevronRight, Megaphone, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  CampaignStatusBadge,
+  formatSchedule,
+  type CampaignStatus,
+  type PushCampaign,
+} from "@/components/notifications/campaign-form";
+
+const STATUSES: CampaignStatus[] = ["draft", "scheduled", "sending", "sent", "cancelled"];
+
+export default function PushCampaignsPage() {
+  const router = useRouter();
+  const [campaigns, setCampaigns] = useState<PushCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [canSend, setCanSend] = useState(false);
+
+  const fetchCampaigns = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" });
+      if (status) params.set("status", status);
+      const res = await fetch(`/api/notifications/campaigns?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load campaigns");
+      setCampaigns(data.campaigns);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load campaigns");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((meData) => setCanSend((meData.user?.permissions || []).includes("action.notifications.send")))
+      .catch(() => setCanSend(false));
+  }, []);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <Link
+            href="/dashboard/notifications"
+            className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" /> Notifications
+          </Link>
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight md:text-3xl">
+            <Megaphone className="h-6 w-6" /> Push Campaigns
+          </h1>
+          <p className="mt-1 text-muted-foreground">Scheduled notifications to customer segments</p>
+        </div>
+        {canSend && (
+          <Button asChild className="gap-2">
+            <Link href="/dashboard/notifications/campaigns/new">
+              <Plus className="h-4 w-4" /> New Campaign
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {/* Status filter */}
+      <div className="flex flex-wrap gap-2">
+        {["", ...STATUSES].map((s) => (
+          <button
+            key={s || "all"}
+            onClick={() => {
+              setStatus(s);
+              setPage(1);
+            }}
+            className={`rounded-full border px-3 py-1 text-sm capitalize ${
+              status === s ? "border-primary bg-primary text-primary-foreground" : "hover:bg-accent"
+            }`}
+          >
+            {s || "All"}
+          </button>
+        ))}
+      </div>
+
+      {/* Table */}
+      {loading ? (
+        <div className="h-64 animate-pulse rounded-xl border bg-muted/40" />
+      ) : campaigns.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-xl border py-16 text-center">
+          <Megaphone className="mb-3 h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No campaigns yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border bg-card shadow-sm">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-muted/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                <th className="px-4 py-3">Campaign</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Send at</th>
+                <th className="px-4 py-3 text-right">Recipients</th>
+                <th className="px-4 py-3 text-right">Sent / failed / skipped</th>
+              </tr>
+            </thead>
+            <tbody>
+              {campaigns.map((c) => (
+                <tr
+                  key={c.id}
+                  onClick={() => router.push(`/dashboard/notifications/campaigns/${c.id}`)}
+                  className="cursor-pointer border-b last:border-0 hover:bg-muted/30"
+                >
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium">{c.name}</p>
+                    <p className="max-w-xs truncate text-xs text-muted-foreground">{c.subject}</p>
+                  </td>
+                  <td className="px-4 py-3">
+                    <CampaignStatusBadge status={c.status} />
+                    {!c.send_push && <span className="ml-1 text-xs text-muted-foreground">in-app</span>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{formatSchedule(c)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-sm">
+                    {c.started_at ? c.recipient_count.toLocaleString() : "—"}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-sm">
+                    {c.started_at ? `${c.sent_count} / ${c.failed_count} / ${c.skipped_count}` : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p - 1)} disabled={page <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => p + 1)} disabled={page >= totalPages}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
 import {
   Bell,
   Search,
@@ -30,6 +31,8 @@ import {
   Plus,
   Link2,
   Upload,
+  Workflow,
+  FileText,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -478,9 +481,26 @@ export default function NotificationsPage() {
             View, manage &amp; send in-app and push notifications
           </p>
         </div>
-        <Button onClick={() => { resetForm(); setCreateOpen(true); }} className="gap-2">
-          <Plus className="h-4 w-4" /> New Notification
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild className="gap-2">
+            <Link href="/dashboard/notifications/rules">
+              <Workflow className="h-4 w-4" /> Automated Rules
+            </Link>
+          </Button>
+          <Button variant="outline" asChild className="gap-2">
+            <Link href="/dashboard/notifications/templates">
+              <FileText className="h-4 w-4" /> Templates
+            </Link>
+          </Button>
+          <Button variant="outline" asChild className="gap-2">
+            <Link href="/dashboard/notifications/campaigns">
+              <Megaphone className="h-4 w-4" /> Campaigns
+            </Link>
+          </Button>
+          <Button onClick={() => { resetForm(); setCreateOpen(true); }} className="gap-2">
+            <Plus className="h-4 w-4" /> New Notification
+          </Button>
+        </div>
       </div>
 
       {/* ═══ Stats ═══ */}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { ArrowLeft, FileText, Loader2, RotateCcw, Save, Workflow } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+interface NotificationRule {
+  event_key: string;
+  label: string;
+  description: string;
+  is_enabled: boolean;
+  send_push: boolean;
+  customized: boolean;
+  updated_at: string | null;
+}
+
+function RuleCard({
+  rule,
+  canManage,
+  onSaved,
+}: {
+  rule: NotificationRule;
+  canManage: boolean;
+  onSaved: (rule: NotificationRule) => void;
+}) {
+  const [draft, setDraft] = useState(rule);
+  const [saving, setSaving] = useState<"save" | "reset" | null>(null);
+
+  useEffect(() => setDraft(rule), [rule]);
+
+  const dirty =
+    draft.is_enabled !== rule.is_enabled ||
+    draft.send_push !== rule.send_push;
+
+  const request = async (method: "PUT" | "DELETE") => {
+    setSaving(method === "PUT" ? "save" : "reset");
+    try {
+      const res = await fetch(`/api/notifications/rules/${rule.event_key}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body:
+          method === "PUT"
+            ? JSON.stringify({
+                is_enabled: draft.is_enabled,
+                send_push: draft.send_push,
+              })
+            : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save rule");
+      onSaved(data.rule);
+      toast.success(method === "PUT" ? `${rule.label} saved` : `${rule.label} reset to default`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save rule");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border bg-card p-5 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-semibold">
+            {rule.label}
+            {!rule.customized && <span className="ml-2 text-xs font-normal text-muted-foreground">default</span>}
+          </h2>
+          <p className="text-sm text-muted-foreground">{rule.description}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${rule.event_key}-enabled`}
+              checked={draft.is_enabled}
+              onCheckedChange={(v) => setDraft((d) => ({ ...d, is_enabled: v }))}
+              disabled={!canManage}
+            />
+            <Label htmlFor={`${rule.event_key}-enabled`} className="text-sm">
+              Enabled
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${rule.event_key}-push`}
+              checked={draft.send_push}
+              onCheckedChange={(v) => setDraft((d) => ({ ...d, send_push: v }))}
+              disabled={!canManage || !draft.is_enabled}
+            />
+            <Label htmlFor={`${rule.event_key}-push`} className="text-sm">
+              Push
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Link
+          href={`/dashboard/notifications/templates?key=${rule.event_key}`}
+          className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+        >
+          <FileText className="h-4 w-4" /> Edit message
+        </Link>
+        {canManage && (
+          <div className="flex gap-2">
+            {rule.customized && (
+              <Button variant="outline" size="sm" onClick={() => request("DELETE")} disabled={saving !== null}>
+                {saving === "reset" ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                Reset to default
+              </Button>
+            )}
+            <Button size="sm" onClick={() => request("PUT")} disabled={saving !== null || !dirty}>
+              {saving === "save" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function NotificationRulesPage() {
+  const [rules, setRules] = useState<NotificationRule[] | null>(null);
+  const [canManage, setCanManage] = useState(false);
+
+  useEffect(() => {
+    Promise.all([fetch("/api/notifications/rules"), fetch("/api/auth/me")])
+      .then(async ([res, meRes]) => {
+        const [data, meData] = await Promise.all([res.json(), meRes.json()]);
+        if (!res.ok) throw new Error(data.error || "Failed to load notification rules");
+        setRules(data.rules);
+        setCanManage((meData.user?.permissions || []).includes("action.notifications.rules.manage"));
+      })
+      .catch((err) => toast.error(err.message));
+  }, []);
+
+  if (!rules) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/dashboard/notifications"
+          className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" /> Notifications
+        </Link>
+        <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight md:text-3xl">
+          <Workflow className="h-6 w-6" /> Automated Notifications
+        </h1>
+        <p className="mt-1 text-muted-foreground">
+          Messages sent to customers when their order moves through the workflow
+        </p>
+      </div>
+
+      {rules.map((rule) => (
+        <RuleCard
+          key={rule.event_key}
+          rule={rule}
+          canManage={canManage}
+          onSaved={(saved) => setRules((prev) => prev?.map((r) => (r.event_key === saved.event_key ? saved : r)) ?? prev)}
+        />
+      ))}
+
+      {!canManage && (
+        <p className="text-xs text-muted-foreground">You can review the rules but not change them.</p>
+      )}
+    </div>
+  );
+}
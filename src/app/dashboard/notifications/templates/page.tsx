@@ -0,0 +1,330 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { ArrowLeft, FileText, Loader2, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface TemplateVariant {
+  language_id: number;
+  title: string;
+  body: string;
+  updated_at: string;
+}
+
+interface NotificationTemplate {
+  key: string;
+  label: string;
+  description: string;
+  group: string;
+  placeholders: string[];
+  default_title: string;
+  default_body: string;
+  variants: TemplateVariant[];
+}
+
+interface Language {
+  id: number;
+  name: string;
+  code: string;
+  is_default: boolean;
+}
+
+type Placeholders = Record<string, { description: string; sample: string }>;
+
+/** Text a language currently gets: its own variant, the default language's, or the built-in one */
+function effectiveText(template: NotificationTemplate, languageId: number, defaultLanguageId: number | null) {
+  const own = template.variants.find((v) => v.language_id === languageId);
+  if (own) return { title: own.title, body: own.body, source: "custom" as const };
+  const fallback = template.variants.find((v) => v.language_id === defaultLanguageId);
+  if (fallback) return { title: fallback.title, body: fallback.body, source: "default_language" as const };
+  return { title: template.default_title, body: template.default_body, source: "built_in" as const };
+}
+
+function TemplateEditor({
+  template,
+  languages,
+  placeholders,
+  canManage,
+  onSaved,
+}: {
+  template: NotificationTemplate;
+  languages: Language[];
+  placeholders: Placeholders;
+  canManage: boolean;
+  onSaved: (template: NotificationTemplate) => void;
+}) {
+  const defaultLanguage = languages.find((l) => l.is_default) ?? languages[0] ?? null;
+  const [languageId, setLanguageId] = useState<number | null>(defaultLanguage?.id ?? null);
+  const current = effectiveText(template, languageId ?? 0, defaultLanguage?.id ?? null);
+  const [title, setTitle] = useState(current.title);
+  const [body, setBody] = useState(current.body);
+  const [preview, setPreview] = useState<{ title: string; message: string } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState<"save" | "reset" | null>(null);
+
+  // Reload the text when switching template or language, or after a save
+  useEffect(() => {
+    setTitle(current.title);
+    setBody(current.body);
+  }, [current.title, current.body, languageId]);
+
+  // Server-side preview with sample data, debounced while typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetch(`/api/notifications/templates/${template.key}/preview`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title, body }),
+      })
+        .then(async (res) => {
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || "Preview failed");
+          setPreview({ title: data.title, message: data.message });
+          setPreviewError(null);
+        })
+        .catch((err) => setPreviewError(err.message));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [template.key, title, body]);
+
+  const dirty = title !== current.title || body !== current.body || current.source !== "custom";
+  const languageName = (id: number | null) => languages.find((l) => l.id === id)?.name ?? "this language";
+
+  const request = async (method: "PUT" | "DELETE") => {
+    if (languageId === null) return;
+    setSaving(method === "PUT" ? "save" : "reset");
+    try {
+      const res = await fetch(
+        `/api/notifications/templates/${template.key}${method === "DELETE" ? `?language_id=${languageId}` : ""}`,
+        {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: method === "PUT" ? JSON.stringify({ language_id: languageId, title, body }) : undefined,
+        }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save template");
+      onSaved(data.template);
+      toast.success(
+        method === "PUT"
+          ? `${template.label} saved for ${languageName(languageId)}`
+          : `${template.label} reset for ${languageName(languageId)}`
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border bg-card p-5 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="font-semibold">{template.label}</h2>
+          <p className="text-sm text-muted-foreground">{template.description}</p>
+          <p className="mt-1 font-mono text-[10px] text-muted-foreground">{template.key}</p>
+        </div>
+        {languages.length > 0 && (
+          <select
+            value={languageId ?? ""}
+            onChange={(e) => setLanguageId(Number(e.target.value))}
+            className="rounded-lg border bg-background px-3 py-2 text-sm"
+          >
+            {languages.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name} ({l.code}){l.is_default ? " · default" : ""}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {current.source === "custom"
+          ? `Custom text for ${languageName(languageId)}.`
+          : current.source === "default_language"
+            ? `No ${languageName(languageId)} text yet — customers with this language get the ${languageName(defaultLanguage?.id ?? null)} text below.`
+            : "Using the built-in text."}
+      </p>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="space-y-3">
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Title</label>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={!canManage}
+              maxLength={255}
+              className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Message</label>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              disabled={!canManage}
+              rows={4}
+              className="w-full resize-y rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {template.placeholders.map((key) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setBody((b) => `${b}{{${key}}}`)}
+                disabled={!canManage}
+                title={placeholders[key]?.description}
+                className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs hover:bg-accent disabled:cursor-default disabled:hover:bg-muted"
+              >
+                {`{{${key}}}`}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview with sample values */}
+        <div className="rounded-lg border bg-muted/30 p-3">
+          <p className="mb-2 text-[10px] font-medium uppercase text-muted-foreground">Preview</p>
+          {previewError ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{previewError}</p>
+          ) : preview ? (
+            <>
+              <p className="text-sm font-semibold">{preview.title}</p>
+              <p className="mt-1 whitespace-pre-line text-sm text-muted-foreground">{preview.message}</p>
+            </>
+          ) : (
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+      </div>
+
+      {canManage && languageId !== null && (
+        <div className="flex justify-end gap-2">
+          {current.source === "custom" && (
+            <Button variant="outline" size="sm" onClick={() => request("DELETE")} disabled={saving !== null}>
+              {saving === "reset" ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+              Remove {languageName(languageId)} text
+            </Button>
+          )}
+          <Button size="sm" onClick={() => request("PUT")} disabled={saving !== null || !dirty}>
+            {saving === "save" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function NotificationTemplatesPage() {
+  return (
+    <Suspense>
+      <NotificationTemplatesPageContent />
+    </Suspense>
+  );
+}
+
+function NotificationTemplatesPageContent() {
+  // ?key=<template_key> — opened from an automated rule
+  const searchParams = useSearchParams();
+  const [templates, setTemplates] = useState<NotificationTemplate[] | null>(null);
+  const [languages, setLanguages] = useState<Language[]>([]);
+  const [placeholders, setPlaceholders] = useState<Placeholders>({});
+  const [selectedKey, setSelectedKey] = useState<string | null>(searchParams.get("key"));
+  const [canManage, setCanManage] = useState(false);
+
+  useEffect(() => {
+    Promise.all([fetch("/api/notifications/templates"), fetch("/api/auth/me")])
+      .then(async ([res, meRes]) => {
+        const [data, meData] = await Promise.all([res.json(), meRes.json()]);
+        if (!res.ok) throw new Error(data.error || "Failed to load notification templates");
+        setTemplates(data.templates);
+        setLanguages(data.languages);
+        setPlaceholders(data.placeholders);
+        setCanManage((meData.user?.permissions || []).includes("action.notifications.templates.manage"));
+      })
+      .catch((err) => toast.error(err.message));
+  }, []);
+
+  if (!templates) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const selected = templates.find((t) => t.key === selectedKey) ?? templates[0];
+  const groups = [...new Set(templates.map((t) => t.group))];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/dashboard/notifications"
+          className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" /> Notifications
+        </Link>
+        <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight md:text-3xl">
+          <FileText className="h-6 w-6" /> Notification Templates
+        </h1>
+        <p className="mt-1 text-muted-foreground">
+          The text of every notification the system sends, per language
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[260px_1fr]">
+        {/* Template list */}
+        <nav className="space-y-4">
+          {groups.map((group) => (
+            <div key={group}>
+              <p className="mb-1 px-2 text-[10px] font-medium uppercase text-muted-foreground">{group}</p>
+              {templates
+                .filter((t) => t.group === group)
+                .map((t) => (
+                  <button
+                    key={t.key}
+                    onClick={() => setSelectedKey(t.key)}
+                    className={`flex w-full items-center justify-between rounded-lg px-2 py-1.5 text-left text-sm ${
+                      t.key === selected?.key ? "bg-accent font-medium" : "hover:bg-accent/50"
+                    }`}
+                  >
+                    {t.label}
+                    {t.variants.length > 0 && (
+                      <span className="text-[10px] text-muted-foreground">
+                        {t.variants.length} lang{t.variants.length === 1 ? "" : "s"}
+                      </span>
+                    )}
+                  </button>
+                ))}
+            </div>
+          ))}
+        </nav>
+
+        {selected && (
+          <TemplateEditor
+            key={selected.key}
+            template={selected}
+            languages={languages}
+            placeholders={placeholders}
+            canManage={canManage}
+            onSaved={(saved) => setTemplates((prev) => prev?.map((t) => (t.key === saved.key ? saved : t)) ?? prev)}
+          />
+        )}
+      </div>
+
+      {!canManage && (
+        <p className="text-xs text-muted-foreground">You can review the templates but not change them.</p>
+      )}
+    </div>
+  );
+}
@@ -29,6 +29,15 @@ import {
   Plus,
   Eye,
   Ban,
+  Printer,
+  History,
+  Download,
+  Mail,
+  Repeat,
+  Trash2,
+  Split,
+  Calculator,
+  Wallet,
 } from "lucide-react";
 import { resolveImageUrl, thumbnailUrl } from "@/lib/image-url";
 import {
@@ -37,6 +46,14 @@ import {
   WORKFLOW_STATUS,
 } from "@/lib/order-constants";
 import { toast } from "sonner";
+import { StatusHistoryTimeline } from "@/components/orders/status-history-timeline";
+import { CustomerStatusPreview } from "@/components/orders/customer-status-preview";
+import { ItemRefundsPanel } from "@/components/orders/item-refunds-panel";
+import { InvoiceDeliveryLog, InvoiceEmailForm } from "@/components/orders/invoice-delivery";
+import { OrderEditLog, OrderLineEditor, type LineEditorMode } from "@/components/orders/order-line-editor";
+import { OrderSplitMergePanel } from "@/components/orders/order-split-merge";
+import { ShippingQuoteBuilder } from "@/components/orders/shipping-quote-builder";
+import { OrderSettlementsPanel } from "@/components/orders/order-settlements";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -131,6 +148,7 @@ export default function OrderDetailPage({
     shipping_method: "",
     shipping_amount: "",
   });
+  const [quoteBuilding, setQuoteBuilding] = useState(false);
   const [shippingEstimates, setShippingEstimates] = useState<{ air: number; sea: number; selected_method: string } | null>(null);
   const [shippingStatusChanging, setShippingStatusChanging] = useState(false);
   const [isPaidToggling, setIsPaidToggling] = useState(false);
@@ -150,6 +168,12 @@ export default function OrderDetailPage({
   const [invoicesLoading, setInvoicesLoading] = useState(false);
   const [invoiceGenerating, setInvoiceGenerating] = useState(false);
   const [invoiceUpdating, setInvoiceUpdating] = useState<number | null>(null);
+  const [invoiceEmailing, setInvoiceEmailing] = useState<number | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
+
+  // Line editing (add / remove / replace items)
+  const [lineEditor, setLineEditor] = useState<LineEditorMode | null>(null);
+  const [lineRemoving, setLineRemoving] = useState<number | null>(null);
 
   // Item-level editing states
   const [editingItem, setEditingItem] = useState<number | null>(null);
@@ -215,6 +239,7 @@ export default function OrderDetailPage({
         body: JSON.stringify({
           item_id: itemId,
           workflow_status_key: form.workflow_status_key,
+          expected_from_status: prevData?.products?.find((p: any) => p.id === itemId)?.workflow_status_key,
           tracking_number: form.tracking_number,
           shipping_method: form.shipping_method,
           shipping: Number(form.shipping),
@@ -297,6 +322,13 @@ export default function OrderDetailPage({
     fetchInvoices();
   }, [fetchOrder, fetchInvoices]);
 
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((me) => setPermissions(me.user?.permissions || []))
+      .catch(() => setPermissions([]));
+  }, []);
+
   // Auto-derive shipping estimates when order data loads
   useEffect(() => {
     if (data?.order) {
@@ -407,9 +439,13 @@ export default function OrderDetailPage({
       });
       const json = await res.json();
       if (!res.ok) throw new Error(json.error || "Failed");
-      showToast(`Refund of $${Number(json.refund_amount).toFixed(2)} processed`, "success");
+      showToast(
+        `Refund of $${Number(json.refund_amount).toFixed(2)} processed` +
+          (json.credit_note_number ? ` — credit note ${json.credit_note_number}` : ""),
+        "success"
+      );
       setRefundOpen(false);
-      await fetchOrder();
+      await Promise.all([fetchOrder(), fetchInvoices()]);
     } catch (err: any) {
       showToast(err.message, "error");
     } finally {
@@ -477,6 +513,27 @@ export default function OrderDetailPage({
     }
   };
 
+  // ── Remove an order line ──────────────────────────────────────────
+  const handleRemoveLine = async (item: any) => {
+    if (!confirm(`Remove ${item.product_name} from this order? The line is cancelled and the customer will be notified.`)) return;
+    setLineRemoving(item.id);
+    try {
+      const res = await fetch(`/api/orders/${id}/lines`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "remove", item_id: item.id }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to remove item");
+      showToast(`Item removed — new total $${json.totals.total.toFixed(2)}`, "success");
+      await fetchOrder();
+    } catch (err: any) {
+      showToast(err.message, "error");
+    } finally {
+      setLineRemoving(null);
+    }
+  };
+
   // ── Loading / Error states ────────────────────────────────────────
   if (loading) {
     return (
@@ -505,6 +562,12 @@ export default function OrderDetailPage({
 
   // Warehouse roles have read-only access — no editing allowed
   const canEdit = userRole !== "lebanon_warehouse" && userRole !== "china_warehouse";
+  const canSendInvoices = permissions.includes("action.orders.invoice.send");
+  const canEditLines = permissions.includes("action.orders.lines.edit");
+  const canSplit = permissions.includes("action.orders.split");
+  const canMerge = permissions.includes("action.orders.merge");
+  const canViewPayments = permissions.includes("page.payments");
+  const canRemindShipping = permissions.includes("action.orders.shipping.remind");
 
   // Group item statuses by label for the breakdown display
   const statusGroups: { label: string; count: number; color: string }[] = [];
@@ -551,6 +614,26 @@ export default function OrderDetailPage({
             </div>
           </div>
         </div>
+        <div className="flex gap-2">
+          <a
+            href={`/api/print/labels?order_id=${order.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-accent transition-colors"
+          >
+            <Printer className="h-4 w-4" />
+            Item Labels
+          </a>
+          <a
+            href={`/api/print/packing-slip?order_id=${order.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-accent transition-colors"
+          >
+            <FileText className="h-4 w-4" />
+            Packing Slip
+          </a>
+        </div>
       </div>
 
       {/* Main grid: 2 columns on desktop */}
@@ -642,6 +725,29 @@ export default function OrderDetailPage({
                 )}
               </div>
 
+              {/* Per-item air / sea quote */}
+              {canEdit && order.shipping_status !== 2 && (
+                quoteBuilding ? (
+                  <ShippingQuoteBuilder
+                    orderId={id}
+                    subtotal={Number(order.subtotal || 0)}
+                    discount={Number(order.discount_amount || 0)}
+                    onCancel={() => setQuoteBuilding(false)}
+                    onDone={() => {
+                      setQuoteBuilding(false);
+                      fetchOrder();
+                    }}
+                  />
+                ) : (
+                  <button
+                    onClick={() => setQuoteBuilding(true)}
+                    className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-medium hover:bg-accent"
+                  >
+                    <Calculator className="h-3 w-3" /> Build quote per item
+                  </button>
+                )
+              )}
+
               {/* Shipping Details — edit / view mode */}
               {canEdit && shippingEditing ? (
                 <div className="space-y-4">
@@ -883,6 +989,25 @@ export default function OrderDetailPage({
                           <Pencil className="h-3 w-3" /> Edit
                         </button>
                       )}
+                      {canEditLines && !p.is_terminal && editingItem !== p.id && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => setLineEditor({ action: "replace", item: p })}
+                            className="inline-flex items-center gap-1 rounded border px-2 py-1 text-[10px] text-muted-foreground hover:bg-accent transition-colors"
+                            title="Swap for another variant or product"
+                          >
+                            <Repeat className="h-3 w-3" /> Replace
+                          </button>
+                          <button
+                            onClick={() => handleRemoveLine(p)}
+                            disabled={lineRemoving === p.id}
+                            className="inline-flex items-center gap-1 rounded border px-2 py-1 text-[10px] text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-950/50 transition-colors disabled:opacity-50"
+                            title="Remove from order"
+                          >
+                            {lineRemoving === p.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3" />}
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -1010,6 +1135,28 @@ export default function OrderDetailPage({
                 </div>
               ))}
 
+              {lineEditor ? (
+                <OrderLineEditor
+                  key={lineEditor.action === "replace" ? lineEditor.item.id : "add"}
+                  orderId={id}
+                  mode={lineEditor}
+                  onCancel={() => setLineEditor(null)}
+                  onDone={() => {
+                    setLineEditor(null);
+                    fetchOrder();
+                  }}
+                />
+              ) : canEditLines ? (
+                <button
+                  onClick={() => setLineEditor({ action: "add" })}
+                  className="inline-flex items-center gap-1 rounded-lg border border-dashed px-3 py-1.5 text-xs font-medium text-muted-foreground hover:bg-accent"
+                >
+                  <Plus className="h-3 w-3" /> Add item
+                </button>
+              ) : null}
+
+              <OrderEditLog orderId={id} refreshKey={data} />
+
               {/* Products summary */}
               <div className="border-t pt-3 space-y-1">
                 <InfoRow
@@ -1080,10 +1227,30 @@ export default function OrderDetailPage({
               </div>
             )}
           </SectionCard>
+
+          {/* ── Section G2: Item Status History ─────────────────────── */}
+          <SectionCard title="Item Status History" icon={History}>
+            <StatusHistoryTimeline url={`/api/orders/${id}/history`} showItem refreshKey={data} />
+          </SectionCard>
         </div>
 
         {/* Right column — 1/3 */}
         <div className="space-y-5">
+          {/* ── Section: Customer View ──────────────────────────────── */}
+          <SectionCard title="What the Customer Sees" icon={Eye}>
+            <CustomerStatusPreview orderId={id} refreshKey={data} />
+          </SectionCard>
+
+          {/* ── Settlements: product vs shipping payment ─────────────── */}
+          <SectionCard title="Settlements" icon={Wallet}>
+            <OrderSettlementsPanel
+              orderId={id}
+              canRemind={canRemindShipping}
+              canViewPayments={canViewPayments}
+              refreshKey={data}
+            />
+          </SectionCard>
+
           {/* ── Section C: Payment Summary ──────────────────────────── */}
           <SectionCard title="Payment Summary" icon={CreditCard}>
             <div className="space-y-1">
@@ -1167,7 +1334,16 @@ export default function OrderDetailPage({
                     <div key={t.id} className="flex items-center justify-between rounded-lg bg-muted/50 px-3 py-2">
                       <div>
                         <span className="text-xs font-medium capitalize">{t.gateway}</span>
-                        <p className="text-[10px] text-muted-foreground">{t.external_id}</p>
+                        {canViewPayments ? (
+                          <Link
+                            href={`/dashboard/payments/${t.id}`}
+                            className="block text-[10px] text-primary hover:underline"
+                          >
+                            {t.external_id}
+                          </Link>
+                        ) : (
+                          <p className="text-[10px] text-muted-foreground">{t.external_id}</p>
+                        )}
                       </div>
                       <div className="text-right">
                         <span className="text-sm font-medium">${t.amount.toFixed(2)}</span>
@@ -1205,6 +1381,14 @@ export default function OrderDetailPage({
             actions={
               canEdit ? (
               <div className="flex gap-1">
+                <Link
+                  href="/dashboard/orders/invoice-template"
+                  className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-[10px] font-medium hover:bg-accent"
+                  title="Edit invoice branding, notes and terms"
+                >
+                  <FileText className="h-3 w-3" />
+                  Template
+                </Link>
                 {!invoices.some((inv: any) => inv.type === "product") && (
                   <button
                     onClick={() => handleGenerateInvoice("product")}
@@ -1270,16 +1454,20 @@ export default function OrderDetailPage({
                         <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-semibold ${
                           inv.type === "product"
                             ? "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
-                            : "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400"
+                            : inv.type === "credit_note"
+                              ? "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400"
+                              : "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400"
                         }`}>
-                          {inv.type === "product" ? "📦 Product" : "🚚 Shipping"}
+                          {inv.type === "product" ? "📦 Product" : inv.type === "credit_note" ? "↩️ Credit Note" : "🚚 Shipping"}
                         </span>
                         <StatusBadge
                           label={inv.status}
                           color={inv.status === "generated" ? "blue" : inv.status === "sent" ? "green" : "red"}
                         />
                       </div>
-                      <span className="text-sm font-mono font-semibold">${inv.total.toFixed(2)}</span>
+                      <span className="text-sm font-mono font-semibold">
+                        {inv.type === "credit_note" ? "−" : ""}${inv.total.toFixed(2)}
+                      </span>
                     </div>
 
                     {/* Invoice number & date */}
@@ -1287,6 +1475,18 @@ export default function OrderDetailPage({
                       <span className="font-mono">{inv.invoice_number}</span>
                       <span>{new Date(inv.created_at).toLocaleDateString()}</span>
                     </div>
+                    {inv.sent_at && (
+                      <p className="text-[10px] text-muted-foreground">
+                        Emailed to {inv.sent_to} · {new Date(inv.sent_at).toLocaleString()}
+                      </p>
+                    )}
+                    {inv.type === "credit_note" && (
+                      <p className="text-[10px] text-muted-foreground">
+                        Credits{" "}
+                        <span className="font-mono">{inv.reference_invoice_number || "— (not invoiced)"}</span>
+                        {inv.refund_id ? ` · Refund #${inv.refund_id}` : ""}
+                      </p>
+                    )}
 
                     {/* Actions */}
                     <div className="flex items-center gap-1 pt-1 border-t">
@@ -1298,6 +1498,20 @@ export default function OrderDetailPage({
                       >
                         <Eye className="h-3 w-3" /> View
                       </a>
+                      <a
+                        href={inv.pdf_url}
+                        className="inline-flex items-center gap-1 rounded px-2 py-1 text-[10px] font-medium text-primary hover:bg-accent"
+                      >
+                        <Download className="h-3 w-3" /> PDF
+                      </a>
+                      {canSendInvoices && inv.status !== "void" && (
+                        <button
+                          onClick={() => setInvoiceEmailing(invoiceEmailing === inv.id ? null : inv.id)}
+                          className="inline-flex items-center gap-1 rounded px-2 py-1 text-[10px] font-medium text-primary hover:bg-accent"
+                        >
+                          <Mail className="h-3 w-3" /> {inv.sent_at ? "Resend" : "Email"}
+                        </button>
+                      )}
                       {canEdit && inv.status === "generated" && (
                         <button
                           onClick={() => handleInvoiceStatusChange(inv.id, "sent")}
@@ -1320,6 +1534,18 @@ export default function OrderDetailPage({
                       )}
                     </div>
 
+                    {invoiceEmailing === inv.id && (
+                      <InvoiceEmailForm
+                        invoiceId={inv.id}
+                        defaultTo={inv.sent_to || customer?.email || ""}
+                        onCancel={() => setInvoiceEmailing(null)}
+                        onDone={(sent) => {
+                          if (sent) setInvoiceEmailing(null);
+                          fetchInvoices();
+                        }}
+                      />
+                    )}
+
                     {/* Notes */}
                     {inv.notes && (
                       <p className="text-[10px] text-muted-foreground italic border-t pt-1">{inv.notes}</p>
@@ -1328,6 +1554,7 @@ export default function OrderDetailPage({
                 ))}
               </div>
             )}
+            <InvoiceDeliveryLog orderId={id} refreshKey={invoices} />
           </SectionCard>
 
           {/* ── Section F: Customer & Address ───────────────────────── */}
@@ -1474,7 +1701,7 @@ export default function OrderDetailPage({
                       onChange={(e) =>
                         setRefundForm({ ...refundForm, refund_amount: e.target.value })
                       }
-                      placeholder="Auto-calculated"
+                      placeholder="Still refundable for this type"
                       className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
                     />
                   </div>
@@ -1525,6 +1752,34 @@ export default function OrderDetailPage({
             </SectionCard>
           ) : null}
 
+          {/* ── Refund Ledger / Item Refunds ────────────────────────── */}
+          <SectionCard title="Refunds" icon={RotateCcw}>
+            <ItemRefundsPanel
+              orderId={id}
+              canRefund={canEdit}
+              refreshKey={data}
+              onRefunded={() => {
+                fetchOrder();
+                fetchInvoices();
+              }}
+            />
+          </SectionCard>
+
+          {/* ── Split / Merge ───────────────────────────────────────── */}
+          <SectionCard title="Split & Merge" icon={Split}>
+            <OrderSplitMergePanel
+              orderId={id}
+              lines={products}
+              canSplit={canSplit}
+              canMerge={canMerge}
+              refreshKey={data}
+              onChanged={() => {
+                fetchOrder();
+                fetchInvoices();
+              }}
+            />
+          </SectionCard>
+
           {/* ── Section J: Additional Info ──────────────────────────── */}
           <SectionCard title="Additional Details" icon={FileText}>
             <div className="space-y-1">
@@ -0,0 +1,280 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { ArrowLeft, Download, Loader2, Receipt, Save, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { resolveImageUrl } from "@/lib/image-url";
+import { DocumentNumbering } from "@/components/orders/document-numbering";
+
+interface Branding {
+  color: string;
+  notes: string;
+  terms_conditions: string;
+  main_image: string | null;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export default function InvoiceTemplatePage() {
+  const [branding, setBranding] = useState<Branding | null>(null);
+  const [canManage, setCanManage] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [previewHtml, setPreviewHtml] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    Promise.all([fetch("/api/settings/invoice"), fetch("/api/auth/me")])
+      .then(async ([res, meRes]) => {
+        const [data, meData] = await Promise.all([res.json(), meRes.json()]);
+        if (!res.ok) throw new Error(data.error || "Failed to load invoice template");
+        setBranding(data.branding);
+        setCanManage((meData.user?.permissions || []).includes("action.settings.invoice.update"));
+      })
+      .catch((err) => toast.error(err.message));
+  }, []);
+
+  // Live preview of the unsaved template
+  const brandingKey = JSON.stringify(branding);
+  useEffect(() => {
+    if (!brandingKey || brandingKey === "null") return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch("/api/settings/invoice/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: brandingKey,
+        });
+        if (res.ok) setPreviewHtml(await res.text());
+      } catch {
+        // Keep the last preview
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [brandingKey]);
+
+  const update = (patch: Partial<Branding>) =>
+    setBranding((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = async () => {
+    if (!branding) return;
+    if (!HEX_COLOR.test(branding.color)) {
+      toast.error("Color must be a hex value like #1f2937");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings/invoice", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(branding),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save");
+      setBranding(data.branding);
+      toast.success("Invoice template saved");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogoUpload = async (file: File) => {
+    setUploading(true);
+    try {
+      const fd = new FormData();
+      fd.append("file", file);
+      const res = await fetch("/api/upload", { method: "POST", body: fd });
+      const data = await res.json();
+      const path = data.success ? data.file_path || data.remote_url : null;
+      if (!path) throw new Error(data.error || "Upload failed");
+      update({ main_image: path });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDownloadSample = async () => {
+    if (!branding) return;
+    setDownloading(true);
+    try {
+      const res = await fetch("/api/settings/invoice/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...branding, format: "pdf" }),
+      });
+      if (!res.ok) throw new Error("Failed to render PDF");
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "invoice-sample.pdf";
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to render PDF");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (!branding) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const logoUrl = resolveImageUrl(branding.main_image);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <Link
+            href="/dashboard/orders"
+            className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" /> Orders
+          </Link>
+          <h1 className="flex items-center gap-2 text-2xl font-bold tracking-tight md:text-3xl">
+            <Receipt className="h-6 w-6" /> Invoice Template
+          </h1>
+          <p className="mt-1 text-muted-foreground">
+            Branding, notes, terms and numbering for invoices and credit notes
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDownloadSample} disabled={downloading}>
+            {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Sample PDF
+          </Button>
+          {canManage && (
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[360px_1fr]">
+        {/* Form */}
+        <div className="space-y-4 rounded-xl border bg-card p-5 shadow-sm">
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Accent color</label>
+            <div className="flex gap-2">
+              <input
+                type="color"
+                value={HEX_COLOR.test(branding.color) && branding.color.length === 7 ? branding.color : "#111827"}
+                onChange={(e) => update({ color: e.target.value })}
+                disabled={!canManage}
+                className="h-9 w-12 cursor-pointer rounded border bg-background"
+              />
+              <input
+                value={branding.color}
+                onChange={(e) => update({ color: e.target.value })}
+                disabled={!canManage}
+                className="flex-1 rounded-lg border bg-background px-3 py-2 font-mono text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Logo</label>
+            {logoUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={logoUrl}
+                alt="Invoice logo"
+                className="mb-2 max-h-16 max-w-full rounded border bg-white object-contain p-1"
+              />
+            )}
+            <div className="flex gap-2">
+              <input
+                value={branding.main_image || ""}
+                onChange={(e) => update({ main_image: e.target.value || null })}
+                disabled={!canManage}
+                placeholder="/uploads/logo.png or https://…"
+                className="min-w-0 flex-1 rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+              {canManage && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                  title="Upload logo"
+                >
+                  {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                </Button>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/webp"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleLogoUpload(e.target.files[0])}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Notes</label>
+            <textarea
+              value={branding.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+              disabled={!canManage}
+              rows={4}
+              placeholder="Thank you for shopping with us!"
+              className="w-full resize-y rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="mb-1 block text-xs text-muted-foreground">Terms &amp; conditions</label>
+            <textarea
+              value={branding.terms_conditions}
+              onChange={(e) => update({ terms_conditions: e.target.value })}
+              disabled={!canManage}
+              rows={8}
+              className="w-full resize-y rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+          </div>
+
+          {!canManage && (
+            <p className="text-xs text-muted-foreground">
+              You can preview the template but not change it.
+            </p>
+          )}
+        </div>
+
+        {/* Preview */}
+        <div className="overflow-hidden rounded-xl border bg-muted/30 shadow-sm">
+          {previewHtml ? (
+            <iframe
+              title="Invoice preview"
+              srcDoc={previewHtml}
+              sandbox=""
+              className="h-[80vh] w-full bg-white"
+            />
+          ) : (
+            <div className="flex h-[80vh] items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DocumentNumbering canManage={canManage} />
+    </div>
+  );
+}
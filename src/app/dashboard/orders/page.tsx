@@ -17,7 +17,9 @@ import {
   Loader2,
   ArrowUpDown,
   ChevronsUpDown,
+  BellRing,
 } from "lucide-react";
+import { toast } from "sonner";
 import { SHIPPING_STATUS } from "@/lib/order-constants";
 import { useVirtualizer } from "@tanstack/react-virtual";
 
@@ -113,7 +115,10 @@ export default function OrdersPage() {
   const [sortBy, setSortBy] = useState("created_at");
   const [sortDir, setSortDir] = useState("desc");
   const [fullyPaidFirst, setFullyPaidFirst] = useState(false);
+  const [shippingUnpaidDays, setShippingUnpaidDays] = useState("");
   const [showFilters, setShowFilters] = useState(false);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [reminding, setReminding] = useState(false);
 
   const PAGE_SIZE = 50;
 
@@ -138,6 +143,7 @@ export default function OrdersPage() {
         params.set("sort_by", sortBy);
         params.set("sort_dir", sortDir);
         if (fullyPaidFirst) params.set("fully_paid_first", "1");
+        if (shippingUnpaidDays !== "") params.set("shipping_unpaid_days", shippingUnpaidDays);
 
         const res = await fetch(`/api/orders?${params.toString()}`);
         if (!res.ok) throw new Error("Failed to fetch");
@@ -160,7 +166,7 @@ export default function OrdersPage() {
         loadingRef.current = false;
       }
     },
-    [search, statusFilter, isPaidFilter, shippingStatusFilter, shippingMethodFilter, dateFrom, dateTo, sortBy, sortDir, fullyPaidFirst]
+    [search, statusFilter, isPaidFilter, shippingStatusFilter, shippingMethodFilter, dateFrom, dateTo, sortBy, sortDir, fullyPaidFirst, shippingUnpaidDays]
   );
 
   useEffect(() => {
@@ -170,6 +176,13 @@ export default function OrdersPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fetchOrders]);
 
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((me) => setPermissions(me.user?.permissions || []))
+      .catch(() => setPermissions([]));
+  }, []);
+
   const handleLoadMore = useCallback(() => {
     if (!hasMore || loadingRef.current || !nextCursor) return;
     fetchOrders(nextCursor, true);
@@ -225,6 +238,7 @@ export default function OrdersPage() {
     setSortBy("created_at");
     setSortDir("desc");
     setFullyPaidFirst(false);
+    setShippingUnpaidDays("");
   };
 
   const hasActiveFilters =
@@ -234,7 +248,34 @@ export default function OrdersPage() {
     shippingStatusFilter !== "" ||
     shippingMethodFilter ||
     dateFrom ||
-    dateTo;
+    dateTo ||
+    shippingUnpaidDays !== "";
+
+  const canRemind = permissions.includes("action.orders.shipping.remind");
+  const remindable = orders.filter((o: any) => o.shipping_confirmation?.can_remind);
+
+  const sendShippingReminders = async () => {
+    if (remindable.length === 0) return;
+    if (!confirm(`Send a shipping payment reminder to ${remindable.length} customer(s)?`)) return;
+    setReminding(true);
+    try {
+      const res = await fetch("/api/orders/shipping-reminders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order_ids: remindable.slice(0, 200).map((o: any) => o.id) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to send reminders");
+      toast.success(
+        `Reminded ${data.sent.length} customer(s)` + (data.skipped.length ? `, ${data.skipped.length} skipped` : "")
+      );
+      fetchOrders(null, false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to send reminders");
+    } finally {
+      setReminding(false);
+    }
+  };
 
   const handleSort = (field: string) => {
     if (sortBy === field) {
@@ -404,6 +445,19 @@ export default function OrdersPage() {
               </select>
             </div>
 
+            {/* Shipping confirmed but unpaid */}
+            <div>
+              <label className="mb-1 block text-xs text-muted-foreground">Shipping unpaid ≥ days</label>
+              <input
+                type="number"
+                min={0}
+                value={shippingUnpaidDays}
+                onChange={(e) => setShippingUnpaidDays(e.target.value)}
+                placeholder="e.g. 3"
+                className="w-full rounded-lg border bg-background px-3 py-2 text-sm"
+              />
+            </div>
+
             {/* Date range */}
             <div>
               <label className="mb-1 block text-xs text-muted-foreground">From</label>
@@ -440,6 +494,26 @@ export default function OrdersPage() {
         </div>
       )}
 
+      {/* Shipping payment reminders */}
+      {shippingUnpaidDays !== "" && !loading && orders.length > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-blue-200 bg-blue-50 px-4 py-3 text-sm dark:border-blue-900 dark:bg-blue-950/30">
+          <span>
+            {totalCount} order{totalCount === 1 ? "" : "s"} with shipping confirmed but unpaid for {shippingUnpaidDays}+ days
+          </span>
+          {canRemind && (
+            <button
+              onClick={sendShippingReminders}
+              disabled={reminding || remindable.length === 0}
+              className="inline-flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+              title={remindable.length === 0 ? "All loaded orders were reminded in the last 24 hours" : undefined}
+            >
+              {reminding ? <Loader2 className="h-3 w-3 animate-spin" /> : <BellRing className="h-3 w-3" />}
+              Remind {remindable.length} loaded
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Orders Table */}
       <div className="rounded-xl border bg-card shadow-sm overflow-hidden">
         {loading ? (
@@ -557,6 +631,11 @@ export default function OrdersPage() {
                                 {o.shipping_method === "air" ? "✈️" : "🚢"} {o.shipping_method}
                               </span>
                             )}
+                            {o.shipping_confirmation && (
+                              <span className="text-[10px] text-muted-foreground" title="Since the shipping price was confirmed">
+                                {o.shipping_confirmation.days_waiting}d unpaid
+                              </span>
+                            )}
                           </div>
                         </div>
                         <div className="px-3 py-2 text-center">
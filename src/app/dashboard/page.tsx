@@ -29,6 +29,7 @@ import {
   Area,
   Legend,
 } from "recharts";
+import { AgeingPanel } from "@/components/sla/ageing-panel";
 
 interface DashboardData {
   stats: {
@@ -268,6 +269,9 @@ export default function DashboardPage() {
         ))}
       </div>
 
+      {/* Workflow SLA */}
+      <AgeingPanel compact />
+
       {/* Row 2: Revenue Chart + Orders by Status */}
       <div className="grid gap-4 lg:grid-cols-7">
         <div className="col-span-full rounded-xl border bg-card p-5 shadow-sm lg:col-span-4">
@@ -0,0 +1,355 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { ArrowLeft, History, Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  PAYMENT_FLAG_LABELS,
+  PaymentFlagBadges,
+  PaymentStatusBadge,
+  selectClass,
+  type PaymentFlag,
+  type PaymentTransaction,
+} from "@/components/payments/payment-badges";
+
+type ReconcileAction = "mark_paid" | "mark_failed" | "link_order" | "acknowledge";
+
+interface TransactionDetail extends PaymentTransaction {
+  collect_url: string | null;
+  checkout_data: string | null;
+  gateway_response: string | null;
+  callback_data: string | null;
+  updated_at: string;
+}
+
+interface ReconciliationEntry {
+  id: number;
+  action: ReconcileAction;
+  order_id: number | null;
+  flags: PaymentFlag[];
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  note: string | null;
+  created_by: { id: number; name: string } | null;
+  created_at: string;
+}
+
+interface PaymentDetail {
+  transaction: TransactionDetail;
+  order_transactions: PaymentTransaction[];
+  reconciliations: ReconciliationEntry[];
+}
+
+const ACTION_LABELS: Record<ReconcileAction, string> = {
+  mark_paid: "Mark as paid",
+  mark_failed: "Mark as failed",
+  link_order: "Link to order",
+  acknowledge: "Acknowledge flags",
+};
+
+/** Gateway payloads are stored as text; pretty-print them when they are JSON */
+function formatPayload(raw: string | null) {
+  if (!raw) return null;
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2);
+  } catch {
+    return raw;
+  }
+}
+
+function describeChange(before: Record<string, unknown> | null, after: Record<string, unknown> | null) {
+  if (!before || !after) return [];
+  return Object.keys(after)
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => `${key}: ${String(before[key] ?? "—")} → ${String(after[key] ?? "—")}`);
+}
+
+export default function PaymentDetailPage() {
+  const params = useParams();
+  const id = params.id as string;
+
+  const [detail, setDetail] = useState<PaymentDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [action, setAction] = useState<ReconcileAction>("mark_paid");
+  const [orderId, setOrderId] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const fetchDetail = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/payments/${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to load transaction");
+        return;
+      }
+      setDetail(data);
+    } catch {
+      toast.error("Failed to load transaction");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchDetail();
+    fetch("/api/auth/me")
+      .then((res) => res.json())
+      .then((meData) => setPermissions(meData.user?.permissions || []))
+      .catch(() => setPermissions([]));
+  }, [fetchDetail]);
+
+  const handleReconcile = async () => {
+    if (!note.trim()) {
+      toast.error("A note is required");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/payments/${id}/reconcile`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          order_id: action === "link_order" ? Number(orderId) || null : undefined,
+          note: note.trim(),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to reconcile transaction");
+      setDetail(data);
+      setNote("");
+      setOrderId("");
+      toast.success(`${ACTION_LABELS[action]} — saved`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to reconcile transaction");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="space-y-4">
+        <Link href="/dashboard/payments" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" /> Payments
+        </Link>
+        <p className="text-sm text-muted-foreground">Transaction not found</p>
+      </div>
+    );
+  }
+
+  const { transaction: t, order_transactions, reconciliations } = detail;
+  const canReconcile = permissions.includes("action.payments.reconcile");
+  const payloads = [
+    { label: "Checkout data", value: formatPayload(t.checkout_data) },
+    { label: "Gateway response", value: formatPayload(t.gateway_response) },
+    { label: "Callback data", value: formatPayload(t.callback_data) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link href="/dashboard/payments" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" /> Payments
+        </Link>
+        <div className="mt-2 flex flex-wrap items-center gap-3">
+          <h1 className="text-2xl font-bold tracking-tight md:text-3xl">Transaction #{t.id}</h1>
+          <PaymentStatusBadge status={t.status} />
+        </div>
+        <p className="mt-1 font-mono text-sm text-muted-foreground">{t.external_id}</p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Summary */}
+          <div className="rounded-xl border bg-card p-5 shadow-sm">
+            <dl className="grid gap-4 text-sm sm:grid-cols-3">
+              <div>
+                <dt className="text-xs text-muted-foreground">Amount</dt>
+                <dd className="font-mono font-semibold">
+                  {t.amount.toFixed(2)} {t.currency}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Callback amount</dt>
+                <dd className="font-mono">{t.callback_amount !== null ? t.callback_amount.toFixed(2) : "—"}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Gateway</dt>
+                <dd className="capitalize">{t.gateway.replace(/_/g, " ")}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Order</dt>
+                <dd>
+                  {t.order_id ? (
+                    <Link href={`/dashboard/orders/${t.order_id}`} className="font-mono text-primary hover:underline">
+                      #{t.order_id}
+                    </Link>
+                  ) : (
+                    "—"
+                  )}
+                  <span className="ml-1 text-xs text-muted-foreground">({t.purpose} payment)</span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Order state</dt>
+                <dd>
+                  {t.order
+                    ? t.purpose === "shipping"
+                      ? t.order.shipping_status === 2
+                        ? "Shipping paid"
+                        : "Shipping unpaid"
+                      : t.order.is_paid
+                        ? "Paid"
+                        : "Unpaid"
+                    : "—"}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Customer</dt>
+                <dd className="font-mono">#{t.user_id}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Created</dt>
+                <dd>{new Date(t.created_at).toLocaleString()}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Processed</dt>
+                <dd>{t.processed_at ? new Date(t.processed_at).toLocaleString() : t.is_processed ? "Yes" : "No"}</dd>
+              </div>
+              <div>
+                <dt className="text-xs text-muted-foreground">Invoice</dt>
+                <dd className="font-mono">{t.invoice || "—"}</dd>
+              </div>
+            </dl>
+            <div className="mt-4 border-t pt-4">
+              <p className="mb-2 text-xs text-muted-foreground">Reconciliation</p>
+              <PaymentFlagBadges flags={t.flags} acknowledged={t.acknowledged} />
+            </div>
+          </div>
+
+          {/* Raw payloads */}
+          {payloads.map((p) => (
+            <details key={p.label} className="rounded-xl border bg-card shadow-sm">
+              <summary className="cursor-pointer px-5 py-3 text-sm font-medium">{p.label}</summary>
+              <pre className="max-h-96 overflow-auto border-t bg-muted/30 px-5 py-3 text-xs">{p.value ?? "—"}</pre>
+            </details>
+          ))}
+
+          {/* Other transactions for the same order */}
+          {order_transactions.length > 0 && (
+            <div className="rounded-xl border bg-card shadow-sm">
+              <p className="border-b px-5 py-3 text-sm font-medium">Other transactions for order #{t.order_id}</p>
+              <ul className="divide-y">
+                {order_transactions.map((o) => (
+                  <li key={o.id} className="flex items-center justify-between gap-3 px-5 py-2 text-sm">
+                    <Link href={`/dashboard/payments/${o.id}`} className="font-mono text-primary hover:underline">
+                      #{o.id}
+                    </Link>
+                    <span className="font-mono">
+                      {o.amount.toFixed(2)} {o.currency}
+                    </span>
+                    <PaymentStatusBadge status={o.status} />
+                    <span className="text-xs text-muted-foreground">{new Date(o.created_at).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {/* Reconcile */}
+          {canReconcile && (
+            <div className="space-y-3 rounded-xl border bg-card p-5 shadow-sm">
+              <p className="flex items-center gap-2 text-sm font-medium">
+                <ShieldCheck className="h-4 w-4" /> Reconcile
+              </p>
+              <select
+                value={action}
+                onChange={(e) => setAction(e.target.value as ReconcileAction)}
+                className={selectClass}
+              >
+                {(Object.keys(ACTION_LABELS) as ReconcileAction[]).map((a) => (
+                  <option key={a} value={a}>
+                    {ACTION_LABELS[a]}
+                  </option>
+                ))}
+              </select>
+              {action === "link_order" && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={orderId}
+                  onChange={(e) => setOrderId(e.target.value)}
+                  placeholder="Order ID"
+                />
+              )}
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                placeholder="Why? (required — kept in the audit trail)"
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              />
+              <Button onClick={handleReconcile} disabled={saving || !note.trim()} className="w-full">
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {ACTION_LABELS[action]}
+              </Button>
+            </div>
+          )}
+
+          {/* Audit trail */}
+          <div className="rounded-xl border bg-card p-5 shadow-sm">
+            <p className="mb-3 flex items-center gap-2 text-sm font-medium">
+              <History className="h-4 w-4" /> Reconciliation log
+            </p>
+            {reconciliations.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No manual reconciliation yet</p>
+            ) : (
+              <ul className="space-y-3">
+                {reconciliations.map((r) => (
+                  <li key={r.id} className="border-l-2 pl-3 text-xs">
+                    <p className="font-medium">
+                      {ACTION_LABELS[r.action]}
+                      {r.action === "link_order" && r.order_id ? ` #${r.order_id}` : ""}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {r.created_by?.name ?? "System"} · {new Date(r.created_at).toLocaleString()}
+                    </p>
+                    {r.flags.length > 0 && (
+                      <p className="text-muted-foreground">
+                        Flags: {r.flags.map((f) => PAYMENT_FLAG_LABELS[f]).join(", ")}
+                      </p>
+                    )}
+                    {describeChange(r.before, r.after).map((line) => (
+                      <p key={line} className="font-mono text-[10px] text-muted-foreground">
+                        {line}
+                      </p>
+                    ))}
+                    {r.note && <p className="mt-1 italic">“{r.note}”</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
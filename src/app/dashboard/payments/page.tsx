@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ChevronLeft, ChevronRight, Search, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  PaymentFlagBadges,
+  PaymentStatusBadge,
+  selectClass,
+  type PaymentTransaction,
+} from "@/components/payments/payment-badges";
+
+interface Filters {
+  gateway: string;
+  status: string;
+  date_from: string;
+  date_to: string;
+  search: string;
+  flagged: boolean;
+}
+
+const EMPTY_FILTERS: Filters = { gateway: "", status: "", date_from: "", date_to: "", search: "", flagged: false };
+
+export default function PaymentsPage() {
+  const router = useRouter();
+  const [transactions, setTransactions] = useState<PaymentTransaction[]>([]);
+  const [gateways, setGateways] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+
+  const fetchTransactions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "25" });
+      if (filters.gateway) params.set("gateway", filters.gateway);
+      if (filters.status) params.set("status", filters.status);
+      if (filters.date_from) params.set("date_from", filters.date_from);
+      if (filters.date_to) params.set("date_to", filters.date_to);
+      if (filters.search) params.set("search", filters.search);
+      if (filters.flagged) params.set("flagged", "1");
+
+      const res = await fetch(`/api/payments?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to load payments");
+        return;
+      }
+      setTransactions(data.transactions || []);
+      setGateways(data.gateways || []);
+      setStatuses(data.statuses || []);
+      setTotalPages(Math.max(1, data.pagination.totalPages));
+      setTotalCount(data.pagination.totalCount);
+    } catch {
+      toast.error("Failed to load payments");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [fetchTransactions]);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters((prev) => (prev.search === search.trim() ? prev : { ...prev, search: search.trim() }));
+      setPage(1);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight md:text-3xl">Payments</h1>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Gateway transactions reconciled against their orders
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-6">
+        <div className="relative lg:col-span-2">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="External ID, transaction or order #"
+            className="pl-8"
+          />
+        </div>
+        <select value={filters.gateway} onChange={(e) => setFilter("gateway", e.target.value)} className={selectClass}>
+          <option value="">All gateways</option>
+          {gateways.map((g) => (
+            <option key={g} value={g}>
+              {g}
+            </option>
+          ))}
+        </select>
+        <select value={filters.status} onChange={(e) => setFilter("status", e.target.value)} className={selectClass}>
+          <option value="">All statuses</option>
+          {statuses.map((s) => (
+            <option key={s} value={s}>
+              {s}
+            </option>
+          ))}
+        </select>
+        <Input type="date" value={filters.date_from} onChange={(e) => setFilter("date_from", e.target.value)} />
+        <Input type="date" value={filters.date_to} onChange={(e) => setFilter("date_to", e.target.value)} />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <button
+          onClick={() => setFilter("flagged", !filters.flagged)}
+          className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1 text-sm transition-colors ${
+            filters.flagged ? "border-amber-500 bg-amber-500 text-white" : "hover:bg-accent"
+          }`}
+        >
+          <AlertTriangle className="h-3.5 w-3.5" />
+          Needs attention
+        </button>
+        <span className="text-sm text-muted-foreground">{totalCount} transactions</span>
+      </div>
+
+      {/* Table */}
+      {loading ? (
+        <div className="h-64 animate-pulse rounded-xl border bg-muted/40" />
+      ) : transactions.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-xl border py-16 text-center">
+          <Wallet className="mb-3 h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No transactions match these filters</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border bg-card shadow-sm">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-muted/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                <th className="px-4 py-3">Transaction</th>
+                <th className="px-4 py-3">Date</th>
+                <th className="px-4 py-3">Order</th>
+                <th className="px-4 py-3 text-right">Amount</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3">Reconciliation</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map((t) => (
+                <tr
+                  key={t.id}
+                  onClick={() => router.push(`/dashboard/payments/${t.id}`)}
+                  className="cursor-pointer border-b last:border-0 hover:bg-muted/30"
+                >
+                  <td className="px-4 py-3">
+                    <p className="text-sm font-medium capitalize">{t.gateway.replace(/_/g, " ")}</p>
+                    <p className="font-mono text-xs text-muted-foreground">{t.external_id}</p>
+                  </td>
+                  <td className="px-4 py-3 text-sm">{new Date(t.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {t.order_id ? (
+                      <Link
+                        href={`/dashboard/orders/${t.order_id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="font-mono text-primary hover:underline"
+                      >
+                        #{t.order_id}
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                    {t.purpose === "shipping" && <span className="ml-1 text-xs text-muted-foreground">shipping</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right font-mono text-sm">
+                    {t.amount.toFixed(2)} {t.currency}
+                  </td>
+                  <td className="px-4 py-3">
+                    <PaymentStatusBadge status={t.status} />
+                  </td>
+                  <td className="px-4 py-3">
+                    <PaymentFlagBadges flags={t.flags} acknowledged={t.acknowledged} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage((p) => p - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage((p) => p + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
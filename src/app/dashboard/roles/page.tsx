@@ -0,0 +1,786 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  KeyRound,
+  Plus,
+  Copy,
+  Trash2,
+  Loader2,
+  Search,
+  ShieldCheck,
+  ShieldOff,
+  UserCog,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface Role {
+  id: number;
+  role_key: string;
+  role_name: string;
+  is_active: boolean;
+  user_count: number;
+  permission_count: number;
+}
+
+interface Permission {
+  id: number;
+  permission_key: string;
+  permission_name: string;
+  permission_scope: string;
+}
+
+interface PermissionGroup {
+  scope: string;
+  permissions: Permission[];
+}
+
+interface CmsUser {
+  user_id: number;
+  user_name: string;
+  first_name: string | null;
+  last_name: string | null;
+  role_name: string | null;
+}
+
+interface Override {
+  id: number;
+  permission_key: string;
+  allowed: boolean;
+  reason: string | null;
+  updated_at: string;
+}
+
+interface EffectivePermissions {
+  role_key: string;
+  role_name: string;
+  permissions: { permission_key: string; source: "role" | "override"; reason: string | null }[];
+  denied: { permission_key: string; reason: string | null }[];
+}
+
+const SCOPE_LABELS: Record<string, string> = {
+  page: "Pages",
+  api: "API",
+  action: "Actions",
+  workflow: "Workflow",
+};
+
+const selectClass =
+  "flex h-9 w-full rounded-md border border-input bg-background text-foreground px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring [&>option]:bg-background [&>option]:text-foreground";
+
+const userLabel = (u: CmsUser) =>
+  [u.first_name, u.last_name].filter(Boolean).join(" ") || u.user_name;
+
+export default function RolesPage() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [groups, setGroups] = useState<PermissionGroup[]>([]);
+  const [matrix, setMatrix] = useState<Record<number, number[]>>({});
+  const [users, setUsers] = useState<CmsUser[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [permSearch, setPermSearch] = useState("");
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+
+  // Create / clone dialog
+  const [roleDialogOpen, setRoleDialogOpen] = useState(false);
+  const [roleForm, setRoleForm] = useState({ role_key: "", role_name: "", clone_from_role_id: "" });
+  const [savingRole, setSavingRole] = useState(false);
+
+  // Overrides tab
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [effective, setEffective] = useState<EffectivePermissions | null>(null);
+  const [overrideForm, setOverrideForm] = useState({ permission_key: "", allowed: "deny", reason: "" });
+  const [savingOverride, setSavingOverride] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [rolesRes, permsRes, usersRes, meRes] = await Promise.all([
+        fetch("/api/rbac/roles"),
+        fetch("/api/rbac/permissions"),
+        fetch("/api/cms-users"),
+        fetch("/api/auth/me"),
+      ]);
+      const [rolesData, permsData, usersData, meData] = await Promise.all([
+        rolesRes.json(),
+        permsRes.json(),
+        usersRes.json(),
+        meRes.json(),
+      ]);
+      setRoles(rolesData.roles || []);
+      setGroups(permsData.groups || []);
+      setMatrix(permsData.matrix || {});
+      setUsers(usersData.users || []);
+      setCanManage((meData.user?.permissions || []).includes("action.roles.manage"));
+    } catch {
+      toast.error("Failed to load roles");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const fetchUserDetails = useCallback(async (userId: number) => {
+    try {
+      const [ovRes, effRes] = await Promise.all([
+        fetch(`/api/rbac/users/${userId}/overrides`),
+        fetch(`/api/rbac/users/${userId}/effective`),
+      ]);
+      const [ovData, effData] = await Promise.all([ovRes.json(), effRes.json()]);
+      setOverrides(ovData.overrides || []);
+      setEffective(effRes.ok ? effData : null);
+    } catch {
+      toast.error("Failed to load user permissions");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (selectedUserId) fetchUserDetails(selectedUserId);
+  }, [selectedUserId, fetchUserDetails]);
+
+  const filteredGroups = useMemo(() => {
+    if (!permSearch) return groups;
+    const q = permSearch.toLowerCase();
+    return groups
+      .map((g) => ({
+        ...g,
+        permissions: g.permissions.filter(
+          (p) =>
+            p.permission_key.toLowerCase().includes(q) ||
+            p.permission_name.toLowerCase().includes(q)
+        ),
+      }))
+      .filter((g) => g.permissions.length > 0);
+  }, [groups, permSearch]);
+
+  const allPermissions = useMemo(() => groups.flatMap((g) => g.permissions), [groups]);
+
+  // ── Roles ──────────────────────────────────────────────────
+
+  const openCreateDialog = (cloneFrom?: Role) => {
+    setRoleForm({
+      role_key: cloneFrom ? `${cloneFrom.role_key}_copy` : "",
+      role_name: cloneFrom ? `${cloneFrom.role_name} (Copy)` : "",
+      clone_from_role_id: cloneFrom ? String(cloneFrom.id) : "",
+    });
+    setRoleDialogOpen(true);
+  };
+
+  const handleCreateRole = async () => {
+    setSavingRole(true);
+    try {
+      const res = await fetch("/api/rbac/roles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          role_key: roleForm.role_key,
+          role_name: roleForm.role_name,
+          clone_from_role_id: roleForm.clone_from_role_id
+            ? Number(roleForm.clone_from_role_id)
+            : undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to create role");
+        return;
+      }
+      toast.success(`Role "${data.role.role_name}" created`);
+      setRoleDialogOpen(false);
+      fetchData();
+    } catch {
+      toast.error("Failed to create role");
+    } finally {
+      setSavingRole(false);
+    }
+  };
+
+  const handleToggleRoleActive = async (role: Role, isActive: boolean) => {
+    const res = await fetch(`/api/rbac/roles/${role.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ is_active: isActive }),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      toast.error(data.error || "Failed to update role");
+      return;
+    }
+    setRoles((prev) => prev.map((r) => (r.id === role.id ? { ...r, is_active: isActive } : r)));
+  };
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!confirm(`Delete role "${role.role_name}"? This cannot be undone.`)) return;
+    const res = await fetch(`/api/rbac/roles/${role.id}`, { method: "DELETE" });
+    const data = await res.json();
+    if (!res.ok) {
+      toast.error(data.error || "Failed to delete role");
+      return;
+    }
+    toast.success("Role deleted");
+    fetchData();
+  };
+
+  // ── Matrix ─────────────────────────────────────────────────
+
+  const handleTogglePermission = async (roleId: number, permissionId: number, allowed: boolean) => {
+    const cell = `${roleId}:${permissionId}`;
+    setSavingCell(cell);
+    try {
+      const res = await fetch(`/api/rbac/roles/${roleId}/permissions`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ changes: [{ permission_id: permissionId, allowed }] }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        toast.error(data.error || "Failed to update permission");
+        return;
+      }
+      setMatrix((prev) => {
+        const current = prev[roleId] || [];
+        return {
+          ...prev,
+          [roleId]: allowed
+            ? [...current, permissionId]
+            : current.filter((id) => id !== permissionId),
+        };
+      });
+      setRoles((prev) =>
+        prev.map((r) =>
+          r.id === roleId
+            ? { ...r, permission_count: r.permission_count + (allowed ? 1 : -1) }
+            : r
+        )
+      );
+    } catch {
+      toast.error("Failed to update permission");
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  // ── Overrides ──────────────────────────────────────────────
+
+  const handleSaveOverride = async () => {
+    if (!selectedUserId) return;
+    setSavingOverride(true);
+    try {
+      const res = await fetch(`/api/rbac/users/${selectedUserId}/overrides`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          permission_key: overrideForm.permission_key,
+          allowed: overrideForm.allowed === "allow",
+          reason: overrideForm.reason,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save override");
+        return;
+      }
+      toast.success("Override saved");
+      setOverrideForm({ permission_key: "", allowed: "deny", reason: "" });
+      fetchUserDetails(selectedUserId);
+    } catch {
+      toast.error("Failed to save override");
+    } finally {
+      setSavingOverride(false);
+    }
+  };
+
+  const handleRemoveOverride = async (permissionKey: string) => {
+    if (!selectedUserId) return;
+    const res = await fetch(
+      `/api/rbac/users/${selectedUserId}/overrides?permission_key=${encodeURIComponent(permissionKey)}`,
+      { method: "DELETE" }
+    );
+    if (!res.ok) {
+      const data = await res.json();
+      toast.error(data.error || "Failed to remove override");
+      return;
+    }
+    fetchUserDetails(selectedUserId);
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <div className="h-8 w-56 animate-pulse rounded-lg bg-muted" />
+          <div className="mt-2 h-4 w-72 animate-pulse rounded bg-muted" />
+        </div>
+        <div className="h-[400px] animate-pulse rounded-xl border bg-muted/40" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight md:text-3xl">
+            Roles & Permissions
+          </h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {roles.length} {roles.length === 1 ? "role" : "roles"} · {allPermissions.length} permissions
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openCreateDialog()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New Role
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue="roles">
+        <TabsList>
+          <TabsTrigger value="roles">Roles</TabsTrigger>
+          <TabsTrigger value="matrix">Permission Matrix</TabsTrigger>
+          <TabsTrigger value="overrides">User Overrides</TabsTrigger>
+        </TabsList>
+
+        {/* ── Roles ── */}
+        <TabsContent value="roles" className="mt-4">
+          <div className="rounded-xl border bg-card shadow-sm overflow-hidden">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-muted/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  <th className="px-4 py-3">Role</th>
+                  <th className="px-4 py-3">Users</th>
+                  <th className="px-4 py-3">Permissions</th>
+                  <th className="px-4 py-3">Active</th>
+                  <th className="px-4 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {roles.map((role) => (
+                  <tr key={role.id} className="border-b last:border-0 hover:bg-muted/30">
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium">{role.role_name}</p>
+                      <p className="font-mono text-xs text-muted-foreground">{role.role_key}</p>
+                    </td>
+                    <td className="px-4 py-3 text-sm">{role.user_count}</td>
+                    <td className="px-4 py-3 text-sm">{role.permission_count}</td>
+                    <td className="px-4 py-3">
+                      <Switch
+                        checked={role.is_active}
+                        disabled={!canManage}
+                        onCheckedChange={(v: boolean) => handleToggleRoleActive(role, v)}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      {canManage && (
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1.5"
+                            onClick={() => openCreateDialog(role)}
+                          >
+                            <Copy className="h-3.5 w-3.5" />
+                            Clone
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            disabled={role.user_count > 0}
+                            onClick={() => handleDeleteRole(role)}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </TabsContent>
+
+        {/* ── Matrix ── */}
+        <TabsContent value="matrix" className="mt-4 space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Filter permissions..."
+              value={permSearch}
+              onChange={(e) => setPermSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          <div className="rounded-xl border bg-card shadow-sm overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-muted/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                  <th className="sticky left-0 bg-muted/50 px-4 py-3">Permission</th>
+                  {roles.map((r) => (
+                    <th key={r.id} className="px-3 py-3 text-center whitespace-nowrap">
+                      {r.role_name}
+                      {!r.is_active && <span className="ml-1 normal-case">(inactive)</span>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {filteredGroups.map((group) => (
+                  <PermissionGroupRows
+                    key={group.scope}
+                    group={group}
+                    roles={roles}
+                    matrix={matrix}
+                    canManage={canManage}
+                    savingCell={savingCell}
+                    onToggle={handleTogglePermission}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </TabsContent>
+
+        {/* ── Overrides ── */}
+        <TabsContent value="overrides" className="mt-4">
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-4 rounded-xl border bg-card p-4 shadow-sm">
+              <div className="space-y-1.5">
+                <Label htmlFor="override_user">User</Label>
+                <select
+                  id="override_user"
+                  value={selectedUserId ?? ""}
+                  onChange={(e) => setSelectedUserId(e.target.value ? Number(e.target.value) : null)}
+                  className={selectClass}
+                >
+                  <option value="">Select a CMS user…</option>
+                  {users.map((u) => (
+                    <option key={u.user_id} value={u.user_id}>
+                      {userLabel(u)} {u.role_name ? `— ${u.role_name}` : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {selectedUserId && (
+                <>
+                  <div>
+                    <h3 className="text-sm font-semibold">Overrides</h3>
+                    {overrides.length === 0 ? (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        No overrides — this user gets exactly their role&apos;s permissions.
+                      </p>
+                    ) : (
+                      <ul className="mt-2 divide-y rounded-lg border">
+                        {overrides.map((o) => (
+                          <li key={o.id} className="flex items-start justify-between gap-3 p-3">
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <Badge
+                                  variant="secondary"
+                                  className={
+                                    o.allowed
+                                      ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                                      : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+                                  }
+                                >
+                                  {o.allowed ? "Allow" : "Deny"}
+                                </Badge>
+                                <span className="truncate font-mono text-xs">{o.permission_key}</span>
+                              </div>
+                              {o.reason && (
+                                <p className="mt-1 text-xs text-muted-foreground">{o.reason}</p>
+                              )}
+                            </div>
+                            {canManage && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => handleRemoveOverride(o.permission_key)}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {canManage && (
+                    <div className="space-y-3 border-t pt-4">
+                      <h3 className="text-sm font-semibold">Add override</h3>
+                      <select
+                        value={overrideForm.permission_key}
+                        onChange={(e) =>
+                          setOverrideForm((f) => ({ ...f, permission_key: e.target.value }))
+                        }
+                        className={selectClass}
+                      >
+                        <option value="">Select permission…</option>
+                        {groups.map((g) => (
+                          <optgroup key={g.scope} label={SCOPE_LABELS[g.scope] || g.scope}>
+                            {g.permissions.map((p) => (
+                              <option key={p.id} value={p.permission_key}>
+                                {p.permission_key}
+                              </option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </select>
+                      <select
+                        value={overrideForm.allowed}
+                        onChange={(e) =>
+                          setOverrideForm((f) => ({ ...f, allowed: e.target.value }))
+                        }
+                        className={selectClass}
+                      >
+                        <option value="deny">Deny</option>
+                        <option value="allow">Allow</option>
+                      </select>
+                      <Input
+                        placeholder="Reason (required)"
+                        value={overrideForm.reason}
+                        maxLength={255}
+                        onChange={(e) =>
+                          setOverrideForm((f) => ({ ...f, reason: e.target.value }))
+                        }
+                      />
+                      <Button
+                        onClick={handleSaveOverride}
+                        disabled={
+                          savingOverride ||
+                          !overrideForm.permission_key ||
+                          !overrideForm.reason.trim()
+                        }
+                        className="gap-2"
+                      >
+                        {savingOverride && <Loader2 className="h-4 w-4 animate-spin" />}
+                        Save Override
+                      </Button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Effective permission preview */}
+            <div className="rounded-xl border bg-card p-4 shadow-sm">
+              <div className="flex items-center gap-2">
+                <UserCog className="h-4 w-4 text-muted-foreground" />
+                <h3 className="text-sm font-semibold">Effective permissions</h3>
+              </div>
+              {!effective ? (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Select a user to preview what their session will be granted.
+                </p>
+              ) : (
+                <div className="mt-3 space-y-4">
+                  <p className="text-sm">
+                    Role: <span className="font-medium">{effective.role_name}</span>{" "}
+                    <span className="font-mono text-xs text-muted-foreground">
+                      ({effective.role_key})
+                    </span>
+                  </p>
+                  <div>
+                    <p className="mb-2 flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                      <ShieldCheck className="h-3.5 w-3.5" />
+                      Granted ({effective.permissions.length})
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {effective.permissions.map((p) => (
+                        <Badge
+                          key={p.permission_key}
+                          variant="secondary"
+                          title={p.reason || undefined}
+                          className={
+                            p.source === "override"
+                              ? "font-mono text-[11px] bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+                              : "font-mono text-[11px]"
+                          }
+                        >
+                          {p.permission_key}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {effective.denied.length > 0 && (
+                    <div>
+                      <p className="mb-2 flex items-center gap-1.5 text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                        <ShieldOff className="h-3.5 w-3.5" />
+                        Denied by override ({effective.denied.length})
+                      </p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {effective.denied.map((p) => (
+                          <Badge
+                            key={p.permission_key}
+                            variant="secondary"
+                            title={p.reason || undefined}
+                            className="font-mono text-[11px] bg-red-100 text-red-800 line-through dark:bg-red-900/30 dark:text-red-400"
+                          >
+                            {p.permission_key}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      {/* Create / Clone Role Dialog */}
+      <Dialog open={roleDialogOpen} onOpenChange={setRoleDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              {roleForm.clone_from_role_id ? "Clone Role" : "New Role"}
+            </DialogTitle>
+            <DialogDescription>
+              {roleForm.clone_from_role_id
+                ? "The new role starts with the same permissions and item transitions."
+                : "Create an empty role, then grant permissions in the matrix."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="role_name">Name</Label>
+              <Input
+                id="role_name"
+                value={roleForm.role_name}
+                onChange={(e) => setRoleForm((f) => ({ ...f, role_name: e.target.value }))}
+                placeholder="e.g. Customer Support"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="role_key">Key</Label>
+              <Input
+                id="role_key"
+                value={roleForm.role_key}
+                onChange={(e) =>
+                  setRoleForm((f) => ({ ...f, role_key: e.target.value.toLowerCase() }))
+                }
+                placeholder="e.g. customer_support"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="clone_from">Copy permissions from</Label>
+              <select
+                id="clone_from"
+                value={roleForm.clone_from_role_id}
+                onChange={(e) =>
+                  setRoleForm((f) => ({ ...f, clone_from_role_id: e.target.value }))
+                }
+                className={selectClass}
+              >
+                <option value="">— Start empty —</option>
+                {roles.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.role_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRoleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateRole}
+              disabled={savingRole || !roleForm.role_key || !roleForm.role_name}
+              className="gap-2"
+            >
+              {savingRole && <Loader2 className="h-4 w-4 animate-spin" />}
+              Create Role
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function PermissionGroupRows({
+  group,
+  roles,
+  matrix,
+  canManage,
+  savingCell,
+  onToggle,
+}: {
+  group: PermissionGroup;
+  roles: Role[];
+  matrix: Record<number, number[]>;
+  canManage: boolean;
+  savingCell: string | null;
+  onToggle: (roleId: number, permissionId: number, allowed: boolean) => void;
+}) {
+  return (
+    <>
+      <tr className="border-b bg-muted/30">
+        <td
+          colSpan={roles.length + 1}
+          className="sticky left-0 px-4 py-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground"
+        >
+          {SCOPE_LABELS[group.scope] || group.scope} ({group.permissions.length})
+        </td>
+      </tr>
+      {group.permissions.map((perm) => (
+        <tr key={perm.id} className="border-b last:border-0 hover:bg-muted/20">
+          <td className="sticky left-0 bg-card px-4 py-2">
+            <p className="text-sm">{perm.permission_name}</p>
+            <p className="font-mono text-xs text-muted-foreground">{perm.permission_key}</p>
+          </td>
+          {roles.map((role) => {
+            const checked = (matrix[role.id] || []).includes(perm.id);
+            const cell = `${role.id}:${perm.id}`;
+            return (
+              <td key={role.id} className="px-3 py-2 text-center">
+                {savingCell === cell ? (
+                  <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    disabled={!canManage || savingCell !== null}
+                    onChange={(e) => onToggle(role.id, perm.id, e.target.checked)}
+                    className="rounded border"
+                  />
+                )}
+              </td>
+            );
+          })}
+        </tr>
+      ))}
+    </>
+  );
+}
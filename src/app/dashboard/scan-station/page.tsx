@@ -0,0 +1,542 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+// Using plain <img> for product images since they come from many unpredictable CDN domains
+import Link from "next/link";
+import {
+  ScanBarcode,
+  Loader2,
+  Package,
+  RotateCcw,
+  CircleAlert,
+  AlertTriangle,
+  CheckCircle2,
+  Ban,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { thumbnailUrl } from "@/lib/image-url";
+
+interface Transition {
+  toStatusId: number;
+  toStatusKey: string;
+  toStatusLabel: string;
+  isTerminal: boolean;
+  requiresTracking: boolean;
+}
+
+type ItemFlag = "terminal" | "misrouted" | null;
+
+interface ScannedItem {
+  id: number;
+  order_id: number;
+  product_name: string | null;
+  variation_name: string | null;
+  image_url: string | null;
+  quantity: number | null;
+  shipping_method: "air" | "sea" | null;
+  tracking_number: string | null;
+  workflow_status_key: string | null;
+  workflow_status_label: string;
+  match: "tracking_number" | "item_id";
+  allowed_transitions: Transition[];
+  flag: ItemFlag;
+}
+
+interface ScanResult {
+  code: string;
+  flag: "unknown" | null;
+  items: ScannedItem[];
+}
+
+type EventKind = "applied" | "unknown" | "misrouted" | "terminal" | "error";
+
+interface ScanEvent {
+  at: string;
+  code: string;
+  kind: EventKind;
+  detail: string;
+}
+
+interface Tally {
+  scanned: number;
+  applied: number;
+  unknown: number;
+  misrouted: number;
+  terminal: number;
+  errors: number;
+  /** target status label → items moved there this session */
+  byTarget: Record<string, number>;
+}
+
+const EMPTY_TALLY: Tally = {
+  scanned: 0,
+  applied: 0,
+  unknown: 0,
+  misrouted: 0,
+  terminal: 0,
+  errors: 0,
+  byTarget: {},
+};
+
+const SESSION_KEY = "scan-station-session";
+const MAX_EVENTS = 50;
+
+const EVENT_STYLES: Record<EventKind, string> = {
+  applied: "text-green-700 dark:text-green-400",
+  unknown: "text-red-700 dark:text-red-400",
+  misrouted: "text-amber-700 dark:text-amber-400",
+  terminal: "text-orange-700 dark:text-orange-400",
+  error: "text-red-700 dark:text-red-400",
+};
+
+const FLAG_LABELS: Record<Exclude<ItemFlag, null>, string> = {
+  terminal: "Closed",
+  misrouted: "Not for this station",
+};
+
+/**
+ * Transitions every actionable item in the scan can take — a tracking
+ * number usually maps to several items, and one keystroke moves them all.
+ */
+function commonTransitions(items: ScannedItem[]): Transition[] {
+  const actionable = items.filter((i) => !i.flag);
+  if (!actionable.length) return [];
+  return actionable[0].allowed_transitions.filter((t) =>
+    actionable.every((i) => i.allowed_transitions.some((o) => o.toStatusKey === t.toStatusKey))
+  );
+}
+
+export default function ScanStationPage() {
+  const [code, setCode] = useState("");
+  const [resolving, setResolving] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [scan, setScan] = useState<ScanResult | null>(null);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [autoApply, setAutoApply] = useState(false);
+  const [tally, setTally] = useState<Tally>(EMPTY_TALLY);
+  const [events, setEvents] = useState<ScanEvent[]>([]);
+  const [restored, setRestored] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const trackingInputRef = useRef<HTMLInputElement>(null);
+
+  // ── Session persistence (survives reloads, cleared with the tab) ──
+  useEffect(() => {
+    try {
+      const saved = sessionStorage.getItem(SESSION_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved);
+        setTally({ ...EMPTY_TALLY, ...parsed.tally });
+        setEvents(parsed.events || []);
+        setAutoApply(!!parsed.autoApply);
+      }
+    } catch {
+      // ignore corrupt session data
+    }
+    setRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify({ tally, events, autoApply }));
+  }, [tally, events, autoApply, restored]);
+
+  const focusScan = useCallback(() => {
+    setTimeout(() => scanInputRef.current?.focus(), 0);
+  }, []);
+
+  const logEvent = useCallback((scanCode: string, kind: EventKind, detail: string) => {
+    setEvents((prev) =>
+      [{ at: new Date().toISOString(), code: scanCode, kind, detail }, ...prev].slice(0, MAX_EVENTS)
+    );
+  }, []);
+
+  const transitions = useMemo(() => (scan ? commonTransitions(scan.items) : []), [scan]);
+  const actionableItems = useMemo(() => scan?.items.filter((i) => !i.flag) || [], [scan]);
+  const needsTracking = (t: Transition) =>
+    t.requiresTracking && actionableItems.some((i) => !i.tracking_number);
+
+  // ── Apply a transition to every actionable item in the current scan ──
+  const applyTransition = useCallback(
+    async (t: Transition, current: ScanResult, tracking: string) => {
+      const items = current.items.filter((i) => !i.flag);
+      if (!items.length) return;
+
+      if (t.requiresTracking && items.some((i) => !i.tracking_number) && !tracking.trim()) {
+        toast.error(`Enter a tracking number to move to ${t.toStatusLabel}`);
+        setTimeout(() => trackingInputRef.current?.focus(), 0);
+        return;
+      }
+
+      setApplying(true);
+      try {
+        const res = await fetch("/api/scan-station", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            item_ids: items.map((i) => i.id),
+            to_status_key: t.toStatusKey,
+            expected_from_statuses: Object.fromEntries(
+              items.map((i) => [i.id, i.workflow_status_key])
+            ),
+            tracking_number: tracking.trim() || undefined,
+          }),
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+          toast.error(data.error || "Failed to apply transition");
+          setTally((prev) => ({ ...prev, errors: prev.errors + 1 }));
+          logEvent(current.code, "error", data.error || "Failed to apply transition");
+          return;
+        }
+
+        const moved = data.updated.length as number;
+        setTally((prev) => ({
+          ...prev,
+          applied: prev.applied + moved,
+          errors: prev.errors + (data.skipped.length ? 1 : 0),
+          byTarget: {
+            ...prev.byTarget,
+            [data.target_status.label]: (prev.byTarget[data.target_status.label] || 0) + moved,
+          },
+        }));
+        logEvent(
+          current.code,
+          "applied",
+          `${moved} item${moved === 1 ? "" : "s"} → ${data.target_status.label}`
+        );
+        if (data.skipped.length) {
+          toast.warning(
+            `${moved} moved to ${data.target_status.label}, ${data.skipped.length} skipped: ${data.skipped[0].reason}`
+          );
+        } else {
+          toast.success(`${moved} item${moved === 1 ? "" : "s"} → ${data.target_status.label}`);
+        }
+        setScan(null);
+        setTrackingNumber("");
+      } catch {
+        toast.error("Network error");
+        setTally((prev) => ({ ...prev, errors: prev.errors + 1 }));
+        logEvent(current.code, "error", "Network error");
+      } finally {
+        setApplying(false);
+        focusScan();
+      }
+    },
+    [logEvent, focusScan]
+  );
+
+  // ── Resolve a scanned code ──
+  const resolveCode = useCallback(
+    async (raw: string) => {
+      const scanCode = raw.trim();
+      if (!scanCode) return;
+
+      setResolving(true);
+      setCode("");
+      setTrackingNumber("");
+      try {
+        const res = await fetch(`/api/scan-station?code=${encodeURIComponent(scanCode)}`);
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data.error || "Failed to resolve code");
+          setScan(null);
+          return;
+        }
+
+        const result = data as ScanResult;
+        setScan(result);
+        setTally((prev) => ({ ...prev, scanned: prev.scanned + 1 }));
+
+        if (result.flag === "unknown") {
+          toast.error(`Unknown code: ${scanCode}`);
+          setTally((prev) => ({ ...prev, unknown: prev.unknown + 1 }));
+          logEvent(scanCode, "unknown", "No matching item");
+          return;
+        }
+
+        const terminal = result.items.filter((i) => i.flag === "terminal").length;
+        const misrouted = result.items.filter((i) => i.flag === "misrouted").length;
+        if (terminal) {
+          setTally((prev) => ({ ...prev, terminal: prev.terminal + terminal }));
+          logEvent(scanCode, "terminal", `${terminal} closed item${terminal === 1 ? "" : "s"}`);
+        }
+        if (misrouted) {
+          setTally((prev) => ({ ...prev, misrouted: prev.misrouted + misrouted }));
+          logEvent(scanCode, "misrouted", `${misrouted} item${misrouted === 1 ? "" : "s"} not for this station`);
+        }
+        if (terminal + misrouted === result.items.length) {
+          toast.warning("Nothing to do for this code at this station");
+          return;
+        }
+
+        const options = commonTransitions(result.items);
+        if (autoApply && options.length === 1 && !options[0].requiresTracking) {
+          await applyTransition(options[0], result, "");
+        }
+      } catch {
+        toast.error("Network error");
+        setScan(null);
+      } finally {
+        setResolving(false);
+        focusScan();
+      }
+    },
+    [autoApply, applyTransition, logEvent, focusScan]
+  );
+
+  // Enter with text resolves a new code; Enter on an empty input applies the
+  // first transition; digits 1-9 on an empty input pick a transition
+  const handleScanKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (resolving || applying) return;
+    if (e.key === "Enter") {
+      e.preventDefault();
+      if (code.trim()) {
+        resolveCode(code);
+      } else if (scan && transitions.length) {
+        applyTransition(transitions[0], scan, trackingNumber);
+      }
+      return;
+    }
+    if (!code && scan && /^[1-9]$/.test(e.key)) {
+      const t = transitions[Number(e.key) - 1];
+      if (t) {
+        e.preventDefault();
+        applyTransition(t, scan, trackingNumber);
+      }
+    }
+  };
+
+  const resetSession = () => {
+    setTally(EMPTY_TALLY);
+    setEvents([]);
+    setScan(null);
+    sessionStorage.removeItem(SESSION_KEY);
+    toast.success("Session reset");
+    focusScan();
+  };
+
+  const busy = resolving || applying;
+  const showTrackingInput = transitions.some(needsTracking);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight md:text-3xl">Scan Station</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Scan an item label or tracking number, then press Enter or a number key to apply
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="auto-apply" checked={autoApply} onCheckedChange={setAutoApply} />
+            <Label htmlFor="auto-apply" className="text-sm">
+              Auto-apply single option
+            </Label>
+          </div>
+          <Button variant="outline" className="gap-2" onClick={resetSession}>
+            <RotateCcw className="h-4 w-4" />
+            Reset Session
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-4 lg:col-span-2">
+          {/* Scan input */}
+          <div className="rounded-xl border bg-card p-4">
+            <div className="relative">
+              <ScanBarcode className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                ref={scanInputRef}
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                onKeyDown={handleScanKeyDown}
+                placeholder="Scan or type a code…"
+                className="h-12 pl-11 font-mono text-lg"
+                disabled={applying}
+              />
+              {busy && (
+                <Loader2 className="absolute right-3 top-1/2 h-5 w-5 -translate-y-1/2 animate-spin text-muted-foreground" />
+              )}
+            </div>
+          </div>
+
+          {/* Result */}
+          {scan && scan.flag === "unknown" && (
+            <div className="flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-900/50 dark:bg-red-900/20 dark:text-red-400">
+              <CircleAlert className="h-5 w-5 shrink-0" />
+              <span>
+                No item matches <span className="font-mono font-medium">{scan.code}</span>
+              </span>
+            </div>
+          )}
+
+          {scan && scan.items.length > 0 && (
+            <div className="rounded-xl border bg-card">
+              <div className="border-b px-4 py-3 text-sm">
+                <span className="font-mono font-medium">{scan.code}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  · {scan.items.length} item{scan.items.length === 1 ? "" : "s"}
+                </span>
+              </div>
+
+              <ul className="divide-y">
+                {scan.items.map((item) => (
+                  <li key={item.id} className={`flex items-center gap-3 px-4 py-3 ${item.flag ? "opacity-60" : ""}`}>
+                    {item.image_url ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={thumbnailUrl(item.image_url) || item.image_url}
+                        alt=""
+                        className="h-12 w-12 shrink-0 rounded-md border object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-md border bg-muted">
+                        <Package className="h-5 w-5 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{item.product_name || "Unnamed product"}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        Item #{item.id} ·{" "}
+                        <Link href={`/dashboard/orders/${item.order_id}`} className="hover:underline">
+                          Order #{item.order_id}
+                        </Link>
+                        {item.variation_name ? ` · ${item.variation_name}` : ""}
+                        {item.quantity ? ` · Qty ${item.quantity}` : ""}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 flex-col items-end gap-1">
+                      <span className="inline-flex items-center rounded-full bg-muted px-2 py-0.5 text-[10px] font-medium">
+                        {item.workflow_status_label}
+                      </span>
+                      {item.flag && (
+                        <span className="inline-flex items-center gap-1 text-[10px] font-medium text-amber-700 dark:text-amber-400">
+                          {item.flag === "terminal" ? <Ban className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+                          {FLAG_LABELS[item.flag]}
+                        </span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {actionableItems.length > 0 && (
+                <div className="space-y-3 border-t p-4">
+                  {showTrackingInput && (
+                    <div className="space-y-1.5">
+                      <Label htmlFor="scan-tracking">Tracking number</Label>
+                      <Input
+                        id="scan-tracking"
+                        ref={trackingInputRef}
+                        value={trackingNumber}
+                        onChange={(e) => setTrackingNumber(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter" && transitions.length) {
+                            e.preventDefault();
+                            applyTransition(transitions[0], scan, trackingNumber);
+                          }
+                        }}
+                        placeholder="Required by some transitions"
+                        className="font-mono"
+                      />
+                    </div>
+                  )}
+
+                  {transitions.length ? (
+                    <div className="flex flex-wrap gap-2">
+                      {transitions.map((t, i) => (
+                        <Button
+                          key={t.toStatusKey}
+                          variant={i === 0 ? "default" : "outline"}
+                          className="gap-2"
+                          disabled={busy}
+                          onClick={() => applyTransition(t, scan, trackingNumber)}
+                        >
+                          <kbd className="rounded border px-1 font-mono text-[10px]">{i + 1}</kbd>
+                          {t.toStatusLabel}
+                          {needsTracking(t) && <span className="text-[10px] opacity-70">(tracking)</span>}
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      These items are in different statuses with no common next step — move them from the order page.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Session tally */}
+        <div className="space-y-4">
+          <div className="rounded-xl border bg-card p-4">
+            <h2 className="mb-3 text-sm font-semibold">This Session</h2>
+            <dl className="grid grid-cols-3 gap-3 text-center">
+              {(
+                [
+                  ["Scanned", tally.scanned],
+                  ["Applied", tally.applied],
+                  ["Unknown", tally.unknown],
+                  ["Misrouted", tally.misrouted],
+                  ["Closed", tally.terminal],
+                  ["Errors", tally.errors],
+                ] as const
+              ).map(([label, value]) => (
+                <div key={label} className="rounded-lg bg-muted/50 p-2">
+                  <dd className="text-xl font-bold tabular-nums">{value}</dd>
+                  <dt className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</dt>
+                </div>
+              ))}
+            </dl>
+            {Object.keys(tally.byTarget).length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm">
+                {Object.entries(tally.byTarget).map(([label, count]) => (
+                  <li key={label} className="flex items-center justify-between">
+                    <span className="flex items-center gap-1.5">
+                      <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                      {label}
+                    </span>
+                    <span className="font-medium tabular-nums">{count}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="rounded-xl border bg-card p-4">
+            <h2 className="mb-3 text-sm font-semibold">Recent Scans</h2>
+            {events.length ? (
+              <ul className="max-h-80 space-y-2 overflow-y-auto text-xs">
+                {events.map((ev, i) => (
+                  <li key={`${ev.at}-${i}`} className="flex gap-2">
+                    <span className="shrink-0 tabular-nums text-muted-foreground">
+                      {new Date(ev.at).toLocaleTimeString()}
+                    </span>
+                    <span className="min-w-0 flex-1">
+                      <span className="font-mono">{ev.code}</span>{" "}
+                      <span className={EVENT_STYLES[ev.kind]}>{ev.detail}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No scans yet</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef, use } from "react";
+// Using plain <img> for product images since they come from many unpredictable CDN domains
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  ArrowLeft,
+  Pencil,
+  Printer,
+  FileText,
+  Trash2,
+  Loader2,
+  Package,
+  ScanBarcode,
+  ArrowRight,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ConfirmDialog } from "@/components/shared/confirm-dialog";
+import {
+  BatchFormDialog,
+  BATCH_STATUS_STYLES,
+  dateOnly,
+  type ShipmentBatch,
+} from "@/components/shipments/batch-form-dialog";
+import { thumbnailUrl } from "@/lib/image-url";
+
+interface Transition {
+  toStatusKey: string;
+  toStatusLabel: string;
+  requiresTracking: boolean;
+}
+
+interface ManifestItem {
+  id: number;
+  order_id: number;
+  product_name: string;
+  variation_name: string | null;
+  image_url: string | null;
+  quantity: number;
+  tracking_number: string | null;
+  workflow_status_key: string | null;
+  workflow_status_label: string;
+  is_terminal: boolean;
+}
+
+interface ManifestOrder {
+  order_id: number;
+  customer_name: string;
+  city: string;
+  country: string;
+  items: ManifestItem[];
+}
+
+interface Manifest {
+  batch: ShipmentBatch;
+  summary: {
+    item_count: number;
+    order_count: number;
+    unit_count: number;
+    by_status: { key: string | null; label: string; count: number }[];
+  };
+  orders: ManifestOrder[];
+  allowed_transitions: Transition[];
+}
+
+/** Accepts ITEM-123 labels or bare ids, separated by spaces, commas or newlines */
+function parseItemCodes(raw: string): number[] {
+  return [
+    ...new Set(
+      raw
+        .split(/[\s,]+/)
+        .map((code) => /^(?:ITEM-?)?(\d{1,10})$/i.exec(code.trim())?.[1])
+        .filter((id): id is string => !!id)
+        .map(Number)
+    ),
+  ];
+}
+
+export default function ShipmentDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = use(params);
+  const router = useRouter();
+  const [manifest, setManifest] = useState<Manifest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [pendingTransition, setPendingTransition] = useState<Transition | null>(null);
+  const [transitioning, setTransitioning] = useState(false);
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [codes, setCodes] = useState("");
+  const [adding, setAdding] = useState(false);
+  const addInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchManifest = useCallback(async () => {
+    try {
+      const [res, meRes] = await Promise.all([
+        fetch(`/api/shipments/${id}`),
+        fetch("/api/auth/me"),
+      ]);
+      const [data, meData] = await Promise.all([res.json(), meRes.json()]);
+      if (!res.ok) {
+        toast.error(data.error || "Failed to load shipment");
+        return;
+      }
+      setManifest(data);
+      setPermissions(meData.user?.permissions || []);
+    } catch {
+      toast.error("Failed to load shipment");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchManifest();
+  }, [fetchManifest]);
+
+  const canManage = permissions.includes("action.shipments.manage");
+  const canTransition = permissions.includes("action.orders.item.status.change");
+
+  const handleAddItems = async () => {
+    const itemIds = parseItemCodes(codes);
+    if (!itemIds.length) {
+      toast.error("Scan or type ITEM-<id> codes");
+      return;
+    }
+    setAdding(true);
+    try {
+      const res = await fetch(`/api/shipments/${id}/items`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ item_ids: itemIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to add items");
+        return;
+      }
+      if (data.skipped.length) {
+        toast.warning(
+          `${data.added.length} added, ${data.skipped.length} skipped — #${data.skipped[0].id}: ${data.skipped[0].reason}`
+        );
+      } else {
+        toast.success(`${data.added.length} item${data.added.length === 1 ? "" : "s"} added`);
+      }
+      setCodes("");
+      fetchManifest();
+    } catch {
+      toast.error("Failed to add items");
+    } finally {
+      setAdding(false);
+      setTimeout(() => addInputRef.current?.focus(), 0);
+    }
+  };
+
+  const handleRemoveItem = async (itemId: number) => {
+    try {
+      const res = await fetch(`/api/shipments/${id}/items`, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ item_ids: [itemId] }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to remove item");
+        return;
+      }
+      fetchManifest();
+    } catch {
+      toast.error("Failed to remove item");
+    }
+  };
+
+  const handleTransition = async () => {
+    if (!manifest || !pendingTransition) return;
+    setTransitioning(true);
+    try {
+      const openItems = manifest.orders.flatMap((o) => o.items).filter((i) => !i.is_terminal);
+      const res = await fetch(`/api/shipments/${id}/transition`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          to_status_key: pendingTransition.toStatusKey,
+          expected_from_statuses: Object.fromEntries(
+            openItems.map((i) => [i.id, i.workflow_status_key])
+          ),
+          tracking_number: trackingNumber.trim() || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to move shipment");
+        return;
+      }
+      if (data.skipped.length) {
+        toast.warning(
+          `${data.updated.length} moved to ${data.target_status.label}, ${data.skipped.length} skipped: ${data.skipped[0].reason}`
+        );
+      } else {
+        toast.success(`${data.updated.length} items → ${data.target_status.label}`);
+      }
+      setPendingTransition(null);
+      setTrackingNumber("");
+      fetchManifest();
+    } catch {
+      toast.error("Failed to move shipment");
+    } finally {
+      setTransitioning(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const res = await fetch(`/api/shipments/${id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to delete shipment");
+        return;
+      }
+      toast.success("Shipment deleted");
+      router.push("/dashboard/shipments");
+    } catch {
+      toast.error("Failed to delete shipment");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="h-8 w-56 animate-pulse rounded-lg bg-muted" />
+        <div className="h-[420px] animate-pulse rounded-xl border bg-muted/40" />
+      </div>
+    );
+  }
+
+  if (!manifest) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20">
+        <p className="text-muted-foreground">Shipment not found</p>
+        <Link href="/dashboard/shipments" className="mt-4 text-sm text-primary hover:underline">
+          Back to shipments
+        </Link>
+      </div>
+    );
+  }
+
+  const { batch, summary, orders, allowed_transitions } = manifest;
+  const isOpen = batch.status === "open";
+  const allItemIds = orders.flatMap((o) => o.items.map((i) => i.id));
+  const needsTracking =
+    pendingTransition?.requiresTracking &&
+    orders.some((o) => o.items.some((i) => !i.is_terminal && !i.tracking_number));
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <Link
+            href="/dashboard/shipments"
+            className="rounded-lg border p-2 hover:bg-accent transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+          <div>
+            <h1 className="flex items-center gap-2 font-mono text-2xl font-bold tracking-tight">
+              {batch.code}
+              <span
+                className={`inline-flex rounded-full px-2 py-0.5 font-sans text-xs font-medium ${BATCH_STATUS_STYLES[batch.status]}`}
+              >
+                {batch.status_label}
+              </span>
+            </h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {batch.carrier} · {batch.shipping_method.toUpperCase()}
+              {batch.reference ? ` · ${batch.reference}` : ""}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <a
+            href={`/api/print/packing-slip?shipment_id=${batch.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-accent transition-colors"
+          >
+            <FileText className="h-4 w-4" />
+            Manifest
+          </a>
+          {allItemIds.length > 0 && (
+            <a
+              href={`/api/print/labels?item_ids=${allItemIds.join(",")}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1.5 rounded-lg border px-3 py-2 text-sm font-medium hover:bg-accent transition-colors"
+            >
+              <Printer className="h-4 w-4" />
+              Labels
+            </a>
+          )}
+          {canManage && (
+            <Button variant="outline" className="gap-2" onClick={() => setEditOpen(true)}>
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+          )}
+          {canManage && isOpen && (
+            <Button
+              variant="outline"
+              className="gap-2 text-destructive hover:text-destructive"
+              onClick={() => setDeleteOpen(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Details + summary */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {[
+          ["Departure", dateOnly(batch.departure_date) || "—"],
+          ["ETA", dateOnly(batch.eta_date) || "—"],
+          ["Orders", String(summary.order_count)],
+          ["Items", `${summary.item_count} (${summary.unit_count} units)`],
+        ].map(([label, value]) => (
+          <div key={label} className="rounded-xl border bg-card p-4">
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">{label}</p>
+            <p className="mt-1 text-lg font-semibold">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      {batch.notes && (
+        <p className="rounded-xl border bg-card p-4 text-sm whitespace-pre-wrap">{batch.notes}</p>
+      )}
+
+      {/* Workflow */}
+      {summary.item_count > 0 && (
+        <div className="rounded-xl border bg-card p-4">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex flex-wrap items-center gap-2">
+              {summary.by_status.map((s) => (
+                <span
+                  key={s.key || "unset"}
+                  className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs"
+                >
+                  <span className="font-medium text-muted-foreground">{s.count}×</span>
+                  {s.label}
+                </span>
+              ))}
+            </div>
+            {canTransition && allowed_transitions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {allowed_transitions.map((t) => (
+                  <Button
+                    key={t.toStatusKey}
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={() => setPendingTransition(t)}
+                  >
+                    <ArrowRight className="h-3.5 w-3.5" />
+                    {t.toStatusLabel}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {pendingTransition && (
+            <div className="mt-4 space-y-3 rounded-lg border border-primary/30 bg-primary/5 p-3">
+              <p className="text-sm">
+                Move every open item in <span className="font-mono">{batch.code}</span> to{" "}
+                <span className="font-medium">{pendingTransition.toStatusLabel}</span>?
+              </p>
+              {needsTracking && (
+                <Input
+                  value={trackingNumber}
+                  onChange={(e) => setTrackingNumber(e.target.value)}
+                  placeholder={batch.reference || "Tracking number for items without one"}
+                  className="font-mono"
+                />
+              )}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleTransition} disabled={transitioning} className="gap-1.5">
+                  {transitioning && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                  Confirm
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setPendingTransition(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Add items */}
+      {canManage && isOpen && (
+        <div className="rounded-xl border bg-card p-4">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <ScanBarcode className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                ref={addInputRef}
+                value={codes}
+                onChange={(e) => setCodes(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddItems();
+                  }
+                }}
+                placeholder="Scan item labels (ITEM-123) or type ids to add…"
+                className="pl-9 font-mono"
+              />
+            </div>
+            <Button onClick={handleAddItems} disabled={adding || !codes.trim()} className="gap-2">
+              {adding && <Loader2 className="h-4 w-4 animate-spin" />}
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Manifest */}
+      {orders.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-xl border py-16 text-center">
+          <Package className="mb-3 h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No items in this shipment yet</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <div key={order.order_id} className="overflow-hidden rounded-xl border bg-card shadow-sm">
+              <div className="flex items-center justify-between border-b bg-muted/50 px-4 py-2 text-sm">
+                <Link
+                  href={`/dashboard/orders/${order.order_id}`}
+                  className="font-medium hover:underline"
+                >
+                  Order #{order.order_id}
+                </Link>
+                <span className="text-muted-foreground">
+                  {order.customer_name} · {order.city}
+                </span>
+              </div>
+              <ul className="divide-y">
+                {order.items.map((item) => (
+                  <li
+                    key={item.id}
+                    className={`flex items-center gap-3 px-4 py-2.5 ${item.is_terminal ? "opacity-60" : ""}`}
+                  >
+                    {item.image_url ? (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={thumbnailUrl(item.image_url) || item.image_url}
+                        alt=""
+                        className="h-10 w-10 shrink-0 rounded-md border object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md border bg-muted">
+                        <Package className="h-4 w-4 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{item.product_name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        <span className="font-mono">ITEM-{item.id}</span>
+                        {item.variation_name ? ` · ${item.variation_name}` : ""} · Qty {item.quantity}
+                        {item.tracking_number ? ` · ${item.tracking_number}` : ""}
+                      </p>
+                    </div>
+                    <span className="inline-flex shrink-0 rounded-full bg-muted px-2 py-0.5 text-[10px] font-medium">
+                      {item.workflow_status_label}
+                    </span>
+                    {canManage && isOpen && (
+                      <button
+                        onClick={() => handleRemoveItem(item.id)}
+                        className="shrink-0 rounded-md p-1 text-muted-foreground hover:bg-accent hover:text-destructive"
+                        title="Remove from shipment"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editOpen && (
+        <BatchFormDialog
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          batch={batch}
+          onSaved={() => fetchManifest()}
+        />
+      )}
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onClose={() => setDeleteOpen(false)}
+        onConfirm={handleDelete}
+        title="Delete shipment?"
+        description={`${batch.code} will be deleted and its ${summary.item_count} items released. Item statuses are not changed.`}
+        confirmLabel="Delete"
+      />
+    </div>
+  );
+}
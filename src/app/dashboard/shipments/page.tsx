@@ -0,0 +1,163 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Ship, Plus, Plane, Package } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  BatchFormDialog,
+  BATCH_STATUS_STYLES,
+  dateOnly,
+  type ShipmentBatch,
+} from "@/components/shipments/batch-form-dialog";
+
+const STATUS_FILTERS = [
+  { value: "", label: "All" },
+  { value: "open", label: "Open" },
+  { value: "in_transit", label: "In Transit" },
+  { value: "received", label: "Received" },
+];
+
+export default function ShipmentsPage() {
+  const router = useRouter();
+  const [batches, setBatches] = useState<ShipmentBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState("");
+  const [canManage, setCanManage] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const fetchBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [batchesRes, meRes] = await Promise.all([
+        fetch(`/api/shipments${status ? `?status=${status}` : ""}`),
+        fetch("/api/auth/me"),
+      ]);
+      const [data, meData] = await Promise.all([batchesRes.json(), meRes.json()]);
+      if (!batchesRes.ok) {
+        toast.error(data.error || "Failed to load shipments");
+        return;
+      }
+      setBatches(data.batches || []);
+      setCanManage((meData.user?.permissions || []).includes("action.shipments.manage"));
+    } catch {
+      toast.error("Failed to load shipments");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight md:text-3xl">Shipments</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            Consolidated containers and air batches from China to Lebanon
+          </p>
+        </div>
+        {canManage && (
+          <Button className="gap-2" onClick={() => setCreateOpen(true)}>
+            <Plus className="h-4 w-4" />
+            New Shipment
+          </Button>
+        )}
+      </div>
+
+      {/* Status filter */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_FILTERS.map((f) => (
+          <button
+            key={f.value}
+            onClick={() => setStatus(f.value)}
+            className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+              status === f.value
+                ? "border-primary bg-primary text-primary-foreground"
+                : "hover:bg-accent"
+            }`}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Table */}
+      {loading ? (
+        <div className="h-64 animate-pulse rounded-xl border bg-muted/40" />
+      ) : batches.length === 0 ? (
+        <div className="flex flex-col items-center justify-center rounded-xl border py-16 text-center">
+          <Ship className="mb-3 h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No shipments yet</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border bg-card shadow-sm">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b bg-muted/50 text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                <th className="px-4 py-3">Shipment</th>
+                <th className="px-4 py-3">Carrier</th>
+                <th className="px-4 py-3">Departure</th>
+                <th className="px-4 py-3">ETA</th>
+                <th className="px-4 py-3">Items</th>
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((b) => (
+                <tr
+                  key={b.id}
+                  onClick={() => router.push(`/dashboard/shipments/${b.id}`)}
+                  className="cursor-pointer border-b last:border-0 hover:bg-muted/30"
+                >
+                  <td className="px-4 py-3">
+                    <p className="flex items-center gap-1.5 font-mono text-sm font-medium">
+                      {b.shipping_method === "air" ? (
+                        <Plane className="h-3.5 w-3.5 text-muted-foreground" />
+                      ) : (
+                        <Ship className="h-3.5 w-3.5 text-muted-foreground" />
+                      )}
+                      {b.code}
+                    </p>
+                    {b.reference && (
+                      <p className="font-mono text-xs text-muted-foreground">{b.reference}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{b.carrier}</td>
+                  <td className="px-4 py-3 text-sm">{dateOnly(b.departure_date) || "—"}</td>
+                  <td className="px-4 py-3 text-sm">{dateOnly(b.eta_date) || "—"}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className="inline-flex items-center gap-1">
+                      <Package className="h-3.5 w-3.5 text-muted-foreground" />
+                      {b.item_count ?? 0}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${BATCH_STATUS_STYLES[b.status]}`}
+                    >
+                      {b.status_label}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {createOpen && (
+        <BatchFormDialog
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          onSaved={(batch) => router.push(`/dashboard/shipments/${batch.id}`)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,808 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  Workflow,
+  Plus,
+  Save,
+  Loader2,
+  Spline,
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  AlertTriangle,
+  CircleAlert,
+  RotateCcw,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CUSTOMER_BUCKETS,
+  MAX_SLA_HOURS,
+  SYSTEM_STATUS_KEYS,
+  edgeKey,
+  validateWorkflowConfig,
+  type CustomerBucket,
+  type WorkflowRoleRuleConfig,
+  type WorkflowStatusConfig,
+  type WorkflowTransitionConfig,
+} from "@/lib/workflow-config";
+
+interface EditorStatus extends WorkflowStatusConfig {
+  item_count?: number;
+}
+
+interface Role {
+  id: number;
+  role_key: string;
+  role_name: string;
+  is_active: boolean;
+}
+
+type Selection =
+  | { type: "status"; key: string }
+  | { type: "edge"; from: string; to: string }
+  | null;
+
+const NODE_W = 140;
+const NODE_H = 52;
+const GAP_X = 40;
+const MAIN_Y = 90;
+const TERMINAL_Y = 300;
+
+const BUCKET_STYLES: Record<CustomerBucket, { fill: string; stroke: string; label: string }> = {
+  processing: { fill: "#fef3c7", stroke: "#d97706", label: "Processing" },
+  shipped: { fill: "#e0e7ff", stroke: "#4f46e5", label: "Shipped" },
+  delivered: { fill: "#dcfce7", stroke: "#16a34a", label: "Delivered" },
+};
+
+const selectClass =
+  "flex h-9 w-full rounded-md border border-input bg-background text-foreground px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring [&>option]:bg-background [&>option]:text-foreground";
+
+const emptyStatusForm = {
+  status_key: "",
+  status_label: "",
+  customer_bucket: "processing" as CustomerBucket,
+  is_terminal: false,
+};
+
+export default function WorkflowPage() {
+  const [statuses, setStatuses] = useState<EditorStatus[]>([]);
+  const [transitions, setTransitions] = useState<WorkflowTransitionConfig[]>([]);
+  const [roleRules, setRoleRules] = useState<WorkflowRoleRuleConfig[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [existingKeys, setExistingKeys] = useState<string[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [serverErrors, setServerErrors] = useState<string[]>([]);
+
+  const [selection, setSelection] = useState<Selection>(null);
+  const [connectMode, setConnectMode] = useState(false);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+
+  const [addOpen, setAddOpen] = useState(false);
+  const [statusForm, setStatusForm] = useState(emptyStatusForm);
+
+  const fetchConfig = useCallback(async () => {
+    try {
+      const [configRes, meRes] = await Promise.all([
+        fetch("/api/workflow/config"),
+        fetch("/api/auth/me"),
+      ]);
+      const [config, me] = await Promise.all([configRes.json(), meRes.json()]);
+      if (!configRes.ok) {
+        toast.error(config.error || "Failed to load workflow");
+        return;
+      }
+      setStatuses(config.statuses || []);
+      setTransitions(config.transitions || []);
+      setRoleRules(config.role_rules || []);
+      setRoles(config.roles || []);
+      setExistingKeys((config.statuses || []).map((s: EditorStatus) => s.status_key));
+      setCanManage((me.user?.permissions || []).includes("action.workflow.manage"));
+      setDirty(false);
+      setServerErrors([]);
+      setSelection(null);
+    } catch {
+      toast.error("Failed to load workflow");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfig();
+  }, [fetchConfig]);
+
+  const validation = useMemo(
+    () =>
+      validateWorkflowConfig(
+        { statuses, transitions, role_rules: roleRules },
+        existingKeys
+      ),
+    [statuses, transitions, roleRules, existingKeys]
+  );
+
+  // ── Layout ─────────────────────────────────────────────────
+
+  const layout = useMemo(() => {
+    const active = statuses
+      .filter((s) => s.is_active)
+      .sort((a, b) => a.status_order - b.status_order);
+    const main = active.filter((s) => !s.is_terminal);
+    const terminal = active.filter((s) => s.is_terminal);
+    const width = Math.max(main.length, terminal.length, 1) * (NODE_W + GAP_X) + GAP_X;
+    const terminalOffset = (width - terminal.length * (NODE_W + GAP_X) + GAP_X) / 2;
+
+    const positions = new Map<string, { x: number; y: number; row: number; index: number }>();
+    main.forEach((s, i) =>
+      positions.set(s.status_key, { x: GAP_X + i * (NODE_W + GAP_X), y: MAIN_Y, row: 0, index: i })
+    );
+    terminal.forEach((s, i) =>
+      positions.set(s.status_key, {
+        x: terminalOffset + i * (NODE_W + GAP_X) - GAP_X / 2,
+        y: TERMINAL_Y,
+        row: 1,
+        index: i,
+      })
+    );
+    return { active, positions, width, height: TERMINAL_Y + NODE_H + 40 };
+  }, [statuses]);
+
+  const edgePath = (from: string, to: string) => {
+    const a = layout.positions.get(from);
+    const b = layout.positions.get(to);
+    if (!a || !b) return null;
+
+    if (a.row === b.row) {
+      const distance = b.index - a.index;
+      if (distance === 1) {
+        return `M ${a.x + NODE_W} ${a.y + NODE_H / 2} L ${b.x} ${b.y + NODE_H / 2}`;
+      }
+      // Longer jumps arc above (forward) or below (backward) the row
+      const forward = distance > 0;
+      const startY = forward ? a.y : a.y + NODE_H;
+      const bend = (forward ? -1 : 1) * (30 + 14 * Math.abs(distance));
+      const ax = a.x + NODE_W / 2;
+      const bx = b.x + NODE_W / 2;
+      return `M ${ax} ${startY} Q ${(ax + bx) / 2} ${startY + bend} ${bx} ${startY}`;
+    }
+
+    const down = a.row < b.row;
+    const ax = a.x + NODE_W / 2;
+    const bx = b.x + NODE_W / 2;
+    const ay = down ? a.y + NODE_H : a.y;
+    const by = down ? b.y : b.y + NODE_H;
+    return `M ${ax} ${ay} C ${ax} ${(ay + by) / 2} ${bx} ${(ay + by) / 2} ${bx} ${by}`;
+  };
+
+  // ── Mutations (local draft) ────────────────────────────────
+
+  const touch = () => {
+    setDirty(true);
+    setServerErrors([]);
+  };
+
+  const updateStatus = (key: string, patch: Partial<EditorStatus>) => {
+    setStatuses((prev) => prev.map((s) => (s.status_key === key ? { ...s, ...patch } : s)));
+    touch();
+  };
+
+  const dropEdges = (predicate: (from: string, to: string) => boolean) => {
+    setTransitions((prev) => prev.filter((t) => !predicate(t.from, t.to)));
+    setRoleRules((prev) => prev.filter((r) => !predicate(r.from, r.to)));
+  };
+
+  const setStatusActive = (status: EditorStatus, active: boolean) => {
+    if (!active) {
+      // Retiring a status drops every transition touching it
+      dropEdges((from, to) => from === status.status_key || to === status.status_key);
+      setSelection(null);
+    }
+    updateStatus(status.status_key, { is_active: active });
+  };
+
+  const setStatusTerminal = (status: EditorStatus, terminal: boolean) => {
+    if (terminal) {
+      dropEdges((from) => from === status.status_key);
+    }
+    updateStatus(status.status_key, { is_terminal: terminal });
+  };
+
+  const handleNodeClick = (key: string) => {
+    if (!connectMode) {
+      setSelection({ type: "status", key });
+      return;
+    }
+    if (!connectFrom) {
+      setConnectFrom(key);
+      return;
+    }
+    if (connectFrom !== key) {
+      if (transitions.some((t) => t.from === connectFrom && t.to === key)) {
+        toast.error("That transition already exists");
+      } else {
+        setTransitions((prev) => [...prev, { from: connectFrom, to: key }]);
+        setSelection({ type: "edge", from: connectFrom, to: key });
+        touch();
+      }
+    }
+    setConnectFrom(null);
+    setConnectMode(false);
+  };
+
+  const removeEdge = (from: string, to: string) => {
+    dropEdges((f, t) => f === from && t === to);
+    setSelection(null);
+    touch();
+  };
+
+  const getRule = (roleId: number, from: string, to: string) =>
+    roleRules.find((r) => r.role_id === roleId && r.from === from && r.to === to);
+
+  const setRule = (
+    roleId: number,
+    from: string,
+    to: string,
+    patch: Partial<Pick<WorkflowRoleRuleConfig, "can_transition" | "requires_tracking_number">>
+  ) => {
+    setRoleRules((prev) => {
+      const existing = prev.find((r) => r.role_id === roleId && r.from === from && r.to === to);
+      const next = {
+        role_id: roleId,
+        from,
+        to,
+        can_transition: existing?.can_transition ?? false,
+        requires_tracking_number: existing?.requires_tracking_number ?? false,
+        ...patch,
+      };
+      const rest = prev.filter((r) => r !== existing);
+      // A rule that grants nothing is the same as no rule
+      return next.can_transition || next.requires_tracking_number ? [...rest, next] : rest;
+    });
+    touch();
+  };
+
+  const handleAddStatus = () => {
+    const sameRow = statuses.filter((s) => s.is_terminal === statusForm.is_terminal);
+    const maxOrder = Math.max(0, ...sameRow.map((s) => s.status_order));
+    const takenOrders = new Set(statuses.filter((s) => s.is_active).map((s) => s.status_order));
+    let order = maxOrder + 1;
+    while (takenOrders.has(order)) order++;
+
+    setStatuses((prev) => [
+      ...prev,
+      {
+        status_key: statusForm.status_key.trim(),
+        status_label: statusForm.status_label.trim(),
+        status_order: order,
+        customer_bucket: statusForm.customer_bucket,
+        is_terminal: statusForm.is_terminal,
+        is_active: true,
+        item_count: 0,
+      },
+    ]);
+    setSelection({ type: "status", key: statusForm.status_key.trim() });
+    setStatusForm(emptyStatusForm);
+    setAddOpen(false);
+    touch();
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/workflow/config", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          statuses: statuses.map((s) => ({
+            status_key: s.status_key,
+            status_label: s.status_label,
+            status_order: s.status_order,
+            customer_bucket: s.customer_bucket,
+            is_terminal: s.is_terminal,
+            is_active: s.is_active,
+            sla_hours: s.sla_hours ?? null,
+          })),
+          transitions,
+          role_rules: roleRules,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setServerErrors(data.errors || [data.error || "Failed to save workflow"]);
+        toast.error(data.error || "Failed to save workflow");
+        return;
+      }
+      toast.success("Workflow saved");
+      fetchConfig();
+    } catch {
+      toast.error("Failed to save workflow");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <div className="h-8 w-56 animate-pulse rounded-lg bg-muted" />
+          <div className="mt-2 h-4 w-72 animate-pulse rounded bg-muted" />
+        </div>
+        <div className="h-[420px] animate-pulse rounded-xl border bg-muted/40" />
+      </div>
+    );
+  }
+
+  const selectedStatus =
+    selection?.type === "status" ? statuses.find((s) => s.status_key === selection.key) : null;
+  const retired = statuses.filter((s) => !s.is_active);
+  const errors = serverErrors.length ? serverErrors : validation.errors;
+  const labelOf = (key: string) => statuses.find((s) => s.status_key === key)?.status_label || key;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight md:text-3xl">Item Workflow</h1>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {layout.active.length} active statuses · {transitions.length} transitions
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => setAddOpen(true)}>
+              <Plus className="h-4 w-4" />
+              Add Status
+            </Button>
+            <Button
+              variant={connectMode ? "default" : "outline"}
+              className="gap-2"
+              onClick={() => {
+                setConnectMode((v) => !v);
+                setConnectFrom(null);
+              }}
+            >
+              <Spline className="h-4 w-4" />
+              {connectMode ? (connectFrom ? "Pick target…" : "Pick source…") : "Draw Transition"}
+            </Button>
+            {dirty && (
+              <Button variant="ghost" className="gap-2" onClick={fetchConfig}>
+                <RotateCcw className="h-4 w-4" />
+                Discard
+              </Button>
+            )}
+            <Button
+              className="gap-2"
+              onClick={handleSave}
+              disabled={!dirty || saving || validation.errors.length > 0}
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save Workflow
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Validation */}
+      {(errors.length > 0 || validation.warnings.length > 0) && (
+        <div className="space-y-2">
+          {errors.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-900/50 dark:bg-red-900/20 dark:text-red-400">
+              <p className="mb-1 flex items-center gap-1.5 font-medium">
+                <CircleAlert className="h-4 w-4" />
+                This workflow cannot be saved
+              </p>
+              <ul className="list-disc pl-6 text-xs">
+                {errors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {validation.warnings.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-900/50 dark:bg-amber-900/20 dark:text-amber-400">
+              <p className="mb-1 flex items-center gap-1.5 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                Warnings
+              </p>
+              <ul className="list-disc pl-6 text-xs">
+                {validation.warnings.map((w) => (
+                  <li key={w}>{w}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid gap-6 xl:grid-cols-[1fr_360px]">
+        {/* Graph */}
+        <div className="rounded-xl border bg-card shadow-sm overflow-x-auto">
+          <div className="flex flex-wrap gap-3 border-b px-4 py-2 text-xs text-muted-foreground">
+            {CUSTOMER_BUCKETS.map((b) => (
+              <span key={b} className="flex items-center gap-1.5">
+                <span
+                  className="inline-block h-3 w-3 rounded-sm border"
+                  style={{ background: BUCKET_STYLES[b].fill, borderColor: BUCKET_STYLES[b].stroke }}
+                />
+                {BUCKET_STYLES[b].label}
+              </span>
+            ))}
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block h-3 w-3 rounded-sm border-2 border-dashed border-red-500" />
+              Terminal
+            </span>
+          </div>
+          <svg width={layout.width} height={layout.height} className="block">
+            <defs>
+              <marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+              </marker>
+              <marker id="arrow-active" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#2563eb" />
+              </marker>
+            </defs>
+
+            {transitions.map((t) => {
+              const d = edgePath(t.from, t.to);
+              if (!d) return null;
+              const selected =
+                selection?.type === "edge" && selection.from === t.from && selection.to === t.to;
+              const unused = !roleRules.some(
+                (r) => r.from === t.from && r.to === t.to && r.can_transition
+              );
+              return (
+                <g
+                  key={edgeKey(t.from, t.to)}
+                  className="cursor-pointer"
+                  onClick={() => setSelection({ type: "edge", from: t.from, to: t.to })}
+                >
+                  <path d={d} fill="none" stroke="transparent" strokeWidth={12} />
+                  <path
+                    d={d}
+                    fill="none"
+                    stroke={selected ? "#2563eb" : "#94a3b8"}
+                    strokeWidth={selected ? 2.5 : 1.5}
+                    strokeDasharray={unused ? "4 4" : undefined}
+                    markerEnd={selected ? "url(#arrow-active)" : "url(#arrow)"}
+                  />
+                </g>
+              );
+            })}
+
+            {layout.active.map((s) => {
+              const pos = layout.positions.get(s.status_key)!;
+              const style = BUCKET_STYLES[s.customer_bucket] || BUCKET_STYLES.processing;
+              const selected = selection?.type === "status" && selection.key === s.status_key;
+              const pending = connectFrom === s.status_key;
+              return (
+                <g
+                  key={s.status_key}
+                  transform={`translate(${pos.x}, ${pos.y})`}
+                  className="cursor-pointer"
+                  onClick={() => handleNodeClick(s.status_key)}
+                >
+                  <rect
+                    width={NODE_W}
+                    height={NODE_H}
+                    rx={10}
+                    fill={style.fill}
+                    stroke={selected || pending ? "#2563eb" : s.is_terminal ? "#ef4444" : style.stroke}
+                    strokeWidth={selected || pending ? 3 : 1.5}
+                    strokeDasharray={s.is_terminal ? "5 3" : undefined}
+                  />
+                  <text x={NODE_W / 2} y={22} textAnchor="middle" fontSize={12} fontWeight={600} fill="#1e293b">
+                    {s.status_label.length > 20 ? `${s.status_label.slice(0, 19)}…` : s.status_label}
+                  </text>
+                  <text x={NODE_W / 2} y={39} textAnchor="middle" fontSize={10} fill="#64748b">
+                    #{s.status_order} · {s.item_count ?? 0} items
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+
+        {/* Inspector */}
+        <div className="rounded-xl border bg-card p-4 shadow-sm">
+          {selectedStatus ? (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-semibold">Status</h3>
+                <p className="font-mono text-xs text-muted-foreground">{selectedStatus.status_key}</p>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="ws_label">Label</Label>
+                <Input
+                  id="ws_label"
+                  value={selectedStatus.status_label}
+                  disabled={!canManage}
+                  onChange={(e) => updateStatus(selectedStatus.status_key, { status_label: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="ws_order">Order</Label>
+                  <Input
+                    id="ws_order"
+                    type="number"
+                    value={selectedStatus.status_order}
+                    disabled={!canManage}
+                    onChange={(e) =>
+                      updateStatus(selectedStatus.status_key, { status_order: Number(e.target.value) })
+                    }
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="ws_bucket">Customer sees</Label>
+                  <select
+                    id="ws_bucket"
+                    value={selectedStatus.customer_bucket}
+                    disabled={!canManage}
+                    onChange={(e) =>
+                      updateStatus(selectedStatus.status_key, {
+                        customer_bucket: e.target.value as CustomerBucket,
+                      })
+                    }
+                    className={selectClass}
+                  >
+                    {CUSTOMER_BUCKETS.map((b) => (
+                      <option key={b} value={b}>
+                        {BUCKET_STYLES[b].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {!selectedStatus.is_terminal && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="ws_sla">SLA (hours)</Label>
+                  <Input
+                    id="ws_sla"
+                    type="number"
+                    min={1}
+                    max={MAX_SLA_HOURS}
+                    placeholder="No SLA"
+                    value={selectedStatus.sla_hours ?? ""}
+                    disabled={!canManage}
+                    onChange={(e) =>
+                      updateStatus(selectedStatus.status_key, {
+                        sla_hours: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Items here longer than this show as overdue and alert the roles that move them on.
+                  </p>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Terminal</Label>
+                  <p className="text-xs text-muted-foreground">Items stop here; no outgoing transitions.</p>
+                </div>
+                <Switch
+                  checked={selectedStatus.is_terminal}
+                  disabled={!canManage}
+                  onCheckedChange={(v: boolean) => setStatusTerminal(selectedStatus, v)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {selectedStatus.item_count ?? 0} items currently in this status.
+              </p>
+              {canManage && !SYSTEM_STATUS_KEYS.includes(selectedStatus.status_key) && (
+                <Button
+                  variant="outline"
+                  className="w-full gap-2 text-destructive hover:text-destructive"
+                  disabled={(selectedStatus.item_count ?? 0) > 0}
+                  onClick={() => setStatusActive(selectedStatus, false)}
+                >
+                  <Archive className="h-4 w-4" />
+                  Retire Status
+                </Button>
+              )}
+            </div>
+          ) : selection?.type === "edge" ? (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-semibold">Transition</h3>
+                <p className="text-xs text-muted-foreground">
+                  {labelOf(selection.from)} → {labelOf(selection.to)}
+                </p>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                    <th className="py-2">Role</th>
+                    <th className="py-2 text-center">Allowed</th>
+                    <th className="py-2 text-center">Tracking #</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {roles.map((role) => {
+                    const rule = getRule(role.id, selection.from, selection.to);
+                    return (
+                      <tr key={role.id} className="border-b last:border-0">
+                        <td className="py-2">
+                          {role.role_name}
+                          {!role.is_active && (
+                            <span className="ml-1 text-xs text-muted-foreground">(inactive)</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={!!rule?.can_transition}
+                            disabled={!canManage}
+                            onChange={(e) =>
+                              setRule(role.id, selection.from, selection.to, {
+                                can_transition: e.target.checked,
+                              })
+                            }
+                            className="rounded border"
+                          />
+                        </td>
+                        <td className="py-2 text-center">
+                          <input
+                            type="checkbox"
+                            checked={!!rule?.requires_tracking_number}
+                            disabled={!canManage || !rule?.can_transition}
+                            onChange={(e) =>
+                              setRule(role.id, selection.from, selection.to, {
+                                requires_tracking_number: e.target.checked,
+                              })
+                            }
+                            className="rounded border"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              {canManage && (
+                <Button
+                  variant="outline"
+                  className="w-full gap-2 text-destructive hover:text-destructive"
+                  onClick={() => removeEdge(selection.from, selection.to)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Remove Transition
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="flex h-full flex-col items-center justify-center gap-3 py-10 text-center">
+              <div className="rounded-full bg-muted p-3">
+                <Workflow className="h-6 w-6 text-muted-foreground" />
+              </div>
+              <p className="max-w-[240px] text-sm text-muted-foreground">
+                Select a status to edit it, or an arrow to choose which roles may perform that
+                transition. Dashed arrows are not allowed for any role yet.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Retired statuses */}
+      {retired.length > 0 && (
+        <div className="rounded-xl border bg-card p-4 shadow-sm">
+          <h3 className="mb-3 text-sm font-semibold">Retired statuses</h3>
+          <div className="flex flex-wrap gap-2">
+            {retired.map((s) => (
+              <div key={s.status_key} className="flex items-center gap-2 rounded-lg border px-3 py-1.5">
+                <span className="text-sm">{s.status_label}</span>
+                <Badge variant="secondary" className="font-mono text-[11px]">
+                  {s.status_key}
+                </Badge>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 px-2"
+                    onClick={() => setStatusActive(s, true)}
+                  >
+                    <ArchiveRestore className="h-3.5 w-3.5" />
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add Status Dialog */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Status</DialogTitle>
+            <DialogDescription>
+              New statuses need at least one incoming transition before the workflow can be saved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <Label htmlFor="new_label">Label</Label>
+              <Input
+                id="new_label"
+                value={statusForm.status_label}
+                onChange={(e) => setStatusForm((f) => ({ ...f, status_label: e.target.value }))}
+                placeholder="e.g. Quality Check"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="new_key">Key</Label>
+              <Input
+                id="new_key"
+                value={statusForm.status_key}
+                onChange={(e) =>
+                  setStatusForm((f) => ({ ...f, status_key: e.target.value.toLowerCase() }))
+                }
+                placeholder="e.g. quality_check"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="new_bucket">Customer sees</Label>
+              <select
+                id="new_bucket"
+                value={statusForm.customer_bucket}
+                onChange={(e) =>
+                  setStatusForm((f) => ({ ...f, customer_bucket: e.target.value as CustomerBucket }))
+                }
+                className={selectClass}
+              >
+                {CUSTOMER_BUCKETS.map((b) => (
+                  <option key={b} value={b}>
+                    {BUCKET_STYLES[b].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>Terminal</Label>
+              <Switch
+                checked={statusForm.is_terminal}
+                onCheckedChange={(v: boolean) => setStatusForm((f) => ({ ...f, is_terminal: v }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleAddStatus}
+              disabled={
+                !statusForm.status_key.trim() ||
+                !statusForm.status_label.trim() ||
+                statuses.some((s) => s.status_key === statusForm.status_key.trim())
+              }
+            >
+              Add
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Bell, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+interface CmsAlert {
+  id: number;
+  subject: string;
+  body: string;
+  action_url: string | null;
+  role_name: string | null;
+  is_acknowledged: boolean;
+  updated_at: string;
+}
+
+const POLL_MS = 60000;
+
+/** Header bell listing open alerts (e.g. SLA breaches) for the user's role */
+export function AlertsMenu() {
+  const router = useRouter();
+  const [alerts, setAlerts] = useState<CmsAlert[]>([]);
+  const [unacknowledged, setUnacknowledged] = useState(0);
+
+  const fetchAlerts = useCallback(async () => {
+    try {
+      const res = await fetch("/api/alerts");
+      if (!res.ok) return;
+      const data = await res.json();
+      setAlerts(data.alerts || []);
+      setUnacknowledged(data.unacknowledged || 0);
+    } catch {
+      // Keep the last known list; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    // First load from a timer so no state is set while the effect runs
+    const initial = setTimeout(fetchAlerts, 0);
+    const interval = setInterval(fetchAlerts, POLL_MS);
+    return () => {
+      clearTimeout(initial);
+      clearInterval(interval);
+    };
+  }, [fetchAlerts]);
+
+  const acknowledge = async (id: number) => {
+    const res = await fetch(`/api/alerts/${id}`, { method: "PUT" }).catch(() => null);
+    if (res?.ok) fetchAlerts();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8">
+          <Bell className="h-4 w-4" />
+          {unacknowledged > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-600 px-1 text-[10px] font-semibold text-white">
+              {unacknowledged > 9 ? "9+" : unacknowledged}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Alerts</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">No open alerts</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {alerts.map((a) => (
+              <div
+                key={a.id}
+                className={cn(
+                  "flex items-start gap-2 rounded-md px-2 py-2",
+                  !a.is_acknowledged && "bg-orange-50 dark:bg-orange-950/30"
+                )}
+              >
+                <button
+                  onClick={() => a.action_url && router.push(a.action_url)}
+                  className="min-w-0 flex-1 text-left"
+                >
+                  <p className="text-sm font-medium">{a.subject}</p>
+                  <p className="text-xs text-muted-foreground">{a.body}</p>
+                  {a.role_name && (
+                    <p className="mt-0.5 text-[10px] uppercase text-muted-foreground">{a.role_name}</p>
+                  )}
+                </button>
+                {!a.is_acknowledged && (
+                  <button
+                    onClick={() => acknowledge(a.id)}
+                    className="shrink-0 rounded-md p-1 text-muted-foreground hover:bg-accent hover:text-foreground"
+                    title="Acknowledge"
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
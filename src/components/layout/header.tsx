@@ -34,6 +34,7 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { MobileSidebar } from "@/components/layout/mobile-sidebar";
+import { AlertsMenu } from "@/components/layout/alerts-menu";
 import { cn } from "@/lib/utils";
 
 interface HeaderProps {
@@ -265,8 +266,9 @@ export function Header({ sidebarCollapsed }: HeaderProps) {
         )}
       </div>
 
-      {/* Right: Theme + User */}
+      {/* Right: Alerts + Theme + User */}
       <div className="ml-3 flex items-center gap-1">
+        <AlertsMenu />
         <ThemeToggle />
 
         <DropdownMenu>
@@ -5,7 +5,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import {
   LayoutDashboard, ShoppingCart, Package, FolderTree, Image, Ticket, Zap,
-  Users, ShieldCheck, Bell, ClipboardList, Sparkles,
+  Users, ShieldCheck, KeyRound, Bell, ClipboardList, Workflow, ScanBarcode, Ship, Sparkles, Wallet,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -18,6 +18,10 @@ const navigation = [
       { title: "Dashboard", href: "/dashboard", icon: LayoutDashboard, permission: "page.dashboard" },
       { title: "Orders", href: "/dashboard/orders", icon: ShoppingCart, permission: "page.orders" },
       { title: "Item List", href: "/dashboard/items", icon: ClipboardList, permission: "page.orders.item_master_list" },
+      { title: "Item Workflow", href: "/dashboard/workflow", icon: Workflow, permission: "page.workflow" },
+      { title: "Scan Station", href: "/dashboard/scan-station", icon: ScanBarcode, permission: "page.scan_station" },
+      { title: "Shipments", href: "/dashboard/shipments", icon: Ship, permission: "page.shipments" },
+      { title: "Payments", href: "/dashboard/payments", icon: Wallet, permission: "page.payments" },
       { title: "Products", href: "/dashboard/products", icon: Package, permission: "page.products" },
       { title: "Categories", href: "/dashboard/categories", icon: FolderTree, permission: "page.categories" },
     ],
@@ -35,6 +39,7 @@ const navigation = [
     items: [
       { title: "Customers", href: "/dashboard/customers", icon: Users, permission: "page.customers" },
       { title: "CMS Users", href: "/dashboard/cms-users", icon: ShieldCheck, permission: "page.cms_users" },
+      { title: "Roles & Permissions", href: "/dashboard/roles", icon: KeyRound, permission: "page.roles" },
     ],
   },
   {
@@ -14,12 +14,17 @@ import {
   MonitorPlay,
   Users,
   ShieldCheck,
+  KeyRound,
   Bell,
   ChevronLeft,
   ChevronRight,
   ClipboardList,
+  Workflow,
+  ScanBarcode,
+  Ship,
   Sparkles,
   BarChart3,
+  Wallet,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -57,6 +62,30 @@ const navigation = [
         icon: ClipboardList,
         permission: "page.orders.item_master_list",
       },
+      {
+        title: "Item Workflow",
+        href: "/dashboard/workflow",
+        icon: Workflow,
+        permission: "page.workflow",
+      },
+      {
+        title: "Scan Station",
+        href: "/dashboard/scan-station",
+        icon: ScanBarcode,
+        permission: "page.scan_station",
+      },
+      {
+        title: "Shipments",
+        href: "/dashboard/shipments",
+        icon: Ship,
+        permission: "page.shipments",
+      },
+      {
+        title: "Payments",
+        href: "/dashboard/payments",
+        icon: Wallet,
+        permission: "page.payments",
+      },
       {
         title: "Products",
         href: "/dashboard/products",
@@ -115,6 +144,12 @@ const navigation = [
         icon: ShieldCheck,
         permission: "page.cms_users",
       },
+      {
+        title: "Roles & Permissions",
+        href: "/dashboard/roles",
+        icon: KeyRound,
+        permission: "page.roles",
+      },
     ],
   },
   {
@@ -0,0 +1,538 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CalendarClock, Loader2, Save, Send, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+export type CampaignStatus = "draft" | "scheduled" | "sending" | "sent" | "cancelled";
+export type RecipientStatus = "pending" | "sent" | "failed" | "skipped" | "cancelled";
+
+const DEVICE_TYPES = ["ios", "android", "web"] as const;
+
+export interface AudienceSegment {
+  device_types: (typeof DEVICE_TYPES)[number][];
+  countries: string[];
+  last_login_within_days: number | null;
+  inactive_for_days: number | null;
+  min_orders: number | null;
+  max_orders: number | null;
+  interest_category_ids: number[];
+  favorite_category_ids: number[];
+}
+
+export interface PushCampaign {
+  id: number;
+  name: string;
+  status: CampaignStatus;
+  subject: string;
+  body: string;
+  notification_type: string;
+  row_id: number | null;
+  action_url: string | null;
+  image_url: string | null;
+  send_push: boolean;
+  segment: AudienceSegment;
+  timezone: string;
+  scheduled_at: string | null;
+  notification_id: number | null;
+  recipient_count: number;
+  sent_count: number;
+  failed_count: number;
+  skipped_count: number;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface CategoryOption {
+  id: number;
+  name: string;
+}
+
+const EMPTY_SEGMENT: AudienceSegment = {
+  device_types: [],
+  countries: [],
+  last_login_within_days: null,
+  inactive_for_days: null,
+  min_orders: null,
+  max_orders: null,
+  interest_category_ids: [],
+  favorite_category_ids: [],
+};
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  sending: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  sent: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+export function CampaignStatusBadge({ status }: { status: CampaignStatus }) {
+  return (
+    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+/** "YYYY-MM-DDTHH:mm" wall-clock time of `iso` in `timeZone`, for datetime-local inputs */
+export function toZonedInput(iso: string, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(iso));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}T${get("hour")}:${get("minute")}`;
+}
+
+/** Send time in the campaign's own timezone */
+export function formatSchedule(campaign: Pick<PushCampaign, "scheduled_at" | "timezone">) {
+  if (!campaign.scheduled_at) return "—";
+  return `${new Date(campaign.scheduled_at).toLocaleString(undefined, {
+    timeZone: campaign.timezone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  })} (${campaign.timezone})`;
+}
+
+/** Plain-language summary of a segment */
+export function describeSegment(segment: AudienceSegment, categories: CategoryOption[] = []) {
+  const name = (id: number) => categories.find((c) => c.id === id)?.name ?? `#${id}`;
+  const parts: string[] = [];
+  if (segment.device_types.length) parts.push(`on ${segment.device_types.join(" / ")}`);
+  if (segment.countries.length) parts.push(`in ${segment.countries.join(", ")}`);
+  if (segment.last_login_within_days !== null) parts.push(`logged in within ${segment.last_login_within_days}d`);
+  if (segment.inactive_for_days !== null) parts.push(`inactive ${segment.inactive_for_days}d+`);
+  if (segment.min_orders !== null) parts.push(`≥ ${segment.min_orders} orders`);
+  if (segment.max_orders !== null) parts.push(`≤ ${segment.max_orders} orders`);
+  if (segment.interest_category_ids.length) {
+    parts.push(`interested in ${segment.interest_category_ids.map(name).join(", ")}`);
+  }
+  if (segment.favorite_category_ids.length) {
+    parts.push(`favorited ${segment.favorite_category_ids.map(name).join(", ")}`);
+  }
+  return parts.length ? `Active customers ${parts.join(", ")}` : "All active customers";
+}
+
+function CategoryPicker({
+  label,
+  selected,
+  onChange,
+}: {
+  label: string;
+  selected: CategoryOption[];
+  onChange: (categories: CategoryOption[]) => void;
+}) {
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<CategoryOption[]>([]);
+
+  useEffect(() => {
+    if (search.trim().length < 2) return;
+    const timer = setTimeout(() => {
+      fetch(`/api/categories/list?search=${encodeURIComponent(search.trim())}&pageSize=8`)
+        .then((res) => res.json())
+        .then((data) =>
+          setResults(
+            (data.categories || []).map((c: { id: number; category_name: string; category_name_en: string | null }) => ({
+              id: c.id,
+              name: c.category_name_en || c.category_name,
+            }))
+          )
+        )
+        .catch(() => setResults([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Results of an earlier search stay in state; hide them once the query is cleared
+  const visible = search.trim().length < 2 ? [] : results;
+
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map((c) => (
+            <span key={c.id} className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs">
+              {c.name}
+              <button type="button" onClick={() => onChange(selected.filter((s) => s.id !== c.id))}>
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="relative">
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search categories…" />
+        {visible.length > 0 && (
+          <div className="absolute z-10 mt-1 w-full rounded-lg border bg-popover p-1 shadow-md">
+            {visible.map((c) => (
+              <button
+                key={c.id}
+                type="button"
+                onClick={() => {
+                  if (!selected.some((s) => s.id === c.id)) onChange([...selected, c]);
+                  setSearch("");
+                }}
+                className="block w-full rounded px-2 py-1 text-left text-sm hover:bg-accent"
+              >
+                {c.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <p className="text-[10px] text-muted-foreground">Subcategories are included</p>
+    </div>
+  );
+}
+
+function numberOrNull(value: string) {
+  return value === "" ? null : Math.max(0, Math.floor(Number(value)));
+}
+
+type SendMode = "now" | "later" | "draft";
+
+/**
+ * Content, audience and schedule of a campaign. The audience count is a
+ * live dry run of the segment; the campaign itself resolves it again when
+ * it starts.
+ */
+export function CampaignForm({
+  campaign,
+  categories = [],
+  onSaved,
+}: {
+  campaign?: PushCampaign;
+  categories?: CategoryOption[];
+  onSaved: (campaign: PushCampaign) => void;
+}) {
+  const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const [name, setName] = useState(campaign?.name ?? "");
+  const [subject, setSubject] = useState(campaign?.subject ?? "");
+  const [body, setBody] = useState(campaign?.body ?? "");
+  const [notificationType, setNotificationType] = useState(campaign?.notification_type ?? "promo");
+  const [actionUrl, setActionUrl] = useState(campaign?.action_url ?? "");
+  const [imageUrl, setImageUrl] = useState(campaign?.image_url ?? "");
+  const [sendPush, setSendPush] = useState(campaign?.send_push ?? true);
+  const [segment, setSegment] = useState<AudienceSegment>(campaign?.segment ?? EMPTY_SEGMENT);
+  const [interestCategories, setInterestCategories] = useState<CategoryOption[]>(
+    categories.filter((c) => campaign?.segment.interest_category_ids.includes(c.id))
+  );
+  const [favoriteCategories, setFavoriteCategories] = useState<CategoryOption[]>(
+    categories.filter((c) => campaign?.segment.favorite_category_ids.includes(c.id))
+  );
+  const [mode, setMode] = useState<SendMode>(campaign?.status === "scheduled" ? "later" : campaign ? "draft" : "later");
+  const [timezone, setTimezone] = useState(campaign?.timezone ?? browserZone);
+  const [sendAt, setSendAt] = useState(
+    campaign?.scheduled_at ? toZonedInput(campaign.scheduled_at, campaign.timezone) : ""
+  );
+  const [options, setOptions] = useState<{
+    device_types: { type: string; users: number }[];
+    countries: { code: string; users: number }[];
+  } | null>(null);
+  const [audience, setAudience] = useState<{ recipients: number; with_push_token: number } | null>(null);
+  const [counting, setCounting] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fullSegment: AudienceSegment = {
+    ...segment,
+    interest_category_ids: interestCategories.map((c) => c.id),
+    favorite_category_ids: favoriteCategories.map((c) => c.id),
+  };
+  const segmentKey = JSON.stringify(fullSegment);
+
+  useEffect(() => {
+    fetch("/api/notifications/campaigns/audience")
+      .then((res) => res.json())
+      .then(setOptions)
+      .catch(() => setOptions(null));
+  }, []);
+
+  // Dry-run count, debounced while the segment is being edited
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setCounting(true);
+      try {
+        const res = await fetch("/api/notifications/campaigns/audience", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ segment: JSON.parse(segmentKey) }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to count audience");
+        setAudience(data);
+      } catch (err) {
+        setAudience(null);
+        toast.error(err instanceof Error ? err.message : "Failed to count audience");
+      } finally {
+        setCounting(false);
+      }
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [segmentKey]);
+
+  const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value]);
+
+  const handleSubmit = async () => {
+    if (mode === "later" && !sendAt) {
+      toast.error("Pick a send time");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(campaign ? `/api/notifications/campaigns/${campaign.id}` : "/api/notifications/campaigns", {
+        method: campaign ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          subject,
+          body,
+          notification_type: notificationType,
+          action_url: actionUrl,
+          image_url: imageUrl,
+          send_push: sendPush,
+          segment: fullSegment,
+          status: mode === "draft" ? "draft" : "scheduled",
+          send_at: mode === "now" ? "" : sendAt,
+          timezone,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save campaign");
+      toast.success(
+        mode === "now" ? "Campaign is sending" : mode === "later" ? "Campaign scheduled" : "Draft saved"
+      );
+      onSaved(data.campaign);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save campaign");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Content */}
+      <section className="space-y-3 rounded-xl border bg-card p-5 shadow-sm">
+        <h2 className="font-semibold">Message</h2>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Campaign name (internal)</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={150} />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Type</Label>
+            <select
+              value={notificationType}
+              onChange={(e) => setNotificationType(e.target.value)}
+              className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm"
+            >
+              <option value="promo">Promo</option>
+              <option value="general">General</option>
+            </select>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Subject</Label>
+          <Input value={subject} onChange={(e) => setSubject(e.target.value)} maxLength={200} />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Body</Label>
+          <Textarea value={body} onChange={(e) => setBody(e.target.value)} rows={3} />
+        </div>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Action URL (optional)</Label>
+            <Input value={actionUrl} onChange={(e) => setActionUrl(e.target.value)} />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Image URL (optional)</Label>
+            <Input value={imageUrl} onChange={(e) => setImageUrl(e.target.value)} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="campaign-push" checked={sendPush} onCheckedChange={setSendPush} />
+          <Label htmlFor="campaign-push" className="text-sm">
+            Send push notification (off = in-app only)
+          </Label>
+        </div>
+      </section>
+
+      {/* Audience */}
+      <section className="space-y-4 rounded-xl border bg-card p-5 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="font-semibold">Audience</h2>
+          <span className="inline-flex items-center gap-1.5 rounded-full bg-muted px-3 py-1 text-sm">
+            {counting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Users className="h-3.5 w-3.5" />}
+            {audience
+              ? `${audience.recipients.toLocaleString()} customers · ${audience.with_push_token.toLocaleString()} with push`
+              : "—"}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {describeSegment(fullSegment, [...interestCategories, ...favoriteCategories])}. Filters combine; leave
+          one empty to skip it.
+        </p>
+
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Device</Label>
+          <div className="flex flex-wrap gap-2">
+            {DEVICE_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setSegment((s) => ({ ...s, device_types: toggle(s.device_types, type) }))}
+                className={`rounded-full border px-3 py-1 text-sm capitalize ${
+                  segment.device_types.includes(type) ? "border-primary bg-primary text-primary-foreground" : "hover:bg-accent"
+                }`}
+              >
+                {type}
+                {options && (
+                  <span className="ml-1 text-xs opacity-70">
+                    {options.device_types.find((d) => d.type === type)?.users.toLocaleString() ?? 0}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {options && options.countries.length > 0 && (
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Country</Label>
+            <div className="flex max-h-28 flex-wrap gap-1.5 overflow-y-auto">
+              {options.countries.map((c) => (
+                <button
+                  key={c.code}
+                  type="button"
+                  onClick={() => setSegment((s) => ({ ...s, countries: toggle(s.countries, c.code) }))}
+                  className={`rounded-full border px-2.5 py-0.5 text-xs ${
+                    segment.countries.includes(c.code) ? "border-primary bg-primary text-primary-foreground" : "hover:bg-accent"
+                  }`}
+                >
+                  {c.code} <span className="opacity-70">{c.users.toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-4">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Logged in within (days)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={segment.last_login_within_days ?? ""}
+              onChange={(e) => setSegment((s) => ({ ...s, last_login_within_days: numberOrNull(e.target.value) }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Inactive for (days)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={segment.inactive_for_days ?? ""}
+              onChange={(e) => setSegment((s) => ({ ...s, inactive_for_days: numberOrNull(e.target.value) }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Min orders</Label>
+            <Input
+              type="number"
+              min={0}
+              value={segment.min_orders ?? ""}
+              onChange={(e) => setSegment((s) => ({ ...s, min_orders: numberOrNull(e.target.value) }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Max orders</Label>
+            <Input
+              type="number"
+              min={0}
+              value={segment.max_orders ?? ""}
+              onChange={(e) => setSegment((s) => ({ ...s, max_orders: numberOrNull(e.target.value) }))}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <CategoryPicker label="Interested in categories" selected={interestCategories} onChange={setInterestCategories} />
+          <CategoryPicker label="Favorited products in categories" selected={favoriteCategories} onChange={setFavoriteCategories} />
+        </div>
+      </section>
+
+      {/* Schedule */}
+      <section className="space-y-3 rounded-xl border bg-card p-5 shadow-sm">
+        <h2 className="font-semibold">Delivery</h2>
+        <div className="flex flex-wrap gap-2">
+          {(
+            [
+              ["now", "Send now"],
+              ["later", "Schedule"],
+              ["draft", "Save as draft"],
+            ] as [SendMode, string][]
+          ).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              className={`rounded-full border px-3 py-1 text-sm ${
+                mode === value ? "border-primary bg-primary text-primary-foreground" : "hover:bg-accent"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {mode !== "now" && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Send at{mode === "draft" ? " (optional)" : ""}</Label>
+              <Input type="datetime-local" value={sendAt} onChange={(e) => setSendAt(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Timezone</Label>
+              <Input value={timezone} onChange={(e) => setTimezone(e.target.value)} list="campaign-timezones" />
+              <datalist id="campaign-timezones">
+                {Intl.supportedValuesOf("timeZone").map((tz) => (
+                  <option key={tz} value={tz} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : mode === "now" ? (
+              <Send className="h-4 w-4" />
+            ) : mode === "later" ? (
+              <CalendarClock className="h-4 w-4" />
+            ) : (
+              <Save className="h-4 w-4" />
+            )}
+            {mode === "now"
+              ? `Send to ${audience?.recipients.toLocaleString() ?? "…"} customers`
+              : mode === "later"
+                ? "Schedule campaign"
+                : "Save draft"}
+          </Button>
+        </div>
+      </section>
+    </div>
+  );
+}
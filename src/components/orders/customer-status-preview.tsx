@@ -0,0 +1,118 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+
+type CustomerStatus = "processing" | "shipped" | "delivered" | "cancelled" | "refunded";
+
+interface CustomerStatusProjection {
+  status: CustomerStatus;
+  label: string;
+  items: {
+    id: number;
+    product_name: string;
+    variation_name: string | null;
+    quantity: number;
+    status_label: string | null;
+    customer_status: CustomerStatus;
+    customer_label: string;
+  }[];
+  timeline: { status: CustomerStatus; label: string; date: string }[];
+}
+
+const CUSTOMER_STATUS_STYLES: Record<CustomerStatus, string> = {
+  processing: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  shipped: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  delivered: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  refunded: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+};
+
+function CustomerBadge({ status, label }: { status: CustomerStatus; label: string }) {
+  return (
+    <span
+      className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${CUSTOMER_STATUS_STYLES[status]}`}
+    >
+      {label}
+    </span>
+  );
+}
+
+/**
+ * "What the customer sees" for an order — the customer-bucket projection
+ * from `/api/orders/[id]/customer-status`. Bump `refreshKey` to reload.
+ */
+export function CustomerStatusPreview({
+  orderId,
+  refreshKey,
+}: {
+  orderId: number | string;
+  refreshKey?: unknown;
+}) {
+  const [data, setData] = useState<CustomerStatusProjection | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/customer-status`)
+      .then(async (r) => {
+        const json = await r.json();
+        if (!r.ok) throw new Error(json.error || "Failed to load customer view");
+        setData(json);
+        setError("");
+      })
+      .catch((err) => setError(err.message));
+  }, [orderId, refreshKey]);
+
+  if (error) return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  if (!data) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">Order status</span>
+        <CustomerBadge status={data.status} label={data.label} />
+      </div>
+
+      <div className="space-y-1.5">
+        {data.items.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+            <span className="min-w-0 truncate">
+              {item.quantity}× {item.product_name}
+              {item.variation_name && (
+                <span className="text-muted-foreground"> ({item.variation_name})</span>
+              )}
+            </span>
+            <span className="flex shrink-0 items-center gap-1.5">
+              <span className="text-[10px] text-muted-foreground">{item.status_label || "Unset"} →</span>
+              <CustomerBadge status={item.customer_status} label={item.customer_label} />
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {data.timeline.length > 0 && (
+        <div>
+          <h3 className="mb-2 text-xs font-semibold uppercase text-muted-foreground">
+            Customer timeline
+          </h3>
+          <ol className="space-y-1">
+            {data.timeline.map((t, i) => (
+              <li key={i} className="flex items-center justify-between text-xs">
+                <CustomerBadge status={t.status} label={t.label} />
+                <time className="text-muted-foreground" dateTime={t.date}>
+                  {new Date(t.date).toLocaleString()}
+                </time>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Hash, Loader2, Save, SearchCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface Sequence {
+  doc_type: string;
+  label: string;
+  prefix: string;
+  padding: number;
+  yearly_reset: boolean;
+  next_number: string;
+}
+
+interface GapReport {
+  stem: string;
+  issued_count: number;
+  missing_count: number;
+  missing: { from: string; to: string }[];
+  truncated: boolean;
+}
+
+/**
+ * Numbering formats for invoices and credit notes, with a gap check per
+ * sequence. Editing needs `canManage`.
+ */
+export function DocumentNumbering({ canManage }: { canManage: boolean }) {
+  const [sequences, setSequences] = useState<Sequence[] | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, Sequence>>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [checking, setChecking] = useState<string | null>(null);
+  const [gaps, setGaps] = useState<Record<string, GapReport>>({});
+
+  const load = (list: Sequence[]) => {
+    setSequences(list);
+    setDrafts(Object.fromEntries(list.map((s) => [s.doc_type, s])));
+  };
+
+  useEffect(() => {
+    fetch("/api/settings/document-sequences")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load numbering");
+        load(data.sequences);
+      })
+      .catch((err) => toast.error(err.message));
+  }, []);
+
+  const handleSave = async (docType: string) => {
+    const draft = drafts[docType];
+    setSaving(docType);
+    try {
+      const res = await fetch("/api/settings/document-sequences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          doc_type: docType,
+          prefix: draft.prefix,
+          padding: draft.padding,
+          yearly_reset: draft.yearly_reset,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save");
+      load(data.sequences);
+      setGaps((prev) => {
+        const next = { ...prev };
+        delete next[docType];
+        return next;
+      });
+      toast.success(`${draft.label} numbering saved`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleCheckGaps = async (docType: string) => {
+    setChecking(docType);
+    try {
+      const res = await fetch(`/api/settings/document-sequences/gaps?doc_type=${docType}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to check gaps");
+      setGaps((prev) => ({ ...prev, [docType]: data }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to check gaps");
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  if (!sequences) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border bg-card p-5 shadow-sm">
+      <h2 className="mb-1 flex items-center gap-2 font-semibold">
+        <Hash className="h-4 w-4" /> Numbering
+      </h2>
+      <p className="mb-4 text-sm text-muted-foreground">
+        Numbers are handed out in order, one at a time. Changing the prefix or yearly reset
+        continues from the highest number already issued in the new format.
+      </p>
+
+      <div className="space-y-4">
+        {sequences.map((seq) => {
+          const draft = drafts[seq.doc_type] ?? seq;
+          const dirty =
+            draft.prefix !== seq.prefix ||
+            draft.padding !== seq.padding ||
+            draft.yearly_reset !== seq.yearly_reset;
+          const report = gaps[seq.doc_type];
+          const patch = (p: Partial<Sequence>) =>
+            setDrafts((prev) => ({ ...prev, [seq.doc_type]: { ...draft, ...p } }));
+
+          return (
+            <div key={seq.doc_type} className="rounded-lg border p-4">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="min-w-32 font-medium">
+                  {seq.label}
+                  <p className="text-xs font-normal text-muted-foreground">
+                    Next: <span className="font-mono">{seq.next_number}</span>
+                  </p>
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">Prefix</label>
+                  <input
+                    value={draft.prefix}
+                    onChange={(e) => patch({ prefix: e.target.value })}
+                    disabled={!canManage}
+                    maxLength={12}
+                    className="w-28 rounded-lg border bg-background px-3 py-1.5 font-mono text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="mb-1 block text-xs text-muted-foreground">Digits</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={12}
+                    value={draft.padding}
+                    onChange={(e) => patch({ padding: Number(e.target.value) || 1 })}
+                    disabled={!canManage}
+                    className="w-20 rounded-lg border bg-background px-3 py-1.5 text-sm"
+                  />
+                </div>
+                <label className="flex items-center gap-2 pb-1.5 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.yearly_reset}
+                    onChange={(e) => patch({ yearly_reset: e.target.checked })}
+                    disabled={!canManage}
+                  />
+                  Reset every year
+                </label>
+                <div className="ml-auto flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCheckGaps(seq.doc_type)}
+                    disabled={checking === seq.doc_type}
+                  >
+                    {checking === seq.doc_type ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <SearchCheck className="h-4 w-4" />
+                    )}
+                    Check gaps
+                  </Button>
+                  {canManage && (
+                    <Button
+                      size="sm"
+                      onClick={() => handleSave(seq.doc_type)}
+                      disabled={!dirty || saving === seq.doc_type}
+                    >
+                      {saving === seq.doc_type ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="h-4 w-4" />
+                      )}
+                      Save
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {report && (
+                <div className="mt-3 rounded-lg bg-muted/50 p-3 text-sm">
+                  {report.missing_count === 0 ? (
+                    <p>
+                      No gaps — {report.issued_count} numbers issued as{" "}
+                      <span className="font-mono">{report.stem}…</span>
+                    </p>
+                  ) : (
+                    <>
+                      <p className="font-medium text-amber-700 dark:text-amber-400">
+                        {report.missing_count} missing of {report.issued_count + report.missing_count} (
+                        <span className="font-mono">{report.stem}…</span>)
+                      </p>
+                      <ul className="mt-1 max-h-40 overflow-y-auto font-mono text-xs text-muted-foreground">
+                        {report.missing.map((r) => (
+                          <li key={r.from}>{r.from === r.to ? r.from : `${r.from} – ${r.to}`}</li>
+                        ))}
+                      </ul>
+                      {report.truncated && (
+                        <p className="mt-1 text-xs text-muted-foreground">Only the first ranges are listed.</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CheckCircle, Loader2, Mail, Send, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+interface Delivery {
+  id: number;
+  invoice_id: number;
+  invoice_number: string | null;
+  recipient: string;
+  status: "sent" | "failed";
+  transport: string;
+  error: string | null;
+  created_at: string;
+}
+
+/**
+ * Recipient / message form for emailing one invoice. The recipient
+ * starts as the customer's email; the server falls back to it when empty.
+ * `onDone` runs after every attempt — failed sends are logged too.
+ */
+export function InvoiceEmailForm({
+  invoiceId,
+  defaultTo,
+  onDone,
+  onCancel,
+}: {
+  invoiceId: number;
+  defaultTo: string;
+  onDone: (sent: boolean) => void;
+  onCancel: () => void;
+}) {
+  const [to, setTo] = useState(defaultTo);
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const res = await fetch(`/api/invoices/${invoiceId}/send`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ to: to.trim(), message: message.trim() }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to send invoice");
+      toast.success(`${json.invoice.invoice_number} sent to ${json.delivery.recipient}`);
+      onDone(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to send invoice");
+      onDone(false);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md bg-muted/50 p-2">
+      <input
+        type="email"
+        value={to}
+        onChange={(e) => setTo(e.target.value)}
+        placeholder="customer@example.com"
+        className="w-full rounded-md border bg-background px-2 py-1 text-xs"
+      />
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        rows={2}
+        maxLength={2000}
+        placeholder="Message (optional)"
+        className="w-full resize-y rounded-md border bg-background px-2 py-1 text-xs"
+      />
+      <div className="flex justify-end gap-1">
+        <button
+          onClick={onCancel}
+          disabled={sending}
+          className="rounded px-2 py-1 text-[10px] font-medium hover:bg-accent disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={sending}
+          className="inline-flex items-center gap-1 rounded bg-primary px-2 py-1 text-[10px] font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {sending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Every invoice email attempt for an order, newest first */
+export function InvoiceDeliveryLog({
+  orderId,
+  refreshKey,
+}: {
+  orderId: number | string;
+  refreshKey?: unknown;
+}) {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/invoice-deliveries`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load delivery log");
+        setDeliveries(json.deliveries || []);
+      })
+      .catch((err) => toast.error(err.message));
+  }, [orderId, refreshKey]);
+
+  if (deliveries.length === 0) return null;
+
+  return (
+    <div className="mt-3 border-t pt-3">
+      <h3 className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase text-muted-foreground">
+        <Mail className="h-3 w-3" /> Delivery log
+      </h3>
+      <ul className="max-h-56 space-y-1.5 overflow-y-auto">
+        {deliveries.map((d) => (
+          <li key={d.id} className="text-[11px]">
+            <div className="flex items-center gap-1.5">
+              {d.status === "sent" ? (
+                <CheckCircle className="h-3 w-3 shrink-0 text-green-600 dark:text-green-400" />
+              ) : (
+                <XCircle className="h-3 w-3 shrink-0 text-red-600 dark:text-red-400" />
+              )}
+              <span className="font-mono">{d.invoice_number ?? `#${d.invoice_id}`}</span>
+              <span className="truncate text-muted-foreground">→ {d.recipient}</span>
+              <span className="ml-auto shrink-0 text-muted-foreground">
+                {new Date(d.created_at).toLocaleString()}
+              </span>
+            </div>
+            {d.error && <p className="ml-4.5 truncate text-red-600 dark:text-red-400" title={d.error}>{d.error}</p>}
+            {d.transport === "smtp_url" && (
+              <p className="ml-4.5 text-muted-foreground">via SMTP_URL</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+interface RefundSummary {
+  paid: { products: number; shipping: number; total: number };
+  refunded_total: number;
+  refundable: number;
+  items: {
+    id: number;
+    product_name: string;
+    variation_name: string | null;
+    quantity: number;
+    refunded_quantity: number;
+    refundable_quantity: number;
+    unit_price: number;
+    status_label: string | null;
+  }[];
+  refunds: {
+    id: number;
+    refund_type: "items" | "full" | "products_only" | "shipping_only";
+    amount: number;
+    notes: string | null;
+    created_at: string;
+    items: { order_product_id: number; quantity: number; amount: number }[];
+  }[];
+}
+
+const REFUND_TYPE_LABELS: Record<RefundSummary["refunds"][number]["refund_type"], string> = {
+  items: "Items",
+  full: "Full",
+  products_only: "Products only",
+  shipping_only: "Shipping only",
+};
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+/**
+ * Refund ledger for an order plus the item refund form (`canRefund`).
+ * Amounts are priced by the server (`dry_run`) so the preview matches
+ * what gets recorded.
+ */
+export function ItemRefundsPanel({
+  orderId,
+  canRefund,
+  refreshKey,
+  onRefunded,
+}: {
+  orderId: number | string;
+  canRefund: boolean;
+  refreshKey?: unknown;
+  onRefunded: () => void;
+}) {
+  const [summary, setSummary] = useState<RefundSummary | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<{ amount: number; error?: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/orders/${orderId}/refunds`);
+      const data = await res.json();
+      if (res.ok) setSummary(data);
+    } catch {
+      // Panel stays in its loading state
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary, refreshKey]);
+
+  const lines = Object.entries(quantities)
+    .filter(([, qty]) => qty > 0)
+    .map(([itemId, qty]) => ({ item_id: Number(itemId), quantity: qty }));
+  const linesKey = JSON.stringify(lines);
+
+  // Re-price whenever the selection changes
+  useEffect(() => {
+    const selected = JSON.parse(linesKey);
+    if (!selected.length) {
+      setPreview(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/orders/${orderId}/refunds`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items: selected, dry_run: true }),
+        });
+        const data = await res.json();
+        setPreview(
+          res.ok
+            ? {
+                amount: data.amount,
+                error:
+                  data.amount > data.refundable + 0.001
+                    ? `Exceeds the ${money(data.refundable)} still refundable`
+                    : undefined,
+              }
+            : { amount: 0, error: data.error }
+        );
+      } catch {
+        setPreview(null);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [orderId, linesKey]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items: lines, notes: notes || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to process refund");
+        return;
+      }
+      toast.success(
+        `Refund of ${money(data.refund.amount)} recorded — credit note ${data.refund.credit_note_number}`
+      );
+      setFormOpen(false);
+      setQuantities({});
+      setNotes("");
+      onRefunded();
+    } catch {
+      toast.error("Failed to process refund");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!summary) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const itemName = (id: number) => summary.items.find((i) => i.id === id)?.product_name || `Item #${id}`;
+  const refundableItems = summary.items.filter((i) => i.refundable_quantity > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-lg bg-muted/50 p-2">
+          <p className="text-[10px] uppercase text-muted-foreground">Paid</p>
+          <p className="font-mono text-sm font-semibold">{money(summary.paid.total)}</p>
+        </div>
+        <div className="rounded-lg bg-muted/50 p-2">
+          <p className="text-[10px] uppercase text-muted-foreground">Refunded</p>
+          <p className="font-mono text-sm font-semibold text-red-600 dark:text-red-400">
+            {money(summary.refunded_total)}
+          </p>
+        </div>
+        <div className="rounded-lg bg-muted/50 p-2">
+          <p className="text-[10px] uppercase text-muted-foreground">Refundable</p>
+          <p className="font-mono text-sm font-semibold">{money(summary.refundable)}</p>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      {summary.refunds.length > 0 && (
+        <div className="divide-y rounded-lg border">
+          {summary.refunds.map((r) => (
+            <div key={r.id} className="px-3 py-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">
+                  #{r.id} · {REFUND_TYPE_LABELS[r.refund_type]}
+                </span>
+                <span className="font-mono">{money(r.amount)}</span>
+              </div>
+              {r.items.map((ri) => (
+                <p key={ri.order_product_id} className="truncate text-xs text-muted-foreground">
+                  {ri.quantity}× {itemName(ri.order_product_id)} — {money(ri.amount)}
+                </p>
+              ))}
+              <p className="text-[10px] text-muted-foreground">
+                {new Date(r.created_at).toLocaleString()}
+                {r.notes ? ` · ${r.notes}` : ""}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canRefund && refundableItems.length > 0 && summary.refundable > 0 && (
+        formOpen ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              {refundableItems.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 text-sm">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {money(item.unit_price)} each · {item.refundable_quantity} of {item.quantity} refundable
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={item.refundable_quantity}
+                    value={quantities[item.id] ?? 0}
+                    onChange={(e) => {
+                      const qty = Math.max(0, Math.min(item.refundable_quantity, Number(e.target.value) || 0));
+                      setQuantities((prev) => ({ ...prev, [item.id]: qty }));
+                    }}
+                    className="w-16 rounded-lg border bg-background px-2 py-1 text-right text-sm"
+                    aria-label={`Quantity to refund for item #${item.id}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Reason for refund…"
+              className="w-full resize-none rounded-lg border bg-background px-3 py-2 text-sm"
+            />
+            {preview && (
+              <p className={`text-sm ${preview.error ? "text-red-600 dark:text-red-400" : ""}`}>
+                {preview.error || (
+                  <>
+                    Refund amount: <span className="font-mono font-semibold">{money(preview.amount)}</span>
+                  </>
+                )}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Items refunded in full are moved to Refunded.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSubmit}
+                disabled={submitting || !lines.length || !!preview?.error}
+                className="inline-flex items-center gap-1.5 rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                {submitting ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                Refund
+              </button>
+              <button
+                onClick={() => setFormOpen(false)}
+                className="rounded-lg border px-4 py-2 text-sm font-medium hover:bg-accent"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setFormOpen(true)}
+            className="inline-flex items-center gap-1.5 rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-950/50"
+          >
+            <RotateCcw className="h-3 w-3" /> Refund Items
+          </button>
+        )
+      )}
+    </div>
+  );
+}
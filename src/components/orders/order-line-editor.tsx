@@ -0,0 +1,386 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ArrowRight, Loader2, Minus, PencilLine, Plus, Repeat, Search } from "lucide-react";
+import { toast } from "sonner";
+import { thumbnailUrl } from "@/lib/image-url";
+
+interface CatalogVariant {
+  id: number;
+  sku_id: string;
+  name: string | null;
+  image: string | null;
+  stock: number | null;
+  unit_price: number | null;
+}
+
+interface CatalogProduct {
+  id: number;
+  product_code: string;
+  name: string;
+  main_image: string | null;
+  unit_price: number | null;
+  variants: CatalogVariant[];
+}
+
+export interface EditableLine {
+  id: number;
+  r_product_id: number;
+  variation_id: number | null;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+}
+
+export type LineEditorMode = { action: "add" } | { action: "replace"; item: EditableLine };
+
+interface LineSnapshot {
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+interface OrderEdit {
+  id: number;
+  action: "add" | "remove" | "replace";
+  before: LineSnapshot | null;
+  after: LineSnapshot | null;
+  total_before: number;
+  total_after: number;
+  note: string | null;
+  edited_by: { id: number; name: string } | null;
+  created_at: string;
+}
+
+const money = (n: number | null | undefined) => (n === null || n === undefined ? "—" : `$${n.toFixed(2)}`);
+
+const lineLabel = (l: LineSnapshot) =>
+  `${l.quantity} × ${l.product_name}${l.variation_name ? ` (${l.variation_name})` : ""} @ ${money(l.unit_price)}`;
+
+async function fetchCatalog(query: string): Promise<CatalogProduct[]> {
+  const res = await fetch(`/api/orders/catalog?${query}`);
+  const json = await res.json();
+  if (!res.ok) throw new Error(json.error || "Search failed");
+  return json.products || [];
+}
+
+/**
+ * Product / variant picker that adds a line to the order or swaps an
+ * existing one. Swapping starts on the line's own product so a sold-out
+ * SKU can be replaced by a sibling variant in two clicks.
+ */
+export function OrderLineEditor({
+  orderId,
+  mode,
+  onDone,
+  onCancel,
+}: {
+  orderId: number | string;
+  mode: LineEditorMode;
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const replacing = mode.action === "replace" ? mode.item : null;
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<CatalogProduct[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [product, setProduct] = useState<CatalogProduct | null>(null);
+  const [variantId, setVariantId] = useState<number | null>(null);
+  const [quantity, setQuantity] = useState(String(replacing?.quantity ?? 1));
+  const [unitPrice, setUnitPrice] = useState("");
+  const [shippingMethod, setShippingMethod] = useState<"air" | "sea">("air");
+  const [shipping, setShipping] = useState("");
+  const [note, setNote] = useState("");
+  const [notify, setNotify] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Swapping: start on the line's own product
+  const replacingProductId = replacing?.r_product_id;
+  useEffect(() => {
+    if (!replacingProductId) return;
+    fetchCatalog(`product_id=${replacingProductId}`)
+      .then((products) => {
+        setResults(products);
+        if (products[0]) setProduct(products[0]);
+      })
+      .catch((err) => toast.error(err.message));
+  }, [replacingProductId]);
+
+  useEffect(() => {
+    const term = search.trim();
+    if (term.length < 2) return;
+    const timer = setTimeout(() => {
+      setSearching(true);
+      fetchCatalog(`search=${encodeURIComponent(term)}`)
+        .then(setResults)
+        .catch((err) => toast.error(err.message))
+        .finally(() => setSearching(false));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const variant = product?.variants.find((v) => v.id === variantId) ?? null;
+  const catalogPrice = variant?.unit_price ?? (product?.variants.length ? null : product?.unit_price ?? null);
+
+  const selectProduct = (p: CatalogProduct) => {
+    setProduct(p);
+    setVariantId(null);
+    setUnitPrice("");
+  };
+
+  const handleSubmit = async () => {
+    if (!product) return;
+    if (product.variants.length && !variantId) {
+      toast.error("Choose a variant");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/lines`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: mode.action,
+          ...(replacing ? { item_id: replacing.id } : { shipping_method: shippingMethod, shipping: shipping || 0 }),
+          product_id: product.id,
+          variant_id: variantId,
+          quantity: Number(quantity),
+          unit_price: unitPrice === "" ? null : Number(unitPrice),
+          note,
+          notify_customer: notify,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to edit order");
+      toast.success(
+        `${replacing ? "Item replaced" : "Item added"} — new total ${money(json.totals.total)}`
+      );
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to edit order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-dashed p-3">
+      <p className="text-xs font-semibold">
+        {replacing
+          ? `Replace ${replacing.product_name}${replacing.variation_name ? ` (${replacing.variation_name})` : ""}`
+          : "Add item"}
+      </p>
+
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={replacing ? "Search another product…" : "Search by name or product code…"}
+          className="w-full rounded-md border bg-background py-1.5 pl-7 pr-2 text-sm"
+        />
+        {searching && (
+          <Loader2 className="absolute right-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <ul className="max-h-48 space-y-1 overflow-y-auto">
+          {results.map((p) => (
+            <li key={p.id}>
+              <button
+                onClick={() => selectProduct(p)}
+                className={`flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-accent ${
+                  product?.id === p.id ? "bg-primary/10 ring-1 ring-primary/30" : ""
+                }`}
+              >
+                {thumbnailUrl(p.main_image) ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={thumbnailUrl(p.main_image)!} alt="" className="h-8 w-8 shrink-0 rounded object-cover" />
+                ) : (
+                  <div className="h-8 w-8 shrink-0 rounded bg-muted" />
+                )}
+                <span className="min-w-0 flex-1 truncate">{p.name}</span>
+                <span className="shrink-0 font-mono text-muted-foreground">{p.product_code}</span>
+                {p.variants.length > 0 && (
+                  <span className="shrink-0 text-muted-foreground">{p.variants.length} variants</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {product && (
+        <div className="grid grid-cols-2 gap-2">
+          {product.variants.length > 0 && (
+            <div className="col-span-2">
+              <label className="text-xs font-medium text-muted-foreground">Variant</label>
+              <select
+                value={variantId ?? ""}
+                onChange={(e) => setVariantId(e.target.value ? Number(e.target.value) : null)}
+                className="mt-1 w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+              >
+                <option value="">Choose a variant…</option>
+                {product.variants.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.name || v.sku_id} · {money(v.unit_price)}
+                    {v.stock !== null ? ` · stock ${v.stock}` : ""}
+                    {replacing?.variation_id === v.id ? " (current)" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label className="text-xs font-medium text-muted-foreground">Quantity</label>
+            <input
+              type="number"
+              min={1}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="mt-1 w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-muted-foreground">Unit price ($)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={unitPrice}
+              onChange={(e) => setUnitPrice(e.target.value)}
+              placeholder={catalogPrice !== null ? catalogPrice.toFixed(2) : "Catalog price"}
+              className="mt-1 w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            />
+          </div>
+          {!replacing && (
+            <>
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Shipping</label>
+                <select
+                  value={shippingMethod}
+                  onChange={(e) => setShippingMethod(e.target.value as "air" | "sea")}
+                  className="mt-1 w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                >
+                  <option value="air">✈️ Air</option>
+                  <option value="sea">🚢 Sea</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Shipping cost ($)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={shipping}
+                  onChange={(e) => setShipping(e.target.value)}
+                  placeholder="0.00"
+                  className="mt-1 w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+                />
+              </div>
+            </>
+          )}
+          <div className="col-span-2">
+            <input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Reason (e.g. SKU out of stock)"
+              className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+          Notify customer
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="rounded-md border px-3 py-1.5 text-xs hover:bg-accent disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !product}
+            className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            {saving ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : replacing ? (
+              <Repeat className="h-3 w-3" />
+            ) : (
+              <Plus className="h-3 w-3" />
+            )}
+            {replacing ? "Replace" : "Add"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const ACTION_ICONS = { add: Plus, remove: Minus, replace: Repeat } as const;
+
+/** Audit log of line edits for an order, newest first */
+export function OrderEditLog({
+  orderId,
+  refreshKey,
+}: {
+  orderId: number | string;
+  refreshKey?: unknown;
+}) {
+  const [edits, setEdits] = useState<OrderEdit[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/lines`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load order edits");
+        setEdits(json.edits || []);
+      })
+      .catch((err) => toast.error(err.message));
+  }, [orderId, refreshKey]);
+
+  if (edits.length === 0) return null;
+
+  return (
+    <div className="border-t pt-3">
+      <h3 className="mb-2 flex items-center gap-1 text-xs font-semibold uppercase text-muted-foreground">
+        <PencilLine className="h-3 w-3" /> Order edits
+      </h3>
+      <ul className="space-y-2">
+        {edits.map((e) => {
+          const Icon = ACTION_ICONS[e.action];
+          return (
+            <li key={e.id} className="text-xs">
+              <div className="flex items-start gap-1.5">
+                <Icon className="mt-0.5 h-3 w-3 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  {e.before && (
+                    <span className={e.action === "remove" ? "line-through text-muted-foreground" : "text-muted-foreground"}>
+                      {lineLabel(e.before)}
+                    </span>
+                  )}
+                  {e.before && e.after && <ArrowRight className="mx-1 inline h-3 w-3" />}
+                  {e.after && <span>{lineLabel(e.after)}</span>}
+                  <p className="text-[10px] text-muted-foreground">
+                    Total {money(e.total_before)} → {money(e.total_after)}
+                    {e.edited_by ? ` · ${e.edited_by.name}` : ""} · {new Date(e.created_at).toLocaleString()}
+                  </p>
+                  {e.note && <p className="text-[10px] italic text-muted-foreground">{e.note}</p>}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
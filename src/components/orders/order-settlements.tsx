@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { BellRing, CheckCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface SettlementTransaction {
+  id: number;
+  external_id: string;
+  gateway: string;
+  amount: number;
+  currency: string;
+  status: string;
+  created_at: string;
+}
+
+interface Settlement {
+  purpose: "order" | "shipping";
+  due: number;
+  paid_amount: number;
+  outstanding: number;
+  is_settled: boolean;
+  settled_at: string | null;
+  payment_id: string | null;
+  transactions: SettlementTransaction[];
+}
+
+interface ShippingSettlement extends Settlement {
+  status: number;
+  status_label: string;
+  confirmation: {
+    confirmed_at: string;
+    confirmed_at_estimated: boolean;
+    days_waiting: number;
+    reminder_count: number;
+    last_reminded_at: string | null;
+    can_remind: boolean;
+  } | null;
+}
+
+interface Settlements {
+  product: Settlement;
+  shipping: ShippingSettlement;
+}
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+const PAID_STATUSES = ["success", "completed", "paid"];
+
+function SettlementBlock({
+  title,
+  settlement,
+  canViewPayments,
+  children,
+}: {
+  title: string;
+  settlement: Settlement;
+  canViewPayments: boolean;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{title}</span>
+        {settlement.is_settled ? (
+          <span className="inline-flex items-center gap-1 text-xs text-green-600 dark:text-green-400">
+            <CheckCircle className="h-3 w-3" /> Settled
+          </span>
+        ) : (
+          <span className="text-xs font-medium text-red-600 dark:text-red-400">
+            {money(settlement.outstanding)} outstanding
+          </span>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-x-3 text-xs">
+        <span className="text-muted-foreground">Due</span>
+        <span className="text-right font-mono">{money(settlement.due)}</span>
+        <span className="text-muted-foreground">Paid by transactions</span>
+        <span className="text-right font-mono">{money(settlement.paid_amount)}</span>
+        {settlement.settled_at && (
+          <>
+            <span className="text-muted-foreground">Paid at</span>
+            <span className="text-right">{new Date(settlement.settled_at).toLocaleString()}</span>
+          </>
+        )}
+      </div>
+      {children}
+      {settlement.transactions.length > 0 && (
+        <ul className="space-y-1 border-t pt-2">
+          {settlement.transactions.map((t) => (
+            <li key={t.id} className="flex items-center justify-between gap-2 text-[10px]">
+              {canViewPayments ? (
+                <Link href={`/dashboard/payments/${t.id}`} className="truncate font-mono text-primary hover:underline">
+                  {t.external_id}
+                </Link>
+              ) : (
+                <span className="truncate font-mono text-muted-foreground">{t.external_id}</span>
+              )}
+              <span className="shrink-0">
+                <span className="font-mono">{money(t.amount)}</span>{" "}
+                <span
+                  className={
+                    PAID_STATUSES.includes(t.status.toLowerCase())
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-muted-foreground"
+                  }
+                >
+                  {t.status}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Product and shipping payments as two settlements, each with its
+ * transactions and outstanding balance. While shipping is Ready to Pay it
+ * shows how long the customer has had the Pay button, with a reminder.
+ */
+export function OrderSettlementsPanel({
+  orderId,
+  canRemind,
+  canViewPayments,
+  refreshKey,
+}: {
+  orderId: number | string;
+  canRemind: boolean;
+  canViewPayments: boolean;
+  refreshKey?: unknown;
+}) {
+  const [settlements, setSettlements] = useState<Settlements | null>(null);
+  const [reminding, setReminding] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/settlements`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load settlements");
+        setSettlements(json);
+      })
+      .catch((err) => toast.error(err.message));
+  }, [orderId, refreshKey, reloadKey]);
+
+  if (!settlements) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  const { product, shipping } = settlements;
+  const confirmation = shipping.confirmation;
+
+  const handleRemind = async () => {
+    setReminding(true);
+    try {
+      const res = await fetch("/api/orders/shipping-reminders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order_ids: [Number(orderId)] }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to send reminder");
+      if (json.sent.length) toast.success("Reminder sent to the customer");
+      else toast.error(json.skipped[0]?.reason || "Reminder not sent");
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to send reminder");
+    } finally {
+      setReminding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <SettlementBlock title="Products" settlement={product} canViewPayments={canViewPayments} />
+      <SettlementBlock title={`Shipping · ${shipping.status_label}`} settlement={shipping} canViewPayments={canViewPayments}>
+        {confirmation && (
+          <div className="space-y-2 rounded-md bg-muted/50 p-2 text-xs">
+            <p>
+              Price confirmed {confirmation.confirmed_at_estimated ? "around " : ""}
+              {new Date(confirmation.confirmed_at).toLocaleDateString()} —{" "}
+              <span className="font-medium">
+                unpaid for {confirmation.days_waiting} day{confirmation.days_waiting === 1 ? "" : "s"}
+              </span>
+            </p>
+            {confirmation.reminder_count > 0 && (
+              <p className="text-muted-foreground">
+                {confirmation.reminder_count} reminder{confirmation.reminder_count === 1 ? "" : "s"} sent
+                {confirmation.last_reminded_at &&
+                  `, last ${new Date(confirmation.last_reminded_at).toLocaleString()}`}
+              </p>
+            )}
+            {canRemind && (
+              <button
+                onClick={handleRemind}
+                disabled={reminding || !confirmation.can_remind}
+                title={confirmation.can_remind ? undefined : "Already reminded in the last 24 hours"}
+                className="inline-flex items-center gap-1 rounded-md border bg-background px-2.5 py-1 text-xs font-medium hover:bg-accent disabled:opacity-50"
+              >
+                {reminding ? <Loader2 className="h-3 w-3 animate-spin" /> : <BellRing className="h-3 w-3" />}
+                Send payment reminder
+              </button>
+            )}
+          </div>
+        )}
+      </SettlementBlock>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Loader2, Merge, Split } from "lucide-react";
+import { toast } from "sonner";
+
+export interface SplittableLine {
+  id: number;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  shipping_method: string | null;
+}
+
+interface MovedAmounts {
+  subtotal: number;
+  shipping_amount: number;
+  tax_amount: number;
+  discount_amount: number;
+  total: number;
+}
+
+interface MergeCandidate {
+  id: number;
+  created_at: string;
+  total: number;
+  item_count: number;
+  is_paid: boolean;
+  shipping_method: string | null;
+  blockers: string[];
+}
+
+interface OrderLink {
+  id: number;
+  direction: "split_from" | "split_into" | "merged_from" | "merged_into";
+  related_order_id: number;
+  item_ids: number[];
+  moved: MovedAmounts;
+  related_invoices: { id: number; invoice_number: string; type: string; status: string }[];
+  note: string | null;
+  created_by: { id: number; name: string } | null;
+  created_at: string;
+}
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+const DIRECTION_LABELS: Record<OrderLink["direction"], string> = {
+  split_from: "Split from",
+  split_into: "Split into",
+  merged_from: "Merged from",
+  merged_into: "Merged into",
+};
+
+const METHOD_ICONS: Record<string, string> = { air: "✈️", sea: "🚢", both: "✈️🚢" };
+
+function FormFooter({
+  notify,
+  setNotify,
+  saving,
+  disabled,
+  label,
+  icon: Icon,
+  onSubmit,
+  onCancel,
+}: {
+  notify: boolean;
+  setNotify: (v: boolean) => void;
+  saving: boolean;
+  disabled: boolean;
+  label: string;
+  icon: typeof Split;
+  onSubmit: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} />
+        Notify customer
+      </label>
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="rounded-md border px-3 py-1.5 text-xs hover:bg-accent disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onSubmit}
+          disabled={saving || disabled}
+          className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {saving ? <Loader2 className="h-3 w-3 animate-spin" /> : <Icon className="h-3 w-3" />}
+          {label}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Pick items to move into a new order. Sea lines are pre-selected when
+ * the order mixes air and sea, the usual reason to split.
+ */
+function SplitForm({
+  orderId,
+  lines,
+  onDone,
+  onCancel,
+}: {
+  orderId: number | string;
+  lines: SplittableLine[];
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const mixed = new Set(lines.map((l) => l.shipping_method || "air")).size > 1;
+  const [selected, setSelected] = useState<number[]>(
+    mixed ? lines.filter((l) => l.shipping_method === "sea").map((l) => l.id) : []
+  );
+  const [note, setNote] = useState("");
+  const [notify, setNotify] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const toggle = (lineId: number) =>
+    setSelected((prev) => (prev.includes(lineId) ? prev.filter((x) => x !== lineId) : [...prev, lineId]));
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/split`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ item_ids: selected, note, notify_customer: notify }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to split order");
+      toast.success(`Order #${json.order_id} created — ${money(json.target.total)}`);
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to split order");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-dashed p-3">
+      <p className="text-xs font-semibold">Move to a new order</p>
+      <ul className="max-h-56 space-y-1 overflow-y-auto">
+        {lines.map((l) => (
+          <li key={l.id}>
+            <label className="flex items-center gap-2 text-xs">
+              <input type="checkbox" checked={selected.includes(l.id)} onChange={() => toggle(l.id)} />
+              <span className="min-w-0 flex-1 truncate">
+                {l.quantity} × {l.product_name}
+                {l.variation_name ? ` (${l.variation_name})` : ""}
+              </span>
+              <span className="shrink-0">{METHOD_ICONS[l.shipping_method || "air"]}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <p className="text-[10px] text-muted-foreground">
+        Shipping, tax and discount are prorated; the customer, address and payment are copied.
+      </p>
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Reason (e.g. sea items ship separately)"
+        className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+      />
+      <FormFooter
+        notify={notify}
+        setNotify={setNotify}
+        saving={saving}
+        disabled={!selected.length || selected.length === lines.length}
+        label="Split"
+        icon={Split}
+        onSubmit={handleSubmit}
+        onCancel={onCancel}
+      />
+    </div>
+  );
+}
+
+/** Pick one of the customer's other orders to fold into this one */
+function MergeForm({
+  orderId,
+  onDone,
+  onCancel,
+}: {
+  orderId: number | string;
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const [candidates, setCandidates] = useState<MergeCandidate[] | null>(null);
+  const [sourceId, setSourceId] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+  const [notify, setNotify] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/merge`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load orders");
+        setCandidates(json.candidates || []);
+      })
+      .catch((err) => {
+        toast.error(err.message);
+        setCandidates([]);
+      });
+  }, [orderId]);
+
+  const handleSubmit = async () => {
+    if (!sourceId) return;
+    if (!confirm(`Merge order #${sourceId} into order #${orderId}? Order #${sourceId} will be cancelled.`)) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/orders/${orderId}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ source_order_id: sourceId, note, notify_customer: notify }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to merge orders");
+      toast.success(`Order #${sourceId} merged — new total ${money(json.target.total)}`);
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to merge orders");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-dashed p-3">
+      <p className="text-xs font-semibold">Merge another order into this one</p>
+      {candidates === null ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : candidates.length === 0 ? (
+        <p className="text-xs italic text-muted-foreground">This customer has no other open orders.</p>
+      ) : (
+        <ul className="max-h-56 space-y-1 overflow-y-auto">
+          {candidates.map((c) => (
+            <li key={c.id}>
+              <label
+                className={`flex items-start gap-2 text-xs ${c.blockers.length ? "text-muted-foreground" : ""}`}
+                title={c.blockers.join("\n")}
+              >
+                <input
+                  type="radio"
+                  name="merge-source"
+                  disabled={c.blockers.length > 0}
+                  checked={sourceId === c.id}
+                  onChange={() => setSourceId(c.id)}
+                  className="mt-0.5"
+                />
+                <span className="min-w-0 flex-1">
+                  <span className="font-mono">#{c.id}</span> · {c.item_count} items · {money(c.total)}
+                  {c.is_paid ? " · paid" : ""} · {new Date(c.created_at).toLocaleDateString()}
+                  {c.blockers.length > 0 && (
+                    <span className="block text-[10px] text-amber-600 dark:text-amber-400">{c.blockers[0]}</span>
+                  )}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Reason (e.g. ship together)"
+        className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+      />
+      <FormFooter
+        notify={notify}
+        setNotify={setNotify}
+        saving={saving}
+        disabled={!sourceId}
+        label="Merge"
+        icon={Merge}
+        onSubmit={handleSubmit}
+        onCancel={onCancel}
+      />
+    </div>
+  );
+}
+
+/**
+ * Split / merge actions for an order plus the orders it was split from,
+ * split into or merged with — with their invoices, which stay on the
+ * order they were issued for.
+ */
+export function OrderSplitMergePanel({
+  orderId,
+  lines,
+  canSplit,
+  canMerge,
+  refreshKey,
+  onChanged,
+}: {
+  orderId: number | string;
+  lines: SplittableLine[];
+  canSplit: boolean;
+  canMerge: boolean;
+  refreshKey?: unknown;
+  onChanged: () => void;
+}) {
+  const [links, setLinks] = useState<OrderLink[]>([]);
+  const [mode, setMode] = useState<"split" | "merge" | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/links`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to load linked orders");
+        setLinks(json.links || []);
+      })
+      .catch((err) => toast.error(err.message));
+  }, [orderId, refreshKey]);
+
+  const done = () => {
+    setMode(null);
+    onChanged();
+  };
+
+  return (
+    <div className="space-y-3">
+      {mode === "split" ? (
+        <SplitForm orderId={orderId} lines={lines} onDone={done} onCancel={() => setMode(null)} />
+      ) : mode === "merge" ? (
+        <MergeForm orderId={orderId} onDone={done} onCancel={() => setMode(null)} />
+      ) : (canSplit && lines.length > 1) || canMerge ? (
+        <div className="flex flex-wrap gap-2">
+          {canSplit && lines.length > 1 && (
+            <button
+              onClick={() => setMode("split")}
+              className="inline-flex items-center gap-1 rounded-lg border px-3 py-1.5 text-xs font-medium hover:bg-accent"
+            >
+              <Split className="h-3 w-3" /> Split items…
+            </button>
+          )}
+          {canMerge && (
+            <button
+              onClick={() => setMode("merge")}
+              className="inline-flex items-center gap-1 rounded-lg border px-3 py-1.5 text-xs font-medium hover:bg-accent"
+            >
+              <Merge className="h-3 w-3" /> Merge an order…
+            </button>
+          )}
+        </div>
+      ) : null}
+
+      {links.length === 0 ? (
+        <p className="text-xs italic text-muted-foreground">Not split or merged.</p>
+      ) : (
+        <ul className="space-y-2">
+          {links.map((l) => (
+            <li key={l.id} className="text-xs">
+              <p>
+                {DIRECTION_LABELS[l.direction]}{" "}
+                <Link href={`/dashboard/orders/${l.related_order_id}`} className="font-mono text-primary hover:underline">
+                  #{l.related_order_id}
+                </Link>{" "}
+                · {l.item_ids.length} items · {money(l.moved.total)}
+              </p>
+              {l.related_invoices.length > 0 && (
+                <p className="text-[10px] text-muted-foreground">
+                  Invoices: {l.related_invoices.map((inv) => `${inv.invoice_number} (${inv.status})`).join(", ")}
+                </p>
+              )}
+              <p className="text-[10px] text-muted-foreground">
+                {l.created_by ? `${l.created_by.name} · ` : ""}
+                {new Date(l.created_at).toLocaleString()}
+              </p>
+              {l.note && <p className="text-[10px] italic text-muted-foreground">{l.note}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertTriangle, CheckCircle, Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+
+type QuoteMethod = "air" | "sea";
+
+interface QuoteOption {
+  unit_shipping: number;
+  shipping: number;
+  unit_tax: number;
+  tax: number;
+}
+
+interface QuoteLine {
+  item_id: number;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  status: string;
+  source_category: string | null;
+  method: QuoteMethod;
+  current_shipping: number;
+  air: QuoteOption;
+  sea: QuoteOption;
+}
+
+interface ShippingQuote {
+  shipping_status: number;
+  shipping_amount: number;
+  tax_amount: number;
+  lines: QuoteLine[];
+  totals: Record<"air" | "sea" | "selected", { shipping: number; tax: number }>;
+}
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+
+const METHOD_LABELS: Record<QuoteMethod, string> = { air: "✈️ Air", sea: "🚢 Sea" };
+
+/**
+ * Per-item air / sea quote. Admins pick the method per line, see the
+ * resulting shipping and tax, then save — or save and confirm the price
+ * so the customer can pay.
+ */
+export function ShippingQuoteBuilder({
+  orderId,
+  subtotal,
+  discount,
+  onDone,
+  onCancel,
+}: {
+  orderId: number | string;
+  subtotal: number;
+  discount: number;
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const [quote, setQuote] = useState<ShippingQuote | null>(null);
+  const [methods, setMethods] = useState<Record<number, QuoteMethod>>({});
+  const [saving, setSaving] = useState<"save" | "confirm" | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/orders/${orderId}/shipping-quote`)
+      .then(async (res) => {
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Failed to build shipping quote");
+        setQuote(json);
+        setMethods(Object.fromEntries(json.lines.map((l: QuoteLine) => [l.item_id, l.method])));
+      })
+      .catch((err) => toast.error(err.message));
+  }, [orderId]);
+
+  if (!quote) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  const setAll = (method: QuoteMethod) =>
+    setMethods(Object.fromEntries(quote.lines.map((l) => [l.item_id, method])));
+
+  const chosen = quote.lines.map((l) => l[methods[l.item_id] ?? l.method]);
+  const shipping = chosen.reduce((sum, o) => sum + o.shipping, 0);
+  const tax = chosen.reduce((sum, o) => sum + o.tax, 0);
+  const total = subtotal + shipping + tax - discount;
+  const estimated = quote.lines.filter((l) => l.status === "estimated").length;
+
+  const handleSave = async (confirm: boolean) => {
+    setSaving(confirm ? "confirm" : "save");
+    try {
+      const res = await fetch(`/api/orders/${orderId}/shipping-quote`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          items: Object.entries(methods).map(([itemId, method]) => ({ item_id: Number(itemId), method })),
+          confirm,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to apply shipping quote");
+      toast.success(
+        json.notified
+          ? "Shipping confirmed — user notified with Pay button!"
+          : `Shipping set to ${money(json.quote.shipping_amount)}`
+      );
+      onDone();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to apply shipping quote");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Shipping quote</span>
+        <div className="flex gap-1">
+          {(["air", "sea"] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setAll(m)}
+              className="rounded-md border px-2 py-0.5 text-[10px] font-medium hover:bg-accent"
+              title={`${money(quote.totals[m].shipping)} shipping + ${money(quote.totals[m].tax)} tax`}
+            >
+              All {METHOD_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {estimated > 0 && (
+        <p className="flex items-center gap-1 text-[10px] text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3 w-3" />
+          {estimated} item{estimated === 1 ? "" : "s"} missing dimensions — using fallback weight and size
+        </p>
+      )}
+
+      <ul className="max-h-72 space-y-2 overflow-y-auto">
+        {quote.lines.map((l) => {
+          const selected = methods[l.item_id] ?? l.method;
+          return (
+            <li key={l.item_id} className="text-xs">
+              <p className="truncate">
+                {l.quantity} × {l.product_name}
+                {l.variation_name ? ` (${l.variation_name})` : ""}
+                {l.status === "estimated" && <span className="ml-1 text-amber-600 dark:text-amber-400">*</span>}
+              </p>
+              <div className="mt-1 grid grid-cols-2 gap-1">
+                {(["air", "sea"] as const).map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setMethods((prev) => ({ ...prev, [l.item_id]: m }))}
+                    className={`rounded-md border-2 px-2 py-1 text-left ${
+                      selected === m ? "border-primary bg-primary/5" : "border-muted hover:border-muted-foreground/30"
+                    }`}
+                  >
+                    <span className="flex justify-between">
+                      <span>{METHOD_LABELS[m]}</span>
+                      <span className="font-mono font-semibold">{money(l[m].shipping)}</span>
+                    </span>
+                    <span className="block text-[10px] text-muted-foreground">
+                      {money(l[m].unit_shipping)}/unit
+                      {l[m].tax > 0 ? ` · tax ${money(l[m].tax)}` : ""}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="space-y-0.5 border-t pt-2 text-xs">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Shipping</span>
+          <span className="font-mono">
+            {money(shipping)}
+            <span className="ml-1 text-muted-foreground">(now {money(quote.shipping_amount)})</span>
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Tax</span>
+          <span className="font-mono">
+            {money(tax)}
+            <span className="ml-1 text-muted-foreground">(now {money(quote.tax_amount)})</span>
+          </span>
+        </div>
+        <div className="flex justify-between font-medium">
+          <span>Order total</span>
+          <span className="font-mono">{money(total)}</span>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving !== null}
+          className="rounded-md border px-3 py-1.5 text-xs hover:bg-accent disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => handleSave(false)}
+          disabled={saving !== null || !quote.lines.length}
+          className="inline-flex items-center gap-1 rounded-md border px-3 py-1.5 text-xs font-medium hover:bg-accent disabled:opacity-50"
+        >
+          {saving === "save" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+          Save quote
+        </button>
+        {quote.shipping_status === 0 && (
+          <button
+            onClick={() => handleSave(true)}
+            disabled={saving !== null || !quote.lines.length}
+            className="inline-flex items-center gap-1 rounded-md bg-primary px-3 py-1.5 text-xs font-medium text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            {saving === "confirm" ? <Loader2 className="h-3 w-3 animate-spin" /> : <CheckCircle className="h-3 w-3" />}
+            Save &amp; Confirm Price
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { History, Loader2, Truck, X } from "lucide-react";
+
+interface HistoryEntry {
+  id: number;
+  order_product_id: number;
+  product_name: string | null;
+  variation_name: string | null;
+  from_status: { key: string; label: string } | null;
+  to_status: { key: string; label: string } | null;
+  changed_by: { id: number; name: string } | null;
+  tracking_number: string | null;
+  note: string | null;
+  changed_at: string;
+}
+
+const inputClass =
+  "h-8 rounded-md border border-input bg-background px-2 text-xs text-foreground shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring [&>option]:bg-background";
+
+/**
+ * Item status timeline from `/api/orders/items/[itemId]/history` or
+ * `/api/orders/[id]/history`, filterable by user and date range.
+ * `showItem` labels each entry with its item (order-level timelines).
+ * Bump `refreshKey` to reload after a status change.
+ */
+export function StatusHistoryTimeline({
+  url,
+  showItem = false,
+  refreshKey,
+}: {
+  url: string;
+  showItem?: boolean;
+  refreshKey?: unknown;
+}) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [users, setUsers] = useState<{ id: number; name: string }[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [userId, setUserId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const params = new URLSearchParams();
+      if (userId) params.set("user_id", userId);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      const res = await fetch(`${url}?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to load history");
+        return;
+      }
+      setEntries(data.entries || []);
+      setUsers(data.users || []);
+      setTruncated(!!data.truncated);
+    } catch {
+      setError("Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, [url, userId, from, to]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, refreshKey]);
+
+  const filtered = !!(userId || from || to);
+
+  return (
+    <div className="space-y-3">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={userId} onChange={(e) => setUserId(e.target.value)} className={inputClass}>
+          <option value="">All users</option>
+          {users.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => setFrom(e.target.value)}
+          className={inputClass}
+          aria-label="From date"
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => setTo(e.target.value)}
+          className={inputClass}
+          aria-label="To date"
+        />
+        {filtered && (
+          <button
+            onClick={() => {
+              setUserId("");
+              setFrom("");
+              setTo("");
+            }}
+            className="inline-flex items-center gap-1 rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-accent"
+          >
+            <X className="h-3 w-3" />
+            Clear
+          </button>
+        )}
+        {loading && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : !loading && entries.length === 0 ? (
+        <div className="flex flex-col items-center py-6 text-center">
+          <History className="mb-2 h-6 w-6 text-muted-foreground/50" />
+          <p className="text-sm text-muted-foreground">
+            {filtered ? "No changes match these filters" : "No status changes recorded yet"}
+          </p>
+        </div>
+      ) : (
+        <ol className="ml-2 border-l">
+          {entries.map((e) => (
+            <li key={e.id} className="relative mb-4 pl-4 last:mb-0">
+              <span className="absolute -left-[5.5px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-primary" />
+              <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                <span>
+                  {e.from_status ? (
+                    <span className="text-muted-foreground">{e.from_status.label} → </span>
+                  ) : null}
+                  <span className="font-medium">{e.to_status?.label || "Unknown status"}</span>
+                </span>
+                <time className="text-xs text-muted-foreground" dateTime={e.changed_at}>
+                  {new Date(e.changed_at).toLocaleString()}
+                </time>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {showItem && (
+                  <>
+                    Item #{e.order_product_id}
+                    {e.product_name ? ` · ${e.product_name}` : ""}
+                    {e.variation_name ? ` (${e.variation_name})` : ""}
+                    {" · "}
+                  </>
+                )}
+                by {e.changed_by?.name || "System"}
+              </p>
+              {e.tracking_number && (
+                <p className="mt-0.5 flex items-center gap-1 text-xs">
+                  <Truck className="h-3 w-3 text-muted-foreground" />
+                  <span className="font-mono">{e.tracking_number}</span>
+                </p>
+              )}
+              {e.note && (
+                <p className="mt-1 whitespace-pre-wrap rounded-md bg-muted/50 px-2 py-1 text-xs">{e.note}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+      {truncated && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first 1000 changes — narrow the date range to see the rest.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { AlertTriangle, CheckCircle } from "lucide-react";
+
+export type PaymentFlag =
+  | "paid_order_unpaid"
+  | "paid_not_processed"
+  | "callback_amount_mismatch"
+  | "no_order"
+  | "duplicate_payment";
+
+export interface PaymentTransaction {
+  id: number;
+  external_id: string;
+  gateway: string;
+  currency: string;
+  amount: number;
+  status: string;
+  is_processed: boolean;
+  processed_at: string | null;
+  created_at: string;
+  user_id: number;
+  order_id: number | null;
+  invoice: string | null;
+  purpose: "order" | "shipping";
+  order: { id: number; is_paid: boolean; shipping_status: number; total: number } | null;
+  callback_amount: number | null;
+  flags: PaymentFlag[];
+  acknowledged: boolean;
+}
+
+export const PAYMENT_FLAG_LABELS: Record<PaymentFlag, string> = {
+  paid_order_unpaid: "Order not marked paid",
+  paid_not_processed: "Callback not processed",
+  callback_amount_mismatch: "Callback amount mismatch",
+  no_order: "No order",
+  duplicate_payment: "Duplicate payment",
+};
+
+const PAID_STATUSES = ["success", "completed", "paid"];
+
+export const selectClass =
+  "flex h-9 w-full rounded-md border border-input bg-background text-foreground px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50 [&>option]:bg-background [&>option]:text-foreground";
+
+export function PaymentStatusBadge({ status }: { status: string }) {
+  const key = status.toLowerCase();
+  const style = PAID_STATUSES.includes(key)
+    ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
+    : key === "pending"
+      ? "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400"
+      : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400";
+  return (
+    <span className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium capitalize ${style}`}>{status}</span>
+  );
+}
+
+/** Reconciliation flags; acknowledged flags are shown muted */
+export function PaymentFlagBadges({ flags, acknowledged }: { flags: PaymentFlag[]; acknowledged: boolean }) {
+  if (!flags.length) {
+    return <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400" aria-label="No issues" />;
+  }
+  return (
+    <div className="flex flex-wrap gap-1">
+      {flags.map((f) => (
+        <span
+          key={f}
+          title={acknowledged ? "Acknowledged" : undefined}
+          className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-medium ${
+            acknowledged
+              ? "bg-muted text-muted-foreground line-through"
+              : "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400"
+          }`}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {PAYMENT_FLAG_LABELS[f]}
+        </span>
+      ))}
+    </div>
+  );
+}
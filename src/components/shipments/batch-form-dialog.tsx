@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+export interface ShipmentBatch {
+  id: number;
+  code: string;
+  carrier: string;
+  shipping_method: "air" | "sea";
+  reference: string | null;
+  status: "open" | "in_transit" | "received";
+  status_label: string;
+  departure_date: string | null;
+  eta_date: string | null;
+  departed_at: string | null;
+  received_at: string | null;
+  notes: string | null;
+  created_at: string;
+  item_count?: number;
+}
+
+export const BATCH_STATUS_STYLES: Record<ShipmentBatch["status"], string> = {
+  open: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  in_transit: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  received: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+};
+
+/** "2026-10-19T00:00:00.000Z" → "2026-10-19" for date inputs and tables */
+export const dateOnly = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+const selectClass =
+  "flex h-9 w-full rounded-md border border-input bg-background text-foreground px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:opacity-50 [&>option]:bg-background [&>option]:text-foreground";
+
+/**
+ * Create / edit a shipment batch. Pass `batch` to edit — the shipping
+ * method is fixed once a batch exists.
+ */
+export function BatchFormDialog({
+  open,
+  onOpenChange,
+  batch,
+  onSaved,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batch?: ShipmentBatch | null;
+  onSaved: (batch: ShipmentBatch) => void;
+}) {
+  const [form, setForm] = useState({
+    carrier: batch?.carrier || "",
+    shipping_method: batch?.shipping_method || "sea",
+    reference: batch?.reference || "",
+    departure_date: dateOnly(batch?.departure_date ?? null),
+    eta_date: dateOnly(batch?.eta_date ?? null),
+    notes: batch?.notes || "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  const set = (field: keyof typeof form, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSave = async () => {
+    if (!form.carrier.trim()) {
+      toast.error("Carrier is required");
+      return;
+    }
+    if (form.departure_date && form.eta_date && form.eta_date < form.departure_date) {
+      toast.error("ETA cannot be before departure");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(batch ? `/api/shipments/${batch.id}` : "/api/shipments", {
+        method: batch ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to save shipment");
+        return;
+      }
+      toast.success(batch ? "Shipment updated" : `Shipment ${data.batch.code} created`);
+      onSaved(data.batch);
+      onOpenChange(false);
+    } catch {
+      toast.error("Failed to save shipment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{batch ? `Edit ${batch.code}` : "New Shipment"}</DialogTitle>
+          <DialogDescription>
+            A container or air batch moving items from the China warehouse to Lebanon.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="batch_carrier">Carrier</Label>
+              <Input
+                id="batch_carrier"
+                value={form.carrier}
+                onChange={(e) => set("carrier", e.target.value)}
+                placeholder="e.g. MSC, Emirates SkyCargo"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="batch_method">Method</Label>
+              <select
+                id="batch_method"
+                value={form.shipping_method}
+                onChange={(e) => set("shipping_method", e.target.value)}
+                disabled={!!batch}
+                className={selectClass}
+              >
+                <option value="sea">Sea</option>
+                <option value="air">Air</option>
+              </select>
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="batch_reference">Container / AWB number</Label>
+            <Input
+              id="batch_reference"
+              value={form.reference}
+              onChange={(e) => set("reference", e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="batch_departure">Departure</Label>
+              <Input
+                id="batch_departure"
+                type="date"
+                value={form.departure_date}
+                onChange={(e) => set("departure_date", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="batch_eta">ETA</Label>
+              <Input
+                id="batch_eta"
+                type="date"
+                value={form.eta_date}
+                onChange={(e) => set("eta_date", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="batch_notes">Notes</Label>
+            <Textarea
+              id="batch_notes"
+              value={form.notes}
+              onChange={(e) => set("notes", e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {batch ? "Save" : "Create Shipment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { AlarmClock, Loader2, Package, RefreshCw } from "lucide-react";
+import { thumbnailUrl } from "@/lib/image-url";
+
+interface AgeingReport {
+  statuses: {
+    status_id: number;
+    status_key: string;
+    status_label: string;
+    sla_hours: number;
+    overdue_count: number;
+    oldest_hours: number | null;
+    roles: { id: number; role_key: string; role_name: string }[];
+  }[];
+  roles: { id: number; role_key: string; role_name: string; overdue_count: number }[];
+  items: {
+    id: number;
+    order_id: number;
+    product_name: string;
+    variation_name: string | null;
+    image_url: string | null;
+    quantity: number;
+    status_key: string;
+    status_label: string;
+    entered_at: string;
+    age_hours: number;
+    overdue_hours: number;
+  }[];
+}
+
+/** 30 → "30h", 50 → "2d 2h" */
+export function formatHours(hours: number) {
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  const rest = hours % 24;
+  return rest ? `${days}d ${rest}h` : `${days}d`;
+}
+
+/**
+ * Items overdue against their status SLA, grouped by status and by the
+ * role responsible for moving them on. `statusKey` preselects a status
+ * (e.g. from an alert link); `compact` shows only the counts.
+ */
+export function AgeingPanel({
+  statusKey,
+  compact = false,
+}: {
+  statusKey?: string;
+  compact?: boolean;
+}) {
+  const [report, setReport] = useState<AgeingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState(statusKey || "");
+  const [role, setRole] = useState("");
+
+  useEffect(() => {
+    setStatus(statusKey || "");
+  }, [statusKey]);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/sla/ageing");
+      const data = await res.json();
+      if (res.ok) setReport(data);
+    } catch {
+      // Panel stays empty; the rest of the page is unaffected
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  if (loading && !report) {
+    return <div className="h-32 animate-pulse rounded-xl border bg-muted/40" />;
+  }
+  if (!report) return null;
+
+  const totalOverdue = report.statuses.reduce((sum, s) => sum + s.overdue_count, 0);
+  const roleStatusKeys = role
+    ? new Set(
+        report.statuses
+          .filter((s) => s.roles.some((r) => r.role_key === role))
+          .map((s) => s.status_key)
+      )
+    : null;
+  const visibleItems = report.items.filter(
+    (i) =>
+      (!status || i.status_key === status) && (!roleStatusKeys || roleStatusKeys.has(i.status_key))
+  );
+
+  return (
+    <div className="rounded-xl border bg-card p-5 shadow-sm">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <AlarmClock className="h-4 w-4 text-orange-500" />
+          <div>
+            <h3 className="text-base font-semibold">Overdue Items</h3>
+            <p className="text-xs text-muted-foreground">
+              {report.statuses.length === 0
+                ? "No status has an SLA yet — set one in the workflow editor"
+                : `${totalOverdue} item${totalOverdue === 1 ? "" : "s"} past their status SLA`}
+            </p>
+          </div>
+        </div>
+        {compact ? (
+          <Link href="/dashboard/items?overdue" className="text-xs font-medium text-primary hover:underline">
+            View items &rarr;
+          </Link>
+        ) : (
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="rounded-md p-1.5 text-muted-foreground hover:bg-accent disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </button>
+        )}
+      </div>
+
+      {report.statuses.length > 0 && (
+        <div className="space-y-3">
+          {/* By status */}
+          <div className="flex flex-wrap gap-2">
+            {report.statuses.map((s) => (
+              <button
+                key={s.status_key}
+                onClick={() => setStatus(status === s.status_key ? "" : s.status_key)}
+                disabled={compact}
+                className={`rounded-lg border px-3 py-1.5 text-left text-xs transition-colors ${
+                  status === s.status_key
+                    ? "border-primary bg-primary/5"
+                    : "hover:bg-accent disabled:hover:bg-transparent"
+                }`}
+              >
+                <span className="font-medium">{s.status_label}</span>
+                <span
+                  className={`ml-2 font-semibold ${
+                    s.overdue_count ? "text-orange-600 dark:text-orange-400" : "text-muted-foreground"
+                  }`}
+                >
+                  {s.overdue_count}
+                </span>
+                <span className="ml-1 text-muted-foreground">/ {formatHours(s.sla_hours)} SLA</span>
+              </button>
+            ))}
+          </div>
+
+          {/* By role */}
+          {report.roles.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-muted-foreground">By role:</span>
+              {report.roles.map((r) => (
+                <button
+                  key={r.role_key}
+                  onClick={() => setRole(role === r.role_key ? "" : r.role_key)}
+                  disabled={compact}
+                  className={`rounded-full px-2.5 py-0.5 font-medium transition-colors ${
+                    role === r.role_key
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-muted-foreground hover:bg-muted/80"
+                  }`}
+                >
+                  {r.role_name} ({r.overdue_count})
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Items */}
+          {!compact && (
+            <div className="max-h-80 divide-y overflow-y-auto rounded-lg border">
+              {visibleItems.length === 0 ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">Nothing overdue</p>
+              ) : (
+                visibleItems.map((item) => (
+                  <div key={item.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="h-9 w-9 shrink-0 overflow-hidden rounded-md border bg-muted">
+                      {item.image_url ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={thumbnailUrl(item.image_url) || item.image_url}
+                          alt=""
+                          className="h-full w-full object-cover"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <Package className="m-2 h-5 w-5 text-muted-foreground" />
+                      )}
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">{item.product_name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        #{item.id} · {item.status_label}
+                        {item.variation_name ? ` · ${item.variation_name}` : ""}
+                      </p>
+                    </div>
+                    <div className="shrink-0 text-right">
+                      <p className="text-xs font-semibold text-orange-600 dark:text-orange-400">
+                        +{formatHours(item.overdue_hours)}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">
+                        in status {formatHours(item.age_hours)}
+                      </p>
+                    </div>
+                    <Link
+                      href={`/dashboard/orders/${item.order_id}`}
+                      className="shrink-0 text-xs font-medium text-primary hover:underline"
+                    >
+                      Order #{item.order_id}
+                    </Link>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      )}
+    </div>
+  );
+}
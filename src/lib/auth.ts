@@ -1,6 +1,7 @@
 import { SignJWT, jwtVerify } from "jose";
 import { cookies } from "next/headers";
 import { prisma } from "./prisma";
+import { getUserRoleAndPermissions } from "./rbac";
 import bcrypt from "bcryptjs";
 
 const JWT_SECRET = new TextEncoder().encode(
@@ -10,6 +11,10 @@ const JWT_SECRET = new TextEncoder().encode(
 const SESSION_DURATION = 3 * 24 * 60 * 60; // 3 days in seconds
 const COOKIE_NAME = "cms_session";
 
+// How long a looked-up session version is trusted before re-reading the DB.
+// Bounds how stale permissions can be on other server instances.
+const VERSION_CACHE_TTL = 10_000; // 10 s
+
 export interface SessionPayload {
   userId: number;
   username: string;
@@ -19,15 +24,36 @@ export interface SessionPayload {
   roleKey: string;
   roleName: string;
   permissions: string[];
+  sessionVersion: number;
 }
 
-export async function createSession(user: {
+type SessionUser = {
   user_id: number;
   user_name: string;
   email_address: string | null;
   first_name: string | null;
   last_name: string | null;
-}, role: { roleKey: string; roleName: string; permissions: string[] }) {
+};
+
+type SessionRole = { roleKey: string; roleName: string; permissions: string[] };
+
+export async function createSession(user: SessionUser, role: SessionRole) {
+  const token = await issueSessionCookie(user, role);
+
+  // Update last_login
+  await prisma.ag_users.update({
+    where: { user_id: user.user_id },
+    data: { last_login: new Date() },
+  });
+
+  return token;
+}
+
+/**
+ * Sign a fresh JWT for the user at their current session version and set it
+ * as the session cookie.
+ */
+async function issueSessionCookie(user: SessionUser, role: SessionRole) {
   const payload: SessionPayload = {
     userId: user.user_id,
     username: user.user_name,
@@ -37,6 +63,7 @@ export async function createSession(user: {
     roleKey: role.roleKey,
     roleName: role.roleName,
     permissions: role.permissions,
+    sessionVersion: await getSessionVersion(user.user_id),
   };
 
   const token = await new SignJWT(payload as unknown as Record<string, unknown>)
@@ -54,26 +81,77 @@ export async function createSession(user: {
     path: "/",
   });
 
-  // Update last_login
-  await prisma.ag_users.update({
-    where: { user_id: user.user_id },
-    data: { last_login: new Date() },
-  });
-
   return token;
 }
 
+/**
+ * Resolve the current session.
+ *
+ * The JWT's permissions are only trusted while its sessionVersion matches
+ * cms_user_session_versions. When RBAC edits bump the version, the session
+ * is rebuilt from the DB and the cookie re-issued; if the user no longer
+ * exists the session is revoked.
+ */
 export async function getSession(): Promise<SessionPayload | null> {
   const cookieStore = await cookies();
   const token = cookieStore.get(COOKIE_NAME)?.value;
   if (!token) return null;
 
+  let session: SessionPayload;
   try {
     const { payload } = await jwtVerify(token, JWT_SECRET);
-    return payload as unknown as SessionPayload;
+    session = payload as unknown as SessionPayload;
   } catch {
     return null;
   }
+
+  const currentVersion = await getSessionVersion(session.userId);
+  if (session.sessionVersion === currentVersion) return session;
+
+  return refreshSession(session.userId);
+}
+
+/**
+ * Rebuild a session from the DB (role, permissions, profile) and re-issue
+ * the cookie. Returns null and clears the cookie if the user was deleted.
+ */
+async function refreshSession(userId: number): Promise<SessionPayload | null> {
+  const user = await prisma.ag_users.findUnique({
+    where: { user_id: userId },
+    select: {
+      user_id: true,
+      user_name: true,
+      email_address: true,
+      first_name: true,
+      last_name: true,
+    },
+  });
+
+  if (!user) {
+    await destroySession().catch(() => {});
+    return null;
+  }
+
+  const role = await getUserRoleAndPermissions(userId);
+
+  try {
+    await issueSessionCookie(user, role);
+  } catch {
+    // Cookies are read-only outside route handlers / server actions — the
+    // refreshed session still applies to this request.
+  }
+
+  return {
+    userId: user.user_id,
+    username: user.user_name,
+    email: user.email_address,
+    firstName: user.first_name,
+    lastName: user.last_name,
+    roleKey: role.roleKey,
+    roleName: role.roleName,
+    permissions: role.permissions,
+    sessionVersion: await getSessionVersion(userId),
+  };
 }
 
 export async function destroySession() {
@@ -81,6 +159,63 @@ export async function destroySession() {
   cookieStore.delete(COOKIE_NAME);
 }
 
+/* ── Session versioning ───────────────────────────────────────────── */
+
+const versionCache = new Map<number, { version: number; fetchedAt: number }>();
+
+/**
+ * Current session version for a user (0 if never bumped).
+ * Cached in-process for VERSION_CACHE_TTL.
+ */
+export async function getSessionVersion(userId: number): Promise<number> {
+  const cached = versionCache.get(userId);
+  if (cached && Date.now() - cached.fetchedAt < VERSION_CACHE_TTL) {
+    return cached.version;
+  }
+
+  const row = await prisma.cms_user_session_versions.findUnique({
+    where: { user_id: userId },
+    select: { version: true },
+  });
+  const version = row?.version ?? 0;
+  versionCache.set(userId, { version, fetchedAt: Date.now() });
+  return version;
+}
+
+/**
+ * Invalidate the active sessions of the given users. Their next request
+ * rebuilds permissions from the DB (or is rejected if the user is gone).
+ * Call after any change to a user's role, overrides or existence.
+ */
+export async function bumpSessionVersion(userIds: number[]) {
+  const ids = [...new Set(userIds)];
+  if (!ids.length) return;
+
+  await prisma.$transaction(
+    ids.map((userId) =>
+      prisma.cms_user_session_versions.upsert({
+        where: { user_id: userId },
+        create: { user_id: userId, version: 1 },
+        update: { version: { increment: 1 }, updated_at: new Date() },
+      })
+    )
+  );
+
+  for (const id of ids) versionCache.delete(id);
+}
+
+/**
+ * Invalidate the sessions of every user holding a role — for edits to
+ * cms_role_permissions, transition rules or cms_roles.is_active.
+ */
+export async function bumpRoleSessionVersion(roleId: number) {
+  const members = await prisma.cms_user_roles.findMany({
+    where: { role_id: roleId },
+    select: { user_id: true },
+  });
+  await bumpSessionVersion(members.map((m) => m.user_id));
+}
+
 export async function verifyPassword(
   plainPassword: string,
   hashedPassword: string
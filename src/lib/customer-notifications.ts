@@ -0,0 +1,83 @@
+import { prisma } from "./prisma";
+import { renderNotification, type NotificationTemplateKey, type TemplateValues } from "./notification-templates";
+
+const BACKEND_URL =
+  process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
+
+/**
+ * Tell a customer about their order — an FCM push through the backend's
+ * send-push endpoint (when the user has a mobile token) plus a
+ * `notifications` row for the in-app list. The text comes from the named
+ * template (see notification-templates.ts), rendered in the customer's
+ * language. Never throws: a failed notification must not fail the change
+ * it reports.
+ *
+ * `type` is "shipping" for shipping-price messages, which the app routes
+ * to the payment screen; everything else is "order". `push: false` only
+ * writes the in-app row.
+ */
+export async function notifyOrderCustomer(input: {
+  userId: number;
+  orderId: number;
+  type?: "order" | "shipping";
+  /** Send the FCM push as well (default true) */
+  push?: boolean;
+  template: NotificationTemplateKey;
+  /** Placeholder values; `order_id` and `customer_name` are filled in from the order */
+  values?: TemplateValues;
+  /** Extra fields stored in the notification body */
+  details?: Record<string, unknown>;
+}) {
+  const { userId, orderId } = input;
+  const type = input.type ?? "order";
+  try {
+    const [user, order] = await Promise.all([
+      prisma.users.findUnique({
+        where: { id: userId },
+        select: { mobile_token: true, language_id: true },
+      }),
+      prisma.orders.findUnique({ where: { id: orderId }, select: { address_first_name: true } }),
+    ]);
+    const { title, message } = await renderNotification(
+      input.template,
+      { order_id: orderId, customer_name: order?.address_first_name?.trim() || "", ...input.values },
+      user?.language_id
+    );
+
+    if (user?.mobile_token && input.push !== false) {
+      const pushRes = await fetch(`${BACKEND_URL}/v3_0_0-notification/send-push`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fcm_token: user.mobile_token,
+          title,
+          body: message,
+          data: {
+            type,
+            notification_type: "order",
+            order_id: String(orderId),
+            target_id: String(orderId),
+            click_action: "FLUTTER_NOTIFICATION_CLICK",
+          },
+        }),
+      });
+      if (!pushRes.ok) {
+        const errText = await pushRes.text().catch(() => "");
+        console.error(`FCM push failed [${pushRes.status}]:`, errText);
+      }
+    }
+
+    await prisma.notifications.create({
+      data: {
+        r_user_id: userId,
+        notification_type: type,
+        subject: title,
+        body: JSON.stringify({ message, order_id: orderId, template: input.template, ...input.details }),
+        row_id: orderId,
+        created_by: 1,
+      },
+    });
+  } catch (err) {
+    console.warn("Order notification failed (non-fatal):", err);
+  }
+}
@@ -0,0 +1,213 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { CustomerBucket } from "./workflow-config";
+
+/**
+ * What the customer sees — the projection of internal item statuses onto
+ * `cms_order_item_statuses.customer_bucket`.
+ *
+ * An item shows its status's bucket (Processing / Shipped / Delivered), or
+ * Cancelled / Refunded once terminal. An order shows the least advanced
+ * bucket among its open items, or Cancelled / Refunded when every item is
+ * closed (Refunded only if all of them were refunded).
+ *
+ * `order_tracking` is the customer's timeline. Its `r_status_id` holds a
+ * workflow `status_order`, so each customer status is written as the
+ * lowest `status_order` in its bucket (or the cancelled / refunded
+ * status's), and a row is only added when the customer status changes.
+ */
+
+export type CustomerStatus = CustomerBucket | "cancelled" | "refunded";
+
+export const CUSTOMER_STATUS_LABELS: Record<CustomerStatus, string> = {
+  processing: "Processing",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+};
+
+const BUCKET_RANK: Record<CustomerBucket, number> = { processing: 0, shipped: 1, delivered: 2 };
+
+/** Tracking codes that predate the workflow and only exist as legacy order statuses */
+const LEGACY_TRACKING_CODES = [8, 9, 10];
+
+type StatusRow = {
+  id: number;
+  status_key: string;
+  status_label: string;
+  status_order: number;
+  customer_bucket: CustomerBucket;
+  is_terminal: boolean;
+  is_active: boolean;
+};
+
+/** Customer status of an item in `status`; items without a status are still processing */
+export function itemCustomerStatus(status: StatusRow | null | undefined): CustomerStatus {
+  if (!status) return "processing";
+  if (status.is_terminal) return status.status_key === "refunded" ? "refunded" : "cancelled";
+  return status.customer_bucket;
+}
+
+/** Customer status of an order from its items' customer statuses */
+export function orderCustomerStatus(itemStatuses: CustomerStatus[]): CustomerStatus {
+  const open = itemStatuses.filter(
+    (s): s is CustomerBucket => s !== "cancelled" && s !== "refunded"
+  );
+  if (!itemStatuses.length) return "processing";
+  if (!open.length) return itemStatuses.every((s) => s === "refunded") ? "refunded" : "cancelled";
+  return open.reduce((lowest, s) => (BUCKET_RANK[s] < BUCKET_RANK[lowest] ? s : lowest));
+}
+
+/** `order_tracking.r_status_id` written for a customer status, or null if unconfigured */
+function trackingCode(status: CustomerStatus, statuses: StatusRow[]): number | null {
+  const candidates =
+    status === "cancelled" || status === "refunded"
+      ? statuses.filter((s) => s.status_key === status)
+      : statuses.filter((s) => s.is_active && !s.is_terminal && s.customer_bucket === status);
+  if (!candidates.length) return null;
+  return Math.min(...candidates.map((s) => s.status_order));
+}
+
+/** Customer status an existing `order_tracking` row stands for */
+function trackingCustomerStatus(code: number, statuses: StatusRow[]): CustomerStatus | null {
+  if (LEGACY_TRACKING_CODES.includes(code)) return null;
+  const ws = statuses.find((s) => s.status_order === code);
+  return ws ? itemCustomerStatus(ws) : null;
+}
+
+export interface CustomerStatusProjection {
+  order_id: number;
+  status: CustomerStatus;
+  label: string;
+  counts: Record<CustomerStatus, number>;
+  items: {
+    id: number;
+    product_name: string;
+    variation_name: string | null;
+    quantity: number;
+    status_key: string | null;
+    status_label: string | null;
+    customer_status: CustomerStatus;
+    customer_label: string;
+  }[];
+  /** The order_tracking timeline as the customer reads it, repeats collapsed */
+  timeline: { status: CustomerStatus; label: string; date: Date }[];
+}
+
+/** Full customer-facing view of an order, for the CMS preview */
+export async function projectCustomerStatus(
+  orderId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<CustomerStatusProjection> {
+  const [items, statuses, tracking] = await Promise.all([
+    db.order_products.findMany({
+      where: { r_order_id: orderId },
+      select: {
+        id: true,
+        product_name: true,
+        variation_name: true,
+        quantity: true,
+        workflow_status_id: true,
+      },
+      orderBy: { id: "asc" },
+    }),
+    db.cms_order_item_statuses.findMany(),
+    db.order_tracking.findMany({
+      where: { r_order_id: orderId },
+      orderBy: [{ track_date: "asc" }, { id: "asc" }],
+    }),
+  ]);
+  const statusMap = new Map(statuses.map((s) => [s.id, s]));
+
+  const counts: Record<CustomerStatus, number> = {
+    processing: 0,
+    shipped: 0,
+    delivered: 0,
+    cancelled: 0,
+    refunded: 0,
+  };
+  const projectedItems = items.map((item) => {
+    const ws = item.workflow_status_id ? statusMap.get(item.workflow_status_id) : null;
+    const customer = itemCustomerStatus(ws);
+    counts[customer]++;
+    return {
+      id: item.id,
+      product_name: item.product_name,
+      variation_name: item.variation_name,
+      quantity: item.quantity,
+      status_key: ws?.status_key || null,
+      status_label: ws?.status_label || null,
+      customer_status: customer,
+      customer_label: CUSTOMER_STATUS_LABELS[customer],
+    };
+  });
+
+  const timeline: CustomerStatusProjection["timeline"] = [];
+  for (const t of tracking) {
+    const status = trackingCustomerStatus(t.r_status_id, statuses) ?? "processing";
+    if (timeline[timeline.length - 1]?.status === status) continue;
+    timeline.push({ status, label: CUSTOMER_STATUS_LABELS[status], date: t.track_date });
+  }
+
+  const status = orderCustomerStatus(projectedItems.map((i) => i.customer_status));
+  return {
+    order_id: orderId,
+    status,
+    label: CUSTOMER_STATUS_LABELS[status],
+    counts,
+    items: projectedItems,
+    timeline,
+  };
+}
+
+/**
+ * Append an `order_tracking` row for `status` unless the order's latest
+ * row already shows it. Returns the previous and new status when a row
+ * was written, null otherwise.
+ */
+export async function recordCustomerStatus(
+  orderId: number,
+  status: CustomerStatus,
+  db: Prisma.TransactionClient = prisma
+): Promise<{ from: CustomerStatus | null; to: CustomerStatus } | null> {
+  const [statuses, last] = await Promise.all([
+    db.cms_order_item_statuses.findMany(),
+    db.order_tracking.findFirst({
+      where: { r_order_id: orderId },
+      orderBy: [{ track_date: "desc" }, { id: "desc" }],
+    }),
+  ]);
+
+  const previous = last ? trackingCustomerStatus(last.r_status_id, statuses) : null;
+  if (previous === status) return null;
+
+  const code = trackingCode(status, statuses);
+  if (code === null) return null;
+
+  await db.order_tracking.create({
+    data: { r_order_id: orderId, r_status_id: code, track_date: new Date() },
+  });
+  return { from: previous, to: status };
+}
+
+/** Recompute an order's customer status from its items and record it if it moved */
+export async function syncCustomerStatus(
+  orderId: number,
+  db: Prisma.TransactionClient = prisma
+) {
+  const items = await db.order_products.findMany({
+    where: { r_order_id: orderId },
+    select: { workflow_status_id: true },
+  });
+  if (!items.length) return null;
+
+  const statusIds = [...new Set(items.map((i) => i.workflow_status_id ?? 0))];
+  const statuses = await db.cms_order_item_statuses.findMany({ where: { id: { in: statusIds } } });
+  const statusMap = new Map(statuses.map((s) => [s.id, s]));
+
+  const status = orderCustomerStatus(
+    items.map((i) => itemCustomerStatus(i.workflow_status_id ? statusMap.get(i.workflow_status_id) : null))
+  );
+  return recordCustomerStatus(orderId, status, db);
+}
@@ -0,0 +1,284 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Document numbering — one counter per document type in
+ * `cms_document_sequences`, handed out under a row lock inside the
+ * caller's transaction. If the document insert fails the counter rolls
+ * back with it, so numbers are only skipped when documents are deleted.
+ *
+ * A number is `prefix + [year-] + zero-padded value`, e.g. INV-00000042
+ * or INV-2026-00000001 with a yearly reset. A counter that has never been
+ * used (or whose prefix / reset setting just changed) is seeded from the
+ * highest number already issued in that format, so switching to the
+ * service continues the existing INV- sequence.
+ */
+
+export interface DocumentTypeConfig {
+  label: string;
+  defaultPrefix: string;
+  /** Every number issued starting with `stem` */
+  issuedNumbers: (db: Prisma.TransactionClient, stem: string) => Promise<string[]>;
+  isTaken: (db: Prisma.TransactionClient, number: string) => Promise<boolean>;
+}
+
+// Invoices and credit notes share `invoices.invoice_number` (unique)
+const invoiceNumbers: Pick<DocumentTypeConfig, "issuedNumbers" | "isTaken"> = {
+  issuedNumbers: async (db, stem) =>
+    (
+      await db.invoices.findMany({
+        where: { invoice_number: { startsWith: stem } },
+        select: { invoice_number: true },
+      })
+    ).map((r) => r.invoice_number),
+  isTaken: async (db, number) =>
+    !!(await db.invoices.findUnique({ where: { invoice_number: number }, select: { id: true } })),
+};
+
+export const DOCUMENT_TYPES = {
+  invoice: { label: "Invoices", defaultPrefix: "INV-", ...invoiceNumbers },
+  credit_note: { label: "Credit notes", defaultPrefix: "CN-", ...invoiceNumbers },
+} satisfies Record<string, DocumentTypeConfig>;
+
+export type DocumentType = keyof typeof DOCUMENT_TYPES;
+
+export const isDocumentType = (value: unknown): value is DocumentType =>
+  typeof value === "string" && value in DOCUMENT_TYPES;
+
+export const PREFIX_PATTERN = /^[A-Za-z0-9._/-]{1,12}$/;
+export const MIN_PADDING = 1;
+export const MAX_PADDING = 12;
+
+/** Request-level failure (bad sequence settings) */
+export class DocumentNumberError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "DocumentNumberError";
+    this.status = status;
+  }
+}
+
+type SequenceRow = {
+  id: number;
+  doc_type: string;
+  prefix: string;
+  padding: number;
+  yearly_reset: boolean | number;
+  current_year: number | null;
+  next_value: number;
+};
+
+const currentYear = () => new Date().getUTCFullYear();
+
+/** Everything before the counter — "INV-" or "INV-2026-" */
+function numberStem(seq: Pick<SequenceRow, "prefix" | "yearly_reset">, year: number) {
+  return seq.yearly_reset ? `${seq.prefix}${year}-` : seq.prefix;
+}
+
+function formatNumber(seq: Pick<SequenceRow, "prefix" | "yearly_reset" | "padding">, year: number, value: number) {
+  return `${numberStem(seq, year)}${String(value).padStart(seq.padding, "0")}`;
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+
+/** Counter values already issued under `stem` */
+async function issuedValues(db: Prisma.TransactionClient, docType: DocumentType, stem: string) {
+  const pattern = new RegExp(`^${escapeRegex(stem)}(\\d+)$`);
+  const values: number[] = [];
+  for (const n of await DOCUMENT_TYPES[docType].issuedNumbers(db, stem)) {
+    const match = n.match(pattern);
+    if (match) values.push(Number.parseInt(match[1], 10));
+  }
+  return values;
+}
+
+async function ensureSequence(db: Prisma.TransactionClient, docType: DocumentType) {
+  await db.cms_document_sequences.createMany({
+    data: [{ doc_type: docType, prefix: DOCUMENT_TYPES[docType].defaultPrefix }],
+    skipDuplicates: true,
+  });
+}
+
+/**
+ * Take the next number for `docType`. Must run inside the transaction
+ * that inserts the document — the sequence row stays locked until it
+ * commits, which is what serializes concurrent callers.
+ */
+export async function allocateDocumentNumber(
+  tx: Prisma.TransactionClient,
+  docType: DocumentType
+): Promise<string> {
+  await ensureSequence(tx, docType);
+  const [seq] = await tx.$queryRaw<SequenceRow[]>`
+    SELECT id, doc_type, prefix, padding, yearly_reset, current_year, next_value
+    FROM cms_document_sequences WHERE doc_type = ${docType} FOR UPDATE`;
+
+  const year = currentYear();
+  let value = seq.next_value;
+  if (value < 1 || (seq.yearly_reset && seq.current_year !== year)) {
+    const issued = await issuedValues(tx, docType, numberStem(seq, year));
+    value = issued.reduce((max, v) => Math.max(max, v), 0) + 1;
+  }
+
+  // Skip values taken outside the service (manual inserts, a reused prefix)
+  let number = formatNumber(seq, year, value);
+  while (await DOCUMENT_TYPES[docType].isTaken(tx, number)) {
+    value++;
+    number = formatNumber(seq, year, value);
+  }
+
+  await tx.cms_document_sequences.update({
+    where: { id: seq.id },
+    data: { next_value: value + 1, current_year: year, updated_at: new Date() },
+  });
+  return number;
+}
+
+export interface DocumentSequenceInfo {
+  doc_type: DocumentType;
+  label: string;
+  prefix: string;
+  padding: number;
+  yearly_reset: boolean;
+  /** What the next document would be numbered (not reserved) */
+  next_number: string;
+  updated_at: Date | null;
+}
+
+export async function listDocumentSequences(db: Prisma.TransactionClient): Promise<DocumentSequenceInfo[]> {
+  const rows = await db.cms_document_sequences.findMany();
+  const year = currentYear();
+
+  return Promise.all(
+    (Object.keys(DOCUMENT_TYPES) as DocumentType[]).map(async (docType) => {
+      const row = rows.find((r) => r.doc_type === docType);
+      const seq = row ?? {
+        prefix: DOCUMENT_TYPES[docType].defaultPrefix,
+        padding: 8,
+        yearly_reset: false,
+        current_year: null,
+        next_value: 0,
+      };
+      let next = seq.next_value;
+      if (next < 1 || (seq.yearly_reset && seq.current_year !== year)) {
+        const issued = await issuedValues(db, docType, numberStem(seq, year));
+        next = issued.reduce((max, v) => Math.max(max, v), 0) + 1;
+      }
+      return {
+        doc_type: docType,
+        label: DOCUMENT_TYPES[docType].label,
+        prefix: seq.prefix,
+        padding: seq.padding,
+        yearly_reset: seq.yearly_reset,
+        next_number: formatNumber(seq, year, next),
+        updated_at: row?.updated_at ?? null,
+      };
+    })
+  );
+}
+
+/**
+ * Change a sequence's format. The counter is re-seeded on the next
+ * allocation, so it continues from whatever exists in the new format.
+ */
+export async function updateDocumentSequence(
+  db: Prisma.TransactionClient,
+  docType: DocumentType,
+  input: { prefix?: unknown; padding?: unknown; yearly_reset?: unknown },
+  userId: number
+) {
+  const data: Prisma.cms_document_sequencesUpdateInput = {};
+  if (input.prefix !== undefined) {
+    const prefix = String(input.prefix).trim();
+    if (!PREFIX_PATTERN.test(prefix)) {
+      throw new DocumentNumberError(
+        "Prefix must be 1–12 letters, digits or . _ / - characters"
+      );
+    }
+    data.prefix = prefix;
+  }
+  if (input.padding !== undefined) {
+    const padding = Number(input.padding);
+    if (!Number.isInteger(padding) || padding < MIN_PADDING || padding > MAX_PADDING) {
+      throw new DocumentNumberError(`Padding must be between ${MIN_PADDING} and ${MAX_PADDING} digits`);
+    }
+    data.padding = padding;
+  }
+  if (input.yearly_reset !== undefined) data.yearly_reset = Boolean(input.yearly_reset);
+
+  await ensureSequence(db, docType);
+  const current = await db.cms_document_sequences.findUnique({ where: { doc_type: docType } });
+  const formatChanged =
+    (data.prefix !== undefined && data.prefix !== current?.prefix) ||
+    (data.yearly_reset !== undefined && data.yearly_reset !== current?.yearly_reset);
+
+  await db.cms_document_sequences.update({
+    where: { doc_type: docType },
+    data: {
+      ...data,
+      ...(formatChanged ? { next_value: 0, current_year: null } : {}),
+      updated_by: userId,
+      updated_at: new Date(),
+    },
+  });
+}
+
+/** Missing ranges are listed up to this many; `missing_count` is always exact */
+const MAX_GAP_RANGES = 200;
+
+export interface DocumentGapReport {
+  doc_type: DocumentType;
+  /** Format checked, e.g. "INV-" or "INV-2026-" */
+  stem: string;
+  issued_count: number;
+  first: number | null;
+  last: number | null;
+  missing_count: number;
+  missing: { from: string; to: string }[];
+  truncated: boolean;
+}
+
+/**
+ * Numbers missing between 1 and the highest issued value in the current
+ * format (or a given year's, for yearly sequences).
+ */
+export async function findDocumentGaps(
+  db: Prisma.TransactionClient,
+  docType: DocumentType,
+  year = currentYear()
+): Promise<DocumentGapReport> {
+  const seq =
+    (await db.cms_document_sequences.findUnique({ where: { doc_type: docType } })) ?? {
+      prefix: DOCUMENT_TYPES[docType].defaultPrefix,
+      padding: 8,
+      yearly_reset: false,
+    };
+  const stem = numberStem(seq, year);
+  const values = [...new Set(await issuedValues(db, docType, stem))].sort((a, b) => a - b);
+
+  const missing: DocumentGapReport["missing"] = [];
+  let missingCount = 0;
+  let rangeCount = 0;
+  let expected = 1;
+  for (const v of values) {
+    if (v > expected) {
+      missingCount += v - expected;
+      if (++rangeCount <= MAX_GAP_RANGES) {
+        missing.push({ from: formatNumber(seq, year, expected), to: formatNumber(seq, year, v - 1) });
+      }
+    }
+    expected = v + 1;
+  }
+
+  return {
+    doc_type: docType,
+    stem,
+    issued_count: values.length,
+    first: values[0] ?? null,
+    last: values[values.length - 1] ?? null,
+    missing_count: missingCount,
+    missing,
+    truncated: rangeCount > MAX_GAP_RANGES,
+  };
+}
@@ -0,0 +1,177 @@
+import { prisma } from "./prisma";
+import {
+  INVOICE_TITLES,
+  invoiceFileName,
+  loadInvoiceBranding,
+  loadInvoiceDocument,
+  renderInvoicePdf,
+} from "./invoice-documents";
+import { MailerError, activeTransport, isValidEmail, sendMail } from "./mailer";
+
+/**
+ * Emailing invoices and credit notes to the customer, as the CMS-rendered
+ * PDF. Every attempt — delivered or not — is a `cms_invoice_deliveries`
+ * row, which the order page shows as the delivery log. A delivered email
+ * moves the invoice to `sent` and stamps `sent_at` / `sent_to`; sending
+ * again is allowed and just updates both. Void invoices are never sent.
+ */
+
+/** Request-level failure (void invoice, no recipient) */
+export class InvoiceDeliveryError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "InvoiceDeliveryError";
+    this.status = status;
+  }
+}
+
+export interface InvoiceDelivery {
+  id: number;
+  invoice_id: number;
+  invoice_number: string | null;
+  recipient: string;
+  subject: string;
+  status: "sent" | "failed";
+  transport: string;
+  message_id: string | null;
+  error: string | null;
+  sent_by: number | null;
+  created_at: Date;
+}
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+function emailBody(input: {
+  name: string;
+  title: string;
+  invoiceNumber: string;
+  orderId: number;
+  total: string;
+  message: string | null;
+}) {
+  return [
+    input.name ? `Hello ${input.name},` : "Hello,",
+    "",
+    ...(input.message ? [input.message, ""] : []),
+    `Please find attached ${input.title.toLowerCase()} ${input.invoiceNumber} for your order #${input.orderId} (total ${input.total}).`,
+    "",
+    "Thank you for shopping with ChiHelo.",
+  ].join("\n");
+}
+
+/**
+ * Email an invoice. `to` defaults to the customer's account email. A
+ * failed send is logged and rethrown as a MailerError.
+ */
+export async function sendInvoiceEmail(
+  invoiceId: number,
+  input: { to?: string | null; message?: string | null },
+  userId: number
+) {
+  const doc = await loadInvoiceDocument(invoiceId);
+  if (!doc) throw new InvoiceDeliveryError("Invoice not found", 404);
+  if (doc.status === "void") {
+    throw new InvoiceDeliveryError("Void invoices cannot be sent", 409);
+  }
+
+  let recipient = input.to?.trim() || "";
+  if (!recipient) {
+    const invoice = await prisma.invoices.findUnique({
+      where: { id: invoiceId },
+      select: { user_id: true },
+    });
+    const customer = invoice
+      ? await prisma.users.findUnique({ where: { id: invoice.user_id }, select: { email: true } })
+      : null;
+    recipient = customer?.email?.trim() || "";
+  }
+  if (!recipient) {
+    throw new InvoiceDeliveryError("The customer has no email address — enter a recipient");
+  }
+  if (!isValidEmail(recipient)) {
+    throw new InvoiceDeliveryError(`Invalid email address: ${recipient}`);
+  }
+  const message = input.message?.trim().slice(0, MAX_MESSAGE_LENGTH) || null;
+
+  const title = INVOICE_TITLES[doc.type];
+  const subject = `${title} ${doc.invoice_number} — Order #${doc.order_id}`;
+  const address = doc.billing_address;
+  const pdf = await renderInvoicePdf(doc, await loadInvoiceBranding());
+
+  let sent: Awaited<ReturnType<typeof sendMail>>;
+  try {
+    sent = await sendMail({
+      to: recipient,
+      subject,
+      text: emailBody({
+        name: [address?.first_name, address?.last_name].filter(Boolean).join(" "),
+        title,
+        invoiceNumber: doc.invoice_number,
+        orderId: doc.order_id,
+        total: `${doc.total.toFixed(2)} ${doc.currency}`,
+        message,
+      }),
+      attachments: [
+        { filename: invoiceFileName(doc), content: Buffer.from(pdf), contentType: "application/pdf" },
+      ],
+    });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : "Failed to send email";
+    await prisma.cms_invoice_deliveries.create({
+      data: {
+        invoice_id: doc.id,
+        order_id: doc.order_id,
+        recipient,
+        subject,
+        status: "failed",
+        transport: activeTransport(),
+        error: error.slice(0, 2000),
+        sent_by: userId,
+      },
+    });
+    throw err instanceof MailerError ? err : new MailerError(error);
+  }
+
+  const now = new Date();
+  const [delivery, invoice] = await prisma.$transaction([
+    prisma.cms_invoice_deliveries.create({
+      data: {
+        invoice_id: doc.id,
+        order_id: doc.order_id,
+        recipient,
+        subject,
+        status: "sent",
+        transport: sent.transport,
+        message_id: sent.message_id?.slice(0, 255) ?? null,
+        sent_by: userId,
+        created_at: now,
+      },
+    }),
+    prisma.invoices.update({
+      where: { id: doc.id },
+      data: { status: "sent", sent_at: now, sent_to: recipient, updated_at: now },
+    }),
+  ]);
+
+  return { delivery, invoice };
+}
+
+/** Delivery log for an order, newest first */
+export async function listInvoiceDeliveries(orderId: number): Promise<InvoiceDelivery[]> {
+  const rows = await prisma.cms_invoice_deliveries.findMany({
+    where: { order_id: orderId },
+    orderBy: { id: "desc" },
+  });
+  const invoiceIds = [...new Set(rows.map((r) => r.invoice_id))];
+  const invoices = invoiceIds.length
+    ? await prisma.invoices.findMany({
+        where: { id: { in: invoiceIds } },
+        select: { id: true, invoice_number: true },
+      })
+    : [];
+  const numbers = new Map(invoices.map((inv) => [inv.id, inv.invoice_number]));
+
+  return rows.map((r) => ({ ...r, invoice_number: numbers.get(r.invoice_id) ?? null }));
+}
@@ -0,0 +1,631 @@
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFImage, type PDFPage, type RGB } from "pdf-lib";
+import sharp from "sharp";
+import type { invoices_status, invoices_type } from "@prisma/client";
+import { prisma } from "./prisma";
+import { resolveImageUrl } from "./image-url";
+import { escapeHtml, htmlDocument } from "./print-documents";
+
+/**
+ * Invoice documents rendered by the CMS itself — no round trip to the
+ * backend's invoice view. An `invoices` row (items, billing address,
+ * totals) is laid out with the branding in `invoice_details` (accent
+ * color, notes, terms, logo), either as a printable HTML page or as a
+ * PDF built with pdf-lib. Branding is read on every render, so edits on
+ * the invoice template page show up on the next download.
+ */
+
+export interface InvoiceBranding {
+  /** Accent color, #rgb or #rrggbb */
+  color: string;
+  notes: string;
+  terms_conditions: string;
+  /** Logo path or URL, resolved like any other `main_image` */
+  main_image: string | null;
+}
+
+export const DEFAULT_INVOICE_BRANDING: InvoiceBranding = {
+  color: "#111827",
+  notes: "",
+  terms_conditions: "",
+  main_image: null,
+};
+
+export interface InvoiceLine {
+  product_name: string;
+  product_code?: string | null;
+  variation_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_amount?: number;
+  tax_amount?: number;
+  total: number;
+}
+
+export interface InvoiceDocument {
+  id: number;
+  invoice_number: string;
+  type: invoices_type;
+  status: invoices_status;
+  order_id: number;
+  currency: string;
+  subtotal: number;
+  shipping_amount: number;
+  tax_amount: number;
+  discount_amount: number;
+  total: number;
+  items: InvoiceLine[];
+  billing_address: Record<string, string> | null;
+  payment_method: string | null;
+  payment_reference: string | null;
+  notes: string | null;
+  reference_invoice_number: string | null;
+  created_at: Date;
+}
+
+export type InvoiceFormat = "html" | "pdf";
+
+export const INVOICE_TITLES: Record<invoices_type, string> = {
+  product: "Invoice",
+  shipping: "Shipping Invoice",
+  credit_note: "Credit Note",
+};
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+export function isValidInvoiceColor(color: string) {
+  return HEX_COLOR.test(color);
+}
+
+// ── Loading ───────────────────────────────────────────────────────────
+
+/** The latest `invoice_details` row, or the defaults when there is none */
+export async function loadInvoiceBranding(): Promise<InvoiceBranding> {
+  const row = await prisma.invoice_details.findFirst({ orderBy: { id: "desc" } });
+  if (!row) return DEFAULT_INVOICE_BRANDING;
+  return {
+    color: isValidInvoiceColor(row.color) ? row.color : DEFAULT_INVOICE_BRANDING.color,
+    notes: row.notes,
+    terms_conditions: row.terms_conditions,
+    main_image: row.main_image,
+  };
+}
+
+const parseJson = <T>(value: string | null): T | null => {
+  if (!value) return null;
+  try {
+    return typeof value === "string" ? JSON.parse(value) : value;
+  } catch {
+    return null;
+  }
+};
+
+export async function loadInvoiceDocument(invoiceId: number): Promise<InvoiceDocument | null> {
+  const inv = await prisma.invoices.findUnique({ where: { id: invoiceId } });
+  if (!inv) return null;
+
+  const items = parseJson<InvoiceLine[]>(inv.items) ?? [];
+  return {
+    id: inv.id,
+    invoice_number: inv.invoice_number,
+    type: inv.type,
+    status: inv.status,
+    order_id: inv.order_id,
+    currency: inv.currency,
+    subtotal: Number(inv.subtotal),
+    shipping_amount: Number(inv.shipping_amount),
+    tax_amount: Number(inv.tax_amount),
+    discount_amount: Number(inv.discount_amount),
+    total: Number(inv.total),
+    items: Array.isArray(items)
+      ? items.map((i) => ({
+          ...i,
+          quantity: Number(i.quantity) || 0,
+          unit_price: Number(i.unit_price) || 0,
+          total: Number(i.total) || 0,
+        }))
+      : [],
+    billing_address: parseJson<Record<string, string>>(inv.billing_address),
+    payment_method: inv.payment_method,
+    payment_reference: inv.payment_reference,
+    notes: inv.notes,
+    reference_invoice_number: inv.reference_invoice_number,
+    created_at: inv.created_at,
+  };
+}
+
+/** Made-up invoice for the template preview */
+export function sampleInvoiceDocument(): InvoiceDocument {
+  return {
+    id: 0,
+    invoice_number: "INV-00000000",
+    type: "product",
+    status: "generated",
+    order_id: 12345,
+    currency: "USD",
+    subtotal: 84.5,
+    shipping_amount: 0,
+    tax_amount: 0,
+    discount_amount: 5,
+    total: 79.5,
+    items: [
+      {
+        product_name: "Wireless Earbuds with Charging Case",
+        product_code: "SAMPLE-001",
+        variation_name: "Black",
+        quantity: 2,
+        unit_price: 24.75,
+        total: 49.5,
+      },
+      {
+        product_name: "Stainless Steel Water Bottle 750ml",
+        product_code: "SAMPLE-002",
+        variation_name: null,
+        quantity: 1,
+        unit_price: 35,
+        total: 35,
+      },
+    ],
+    billing_address: {
+      first_name: "Jane",
+      last_name: "Doe",
+      address: "Main Street",
+      building_name: "Cedar Building",
+      floor_number: "3",
+      city: "Beirut",
+      state: "",
+      country: "Lebanon",
+      country_code: "+961",
+      phone_number: "70 000 000",
+    },
+    payment_method: "Credit Card",
+    payment_reference: "TXN-SAMPLE",
+    notes: null,
+    reference_invoice_number: null,
+    created_at: new Date(),
+  };
+}
+
+// ── Shared formatting ─────────────────────────────────────────────────
+
+export function invoiceFileName(doc: InvoiceDocument) {
+  return `${doc.invoice_number}.pdf`;
+}
+
+function formatMoney(amount: number, currency: string) {
+  const value = amount.toFixed(2);
+  return currency === "USD" ? `$${value}` : `${value} ${currency}`;
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+}
+
+/** Branding notes / terms may hold HTML from the old editor — reduce them to text */
+function plainText(value: string | null | undefined): string {
+  return (value ?? "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li)>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "• ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function addressLines(address: Record<string, string> | null): string[] {
+  if (!address) return [];
+  const join = (...parts: (string | undefined)[]) => parts.filter((p) => p && p.trim()).join(", ");
+  return [
+    join(address.first_name && `${address.first_name} ${address.last_name || ""}`.trim()),
+    join(
+      address.address,
+      address.building_name,
+      address.floor_number && `Floor ${address.floor_number}`
+    ),
+    join(address.city, address.state, address.country),
+    join(address.phone_number && `${address.country_code || ""} ${address.phone_number}`.trim()),
+  ].filter(Boolean);
+}
+
+function metaRows(doc: InvoiceDocument): { label: string; value: string }[] {
+  return [
+    { label: "Number", value: doc.invoice_number },
+    { label: "Date", value: formatDate(doc.created_at) },
+    { label: "Order", value: `#${doc.order_id}` },
+    ...(doc.type === "credit_note"
+      ? [{ label: "Credits", value: doc.reference_invoice_number || "—" }]
+      : []),
+  ];
+}
+
+function totalRows(doc: InvoiceDocument): { label: string; value: string; strong?: boolean }[] {
+  const money = (n: number) => formatMoney(n, doc.currency);
+  return [
+    { label: "Subtotal", value: money(doc.subtotal) },
+    ...(doc.discount_amount ? [{ label: "Discount", value: `-${money(doc.discount_amount)}` }] : []),
+    ...(doc.shipping_amount ? [{ label: "Shipping", value: money(doc.shipping_amount) }] : []),
+    ...(doc.tax_amount ? [{ label: "Tax", value: money(doc.tax_amount) }] : []),
+    {
+      label: doc.type === "credit_note" ? "Total credited" : "Total",
+      value: money(doc.total),
+      strong: true,
+    },
+  ];
+}
+
+// ── HTML (print view and template preview) ────────────────────────────
+
+const invoiceCss = (color: string) => `
+  @page { size: A4; margin: 14mm; }
+  .page { width: 182mm; min-height: 269mm; font-size: 9.5pt; position: relative; }
+  @media screen { .page { padding: 14mm; width: 210mm; } }
+  .accent { border-top: 4px solid ${color}; margin-bottom: 6mm; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; gap: 10mm; margin-bottom: 8mm; }
+  header img { max-width: 50mm; max-height: 18mm; object-fit: contain; }
+  header h1 { margin: 0 0 2mm; font-size: 20pt; color: ${color}; text-align: right; }
+  dl { display: grid; grid-template-columns: auto auto; gap: 0.5mm 4mm; margin: 0; justify-content: end; }
+  dt { color: #555; }
+  dd { margin: 0; font-weight: 600; text-align: right; }
+  .parties { display: grid; grid-template-columns: 1fr 1fr; gap: 10mm; margin-bottom: 6mm; }
+  .parties h2 { font-size: 8pt; text-transform: uppercase; letter-spacing: .05em; color: #555; margin: 0 0 1.5mm; }
+  .parties p { margin: 0; line-height: 1.4; }
+  table { width: 100%; border-collapse: collapse; }
+  th { background: ${color}; color: #fff; font-size: 8pt; text-align: left; padding: 1.5mm 2mm; }
+  td { border-bottom: 1px solid #ddd; padding: 1.5mm 2mm; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .totals { margin: 4mm 0 0 auto; width: 70mm; }
+  .totals div { display: flex; justify-content: space-between; padding: 0.8mm 0; }
+  .totals .strong { border-top: 2px solid ${color}; font-weight: 700; font-size: 11pt; margin-top: 1mm; padding-top: 1.5mm; }
+  .text { margin-top: 8mm; white-space: pre-line; line-height: 1.4; }
+  .text h2 { font-size: 8pt; text-transform: uppercase; letter-spacing: .05em; color: #555; margin: 0 0 1mm; }
+  .terms { font-size: 8pt; color: #444; }
+  .void { position: absolute; top: 100mm; left: 0; right: 0; text-align: center; font-size: 72pt; font-weight: 700; color: rgba(220, 38, 38, .18); transform: rotate(-20deg); pointer-events: none; }`;
+
+export function renderInvoiceHtml(
+  doc: InvoiceDocument,
+  branding: InvoiceBranding,
+  options: { autoPrint?: boolean } = {}
+): string {
+  const title = INVOICE_TITLES[doc.type];
+  const logo = resolveImageUrl(branding.main_image);
+  const money = (n: number) => escapeHtml(formatMoney(n, doc.currency));
+  const address = addressLines(doc.billing_address);
+  const notes = plainText(branding.notes);
+  const terms = plainText(branding.terms_conditions);
+
+  const rows = doc.items
+    .map(
+      (item) => `<tr>
+      <td>${escapeHtml(item.product_name)}${item.variation_name ? `<div class="muted">${escapeHtml(item.variation_name)}</div>` : ""}</td>
+      <td class="mono">${escapeHtml(item.product_code || "")}</td>
+      <td class="num">${escapeHtml(item.quantity)}</td>
+      <td class="num">${money(item.unit_price)}</td>
+      <td class="num">${money(item.total)}</td>
+    </tr>`
+    )
+    .join("");
+
+  const body = `<div class="page">
+<div class="accent"></div>
+${doc.status === "void" ? `<div class="void">VOID</div>` : ""}
+<header>
+  <div>${logo ? `<img src="${escapeHtml(logo)}" alt="">` : ""}</div>
+  <div>
+    <h1>${escapeHtml(title)}</h1>
+    <dl>${metaRows(doc).map((m) => `<dt>${escapeHtml(m.label)}</dt><dd>${escapeHtml(m.value)}</dd>`).join("")}</dl>
+  </div>
+</header>
+<div class="parties">
+  <div><h2>Bill to</h2>${address.map((l) => `<p>${escapeHtml(l)}</p>`).join("") || `<p class="muted">—</p>`}</div>
+  <div><h2>Payment</h2><p>${escapeHtml(doc.payment_method || "—")}</p>${doc.payment_reference ? `<p class="mono muted">${escapeHtml(doc.payment_reference)}</p>` : ""}</div>
+</div>
+<table>
+  <thead><tr><th>Item</th><th>Code</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr></thead>
+  <tbody>${rows}</tbody>
+</table>
+<div class="totals">${totalRows(doc)
+    .map((t) => `<div${t.strong ? ` class="strong"` : ""}><span>${escapeHtml(t.label)}</span><span>${escapeHtml(t.value)}</span></div>`)
+    .join("")}</div>
+${doc.notes ? `<div class="text"><h2>Remarks</h2>${escapeHtml(doc.notes)}</div>` : ""}
+${notes ? `<div class="text"><h2>Notes</h2>${escapeHtml(notes)}</div>` : ""}
+${terms ? `<div class="text terms"><h2>Terms &amp; conditions</h2>${escapeHtml(terms)}</div>` : ""}
+</div>`;
+
+  return htmlDocument(`${title} ${doc.invoice_number}`, invoiceCss(branding.color), body, options);
+}
+
+// ── PDF ───────────────────────────────────────────────────────────────
+
+const A4: [number, number] = [595.28, 841.89];
+const MARGIN = 40;
+const CONTENT_WIDTH = A4[0] - MARGIN * 2;
+const GRAY = rgb(0.33, 0.33, 0.33);
+const LIGHT_GRAY = rgb(0.85, 0.85, 0.85);
+const BLACK = rgb(0, 0, 0);
+
+function hexToRgb(hex: string): RGB {
+  let h = hex.replace("#", "");
+  if (h.length === 3) h = h.split("").map((c) => c + c).join("");
+  const n = Number.parseInt(h, 16);
+  return rgb(((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255);
+}
+
+// Characters outside WinAnsi (what the standard PDF fonts can encode) become "?"
+const WIN_ANSI_EXTRAS = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+function pdfSafe(text: string): string {
+  return [...text]
+    .map((c) => {
+      const code = c.charCodeAt(0);
+      if (c === "\n") return c;
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return c;
+      if (WIN_ANSI_EXTRAS.includes(c)) return c;
+      if (c === "−") return "-";
+      return "?";
+    })
+    .join("");
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of pdfSafe(text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A single word wider than the column is broken by character
+      line = "";
+      for (const ch of word) {
+        if (font.widthOfTextAtSize(line + ch, size) > width && line) {
+          lines.push(line);
+          line = "";
+        }
+        line += ch;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+async function loadLogo(pdf: PDFDocument, path: string | null): Promise<PDFImage | null> {
+  const url = resolveImageUrl(path);
+  if (!url) return null;
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(5000) });
+    if (!res.ok) return null;
+    const png = await sharp(Buffer.from(await res.arrayBuffer()))
+      .resize({ height: 160, withoutEnlargement: true })
+      .png()
+      .toBuffer();
+    return await pdf.embedPng(png);
+  } catch (err) {
+    console.warn("Invoice logo could not be loaded:", err);
+    return null;
+  }
+}
+
+export async function renderInvoicePdf(doc: InvoiceDocument, branding: InvoiceBranding): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const title = INVOICE_TITLES[doc.type];
+  pdf.setTitle(`${title} ${doc.invoice_number}`);
+  pdf.setCreator("Chihelo CMS");
+
+  const [font, bold, logo] = await Promise.all([
+    pdf.embedFont(StandardFonts.Helvetica),
+    pdf.embedFont(StandardFonts.HelveticaBold),
+    loadLogo(pdf, branding.main_image),
+  ]);
+  const accent = hexToRgb(branding.color);
+  const money = (n: number) => formatMoney(n, doc.currency);
+
+  let page: PDFPage = pdf.addPage(A4);
+  let y = A4[1] - MARGIN;
+
+  const text = (value: string, x: number, size: number, opts: { font?: PDFFont; color?: RGB; align?: "left" | "right" } = {}) => {
+    const f = opts.font ?? font;
+    const safe = pdfSafe(value);
+    const drawX = opts.align === "right" ? x - f.widthOfTextAtSize(safe, size) : x;
+    page.drawText(safe, { x: drawX, y, size, font: f, color: opts.color ?? BLACK });
+  };
+
+  const decoratePage = () => {
+    page.drawRectangle({ x: 0, y: A4[1] - 6, width: A4[0], height: 6, color: accent });
+    if (doc.status === "void") {
+      page.drawText("VOID", {
+        x: 150,
+        y: 330,
+        size: 120,
+        font: bold,
+        color: rgb(0.86, 0.15, 0.15),
+        opacity: 0.15,
+        rotate: degrees(25),
+      });
+    }
+  };
+
+  /** Start a new page when fewer than `height` points are left */
+  const ensure = (height: number) => {
+    if (y - height >= MARGIN + 20) return;
+    page = pdf.addPage(A4);
+    decoratePage();
+    y = A4[1] - MARGIN;
+  };
+
+  decoratePage();
+
+  // Header: logo left, title and meta right
+  const headerTop = y;
+  if (logo) {
+    const scale = Math.min(150 / logo.width, 50 / logo.height, 1);
+    page.drawImage(logo, {
+      x: MARGIN,
+      y: headerTop - logo.height * scale,
+      width: logo.width * scale,
+      height: logo.height * scale,
+    });
+  }
+  y -= 20;
+  text(title.toUpperCase(), A4[0] - MARGIN, 20, { font: bold, color: accent, align: "right" });
+  y -= 8;
+  for (const row of metaRows(doc)) {
+    y -= 13;
+    text(row.value, A4[0] - MARGIN, 9, { font: bold, align: "right" });
+    text(row.label, A4[0] - MARGIN - 110, 9, { color: GRAY });
+  }
+  y = Math.min(y, headerTop - 60) - 24;
+
+  // Bill to / payment
+  const colX = MARGIN + CONTENT_WIDTH / 2;
+  text("BILL TO", MARGIN, 8, { font: bold, color: GRAY });
+  text("PAYMENT", colX, 8, { font: bold, color: GRAY });
+  const address = addressLines(doc.billing_address);
+  const payment = [doc.payment_method || "—", ...(doc.payment_reference ? [doc.payment_reference] : [])];
+  const partyTop = y;
+  for (const line of address.length ? address : ["—"]) {
+    for (const wrapped of wrapText(line, font, 9.5, CONTENT_WIDTH / 2 - 20)) {
+      y -= 13;
+      text(wrapped, MARGIN, 9.5);
+    }
+  }
+  const addressBottom = y;
+  y = partyTop;
+  for (const line of payment) {
+    for (const wrapped of wrapText(line, font, 9.5, CONTENT_WIDTH / 2)) {
+      y -= 13;
+      text(wrapped, colX, 9.5);
+    }
+  }
+  y = Math.min(y, addressBottom) - 24;
+
+  // Line items
+  const cols = { item: MARGIN + 6, code: MARGIN + 250, qty: MARGIN + 370, unit: MARGIN + 440, amount: A4[0] - MARGIN - 6 };
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 6, width: CONTENT_WIDTH, height: 18, color: accent });
+    const white = rgb(1, 1, 1);
+    text("Item", cols.item, 8, { font: bold, color: white });
+    text("Code", cols.code, 8, { font: bold, color: white });
+    text("Qty", cols.qty, 8, { font: bold, color: white, align: "right" });
+    text("Unit price", cols.unit, 8, { font: bold, color: white, align: "right" });
+    text("Amount", cols.amount, 8, { font: bold, color: white, align: "right" });
+    y -= 20;
+  };
+  ensure(40);
+  drawTableHeader();
+
+  for (const item of doc.items) {
+    const nameLines = wrapText(item.product_name, font, 9, cols.code - cols.item - 10);
+    const variation = item.variation_name ? wrapText(item.variation_name, font, 8, cols.code - cols.item - 10) : [];
+    const height = nameLines.length * 12 + variation.length * 10 + 8;
+    if (y - height < MARGIN + 20) {
+      ensure(height + 40);
+      drawTableHeader();
+    }
+    const rowTop = y;
+    text(String(item.quantity), cols.qty, 9, { align: "right" });
+    text(money(item.unit_price), cols.unit, 9, { align: "right" });
+    text(money(item.total), cols.amount, 9, { align: "right" });
+    const codeLines = wrapText(item.product_code || "", font, 8, cols.qty - cols.code - 40);
+    for (const line of codeLines) {
+      text(line, cols.code, 8, { color: GRAY });
+      y -= 10;
+    }
+    y = rowTop;
+    for (const line of nameLines) {
+      text(line, cols.item, 9);
+      y -= 12;
+    }
+    for (const line of variation) {
+      text(line, cols.item, 8, { color: GRAY });
+      y -= 10;
+    }
+    y = Math.min(y, rowTop - codeLines.length * 10) - 2;
+    page.drawLine({
+      start: { x: MARGIN, y: y + 6 },
+      end: { x: A4[0] - MARGIN, y: y + 6 },
+      thickness: 0.5,
+      color: LIGHT_GRAY,
+    });
+    y -= 8;
+  }
+
+  // Totals
+  const totals = totalRows(doc);
+  ensure(totals.length * 16 + 10);
+  y -= 6;
+  const totalsX = A4[0] - MARGIN - 200;
+  for (const row of totals) {
+    if (row.strong) {
+      y -= 4;
+      page.drawLine({ start: { x: totalsX, y: y + 13 }, end: { x: A4[0] - MARGIN, y: y + 13 }, thickness: 1.5, color: accent });
+    }
+    const size = row.strong ? 11 : 9.5;
+    text(row.label, totalsX, size, { font: row.strong ? bold : font });
+    text(row.value, A4[0] - MARGIN, size, { font: row.strong ? bold : font, align: "right" });
+    y -= 16;
+  }
+
+  // Remarks, branding notes and terms
+  const blocks: { heading: string; body: string; size: number }[] = [
+    { heading: "REMARKS", body: doc.notes || "", size: 9 },
+    { heading: "NOTES", body: plainText(branding.notes), size: 9 },
+    { heading: "TERMS & CONDITIONS", body: plainText(branding.terms_conditions), size: 7.5 },
+  ].filter((b) => b.body);
+  for (const block of blocks) {
+    y -= 14;
+    ensure(30);
+    text(block.heading, MARGIN, 8, { font: bold, color: GRAY });
+    for (const line of wrapText(block.body, font, block.size, CONTENT_WIDTH)) {
+      y -= block.size + 3;
+      ensure(block.size + 3);
+      text(line, MARGIN, block.size, { color: block.size < 9 ? GRAY : BLACK });
+    }
+  }
+
+  // Page footers
+  const pages = pdf.getPages();
+  pages.forEach((p, i) => {
+    const label = pdfSafe(`${doc.invoice_number} · Page ${i + 1} of ${pages.length}`);
+    p.drawText(label, {
+      x: A4[0] - MARGIN - font.widthOfTextAtSize(label, 7.5),
+      y: MARGIN - 16,
+      size: 7.5,
+      font,
+      color: GRAY,
+    });
+  });
+
+  return pdf.save();
+}
+
+/** Render a document in the requested format as a Response body and headers */
+export async function renderInvoice(
+  doc: InvoiceDocument,
+  branding: InvoiceBranding,
+  format: InvoiceFormat,
+  options: { download?: boolean; autoPrint?: boolean } = {}
+): Promise<{ body: BodyInit; headers: Record<string, string> }> {
+  if (format === "pdf") {
+    const bytes = await renderInvoicePdf(doc, branding);
+    return {
+      body: Buffer.from(bytes),
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${options.download ? "attachment" : "inline"}; filename="${invoiceFileName(doc)}"`,
+        "Cache-Control": "no-store",
+      },
+    };
+  }
+  return {
+    body: renderInvoiceHtml(doc, branding, { autoPrint: options.autoPrint }),
+    headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+  };
+}
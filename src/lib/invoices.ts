@@ -0,0 +1,138 @@
+import type { Prisma, orders } from "@prisma/client";
+import type { RefundType } from "./refunds";
+import { allocateDocumentNumber } from "./document-numbers";
+
+/**
+ * Invoice documents — product / shipping invoices and the credit notes
+ * issued against them when an order is refunded. All three live in
+ * `invoices`; credit notes carry `type = credit_note`, their own number
+ * sequence (see document-numbers.ts), the `invoice_number` they credit
+ * and the ledger refund (`cms_order_refunds`) they were issued for.
+ */
+
+/** CMS-rendered print view and PDF download of an invoice (/api/invoices/[id]/document) */
+export function invoiceDocumentUrls(invoiceId: number) {
+  const base = `/api/invoices/${invoiceId}/document`;
+  return { view_url: base, pdf_url: `${base}?format=pdf&download=1` };
+}
+
+export function invoiceBillingAddress(order: orders) {
+  return {
+    first_name: order.address_first_name || "",
+    last_name: order.address_last_name || "",
+    address: order.address || "",
+    building_name: order.building_name || "",
+    floor_number: order.floor_number || "",
+    city: order.city || "",
+    state: order.state || "",
+    country: order.country || "",
+    country_code: order.address_country_code || "",
+    phone_number: order.address_phone_number || "",
+  };
+}
+
+const PAYMENT_METHOD_LABELS: Record<number, string> = {
+  0: "Cash on Delivery",
+  1: "Credit Card",
+  2: "WhishMoney",
+  3: "Wallet",
+};
+
+export function invoicePaymentMethod(order: orders) {
+  return PAYMENT_METHOD_LABELS[order.payment_type] || `Type ${order.payment_type}`;
+}
+
+export interface CreditNoteLine {
+  product_name: string;
+  product_code: string | null;
+  variation_name?: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_amount?: number;
+  tax_amount?: number;
+  total: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const ORDER_REFUND_LINE_NAMES: Record<Exclude<RefundType, "items">, string> = {
+  full: "Order refund",
+  products_only: "Products refund",
+  shipping_only: "Shipping refund",
+};
+
+/**
+ * Issue the credit note for a ledger refund, inside the refund's
+ * transaction. Item refunds list the refunded lines; order-level refunds
+ * get a single line for the amount. The credited invoice is the order's
+ * live shipping invoice for shipping refunds, its product invoice
+ * otherwise (falling back to shipping for full refunds) — or none if
+ * nothing was invoiced yet.
+ */
+export async function createCreditNote(
+  tx: Prisma.TransactionClient,
+  input: {
+    order: orders;
+    refund: { id: number; refund_type: RefundType; amount: number; notes: string | null };
+    lines?: CreditNoteLine[];
+  }
+) {
+  const { order, refund } = input;
+
+  const liveInvoices = await tx.invoices.findMany({
+    where: { order_id: order.id, type: { in: ["product", "shipping"] }, status: { not: "void" } },
+    orderBy: { id: "desc" },
+  });
+  const product = liveInvoices.find((inv) => inv.type === "product");
+  const shipping = liveInvoices.find((inv) => inv.type === "shipping");
+  const reference =
+    refund.refund_type === "shipping_only"
+      ? shipping
+      : refund.refund_type === "full"
+        ? product ?? shipping
+        : product;
+
+  const items: CreditNoteLine[] =
+    input.lines ??
+    [
+      {
+        product_name: ORDER_REFUND_LINE_NAMES[refund.refund_type as Exclude<RefundType, "items">],
+        product_code: "REFUND",
+        quantity: 1,
+        unit_price: refund.amount,
+        total: refund.amount,
+      },
+    ];
+
+  const isShipping = refund.refund_type === "shipping_only";
+  const subtotal = input.lines
+    ? round2(input.lines.reduce((sum, l) => sum + l.unit_price * l.quantity, 0))
+    : isShipping ? 0 : refund.amount;
+  const discountAmount = round2(items.reduce((sum, l) => sum + (l.discount_amount || 0), 0));
+  const taxAmount = round2(items.reduce((sum, l) => sum + (l.tax_amount || 0), 0));
+
+  return tx.invoices.create({
+    data: {
+      order_id: order.id,
+      user_id: order.r_user_id,
+      invoice_number: await allocateDocumentNumber(tx, "credit_note"),
+      type: "credit_note",
+      subtotal,
+      shipping_amount: isShipping ? refund.amount : 0,
+      tax_amount: taxAmount,
+      discount_amount: discountAmount,
+      total: refund.amount,
+      currency: reference?.currency || "USD",
+      items: JSON.stringify(items),
+      billing_address: reference?.billing_address ?? JSON.stringify(invoiceBillingAddress(order)),
+      payment_method: reference?.payment_method ?? invoicePaymentMethod(order),
+      payment_reference: reference?.payment_reference ?? order.payment_id ?? null,
+      status: "generated",
+      notes: refund.notes,
+      reference_invoice_number: reference?.invoice_number ?? null,
+      refund_id: refund.id,
+      created_at: new Date(),
+      updated_at: new Date(),
+    },
+  });
+}
@@ -0,0 +1,144 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Read side of `order_product_status_history` — the audit rows written by
+ * `transitionItems` on every item status change.
+ */
+
+/** Order-level timelines are capped; single items never get near this */
+const MAX_HISTORY_ROWS = 1000;
+
+export interface HistoryFilters {
+  userId?: number;
+  /** Inclusive, YYYY-MM-DD */
+  from?: string;
+  /** Inclusive, YYYY-MM-DD */
+  to?: string;
+}
+
+export interface HistoryStatus {
+  id: number;
+  key: string;
+  label: string;
+}
+
+export interface HistoryEntry {
+  id: number;
+  order_product_id: number;
+  order_id: number;
+  product_name: string | null;
+  variation_name: string | null;
+  from_status: HistoryStatus | null;
+  to_status: HistoryStatus | null;
+  changed_by: { id: number; name: string } | null;
+  tracking_number: string | null;
+  note: string | null;
+  changed_at: Date;
+}
+
+export interface HistoryResult {
+  entries: HistoryEntry[];
+  /** Everyone who changed these items, regardless of filters — for the user picker */
+  users: { id: number; name: string }[];
+  truncated: boolean;
+}
+
+/** Query-string filters → HistoryFilters; invalid values are ignored */
+export function parseHistoryFilters(sp: URLSearchParams): HistoryFilters {
+  const date = (v: string | null) =>
+    v && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v)) ? v : undefined;
+  const userId = Number(sp.get("user_id"));
+  return {
+    userId: Number.isInteger(userId) && userId > 0 ? userId : undefined,
+    from: date(sp.get("from")),
+    to: date(sp.get("to")),
+  };
+}
+
+const userName = (u: { user_name: string; first_name: string | null; last_name: string | null }) =>
+  [u.first_name, u.last_name].filter(Boolean).join(" ") || u.user_name;
+
+/**
+ * Status history for one item (`itemId`) or every item of an order
+ * (`orderId`), oldest first.
+ */
+export async function getStatusHistory(
+  scope: { itemId: number } | { orderId: number },
+  filters: HistoryFilters = {}
+): Promise<HistoryResult> {
+  const base: Prisma.order_product_status_historyWhereInput =
+    "itemId" in scope ? { order_product_id: scope.itemId } : { order_id: scope.orderId };
+
+  const changedAt: Prisma.DateTimeFilter = {};
+  if (filters.from) changedAt.gte = new Date(`${filters.from}T00:00:00Z`);
+  if (filters.to) changedAt.lte = new Date(`${filters.to}T23:59:59Z`);
+
+  const [rows, actorIds] = await Promise.all([
+    prisma.order_product_status_history.findMany({
+      where: {
+        ...base,
+        ...(filters.userId ? { changed_by_user_id: filters.userId } : {}),
+        ...(filters.from || filters.to ? { changed_at: changedAt } : {}),
+      },
+      orderBy: [{ changed_at: "asc" }, { id: "asc" }],
+      take: MAX_HISTORY_ROWS + 1,
+    }),
+    prisma.order_product_status_history.findMany({
+      where: { ...base, changed_by_user_id: { not: null } },
+      distinct: ["changed_by_user_id"],
+      select: { changed_by_user_id: true },
+    }),
+  ]);
+  const truncated = rows.length > MAX_HISTORY_ROWS;
+  if (truncated) rows.length = MAX_HISTORY_ROWS;
+
+  const statusIds = new Set<number>();
+  for (const r of rows) {
+    statusIds.add(r.to_status_id);
+    if (r.from_status_id) statusIds.add(r.from_status_id);
+  }
+  const userIds = actorIds.map((a) => a.changed_by_user_id!);
+  const itemIds = [...new Set(rows.map((r) => r.order_product_id))];
+
+  const [statuses, users, items] = await Promise.all([
+    prisma.cms_order_item_statuses.findMany({
+      where: { id: { in: [...statusIds] } },
+      select: { id: true, status_key: true, status_label: true },
+    }),
+    prisma.ag_users.findMany({
+      where: { user_id: { in: userIds } },
+      select: { user_id: true, user_name: true, first_name: true, last_name: true },
+    }),
+    prisma.order_products.findMany({
+      where: { id: { in: itemIds } },
+      select: { id: true, product_name: true, variation_name: true },
+    }),
+  ]);
+
+  const statusMap = new Map(
+    statuses.map((s) => [s.id, { id: s.id, key: s.status_key, label: s.status_label }])
+  );
+  const userMap = new Map(users.map((u) => [u.user_id, { id: u.user_id, name: userName(u) }]));
+  const itemMap = new Map(items.map((i) => [i.id, i]));
+
+  return {
+    entries: rows.map((r) => ({
+      id: Number(r.id),
+      order_product_id: r.order_product_id,
+      order_id: r.order_id,
+      product_name: itemMap.get(r.order_product_id)?.product_name ?? null,
+      variation_name: itemMap.get(r.order_product_id)?.variation_name ?? null,
+      from_status: r.from_status_id ? statusMap.get(r.from_status_id) ?? null : null,
+      to_status: statusMap.get(r.to_status_id) ?? null,
+      changed_by: r.changed_by_user_id
+        ? userMap.get(r.changed_by_user_id) ?? { id: r.changed_by_user_id, name: `User #${r.changed_by_user_id}` }
+        : null,
+      tracking_number: r.tracking_number_snapshot,
+      note: r.note,
+      changed_at: r.changed_at,
+    })),
+    users: [...userMap.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    truncated,
+  };
+}
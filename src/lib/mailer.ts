@@ -0,0 +1,87 @@
+import nodemailer from "nodemailer";
+import type { Attachment } from "nodemailer/lib/mailer";
+import { prisma } from "./prisma";
+
+/**
+ * Outgoing email. Mail goes through the latest `smtp_settings` row — the
+ * same SMTP account the backend sends with. `SMTP_URL` overrides it: in
+ * development point it at a local stand-in such as Mailpit or MailHog
+ * (`SMTP_URL=smtp://localhost:1025`) and nothing reaches real customers.
+ */
+
+/** Mail could not be sent (not configured, rejected by the server) */
+export class MailerError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "MailerError";
+    this.status = status;
+  }
+}
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: Attachment[];
+}
+
+export interface SentMail {
+  message_id: string | null;
+  /** "smtp" — smtp_settings, "smtp_url" — the SMTP_URL override */
+  transport: "smtp" | "smtp_url";
+}
+
+/** Which transport `sendMail` will use */
+export function activeTransport(): SentMail["transport"] {
+  return process.env.SMTP_URL ? "smtp_url" : "smtp";
+}
+
+const EMAIL_PATTERN = /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/;
+
+export function isValidEmail(value: string) {
+  return EMAIL_PATTERN.test(value);
+}
+
+async function resolveTransport() {
+  const settings = await prisma.smtp_settings.findFirst({ orderBy: { id: "desc" } });
+  const from = settings
+    ? { name: settings.mail_from_name, address: settings.mail_from_email }
+    : { name: "ChiHelo CMS", address: "cms@localhost" };
+
+  if (activeTransport() === "smtp_url") {
+    return { transporter: nodemailer.createTransport(process.env.SMTP_URL), from, transport: "smtp_url" as const };
+  }
+  if (!settings) {
+    throw new MailerError("Email is not configured — add SMTP settings first", 503);
+  }
+
+  const port = Number(settings.mail_port) || 587;
+  const transporter = nodemailer.createTransport({
+    host: settings.mail_host,
+    port,
+    // "ssl" is implicit TLS (usually 465); "tls" upgrades with STARTTLS
+    secure: settings.mail_encryption === "ssl" || port === 465,
+    requireTLS: settings.mail_encryption === "tls",
+    auth: settings.mail_username
+      ? { user: settings.mail_username, pass: settings.mail_password }
+      : undefined,
+  });
+  return { transporter, from, transport: "smtp" as const };
+}
+
+export async function sendMail(mail: OutgoingMail): Promise<SentMail> {
+  if (!isValidEmail(mail.to)) {
+    throw new MailerError(`Invalid email address: ${mail.to}`, 400);
+  }
+
+  const { transporter, from, transport } = await resolveTransport();
+  try {
+    const info = await transporter.sendMail({ from, ...mail });
+    return { message_id: info.messageId || null, transport };
+  } catch (err) {
+    throw new MailerError(err instanceof Error ? err.message : "Failed to send email");
+  }
+}
@@ -0,0 +1,225 @@
+import { prisma } from "./prisma";
+import { notifyOrderCustomer } from "./customer-notifications";
+import { CUSTOMER_STATUS_LABELS, type CustomerStatus } from "./customer-status";
+import type { TemplateValues } from "./notification-templates";
+import type { ItemTransitionResult } from "./workflow";
+
+/**
+ * Automated customer notifications for item workflow transitions.
+ *
+ * Events fire after transitionItems commits:
+ *   - order_shipped / order_delivered / order_cancelled / order_refunded
+ *     when the order's customer-visible status (see customer-status.ts)
+ *     moves to that bucket
+ *   - item_cancelled when items are cancelled but the order as a whole is
+ *     not (or its order_cancelled rule is off)
+ *
+ * Each event has a rule in `cms_notification_rules` — on/off, and push or
+ * in-app only. Events without a row use DEFAULT_RULES. The text is the
+ * notification template of the same name (see notification-templates.ts).
+ * A notification always writes a `notifications` row; the push is sent
+ * only when the rule asks for it and the customer has a mobile token.
+ */
+
+/** Request-level failure (unknown event) */
+export class NotificationRuleError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "NotificationRuleError";
+    this.status = status;
+  }
+}
+
+export type NotificationEvent =
+  | "order_shipped"
+  | "order_delivered"
+  | "order_cancelled"
+  | "order_refunded"
+  | "item_cancelled";
+
+export interface NotificationRule {
+  event_key: NotificationEvent;
+  label: string;
+  description: string;
+  is_enabled: boolean;
+  send_push: boolean;
+  /** False while the event still runs on DEFAULT_RULES */
+  customized: boolean;
+  updated_at: Date | null;
+}
+
+type RuleDefaults = Pick<NotificationRule, "label" | "description" | "is_enabled" | "send_push">;
+
+export const DEFAULT_RULES: Record<NotificationEvent, RuleDefaults> = {
+  order_shipped: {
+    label: "Order shipped",
+    description: "Every open item of the order has left the warehouse",
+    is_enabled: true,
+    send_push: true,
+  },
+  order_delivered: {
+    label: "Order delivered",
+    description: "Every open item of the order was delivered",
+    is_enabled: true,
+    send_push: true,
+  },
+  order_cancelled: {
+    label: "Order cancelled",
+    description: "Every item of the order is cancelled",
+    is_enabled: true,
+    send_push: true,
+  },
+  order_refunded: {
+    label: "Order refunded",
+    description: "Every item of the order is refunded — off by default, refunds already notify the customer",
+    is_enabled: false,
+    send_push: true,
+  },
+  item_cancelled: {
+    label: "Item cancelled",
+    description: "Some items were cancelled while the rest of the order continues",
+    is_enabled: true,
+    send_push: true,
+  },
+};
+
+export const NOTIFICATION_EVENTS = Object.keys(DEFAULT_RULES) as NotificationEvent[];
+
+/** Item names listed before "and N more" */
+const LISTED_ITEMS = 3;
+
+const BUCKET_EVENTS: Partial<Record<CustomerStatus, NotificationEvent>> = {
+  shipped: "order_shipped",
+  delivered: "order_delivered",
+  cancelled: "order_cancelled",
+  refunded: "order_refunded",
+};
+
+/** Every event's rule, falling back to its default */
+export async function loadNotificationRules(): Promise<NotificationRule[]> {
+  const rows = await prisma.cms_notification_rules.findMany();
+  const rowMap = new Map(rows.map((r) => [r.event_key, r]));
+  return NOTIFICATION_EVENTS.map((event) => {
+    const defaults = DEFAULT_RULES[event];
+    const row = rowMap.get(event);
+    return {
+      event_key: event,
+      label: defaults.label,
+      description: defaults.description,
+      is_enabled: row?.is_enabled ?? defaults.is_enabled,
+      send_push: row?.send_push ?? defaults.send_push,
+      customized: !!row,
+      updated_at: row?.updated_at ?? null,
+    };
+  });
+}
+
+export async function updateNotificationRule(
+  eventKey: string,
+  body: Record<string, unknown>,
+  updatedBy: number
+): Promise<NotificationRule> {
+  if (!NOTIFICATION_EVENTS.includes(eventKey as NotificationEvent)) {
+    throw new NotificationRuleError(`Unknown notification event: ${eventKey}`, 404);
+  }
+  const event = eventKey as NotificationEvent;
+  const current = (await loadNotificationRules()).find((r) => r.event_key === event)!;
+
+  const data = {
+    is_enabled: typeof body.is_enabled === "boolean" ? body.is_enabled : current.is_enabled,
+    send_push: typeof body.send_push === "boolean" ? body.send_push : current.send_push,
+    updated_by: updatedBy,
+    updated_at: new Date(),
+  };
+  await prisma.cms_notification_rules.upsert({
+    where: { event_key: event },
+    create: { event_key: event, ...data },
+    update: data,
+  });
+  return (await loadNotificationRules()).find((r) => r.event_key === event)!;
+}
+
+/** Drop an event's customization so it runs on its default again */
+export async function resetNotificationRule(eventKey: string): Promise<NotificationRule> {
+  if (!NOTIFICATION_EVENTS.includes(eventKey as NotificationEvent)) {
+    throw new NotificationRuleError(`Unknown notification event: ${eventKey}`, 404);
+  }
+  await prisma.cms_notification_rules.deleteMany({ where: { event_key: eventKey } });
+  return (await loadNotificationRules()).find((r) => r.event_key === eventKey)!;
+}
+
+function listItemNames(names: string[]) {
+  if (names.length <= LISTED_ITEMS) return names.join(", ");
+  return `${names.slice(0, LISTED_ITEMS).join(", ")} and ${names.length - LISTED_ITEMS} more`;
+}
+
+/**
+ * Send the notifications a committed transition calls for. Never throws:
+ * a failed notification must not fail the status change.
+ * `itemCancelled: false` leaves out the per-item `item_cancelled` message
+ * for callers that send their own; order-level events still go out.
+ */
+export async function notifyWorkflowChanges(
+  result: ItemTransitionResult,
+  options: { itemCancelled?: boolean } = {}
+) {
+  try {
+    const changes = Object.entries(result.customerStatusChanges).map(([orderId, change]) => ({
+      orderId: Number(orderId),
+      event: BUCKET_EVENTS[change.to],
+      change,
+    }));
+    const itemsCancelled = result.targetStatus.key === "cancelled" && options.itemCancelled !== false;
+    if (!changes.some((c) => c.event) && !itemsCancelled) return;
+
+    const rules = new Map((await loadNotificationRules()).map((r) => [r.event_key, r]));
+    const orderIds = [...new Set(result.updated.map((u) => u.orderId))];
+    const [orders, items] = await Promise.all([
+      prisma.orders.findMany({
+        where: { id: { in: orderIds } },
+        select: { id: true, r_user_id: true },
+      }),
+      prisma.order_products.findMany({
+        where: { id: { in: result.updated.map((u) => u.id) } },
+        select: { id: true, r_order_id: true, product_name: true, variation_name: true, tracking_number: true },
+        orderBy: { id: "asc" },
+      }),
+    ]);
+    const orderMap = new Map(orders.map((o) => [o.id, o]));
+
+    for (const orderId of orderIds) {
+      const order = orderMap.get(orderId);
+      if (!order) continue;
+      const change = changes.find((c) => c.orderId === orderId);
+      const orderRule = change?.event ? rules.get(change.event) : undefined;
+
+      let event: NotificationEvent | null = null;
+      if (orderRule?.is_enabled) event = orderRule.event_key;
+      else if (itemsCancelled && rules.get("item_cancelled")?.is_enabled) event = "item_cancelled";
+      if (!event) continue;
+
+      const rule = rules.get(event)!;
+      const moved = items.filter((i) => i.r_order_id === orderId);
+      const values: TemplateValues = {
+        item_name: listItemNames(moved.map((i) => (i.variation_name ? `${i.product_name} (${i.variation_name})` : i.product_name))),
+        item_count: moved.length,
+        tracking_number: moved.find((i) => i.tracking_number)?.tracking_number ?? "",
+        status: change ? CUSTOMER_STATUS_LABELS[change.change.to] : result.targetStatus.label,
+        previous_status: change?.change.from ? CUSTOMER_STATUS_LABELS[change.change.from] : "",
+      };
+
+      await notifyOrderCustomer({
+        userId: order.r_user_id,
+        orderId,
+        template: event,
+        values,
+        push: rule.send_push,
+        details: { event, item_ids: moved.map((i) => i.id) },
+      });
+    }
+  } catch (err) {
+    console.warn("Workflow notifications failed (non-fatal):", err);
+  }
+}
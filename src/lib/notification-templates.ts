@@ -0,0 +1,404 @@
+import { prisma } from "./prisma";
+
+/**
+ * Named templates for every system-generated customer notification.
+ *
+ * Each template has an English default in code (NOTIFICATION_TEMPLATES)
+ * and optional per-language variants in `cms_notification_templates`,
+ * one row per template and `languages` row. A notification is rendered in
+ * the customer's `users.language_id`, falling back to the default
+ * language's variant, then to the code default. Titles and messages use
+ * `{{placeholder}}` syntax; each template accepts only its own
+ * placeholders.
+ */
+
+/** Request-level failure (unknown template or language, bad text) */
+export class NotificationTemplateError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "NotificationTemplateError";
+    this.status = status;
+  }
+}
+
+/** Every placeholder a template can use, with the value shown in previews */
+export const NOTIFICATION_PLACEHOLDERS = {
+  order_id: { description: "Order number", sample: "10452" },
+  customer_name: { description: "First name on the order address", sample: "Rami" },
+  item_name: { description: "Items in this change (first few, then “and N more”)", sample: "Wireless Earbuds (Black)" },
+  item_count: { description: "Number of items in this change", sample: "2" },
+  quantity: { description: "Quantity of the added item", sample: "2" },
+  previous_item_name: { description: "Item that was replaced", sample: "Wireless Earbuds (White)" },
+  tracking_number: { description: "Tracking number of the items, if any", sample: "YT2412345678" },
+  status: { description: "New customer status", sample: "Shipped" },
+  previous_status: { description: "Previous customer status", sample: "Processing" },
+  refund_amount: { description: "Refunded amount", sample: "24.90" },
+  refund_type: { description: "Full, products only or shipping only", sample: "Full" },
+  shipping_amount: { description: "Shipping cost to pay", sample: "18.50" },
+  new_order_id: { description: "Order the items moved to", sample: "10461" },
+  merged_order_id: { description: "Order that was combined into this one", sample: "10449" },
+  new_total: { description: "Order total after the change", sample: "132.40" },
+} satisfies Record<string, { description: string; sample: string }>;
+
+export type NotificationPlaceholder = keyof typeof NOTIFICATION_PLACEHOLDERS;
+
+export type TemplateValues = Partial<Record<NotificationPlaceholder, string | number | null | undefined>>;
+
+interface TemplateDefinition {
+  label: string;
+  description: string;
+  group: "Workflow" | "Payments" | "Order changes";
+  placeholders: NotificationPlaceholder[];
+  title: string;
+  body: string;
+}
+
+const WORKFLOW_PLACEHOLDERS: NotificationPlaceholder[] = [
+  "order_id",
+  "customer_name",
+  "item_name",
+  "item_count",
+  "tracking_number",
+  "status",
+  "previous_status",
+];
+
+export const NOTIFICATION_TEMPLATES = {
+  order_shipped: {
+    label: "Order shipped",
+    description: "Every open item of the order has left the warehouse",
+    group: "Workflow",
+    placeholders: WORKFLOW_PLACEHOLDERS,
+    title: "📦 Order #{{order_id}} is on its way",
+    body: "Good news {{customer_name}}! Your order #{{order_id}} has shipped. Tracking number: {{tracking_number}}",
+  },
+  order_delivered: {
+    label: "Order delivered",
+    description: "Every open item of the order was delivered",
+    group: "Workflow",
+    placeholders: WORKFLOW_PLACEHOLDERS,
+    title: "✅ Order #{{order_id}} delivered",
+    body: "Your order #{{order_id}} has been delivered. Thank you for shopping with us!",
+  },
+  order_cancelled: {
+    label: "Order cancelled",
+    description: "Every item of the order is cancelled",
+    group: "Workflow",
+    placeholders: WORKFLOW_PLACEHOLDERS,
+    title: "Order #{{order_id}} cancelled",
+    body: "Your order #{{order_id}} has been cancelled.",
+  },
+  order_refunded: {
+    label: "Order refunded",
+    description: "Every item of the order is refunded through the workflow",
+    group: "Workflow",
+    placeholders: WORKFLOW_PLACEHOLDERS,
+    title: "💸 Order #{{order_id}} refunded",
+    body: "Your order #{{order_id}} has been refunded.",
+  },
+  item_cancelled: {
+    label: "Item cancelled",
+    description: "Some items were cancelled while the rest of the order continues",
+    group: "Workflow",
+    placeholders: WORKFLOW_PLACEHOLDERS,
+    title: "Item cancelled in order #{{order_id}}",
+    body: "{{item_name}} in your order #{{order_id}} has been cancelled.",
+  },
+  refund_processed: {
+    label: "Refund processed",
+    description: "An order-level refund was recorded",
+    group: "Payments",
+    placeholders: ["order_id", "customer_name", "refund_amount", "refund_type"],
+    title: "💰 Refund Processed",
+    body: "Refund of ${{refund_amount}} has been processed for Order #{{order_id}}.",
+  },
+  shipping_confirmed: {
+    label: "Shipping cost confirmed",
+    description: "The shipping price was confirmed and is ready to pay",
+    group: "Payments",
+    placeholders: ["order_id", "customer_name", "shipping_amount"],
+    title: "🚚 Shipping Cost Confirmed",
+    body: "Your shipping cost has been confirmed! Pay ${{shipping_amount}} to proceed.",
+  },
+  shipping_reminder: {
+    label: "Shipping payment reminder",
+    description: "Sent from the orders list or order page while shipping is unpaid",
+    group: "Payments",
+    placeholders: ["order_id", "customer_name", "shipping_amount"],
+    title: "⏰ Shipping Payment Reminder",
+    body: "Your shipping cost of ${{shipping_amount}} for order #{{order_id}} is waiting for payment. Pay now so we can ship your items.",
+  },
+  order_split: {
+    label: "Order split",
+    description: "Items were moved out of an order into a new one",
+    group: "Order changes",
+    placeholders: ["order_id", "customer_name", "item_count", "new_order_id", "new_total"],
+    title: "Order #{{order_id}} split",
+    body: "{{item_count}} of your items from order #{{order_id}} now ship as order #{{new_order_id}} (${{new_total}}).",
+  },
+  order_merged: {
+    label: "Orders combined",
+    description: "Another order of the customer was merged into this one",
+    group: "Order changes",
+    placeholders: ["order_id", "customer_name", "merged_order_id", "new_total"],
+    title: "Orders #{{merged_order_id}} and #{{order_id}} combined",
+    body: "Order #{{merged_order_id}} now ships together with order #{{order_id}}. New total: ${{new_total}}.",
+  },
+  order_item_added: {
+    label: "Item added",
+    description: "An item was added to the order",
+    group: "Order changes",
+    placeholders: ["order_id", "customer_name", "item_name", "quantity", "new_total"],
+    title: "Order #{{order_id}} updated",
+    body: "{{quantity}} × {{item_name}} was added to your order. New total: ${{new_total}}.",
+  },
+  order_item_removed: {
+    label: "Item removed",
+    description: "An item was removed from the order",
+    group: "Order changes",
+    placeholders: ["order_id", "customer_name", "item_name", "new_total"],
+    title: "Order #{{order_id}} updated",
+    body: "{{item_name}} was removed from your order. New total: ${{new_total}}.",
+  },
+  order_item_replaced: {
+    label: "Item replaced",
+    description: "An item's variant, product, quantity or price was changed",
+    group: "Order changes",
+    placeholders: ["order_id", "customer_name", "item_name", "previous_item_name", "quantity", "new_total"],
+    title: "Order #{{order_id}} updated",
+    body: "{{previous_item_name}} was replaced with {{item_name}}. New total: ${{new_total}}.",
+  },
+} satisfies Record<string, TemplateDefinition>;
+
+export type NotificationTemplateKey = keyof typeof NOTIFICATION_TEMPLATES;
+
+export const NOTIFICATION_TEMPLATE_KEYS = Object.keys(NOTIFICATION_TEMPLATES) as NotificationTemplateKey[];
+
+const MAX_TITLE_LENGTH = 255;
+const MAX_BODY_LENGTH = 2000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function isNotificationTemplateKey(key: string): key is NotificationTemplateKey {
+  return key in NOTIFICATION_TEMPLATES;
+}
+
+function definitionOf(key: string): TemplateDefinition {
+  if (!isNotificationTemplateKey(key)) {
+    throw new NotificationTemplateError(`Unknown notification template: ${key}`, 404);
+  }
+  return NOTIFICATION_TEMPLATES[key];
+}
+
+/** Fill {{placeholders}}; unknown ones are left as written, missing values become empty */
+export function renderTemplate(template: string, values: TemplateValues) {
+  return template
+    .replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+      key in NOTIFICATION_PLACEHOLDERS ? String(values[key as NotificationPlaceholder] ?? "") : match
+    )
+    .replace(/[ \t]{2,}/g, " ")
+    .trim();
+}
+
+/** Sample values for a template's placeholders, as used by previews */
+export function sampleValues(key: NotificationTemplateKey): TemplateValues {
+  return Object.fromEntries(
+    NOTIFICATION_TEMPLATES[key].placeholders.map((p) => [p, NOTIFICATION_PLACEHOLDERS[p].sample])
+  );
+}
+
+async function defaultLanguageId() {
+  const lang = await prisma.languages.findFirst({
+    where: { default_lang: 1 },
+    select: { id: true },
+    orderBy: { id: "asc" },
+  });
+  return lang?.id ?? null;
+}
+
+/** The stored or default text of a template in one language, with fallbacks */
+async function resolveTemplate(key: NotificationTemplateKey, languageId: number | null | undefined) {
+  const defaultId = await defaultLanguageId();
+  const ids = [languageId, defaultId].filter((id): id is number => typeof id === "number");
+  const rows = ids.length
+    ? await prisma.cms_notification_templates.findMany({
+        where: { template_key: key, language_id: { in: ids } },
+        select: { language_id: true, title: true, body: true },
+      })
+    : [];
+  const row = rows.find((r) => r.language_id === languageId) ?? rows.find((r) => r.language_id === defaultId);
+  if (row) return { title: row.title, body: row.body, language_id: row.language_id };
+  const definition = NOTIFICATION_TEMPLATES[key];
+  return { title: definition.title, body: definition.body, language_id: null };
+}
+
+/**
+ * Render a template in the given language (the customer's
+ * `users.language_id`); without one it uses the default language.
+ */
+export async function renderNotification(
+  key: NotificationTemplateKey,
+  values: TemplateValues,
+  languageId?: number | null
+) {
+  const template = await resolveTemplate(key, languageId);
+  return {
+    title: renderTemplate(template.title, values),
+    message: renderTemplate(template.body, values),
+  };
+}
+
+export interface TemplateVariant {
+  language_id: number;
+  title: string;
+  body: string;
+  updated_at: Date;
+}
+
+export interface NotificationTemplate {
+  key: NotificationTemplateKey;
+  label: string;
+  description: string;
+  group: TemplateDefinition["group"];
+  placeholders: NotificationPlaceholder[];
+  /** English text used when no variant matches */
+  default_title: string;
+  default_body: string;
+  variants: TemplateVariant[];
+}
+
+export interface TemplateLanguage {
+  id: number;
+  name: string;
+  code: string;
+  is_default: boolean;
+}
+
+async function templatesWithVariants(keys: NotificationTemplateKey[]): Promise<NotificationTemplate[]> {
+  const rows = await prisma.cms_notification_templates.findMany({
+    where: { template_key: { in: keys } },
+    orderBy: { language_id: "asc" },
+  });
+  return keys.map((key) => {
+    const definition: TemplateDefinition = NOTIFICATION_TEMPLATES[key];
+    return {
+      key,
+      label: definition.label,
+      description: definition.description,
+      group: definition.group,
+      placeholders: definition.placeholders,
+      default_title: definition.title,
+      default_body: definition.body,
+      variants: rows
+        .filter((r) => r.template_key === key)
+        .map((r) => ({ language_id: r.language_id, title: r.title, body: r.body, updated_at: r.updated_at })),
+    };
+  });
+}
+
+/** Every template with its stored variants, plus the languages to edit them in */
+export async function listNotificationTemplates() {
+  const [templates, languages] = await Promise.all([
+    templatesWithVariants(NOTIFICATION_TEMPLATE_KEYS),
+    prisma.languages.findMany({
+      select: { id: true, name: true, code: true, default_lang: true },
+      orderBy: { id: "asc" },
+    }),
+  ]);
+  return {
+    templates,
+    languages: languages.map<TemplateLanguage>((l) => ({
+      id: l.id,
+      name: l.name,
+      code: l.code,
+      is_default: l.default_lang === 1,
+    })),
+  };
+}
+
+/** Check a title/body pair against a template's placeholders */
+function validateText(key: NotificationTemplateKey, title: unknown, body: unknown) {
+  const t = typeof title === "string" ? title.trim() : "";
+  const b = typeof body === "string" ? body.trim() : "";
+  if (!t || !b) throw new NotificationTemplateError("Title and message are required");
+  if (t.length > MAX_TITLE_LENGTH) {
+    throw new NotificationTemplateError(`Title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (b.length > MAX_BODY_LENGTH) {
+    throw new NotificationTemplateError(`Message must be at most ${MAX_BODY_LENGTH} characters`);
+  }
+  const allowed: string[] = NOTIFICATION_TEMPLATES[key].placeholders;
+  const unknown = [...`${t} ${b}`.matchAll(PLACEHOLDER_PATTERN)]
+    .map((m) => m[1])
+    .filter((p) => !allowed.includes(p));
+  if (unknown.length) {
+    throw new NotificationTemplateError(
+      `Placeholders not available in this template: ${[...new Set(unknown)].map((p) => `{{${p}}}`).join(", ")}`
+    );
+  }
+  return { title: t, body: b };
+}
+
+async function requireLanguage(languageId: unknown) {
+  const id = Number(languageId);
+  if (!Number.isInteger(id) || id <= 0) throw new NotificationTemplateError("language_id is required");
+  const lang = await prisma.languages.findUnique({ where: { id }, select: { id: true } });
+  if (!lang) throw new NotificationTemplateError("Language not found", 404);
+  return id;
+}
+
+/** Create or replace one language variant of a template */
+export async function saveNotificationTemplate(
+  key: string,
+  input: Record<string, unknown>,
+  updatedBy: number
+): Promise<NotificationTemplate> {
+  definitionOf(key);
+  const templateKey = key as NotificationTemplateKey;
+  const languageId = await requireLanguage(input.language_id);
+  const text = validateText(templateKey, input.title, input.body);
+
+  const data = { ...text, updated_by: updatedBy, updated_at: new Date() };
+  await prisma.cms_notification_templates.upsert({
+    where: { template_key_language_id: { template_key: templateKey, language_id: languageId } },
+    create: { template_key: templateKey, language_id: languageId, ...data },
+    update: data,
+  });
+  return (await templatesWithVariants([templateKey]))[0];
+}
+
+/** Drop one language variant so that language falls back again */
+export async function resetNotificationTemplate(key: string, languageId: unknown): Promise<NotificationTemplate> {
+  definitionOf(key);
+  const templateKey = key as NotificationTemplateKey;
+  const id = Number(languageId);
+  if (!Number.isInteger(id) || id <= 0) throw new NotificationTemplateError("language_id is required");
+  await prisma.cms_notification_templates.deleteMany({ where: { template_key: templateKey, language_id: id } });
+  return (await templatesWithVariants([templateKey]))[0];
+}
+
+/**
+ * Render a template with sample data. A draft `title` / `body` is checked
+ * and rendered as given; otherwise the stored text for `language_id` (with
+ * the usual fallbacks) is used. `values` override individual samples.
+ */
+export async function previewNotificationTemplate(key: string, input: Record<string, unknown>) {
+  definitionOf(key);
+  const templateKey = key as NotificationTemplateKey;
+  const overrides =
+    input.values && typeof input.values === "object" ? (input.values as Record<string, unknown>) : {};
+  const values: TemplateValues = { ...sampleValues(templateKey) };
+  for (const p of NOTIFICATION_TEMPLATES[templateKey].placeholders) {
+    const v = overrides[p];
+    if (typeof v === "string" || typeof v === "number") values[p] = v;
+  }
+
+  if (typeof input.title === "string" || typeof input.body === "string") {
+    const text = validateText(templateKey, input.title, input.body);
+    return { title: renderTemplate(text.title, values), message: renderTemplate(text.body, values), values };
+  }
+  const languageId = input.language_id == null ? null : await requireLanguage(input.language_id);
+  return { ...(await renderNotification(templateKey, values, languageId)), values };
+}
@@ -0,0 +1,756 @@
+import type { Prisma, orders, order_products, product_variant } from "@prisma/client";
+import { prisma } from "./prisma";
+import { computeAppPrice, resolveProductName } from "./pricing";
+import { syncCustomerStatus } from "./customer-status";
+import { notifyOrderCustomer } from "./customer-notifications";
+import type { NotificationTemplateKey } from "./notification-templates";
+import { transitionItems, SKIP_HTTP_STATUS, type WorkflowActor } from "./workflow";
+
+/**
+ * Order line editing — add a product, remove a line, or swap a line to
+ * another variant or product (typically when a 1688 SKU goes out of stock).
+ *
+ * New and swapped lines are priced the way the app prices them — the
+ * variant's CNY origin price through computeAppPrice — unless a unit
+ * price is given, and the variant's options are snapshotted into
+ * `order_product_variations`. Each edit moves the order's `subtotal` and
+ * `quantity` by the line difference (so existing checkout totals are not
+ * re-based), recomputes shipping from the live lines like the item
+ * editor does, and re-derives `total`. The line before / after and both
+ * totals go to `cms_order_edits`, then the customer is notified.
+ *
+ * A removed line is not deleted: it moves to `cancelled` through
+ * transitionItems, keeping its status history, invoices and audit trail,
+ * and drops out of the totals.
+ *
+ * A line can only be removed or replaced while it is still open: not in a
+ * terminal status, not refunded (even partly), not in a shipment batch.
+ * Edits that would change a paid settlement (products once `is_paid`,
+ * shipping once `shipping_status = 2`) are refused — that money goes back
+ * through a refund.
+ */
+
+/** Request-level failure (bad input, closed line, unknown product) */
+export class OrderEditError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "OrderEditError";
+    this.status = status;
+  }
+}
+
+export type OrderEditAction = "add" | "remove" | "replace";
+
+export type OrderLineEdit =
+  | {
+      action: "add";
+      product_id: number;
+      variant_id: number | null;
+      quantity: number;
+      unit_price: number | null;
+      shipping_method: "air" | "sea";
+      /** Per-item shipping cost for the chosen method */
+      shipping: number;
+    }
+  | { action: "remove"; item_id: number }
+  | {
+      action: "replace";
+      item_id: number;
+      /** Defaults to the line's current product */
+      product_id: number | null;
+      variant_id: number | null;
+      quantity: number | null;
+      unit_price: number | null;
+    };
+
+/** What a line looked like, as stored in the edit log */
+export interface LineSnapshot {
+  item_id: number;
+  product_id: number;
+  variant_id: number | null;
+  sku_id: string | null;
+  product_code: string;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  quantity: number;
+  shipping_amount: number;
+  total: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ── Input ─────────────────────────────────────────────────────────────
+
+function positiveInt(value: unknown, field: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new OrderEditError(`${field} must be a positive whole number`);
+  return n;
+}
+
+function optionalPositiveInt(value: unknown, field: string): number | null {
+  return value === undefined || value === null || value === "" ? null : positiveInt(value, field);
+}
+
+function optionalPrice(value: unknown, field: string): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new OrderEditError(`${field} must be zero or more`);
+  return round2(n);
+}
+
+/** Validate a request body into an edit */
+export function parseOrderLineEdit(body: Record<string, unknown>): OrderLineEdit {
+  switch (body.action) {
+    case "add": {
+      const method = body.shipping_method ?? "air";
+      if (method !== "air" && method !== "sea") {
+        throw new OrderEditError('Shipping method must be "air" or "sea"');
+      }
+      return {
+        action: "add",
+        product_id: positiveInt(body.product_id, "product_id"),
+        variant_id: optionalPositiveInt(body.variant_id, "variant_id"),
+        quantity: positiveInt(body.quantity ?? 1, "Quantity"),
+        unit_price: optionalPrice(body.unit_price, "Unit price"),
+        shipping_method: method,
+        shipping: optionalPrice(body.shipping, "Shipping") ?? 0,
+      };
+    }
+    case "remove":
+      return { action: "remove", item_id: positiveInt(body.item_id, "item_id") };
+    case "replace":
+      return {
+        action: "replace",
+        item_id: positiveInt(body.item_id, "item_id"),
+        product_id: optionalPositiveInt(body.product_id, "product_id"),
+        variant_id: optionalPositiveInt(body.variant_id, "variant_id"),
+        quantity: optionalPositiveInt(body.quantity, "Quantity"),
+        unit_price: optionalPrice(body.unit_price, "Unit price"),
+      };
+    default:
+      throw new OrderEditError('Action must be "add", "remove" or "replace"');
+  }
+}
+
+// ── Catalog ───────────────────────────────────────────────────────────
+
+async function loadPricing(db: Prisma.TransactionClient) {
+  const [settings, exchangeRateRow] = await Promise.all([
+    db.general_settings.findFirst({ select: { price_markup_percentage: true } }),
+    db.ex_currency.findFirst({
+      where: { from_currency: 9, to_currency: 6 },
+      select: { rate: true },
+    }),
+  ]);
+  return {
+    markupPercent: settings?.price_markup_percentage ? Number(settings.price_markup_percentage) : 15,
+    exchangeRate: exchangeRateRow?.rate ?? 0.14,
+  };
+}
+
+type Pricing = Awaited<ReturnType<typeof loadPricing>>;
+
+const PRODUCT_SELECT = {
+  id: true,
+  source_product_id: true,
+  product_code: true,
+  product_name: true,
+  display_name: true,
+  original_name: true,
+  model: true,
+  brand: true,
+  product_condition: true,
+  product_price: true,
+  origin_price: true,
+  main_image: true,
+} satisfies Prisma.productSelect;
+
+type CatalogProductRow = Prisma.productGetPayload<{ select: typeof PRODUCT_SELECT }>;
+
+/** App price (USD) and source price (CNY) of a product or one of its variants */
+function linePrice(product: CatalogProductRow, variant: product_variant | null, pricing: Pricing) {
+  const cny = Number(variant?.origin_price ?? product.origin_price ?? 0) || 0;
+  const appPrice = computeAppPrice(cny, pricing.exchangeRate, pricing.markupPercent);
+  return { cny, usd: appPrice ?? (product.product_price > 0 ? round2(product.product_price) : null) };
+}
+
+export interface CatalogVariant {
+  id: number;
+  sku_id: string;
+  name: string | null;
+  image: string | null;
+  stock: number | null;
+  unit_price: number | null;
+}
+
+export interface CatalogProduct {
+  id: number;
+  product_code: string;
+  name: string;
+  main_image: string | null;
+  unit_price: number | null;
+  variants: CatalogVariant[];
+}
+
+const CATALOG_LIMIT = 20;
+
+/** Products (with their active variants) for the order line picker */
+export async function searchOrderCatalog(
+  input: { search?: string; productId?: number }
+): Promise<CatalogProduct[]> {
+  const search = input.search?.trim() || "";
+  let ids: number[];
+  if (input.productId) {
+    ids = [input.productId];
+  } else if (!search) {
+    return [];
+  } else if (/^CN-/i.test(search) || /^\d{5,}$/.test(search)) {
+    const code = /^\d+$/.test(search) ? `CN-${search}` : search;
+    ids = (
+      await prisma.product.findMany({
+        where: { product_code: { startsWith: code } },
+        select: { id: true },
+        orderBy: { id: "desc" },
+        take: CATALOG_LIMIT,
+      })
+    ).map((p) => p.id);
+  } else {
+    // Same indexed UNION as the products list — LIKE '%…%' scans the table
+    const ftTerm = search.replaceAll(/[+\-><()~*"@]/g, " ").trim();
+    ids = ftTerm
+      ? (
+          await prisma.$queryRaw<{ id: number }[]>`
+            SELECT id FROM (
+              (SELECT id FROM product WHERE MATCH(product_name) AGAINST(${ftTerm + "*"} IN BOOLEAN MODE) ORDER BY id DESC LIMIT ${CATALOG_LIMIT})
+              UNION
+              (SELECT id FROM product WHERE display_name LIKE ${search + "%"} ORDER BY id DESC LIMIT ${CATALOG_LIMIT})
+            ) AS t ORDER BY id DESC LIMIT ${CATALOG_LIMIT}
+          `
+        ).map((r) => Number(r.id))
+      : // Only full-text operators — AGAINST('*') is a syntax error, so prefix-match the name alone
+        (
+          await prisma.product.findMany({
+            where: { display_name: { startsWith: search } },
+            select: { id: true },
+            orderBy: { id: "desc" },
+            take: CATALOG_LIMIT,
+          })
+        ).map((p) => p.id);
+  }
+  if (!ids.length) return [];
+
+  const [products, variants, pricing] = await Promise.all([
+    prisma.product.findMany({ where: { id: { in: ids } }, select: PRODUCT_SELECT, orderBy: { id: "desc" } }),
+    prisma.product_variant.findMany({
+      where: { product_id: { in: ids }, status: "active" },
+      orderBy: [{ sort_order: "asc" }, { id: "asc" }],
+    }),
+    loadPricing(prisma),
+  ]);
+
+  return products.map((p) => ({
+    id: p.id,
+    product_code: p.product_code,
+    name: resolveProductName(p),
+    main_image: p.main_image,
+    unit_price: linePrice(p, null, pricing).usd,
+    variants: variants
+      .filter((v) => v.product_id === p.id)
+      .map((v) => ({
+        id: Number(v.id),
+        sku_id: v.sku_id,
+        name: v.variant_name || v.props_names,
+        image: v.variant_image,
+        stock: v.stock,
+        unit_price: linePrice(p, v, pricing).usd,
+      })),
+  }));
+}
+
+/** Parse "颜色:红色;尺寸:XL" into label / value pairs */
+function propSegments(propsNames: string | null) {
+  return (propsNames || "")
+    .split(";")
+    .filter(Boolean)
+    .map((segment) => {
+      const [label, value] = segment.split(":").map((s) => s.trim());
+      return { label: label || "", value: value || "" };
+    });
+}
+
+/**
+ * Catalog fields for an order line plus its option snapshot. A product
+ * with active variants needs one of them chosen.
+ */
+async function resolveCatalogLine(
+  tx: Prisma.TransactionClient,
+  productId: number,
+  variantId: number | null,
+  unitPrice: number | null
+) {
+  const product = await tx.product.findUnique({ where: { id: productId }, select: PRODUCT_SELECT });
+  if (!product) throw new OrderEditError("Product not found", 404);
+
+  let variant: product_variant | null = null;
+  if (variantId) {
+    variant = await tx.product_variant.findFirst({ where: { id: BigInt(variantId), product_id: productId } });
+    if (!variant) throw new OrderEditError("Variant not found for this product", 404);
+    if (variant.status !== "active") throw new OrderEditError("This variant is no longer available", 409);
+  } else if (await tx.product_variant.count({ where: { product_id: productId, status: "active" } })) {
+    throw new OrderEditError("Choose a variant of this product");
+  }
+
+  const pricing = await loadPricing(tx);
+  const price = linePrice(product, variant, pricing);
+  const productPrice = unitPrice ?? price.usd;
+  if (productPrice === null) {
+    throw new OrderEditError("This product has no price — enter a unit price");
+  }
+
+  // Option snapshot: props_ids "pid:vid;pid:vid" against the product's options
+  const pairs = (variant?.props_ids || "")
+    .split(";")
+    .filter(Boolean)
+    .map((pair) => {
+      const [pid, vid] = pair.split(":");
+      return { pid: pid || null, vid: vid || null };
+    });
+  const segments = propSegments(variant?.props_names ?? null);
+  const options = pairs.length
+    ? await tx.product_options.findMany({
+        where: { product_id: productId, pid: { in: pairs.map((p) => p.pid).filter((p): p is string => !!p) } },
+      })
+    : [];
+  const values = options.length
+    ? await tx.product_options_values.findMany({
+        where: {
+          r_product_option_id: { in: options.map((o) => o.id) },
+          vid: { in: pairs.map((p) => p.vid).filter((v): v is string => !!v) },
+        },
+      })
+    : [];
+
+  const variations = pairs.map((pair, i) => {
+    const option = options.find((o) => o.pid === pair.pid);
+    const value = option ? values.find((v) => v.r_product_option_id === option.id && v.vid === pair.vid) : undefined;
+    return {
+      variation_id: variant ? Number(variant.id) : null,
+      option_id: option?.id ?? null,
+      value_id: value?.id ?? null,
+      pid: pair.pid,
+      vid: pair.vid,
+      option_name: option?.type ?? segments[i]?.label ?? "",
+      value_name: value?.name ?? segments[i]?.value ?? "",
+      is_color: value?.is_color ?? option?.is_color ?? 0,
+      color: value?.color ?? null,
+      image_url: value?.image_url ?? null,
+    };
+  });
+
+  const productCost = round2(price.cny * pricing.exchangeRate);
+  return {
+    fields: {
+      r_product_id: product.id,
+      variation_id: variant ? Number(variant.id) : null,
+      source_product_id: product.source_product_id,
+      sku_id: variant?.sku_id ?? null,
+      props_ids: variant?.props_ids ?? null,
+      variation_name: variant ? variant.variant_name || variant.props_names || null : null,
+      main_image: product.main_image,
+      variation_image: variant?.variant_image ?? null,
+      product_code: product.product_code,
+      product_name: resolveProductName(product).slice(0, 200),
+      model: product.model,
+      brand: product.brand,
+      product_condition: product.product_condition,
+      provider_price: price.cny,
+      product_price: productPrice,
+      product_cost: productCost,
+    },
+    variations,
+  };
+}
+
+// ── Editing ───────────────────────────────────────────────────────────
+
+function snapshot(item: order_products): LineSnapshot {
+  return {
+    item_id: item.id,
+    product_id: item.r_product_id,
+    variant_id: item.variation_id,
+    sku_id: item.sku_id,
+    product_code: item.product_code,
+    product_name: item.product_name,
+    variation_name: item.variation_name,
+    quantity: item.quantity,
+    unit_price: item.product_price,
+  };
+}
+
+const lineValue = (line: { product_price: number; quantity: number }) => line.product_price * line.quantity;
+
+const lineProfit = (price: number, cost: number, quantity: number) => round2((price - cost) * quantity);
+
+async function findLine(tx: Prisma.TransactionClient, orderId: number, itemId: number) {
+  const item = await tx.order_products.findFirst({ where: { id: itemId, r_order_id: orderId } });
+  if (!item) throw new OrderEditError("Order item not found or does not belong to this order", 404);
+  return item;
+}
+
+/** Refuse lines that have moved past the point where they can be changed */
+async function assertLineOpen(tx: Prisma.TransactionClient, item: order_products) {
+  const [status, refunded, batchItem] = await Promise.all([
+    item.workflow_status_id
+      ? tx.cms_order_item_statuses.findUnique({ where: { id: item.workflow_status_id } })
+      : null,
+    tx.cms_order_refund_items.count({ where: { order_product_id: item.id } }),
+    tx.cms_shipment_batch_items.findUnique({ where: { order_product_id: item.id } }),
+  ]);
+  if (status?.is_terminal) {
+    throw new OrderEditError(`${status.status_label} items cannot be changed`, 409);
+  }
+  if (refunded) {
+    throw new OrderEditError("Items with refunds cannot be changed", 409);
+  }
+  if (batchItem) {
+    throw new OrderEditError(
+      `Item is in shipment batch #${batchItem.batch_id} — remove it from the batch first`,
+      409
+    );
+  }
+}
+
+async function replaceVariations(
+  tx: Prisma.TransactionClient,
+  itemId: number,
+  variations: Omit<Prisma.order_product_variationsCreateManyInput, "r_order_product_id">[]
+) {
+  await tx.order_product_variations.deleteMany({ where: { r_order_product_id: itemId } });
+  if (variations.length) {
+    await tx.order_product_variations.createMany({
+      data: variations.map((v) => ({ ...v, r_order_product_id: itemId })),
+    });
+  }
+}
+
+/** Lines still on the order besides `itemId`: not cancelled or refunded */
+async function countOtherOpenLines(tx: Prisma.TransactionClient, orderId: number, itemId: number) {
+  const terminal = await tx.cms_order_item_statuses.findMany({ where: { is_terminal: true }, select: { id: true } });
+  return tx.order_products.count({
+    where: {
+      r_order_id: orderId,
+      id: { not: itemId },
+      OR: [{ workflow_status_id: null }, { workflow_status_id: { notIn: terminal.map((s) => s.id) } }],
+    },
+  });
+}
+
+/**
+ * Move subtotal / quantity by the line difference, recompute shipping
+ * from the live (non-cancelled) lines and re-derive the total. Throws
+ * when a paid product or shipping settlement would change.
+ */
+async function applyTotals(
+  tx: Prisma.TransactionClient,
+  order: orders,
+  delta: { value: number; quantity: number }
+): Promise<OrderTotals> {
+  const cancelled = await tx.cms_order_item_statuses.findFirst({ where: { status_key: "cancelled" } });
+  const liveItems = await tx.order_products.findMany({
+    where: {
+      r_order_id: order.id,
+      OR: [{ workflow_status_id: null }, { NOT: { workflow_status_id: cancelled?.id ?? -1 } }],
+    },
+    select: { by_air: true, by_sea: true, shipping_method: true },
+  });
+
+  const shipping = round2(
+    liveItems.reduce((sum, i) => sum + (i.shipping_method === "sea" ? (i.by_sea ?? 0) : (i.by_air ?? 0)), 0)
+  );
+  const methods = new Set(liveItems.map((i) => i.shipping_method).filter(Boolean));
+  const shippingMethod = methods.has("air") && methods.has("sea") ? "both" : methods.has("sea") ? "sea" : "air";
+
+  const subtotal = round2((order.subtotal ?? 0) + delta.value);
+  const quantity = Math.max(0, order.quantity + delta.quantity);
+  const total = round2(subtotal + shipping + (order.tax_amount ?? 0) - (order.discount_amount ?? 0));
+
+  if (order.is_paid === 1 && subtotal !== round2(order.subtotal ?? 0)) {
+    throw new OrderEditError(
+      "The products on this order are paid — this edit would change the product amount. Refund the line instead",
+      409
+    );
+  }
+  if (order.shipping_status === 2 && shipping !== round2(order.shipping_amount)) {
+    throw new OrderEditError(
+      "Shipping on this order is paid — this edit would change the shipping amount. Refund the shipping instead",
+      409
+    );
+  }
+
+  await tx.orders.update({
+    where: { id: order.id },
+    data: {
+      subtotal,
+      quantity,
+      shipping_amount: shipping,
+      shipping_method: shippingMethod,
+      total,
+      updated_at: new Date(),
+    },
+  });
+  return { subtotal, quantity, shipping_amount: shipping, total };
+}
+
+function describeLine(line: LineSnapshot) {
+  return line.variation_name ? `${line.product_name} (${line.variation_name})` : line.product_name;
+}
+
+const EDIT_TEMPLATES = {
+  add: "order_item_added",
+  remove: "order_item_removed",
+  replace: "order_item_replaced",
+} as const satisfies Record<OrderEditAction, NotificationTemplateKey>;
+
+export interface OrderEditResult {
+  edit_id: number;
+  action: OrderEditAction;
+  item_id: number;
+  before: LineSnapshot | null;
+  after: LineSnapshot | null;
+  totals_before: { subtotal: number; total: number };
+  totals: OrderTotals;
+}
+
+/**
+ * Apply one line edit under the order's row lock, log it and (unless
+ * `notifyCustomer` is false) notify the customer after it commits.
+ */
+export async function applyOrderLineEdit(input: {
+  orderId: number;
+  edit: OrderLineEdit;
+  actor: WorkflowActor;
+  note?: string | null;
+  notifyCustomer?: boolean;
+}): Promise<OrderEditResult> {
+  const { orderId, edit, actor } = input;
+  const note = input.note?.trim() || null;
+
+  const apply = async (tx: Prisma.TransactionClient) => {
+    await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+    const order = await tx.orders.findUnique({ where: { id: orderId } });
+    if (!order) throw new OrderEditError("Order not found", 404);
+
+    let before: LineSnapshot | null = null;
+    let after: order_products | null = null;
+    let delta = { value: 0, quantity: 0 };
+
+    if (edit.action === "add") {
+      const line = await resolveCatalogLine(tx, edit.product_id, edit.variant_id, edit.unit_price);
+      const initial = await tx.cms_order_item_statuses.findFirst({
+        where: { is_active: true, is_terminal: false },
+        orderBy: { status_order: "asc" },
+      });
+      if (!initial) {
+        throw new OrderEditError("No active workflow status to start the new item in — check the workflow settings", 409);
+      }
+      after = await tx.order_products.create({
+        data: {
+          ...line.fields,
+          r_order_id: orderId,
+          quantity: edit.quantity,
+          profit: lineProfit(line.fields.product_price, line.fields.product_cost, edit.quantity),
+          shipping_method: edit.shipping_method,
+          by_air: edit.shipping_method === "air" ? edit.shipping : null,
+          by_sea: edit.shipping_method === "sea" ? edit.shipping : null,
+          workflow_status_id: initial.id,
+          workflow_status_updated_at: new Date(),
+          workflow_status_updated_by: actor.userId,
+        },
+      });
+      await replaceVariations(tx, after.id, line.variations);
+      await tx.order_product_status_history.create({
+        data: {
+          order_product_id: after.id,
+          order_id: orderId,
+          from_status_id: null,
+          to_status_id: initial.id,
+          changed_by_user_id: actor.userId,
+          note: "Added by order edit",
+        },
+      });
+      delta = { value: lineValue(after), quantity: after.quantity };
+    } else if (edit.action === "remove") {
+      // Already moved to cancelled by transitionItems in this transaction
+      const item = await findLine(tx, orderId, edit.item_id);
+      before = snapshot(item);
+      delta = { value: -lineValue(item), quantity: -item.quantity };
+    } else {
+      const item = await findLine(tx, orderId, edit.item_id);
+      await assertLineOpen(tx, item);
+      const productId = edit.product_id ?? item.r_product_id;
+      const quantity = edit.quantity ?? item.quantity;
+      const line = await resolveCatalogLine(tx, productId, edit.variant_id, edit.unit_price);
+      if (
+        productId === item.r_product_id &&
+        line.fields.variation_id === item.variation_id &&
+        line.fields.product_price === item.product_price &&
+        quantity === item.quantity
+      ) {
+        throw new OrderEditError("Nothing to change — pick another variant, product, quantity or price");
+      }
+
+      before = snapshot(item);
+      after = await tx.order_products.update({
+        where: { id: item.id },
+        data: {
+          ...line.fields,
+          quantity,
+          profit: lineProfit(line.fields.product_price, line.fields.product_cost, quantity),
+        },
+      });
+      await replaceVariations(tx, item.id, line.variations);
+      delta = { value: lineValue(after) - lineValue(item), quantity: after.quantity - item.quantity };
+    }
+
+    const totals = await applyTotals(tx, order, delta);
+    const afterSnapshot = after ? snapshot(after) : null;
+    const log = await tx.cms_order_edits.create({
+      data: {
+        order_id: orderId,
+        order_product_id: afterSnapshot?.item_id ?? before?.item_id ?? null,
+        action: edit.action,
+        before_line: before ? JSON.stringify(before) : null,
+        after_line: afterSnapshot ? JSON.stringify(afterSnapshot) : null,
+        subtotal_before: order.subtotal ?? 0,
+        subtotal_after: totals.subtotal,
+        total_before: order.total,
+        total_after: totals.total,
+        note,
+        edited_by: actor.userId,
+      },
+    });
+
+    // An added or removed line can move the order's customer bucket
+    await syncCustomerStatus(orderId, tx);
+
+    return {
+      edit_id: log.id,
+      action: edit.action,
+      item_id: log.order_product_id ?? 0,
+      before,
+      after: afterSnapshot,
+      totals_before: { subtotal: round2(order.subtotal ?? 0), total: round2(order.total) },
+      totals,
+      userId: order.r_user_id,
+    };
+  };
+
+  let result: Awaited<ReturnType<typeof apply>> | undefined;
+  if (edit.action === "remove") {
+    const item = await findLine(prisma, orderId, edit.item_id);
+    await assertLineOpen(prisma, item);
+    if (!(await countOtherOpenLines(prisma, orderId, item.id))) {
+      throw new OrderEditError("An order needs at least one open item — cancel the order instead", 409);
+    }
+
+    const transition = await transitionItems({
+      itemIds: [item.id],
+      toStatusKey: "cancelled",
+      actor,
+      orderId,
+      note: note ? `Removed by order edit: ${note}` : "Removed by order edit",
+      notifyItemCancelled: false,
+      withinTransaction: async (tx) => {
+        // Refunds or batches added since the checks above
+        await assertLineOpen(tx, item);
+        result = await apply(tx);
+      },
+    });
+    const skip = transition.skipped[0];
+    if (skip) throw new OrderEditError(skip.reason, SKIP_HTTP_STATUS[skip.code]);
+  } else {
+    result = await prisma.$transaction(apply, { timeout: 15_000 });
+  }
+  if (!result) throw new OrderEditError("Order item could not be removed", 409);
+
+  const { userId, ...edited } = result;
+  const line = edited.after ?? edited.before;
+  if (input.notifyCustomer !== false && line) {
+    await notifyOrderCustomer({
+      userId,
+      orderId,
+      template: EDIT_TEMPLATES[edit.action],
+      values: {
+        item_name: describeLine(line),
+        previous_item_name: edited.before ? describeLine(edited.before) : "",
+        quantity: line.quantity,
+        new_total: edited.totals.total.toFixed(2),
+      },
+      details: { order_edit_id: edited.edit_id, total: edited.totals.total },
+    });
+  }
+  return edited;
+}
+
+export interface OrderEditLogEntry {
+  id: number;
+  action: OrderEditAction;
+  before: LineSnapshot | null;
+  after: LineSnapshot | null;
+  subtotal_before: number;
+  subtotal_after: number;
+  total_before: number;
+  total_after: number;
+  note: string | null;
+  edited_by: { id: number; name: string } | null;
+  created_at: Date;
+}
+
+const parseLine = (value: string | null): LineSnapshot | null => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+/** Line edits for an order, newest first */
+export async function listOrderEdits(orderId: number): Promise<OrderEditLogEntry[]> {
+  const rows = await prisma.cms_order_edits.findMany({
+    where: { order_id: orderId },
+    orderBy: { id: "desc" },
+  });
+  const userIds = [...new Set(rows.map((r) => r.edited_by).filter((id): id is number => id !== null))];
+  const users = userIds.length
+    ? await prisma.ag_users.findMany({
+        where: { user_id: { in: userIds } },
+        select: { user_id: true, user_name: true, first_name: true, last_name: true },
+      })
+    : [];
+  const userMap = new Map(
+    users.map((u) => [u.user_id, [u.first_name, u.last_name].filter(Boolean).join(" ") || u.user_name])
+  );
+
+  return rows.map((r) => ({
+    id: r.id,
+    action: r.action,
+    before: parseLine(r.before_line),
+    after: parseLine(r.after_line),
+    subtotal_before: Number(r.subtotal_before),
+    subtotal_after: Number(r.subtotal_after),
+    total_before: Number(r.total_before),
+    total_after: Number(r.total_after),
+    note: r.note,
+    edited_by: r.edited_by ? { id: r.edited_by, name: userMap.get(r.edited_by) ?? `User #${r.edited_by}` } : null,
+    created_at: r.created_at,
+  }));
+}
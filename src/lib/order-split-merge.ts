@@ -0,0 +1,624 @@
+import type { Prisma, orders, order_products } from "@prisma/client";
+import { prisma } from "./prisma";
+import { recordCustomerStatus, syncCustomerStatus } from "./customer-status";
+import { deriveOrderStatusFromItems } from "./rbac";
+import { notifyOrderCustomer } from "./customer-notifications";
+import type { WorkflowActor } from "./workflow";
+
+/**
+ * Splitting and merging orders.
+ *
+ * A split moves selected lines into a new `orders` row that copies the
+ * customer, address and paid flags — but not the payment references: the
+ * child has no settlement of its own, its lines were paid on the original.
+ * Both orders' statuses are re-derived from the lines they end up with.
+ * Subtotal, tax and discount are
+ * prorated by the moved lines' share of the line value; shipping by their
+ * share of the line shipping (or of the value when lines carry none). The
+ * original keeps the remainder, so both totals still add up to the old one.
+ *
+ * A merge moves every line of a source order into a target order of the
+ * same customer and adds the source's amounts to it. The emptied source is
+ * zeroed and cancelled with a "Merged into" note. Orders whose shipping is
+ * paid, or at different shipping payment stages, are not merged — their
+ * shipping amounts cannot be combined into one settlement.
+ *
+ * Moved lines keep their workflow status, and their
+ * `order_product_status_history` rows follow them. Merges re-point the
+ * source's `coupon_usage` rows. Invoices and payment transactions stay on
+ * the order they were issued for; `cms_order_links` records every split
+ * and merge, so each order can reach the other's documents.
+ *
+ * Lines with refunds never move, because the refund ledger is kept per order.
+ */
+
+/** Request-level failure (bad input, incompatible orders, refunded lines) */
+export class OrderSplitMergeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "OrderSplitMergeError";
+    this.status = status;
+  }
+}
+
+export type OrderLinkAction = "split" | "merge";
+
+export interface MovedAmounts {
+  subtotal: number;
+  shipping_amount: number;
+  tax_amount: number;
+  discount_amount: number;
+  total: number;
+}
+
+export interface OrderTotalsSummary extends MovedAmounts {
+  order_id: number;
+  quantity: number;
+}
+
+/** Legacy order statuses that can no longer be split or merged */
+const CLOSED_ORDER_STATUSES: Record<number, string> = { 5: "Cancelled", 6: "Refunded", 7: "Failed" };
+const MERGED_ORDER_STATUS = 5;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const lineValue = (line: { product_price: number; quantity: number }) => line.product_price * line.quantity;
+
+const lineShipping = (line: Pick<order_products, "shipping_method" | "by_air" | "by_sea">) =>
+  line.shipping_method === "sea" ? (line.by_sea ?? 0) : (line.by_air ?? 0);
+
+function shippingMethodOf(lines: Pick<order_products, "shipping_method">[]) {
+  const methods = new Set(lines.map((l) => l.shipping_method).filter(Boolean));
+  return methods.has("air") && methods.has("sea") ? "both" : methods.has("sea") ? "sea" : "air";
+}
+
+function amountsOf(order: orders): MovedAmounts {
+  return {
+    subtotal: round2(order.subtotal ?? 0),
+    shipping_amount: round2(order.shipping_amount),
+    tax_amount: round2(order.tax_amount ?? 0),
+    discount_amount: round2(order.discount_amount ?? 0),
+    total: round2(order.total),
+  };
+}
+
+function summary(order: orders): OrderTotalsSummary {
+  return { order_id: order.id, quantity: order.quantity, ...amountsOf(order) };
+}
+
+/** Customer, address and paid-state fields a split copies onto the new order */
+function carriedFields(order: orders) {
+  return {
+    r_user_id: order.r_user_id,
+    currency_id: order.currency_id,
+    address_first_name: order.address_first_name,
+    address_last_name: order.address_last_name,
+    address_country_code: order.address_country_code,
+    address_phone_number: order.address_phone_number,
+    address: order.address,
+    country: order.country,
+    city: order.city,
+    state: order.state,
+    route_name: order.route_name,
+    building_name: order.building_name,
+    floor_number: order.floor_number,
+    status: order.status,
+    shipping_status: order.shipping_status,
+    client_notes: order.client_notes,
+    is_paid: order.is_paid,
+    payment_type: order.payment_type,
+    coupon_code: order.coupon_code,
+    r_delivery_company_id: order.r_delivery_company_id,
+    branch_id: order.branch_id,
+    pick_up_date: order.pick_up_date,
+    additional_details: order.additional_details,
+  };
+}
+
+const addressKey = (order: orders) =>
+  [
+    order.address,
+    order.building_name,
+    order.floor_number,
+    order.route_name,
+    order.city,
+    order.state,
+    order.country,
+    order.address_phone_number,
+  ]
+    .map((v) => String(v ?? "").trim().toLowerCase())
+    .join("|");
+
+function appendNote(notes: string | null, line: string) {
+  return notes?.trim() ? `${notes.trim()}\n${line}` : line;
+}
+
+/**
+ * Why `source` cannot be merged into `target` (empty when it can).
+ * `sourceRefunds` is the number of refunds recorded on the source order.
+ */
+function mergeBlockers(target: orders, source: orders, sourceRefunds: number, sourceItems: number) {
+  const blockers: string[] = [];
+  if (source.r_user_id !== target.r_user_id) blockers.push("Orders belong to different customers");
+  for (const order of [target, source]) {
+    const closed = CLOSED_ORDER_STATUSES[order.status];
+    if (closed) blockers.push(`Order #${order.id} is ${closed.toLowerCase()}`);
+  }
+  if ((source.currency_id ?? 6) !== (target.currency_id ?? 6)) blockers.push("Orders use different currencies");
+  if (source.is_paid !== target.is_paid) blockers.push("One order is paid and the other is not");
+  if (source.shipping_status !== target.shipping_status) {
+    blockers.push("Orders are at different shipping payment stages");
+  } else if (target.shipping_status === 2) {
+    blockers.push("Shipping is already paid on both orders");
+  }
+  if (addressKey(source) !== addressKey(target)) blockers.push("Orders ship to different addresses");
+  if (sourceRefunds) blockers.push(`Order #${source.id} has refunds`);
+  if (!sourceItems) blockers.push(`Order #${source.id} has no items`);
+  return blockers;
+}
+
+async function lockOrders(tx: Prisma.TransactionClient, ids: number[]) {
+  const sorted = [...ids].sort((a, b) => a - b);
+  for (const id of sorted) {
+    await tx.$queryRaw`SELECT id FROM orders WHERE id = ${id} FOR UPDATE`;
+  }
+}
+
+/** Move lines (and their status history) from one order to another */
+async function moveLines(tx: Prisma.TransactionClient, itemIds: number[], fromOrderId: number, toOrderId: number) {
+  const { count } = await tx.order_products.updateMany({
+    where: { id: { in: itemIds }, r_order_id: fromOrderId },
+    data: { r_order_id: toOrderId },
+  });
+  if (count !== itemIds.length) {
+    throw new OrderSplitMergeError("Order items were changed by someone else — reload and try again", 409);
+  }
+  await tx.order_product_status_history.updateMany({
+    where: { order_product_id: { in: itemIds } },
+    data: { order_id: toOrderId },
+  });
+}
+
+async function createLink(
+  tx: Prisma.TransactionClient,
+  data: {
+    action: OrderLinkAction;
+    sourceOrderId: number;
+    targetOrderId: number;
+    itemIds: number[];
+    moved: MovedAmounts;
+    note: string | null;
+    actor: WorkflowActor;
+  }
+) {
+  return tx.cms_order_links.create({
+    data: {
+      action: data.action,
+      source_order_id: data.sourceOrderId,
+      target_order_id: data.targetOrderId,
+      order_product_ids: JSON.stringify(data.itemIds),
+      ...data.moved,
+      note: data.note,
+      created_by: data.actor.userId,
+    },
+  });
+}
+
+export interface OrderSplitResult {
+  link_id: number;
+  order_id: number;
+  item_ids: number[];
+  moved: MovedAmounts;
+  source: OrderTotalsSummary;
+  target: OrderTotalsSummary;
+}
+
+/** Move `itemIds` out of `orderId` into a new order for the same customer */
+export async function splitOrder(input: {
+  orderId: number;
+  itemIds: number[];
+  actor: WorkflowActor;
+  note?: string | null;
+  notifyCustomer?: boolean;
+}): Promise<OrderSplitResult> {
+  const { orderId, actor } = input;
+  const itemIds = [...new Set(input.itemIds)];
+  const note = input.note?.trim() || null;
+  if (!itemIds.length) throw new OrderSplitMergeError("Select at least one item to split off");
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      await lockOrders(tx, [orderId]);
+      const order = await tx.orders.findUnique({ where: { id: orderId } });
+      if (!order) throw new OrderSplitMergeError("Order not found", 404);
+      const closed = CLOSED_ORDER_STATUSES[order.status];
+      if (closed) throw new OrderSplitMergeError(`${closed} orders cannot be split`, 409);
+
+      const lines = await tx.order_products.findMany({ where: { r_order_id: orderId } });
+      const moving = lines.filter((l) => itemIds.includes(l.id));
+      const missing = itemIds.filter((id) => !moving.some((l) => l.id === id));
+      if (missing.length) {
+        throw new OrderSplitMergeError(`Items ${missing.join(", ")} are not on order #${orderId}`, 404);
+      }
+      if (moving.length === lines.length) {
+        throw new OrderSplitMergeError("Leave at least one item on the original order");
+      }
+      const refunded = await tx.cms_order_refund_items.findMany({
+        where: { order_product_id: { in: itemIds } },
+        select: { order_product_id: true },
+        distinct: ["order_product_id"],
+      });
+      if (refunded.length) {
+        throw new OrderSplitMergeError(
+          `Items with refunds cannot be moved (${refunded.map((r) => r.order_product_id).join(", ")})`,
+          409
+        );
+      }
+
+      const remaining = lines.filter((l) => !itemIds.includes(l.id));
+      const totalValue = lines.reduce((sum, l) => sum + lineValue(l), 0);
+      const valueShare = totalValue > 0
+        ? moving.reduce((sum, l) => sum + lineValue(l), 0) / totalValue
+        : moving.length / lines.length;
+      const totalShipping = lines.reduce((sum, l) => sum + lineShipping(l), 0);
+      const shippingShare = totalShipping > 0
+        ? moving.reduce((sum, l) => sum + lineShipping(l), 0) / totalShipping
+        : valueShare;
+
+      const before = amountsOf(order);
+      const subtotal = round2(before.subtotal * valueShare);
+      const shipping = round2(before.shipping_amount * shippingShare);
+      const tax = round2(before.tax_amount * valueShare);
+      const discount = round2(before.discount_amount * valueShare);
+      const moved: MovedAmounts = {
+        subtotal,
+        shipping_amount: shipping,
+        tax_amount: tax,
+        discount_amount: discount,
+        total: round2(subtotal + shipping + tax - discount),
+      };
+      const movedQuantity = moving.reduce((sum, l) => sum + l.quantity, 0);
+      const now = new Date();
+
+      const child = await tx.orders.create({
+        data: {
+          ...carriedFields(order),
+          subtotal: moved.subtotal,
+          shipping_amount: moved.shipping_amount,
+          tax_amount: moved.tax_amount,
+          discount_amount: moved.discount_amount,
+          total: moved.total,
+          quantity: movedQuantity,
+          shipping_method: shippingMethodOf(moving),
+          notes: `Split from order #${orderId}`,
+          created_at: now,
+          updated_at: now,
+          created_by: actor.userId,
+        },
+      });
+      await moveLines(tx, itemIds, orderId, child.id);
+
+      const parent = await tx.orders.update({
+        where: { id: orderId },
+        data: {
+          subtotal: round2(before.subtotal - moved.subtotal),
+          shipping_amount: round2(before.shipping_amount - moved.shipping_amount),
+          tax_amount: round2(before.tax_amount - moved.tax_amount),
+          discount_amount: round2(before.discount_amount - moved.discount_amount),
+          total: round2(before.total - moved.total),
+          quantity: Math.max(0, order.quantity - movedQuantity),
+          shipping_method: shippingMethodOf(remaining),
+          notes: appendNote(order.notes, `Split into order #${child.id}`),
+          updated_at: now,
+          updated_by: actor.userId,
+        },
+      });
+
+      // The new order starts with the original's customer timeline
+      const timeline = await tx.order_tracking.findMany({ where: { r_order_id: orderId }, orderBy: { id: "asc" } });
+      if (timeline.length) {
+        await tx.order_tracking.createMany({
+          data: timeline.map((t) => ({ r_order_id: child.id, r_status_id: t.r_status_id, track_date: t.track_date })),
+        });
+      }
+      // Status follows the lines each order ended up with
+      await deriveOrderStatusFromItems(orderId, tx);
+      await deriveOrderStatusFromItems(child.id, tx);
+      await syncCustomerStatus(orderId, tx);
+      await syncCustomerStatus(child.id, tx);
+
+      const link = await createLink(tx, {
+        action: "split",
+        sourceOrderId: orderId,
+        targetOrderId: child.id,
+        itemIds,
+        moved,
+        note,
+        actor,
+      });
+
+      return {
+        link_id: link.id,
+        order_id: child.id,
+        item_ids: itemIds,
+        moved,
+        source: summary(parent),
+        target: summary(child),
+        userId: order.r_user_id,
+      };
+    },
+    { timeout: 15_000 }
+  );
+
+  const { userId, ...split } = result;
+  if (input.notifyCustomer !== false) {
+    await notifyOrderCustomer({
+      userId,
+      orderId: split.order_id,
+      template: "order_split",
+      values: {
+        order_id: orderId,
+        item_count: split.item_ids.length,
+        new_order_id: split.order_id,
+        new_total: split.target.total.toFixed(2),
+      },
+      details: { source_order_id: orderId, order_link_id: split.link_id },
+    });
+  }
+  return split;
+}
+
+export interface OrderMergeResult {
+  link_id: number;
+  item_ids: number[];
+  moved: MovedAmounts;
+  source: OrderTotalsSummary;
+  target: OrderTotalsSummary;
+}
+
+/** Move every line of `sourceOrderId` into `targetOrderId` and close the source */
+export async function mergeOrders(input: {
+  targetOrderId: number;
+  sourceOrderId: number;
+  actor: WorkflowActor;
+  note?: string | null;
+  notifyCustomer?: boolean;
+}): Promise<OrderMergeResult> {
+  const { targetOrderId, sourceOrderId, actor } = input;
+  const note = input.note?.trim() || null;
+  if (targetOrderId === sourceOrderId) throw new OrderSplitMergeError("An order cannot be merged into itself");
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      await lockOrders(tx, [targetOrderId, sourceOrderId]);
+      const [target, source] = await Promise.all([
+        tx.orders.findUnique({ where: { id: targetOrderId } }),
+        tx.orders.findUnique({ where: { id: sourceOrderId } }),
+      ]);
+      if (!target) throw new OrderSplitMergeError("Order not found", 404);
+      if (!source) throw new OrderSplitMergeError(`Order #${sourceOrderId} not found`, 404);
+
+      const [lines, refunds] = await Promise.all([
+        tx.order_products.findMany({ where: { r_order_id: sourceOrderId } }),
+        tx.cms_order_refunds.count({ where: { order_id: sourceOrderId } }),
+      ]);
+      const blockers = mergeBlockers(target, source, refunds, lines.length);
+      if (blockers.length) throw new OrderSplitMergeError(blockers.join("; "), 409);
+
+      const itemIds = lines.map((l) => l.id);
+      const moved = amountsOf(source);
+      const now = new Date();
+      await moveLines(tx, itemIds, sourceOrderId, targetOrderId);
+      await tx.coupon_usage.updateMany({
+        where: { order_id: sourceOrderId },
+        data: { order_id: targetOrderId },
+      });
+
+      const targetLines = await tx.order_products.findMany({
+        where: { r_order_id: targetOrderId },
+        select: { shipping_method: true },
+      });
+      const before = amountsOf(target);
+      const merged = await tx.orders.update({
+        where: { id: targetOrderId },
+        data: {
+          subtotal: round2(before.subtotal + moved.subtotal),
+          shipping_amount: round2(before.shipping_amount + moved.shipping_amount),
+          tax_amount: round2(before.tax_amount + moved.tax_amount),
+          discount_amount: round2(before.discount_amount + moved.discount_amount),
+          total: round2(before.total + moved.total),
+          quantity: target.quantity + source.quantity,
+          shipping_method: shippingMethodOf(targetLines),
+          coupon_code: target.coupon_code ?? source.coupon_code,
+          notes: appendNote(target.notes, `Merged from order #${sourceOrderId}`),
+          updated_at: now,
+          updated_by: actor.userId,
+        },
+      });
+      const emptied = await tx.orders.update({
+        where: { id: sourceOrderId },
+        data: {
+          subtotal: 0,
+          shipping_amount: 0,
+          tax_amount: 0,
+          discount_amount: 0,
+          total: 0,
+          quantity: 0,
+          status: MERGED_ORDER_STATUS,
+          notes: appendNote(source.notes, `Merged into order #${targetOrderId}`),
+          updated_at: now,
+          updated_by: actor.userId,
+        },
+      });
+
+      await recordCustomerStatus(sourceOrderId, "cancelled", tx);
+      await deriveOrderStatusFromItems(targetOrderId, tx);
+      await syncCustomerStatus(targetOrderId, tx);
+
+      const link = await createLink(tx, {
+        action: "merge",
+        sourceOrderId,
+        targetOrderId,
+        itemIds,
+        moved,
+        note,
+        actor,
+      });
+
+      return {
+        link_id: link.id,
+        item_ids: itemIds,
+        moved,
+        source: summary(emptied),
+        target: summary(merged),
+        userId: target.r_user_id,
+      };
+    },
+    { timeout: 15_000 }
+  );
+
+  const { userId, ...merge } = result;
+  if (input.notifyCustomer !== false) {
+    await notifyOrderCustomer({
+      userId,
+      orderId: targetOrderId,
+      template: "order_merged",
+      values: { merged_order_id: sourceOrderId, new_total: merge.target.total.toFixed(2) },
+      details: { source_order_id: sourceOrderId, order_link_id: merge.link_id },
+    });
+  }
+  return merge;
+}
+
+export interface MergeCandidate {
+  id: number;
+  created_at: Date;
+  total: number;
+  quantity: number;
+  item_count: number;
+  is_paid: boolean;
+  shipping_method: string | null;
+  /** Empty when the order can be merged into the current one */
+  blockers: string[];
+}
+
+const CANDIDATE_LIMIT = 20;
+
+/** The customer's other open orders, each with the reasons it cannot be merged (if any) */
+export async function listMergeCandidates(orderId: number): Promise<MergeCandidate[]> {
+  const target = await prisma.orders.findUnique({ where: { id: orderId } });
+  if (!target) throw new OrderSplitMergeError("Order not found", 404);
+
+  const orders = await prisma.orders.findMany({
+    where: {
+      r_user_id: target.r_user_id,
+      id: { not: orderId },
+      status: { notIn: Object.keys(CLOSED_ORDER_STATUSES).map(Number) },
+    },
+    orderBy: { id: "desc" },
+    take: CANDIDATE_LIMIT,
+  });
+  if (!orders.length) return [];
+
+  const ids = orders.map((o) => o.id);
+  const [itemCounts, refundCounts] = await Promise.all([
+    prisma.order_products.groupBy({ by: ["r_order_id"], where: { r_order_id: { in: ids } }, _count: { _all: true } }),
+    prisma.cms_order_refunds.groupBy({ by: ["order_id"], where: { order_id: { in: ids } }, _count: { _all: true } }),
+  ]);
+  const items = new Map(itemCounts.map((c) => [c.r_order_id, c._count._all]));
+  const refunds = new Map(refundCounts.map((c) => [c.order_id, c._count._all]));
+
+  return orders.map((o) => ({
+    id: o.id,
+    created_at: o.created_at,
+    total: round2(o.total),
+    quantity: o.quantity,
+    item_count: items.get(o.id) ?? 0,
+    is_paid: o.is_paid === 1,
+    shipping_method: o.shipping_method,
+    blockers: mergeBlockers(target, o, refunds.get(o.id) ?? 0, items.get(o.id) ?? 0),
+  }));
+}
+
+export interface OrderLinkEntry {
+  id: number;
+  action: OrderLinkAction;
+  /** How the related order relates to this one */
+  direction: "split_from" | "split_into" | "merged_from" | "merged_into";
+  related_order_id: number;
+  item_ids: number[];
+  moved: MovedAmounts;
+  /** Invoices and credit notes issued on the related order */
+  related_invoices: { id: number; invoice_number: string; type: string; status: string }[];
+  note: string | null;
+  created_by: { id: number; name: string } | null;
+  created_at: Date;
+}
+
+const parseIds = (value: string): number[] => {
+  try {
+    const ids = JSON.parse(value);
+    return Array.isArray(ids) ? ids.map(Number) : [];
+  } catch {
+    return [];
+  }
+};
+
+/** Splits and merges this order took part in, newest first */
+export async function listOrderLinks(orderId: number): Promise<OrderLinkEntry[]> {
+  const rows = await prisma.cms_order_links.findMany({
+    where: { OR: [{ source_order_id: orderId }, { target_order_id: orderId }] },
+    orderBy: { id: "desc" },
+  });
+  if (!rows.length) return [];
+
+  const relatedIds = [
+    ...new Set(rows.map((r) => (r.source_order_id === orderId ? r.target_order_id : r.source_order_id))),
+  ];
+  const userIds = [...new Set(rows.map((r) => r.created_by).filter((id): id is number => id !== null))];
+  const [invoices, users] = await Promise.all([
+    prisma.invoices.findMany({
+      where: { order_id: { in: relatedIds } },
+      select: { id: true, order_id: true, invoice_number: true, type: true, status: true },
+      orderBy: { id: "asc" },
+    }),
+    userIds.length
+      ? prisma.ag_users.findMany({
+          where: { user_id: { in: userIds } },
+          select: { user_id: true, user_name: true, first_name: true, last_name: true },
+        })
+      : [],
+  ]);
+  const userMap = new Map(
+    users.map((u) => [u.user_id, [u.first_name, u.last_name].filter(Boolean).join(" ") || u.user_name])
+  );
+
+  return rows.map((r) => {
+    const isSource = r.source_order_id === orderId;
+    const relatedId = isSource ? r.target_order_id : r.source_order_id;
+    const direction =
+      r.action === "split" ? (isSource ? "split_into" : "split_from") : isSource ? "merged_into" : "merged_from";
+    return {
+      id: r.id,
+      action: r.action,
+      direction,
+      related_order_id: relatedId,
+      item_ids: parseIds(r.order_product_ids),
+      moved: {
+        subtotal: Number(r.subtotal),
+        shipping_amount: Number(r.shipping_amount),
+        tax_amount: Number(r.tax_amount),
+        discount_amount: Number(r.discount_amount),
+        total: Number(r.total),
+      },
+      related_invoices: invoices
+        .filter((inv) => inv.order_id === relatedId)
+        .map(({ id, invoice_number, type, status }) => ({ id, invoice_number, type, status })),
+      note: r.note,
+      created_by: r.created_by ? { id: r.created_by, name: userMap.get(r.created_by) ?? `User #${r.created_by}` } : null,
+      created_at: r.created_at,
+    };
+  });
+}
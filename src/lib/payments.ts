@@ -0,0 +1,518 @@
+import type { Prisma, payment_transactions } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { WorkflowActor } from "./workflow";
+
+/**
+ * Payment reconciliation — `payment_transactions` (one row per gateway
+ * attempt, Whish Money and others) checked against the orders they pay.
+ *
+ * A transaction pays either the order itself or its shipping. It pays the
+ * shipping when its `external_id` is the order's `shipping_payment_id`,
+ * or when its checkout data says so. Flags are computed live:
+ *
+ *   - paid_order_unpaid: a paid transaction whose order is not marked paid
+ *     (`is_paid`, or `shipping_status = 2` for shipping)
+ *   - paid_not_processed: a paid transaction whose callback was never applied
+ *   - callback_amount_mismatch: a processed callback reporting another amount
+ *   - no_order: the transaction is not linked to an existing order
+ *   - duplicate_payment: more than one paid transaction for the same order
+ *     and purpose
+ *
+ * Admins reconcile a transaction by marking it paid (which also marks the
+ * order), marking it failed, linking it to an order, or acknowledging its
+ * flags. Each action writes a `cms_payment_reconciliations` row with the
+ * flags and the before / after state. An acknowledgement hides the flags
+ * it covered until a new flag appears.
+ */
+
+/** Request-level failure (bad input, transaction or order not found) */
+export class PaymentReconcileError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PaymentReconcileError";
+    this.status = status;
+  }
+}
+
+/** Gateway statuses that mean the money was collected */
+export const PAID_TRANSACTION_STATUSES = ["success", "completed", "paid"];
+
+export type PaymentFlag =
+  | "paid_order_unpaid"
+  | "paid_not_processed"
+  | "callback_amount_mismatch"
+  | "no_order"
+  | "duplicate_payment";
+
+export const PAYMENT_FLAG_LABELS: Record<PaymentFlag, string> = {
+  paid_order_unpaid: "Paid, but the order is not marked paid",
+  paid_not_processed: "Paid, but the callback was never processed",
+  callback_amount_mismatch: "Callback amount differs from the transaction",
+  no_order: "Not linked to an order",
+  duplicate_payment: "Another paid transaction covers the same order",
+};
+
+export type PaymentPurpose = "order" | "shipping";
+
+export type ReconcileAction = "mark_paid" | "mark_failed" | "link_order" | "acknowledge";
+
+export const RECONCILE_ACTIONS: ReconcileAction[] = ["mark_paid", "mark_failed", "link_order", "acknowledge"];
+
+const ORDER_PAYMENT_SELECT = {
+  id: true,
+  r_user_id: true,
+  is_paid: true,
+  shipping_status: true,
+  payment_id: true,
+  shipping_payment_id: true,
+  total: true,
+  shipping_amount: true,
+} satisfies Prisma.ordersSelect;
+
+type OrderPaymentState = Prisma.ordersGetPayload<{ select: typeof ORDER_PAYMENT_SELECT }>;
+
+type TransactionRow = Pick<
+  payment_transactions,
+  "id" | "order_id" | "external_id" | "status" | "amount" | "is_processed" | "callback_data" | "checkout_data"
+>;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const isPaidStatus = (status: string) => PAID_TRANSACTION_STATUSES.includes(status.toLowerCase());
+
+function parseJson(value: string | null): unknown {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+const AMOUNT_KEYS = ["amount", "collect_amount", "collectAmount", "paid_amount", "total"];
+
+/**
+ * Amount reported by a gateway callback, if it carries one. Callbacks are
+ * stored as JSON or as a query string. The amount is looked for under the
+ * usual keys at the top level or inside `data`.
+ */
+export function callbackAmount(callbackData: string | null): number | null {
+  if (!callbackData) return null;
+  const parsed = parseJson(callbackData);
+  const sources: Record<string, unknown>[] = [];
+  if (parsed && typeof parsed === "object") {
+    const root = parsed as Record<string, unknown>;
+    sources.push(root);
+    if (root.data && typeof root.data === "object") sources.push(root.data as Record<string, unknown>);
+  } else if (callbackData.includes("=")) {
+    sources.push(Object.fromEntries(new URLSearchParams(callbackData)));
+  }
+  for (const source of sources) {
+    for (const key of AMOUNT_KEYS) {
+      const value = Number(source[key]);
+      if (source[key] !== undefined && source[key] !== "" && Number.isFinite(value)) return value;
+    }
+  }
+  return null;
+}
+
+/** Whether a transaction pays the order or its shipping */
+export function transactionPurpose(
+  txn: Pick<TransactionRow, "external_id" | "checkout_data">,
+  order: Pick<OrderPaymentState, "shipping_payment_id"> | null
+): PaymentPurpose {
+  if (order?.shipping_payment_id && order.shipping_payment_id === txn.external_id) return "shipping";
+  const checkout = parseJson(txn.checkout_data) as Record<string, unknown> | null;
+  const declared = checkout?.type ?? checkout?.payment_for ?? checkout?.purpose;
+  return declared === "shipping" ? "shipping" : "order";
+}
+
+function orderIsPaid(order: OrderPaymentState, purpose: PaymentPurpose) {
+  return purpose === "shipping" ? order.shipping_status === 2 : order.is_paid === 1;
+}
+
+interface FlagContext {
+  orders: Map<number, OrderPaymentState>;
+  /** `${order_id}:${purpose}` → IDs of paid transactions */
+  paidByOrder: Map<string, number[]>;
+  /** transaction ID → flags covered by its latest acknowledgement */
+  acknowledged: Map<number, PaymentFlag[]>;
+}
+
+async function loadFlagContext(db: Prisma.TransactionClient, txns: TransactionRow[]): Promise<FlagContext> {
+  const orderIds = [...new Set(txns.map((t) => t.order_id).filter((id): id is number => id !== null))];
+  const [orders, paidSiblings, acks] = await Promise.all([
+    orderIds.length
+      ? db.orders.findMany({ where: { id: { in: orderIds } }, select: ORDER_PAYMENT_SELECT })
+      : [],
+    orderIds.length
+      ? db.payment_transactions.findMany({
+          where: { order_id: { in: orderIds }, status: { in: PAID_TRANSACTION_STATUSES } },
+          select: { id: true, order_id: true, external_id: true, checkout_data: true },
+        })
+      : [],
+    txns.length
+      ? db.cms_payment_reconciliations.findMany({
+          where: { transaction_id: { in: txns.map((t) => t.id) }, action: "acknowledge" },
+          orderBy: { id: "desc" },
+          select: { transaction_id: true, flags: true },
+        })
+      : [],
+  ]);
+
+  const orderMap = new Map(orders.map((o) => [o.id, o]));
+  const paidByOrder = new Map<string, number[]>();
+  for (const sibling of paidSiblings) {
+    const key = `${sibling.order_id}:${transactionPurpose(sibling, orderMap.get(sibling.order_id!) ?? null)}`;
+    paidByOrder.set(key, [...(paidByOrder.get(key) || []), sibling.id]);
+  }
+  const acknowledged = new Map<number, PaymentFlag[]>();
+  for (const ack of acks) {
+    if (!acknowledged.has(ack.transaction_id)) {
+      acknowledged.set(ack.transaction_id, (parseJson(ack.flags) as PaymentFlag[] | null) || []);
+    }
+  }
+  return { orders: orderMap, paidByOrder, acknowledged };
+}
+
+function computeFlags(txn: TransactionRow, ctx: FlagContext): PaymentFlag[] {
+  const flags: PaymentFlag[] = [];
+  const order = txn.order_id ? ctx.orders.get(txn.order_id) ?? null : null;
+  const purpose = transactionPurpose(txn, order);
+  const paid = isPaidStatus(txn.status);
+
+  if (!order) flags.push("no_order");
+  if (paid && order && !orderIsPaid(order, purpose)) flags.push("paid_order_unpaid");
+  if (paid && !txn.is_processed) flags.push("paid_not_processed");
+  const reported = txn.is_processed ? callbackAmount(txn.callback_data) : null;
+  if (reported !== null && Math.abs(reported - Number(txn.amount)) >= 0.01) flags.push("callback_amount_mismatch");
+  if (paid && order && (ctx.paidByOrder.get(`${order.id}:${purpose}`)?.length ?? 0) > 1) {
+    flags.push("duplicate_payment");
+  }
+  return flags;
+}
+
+export interface PaymentTransactionRow {
+  id: number;
+  external_id: string;
+  gateway: string;
+  currency: string;
+  amount: number;
+  status: string;
+  is_processed: boolean;
+  processed_at: Date | null;
+  created_at: Date;
+  user_id: number;
+  order_id: number | null;
+  invoice: string | null;
+  purpose: PaymentPurpose;
+  order: { id: number; is_paid: boolean; shipping_status: number; total: number } | null;
+  callback_amount: number | null;
+  flags: PaymentFlag[];
+  /** True when every current flag was acknowledged by an admin */
+  acknowledged: boolean;
+}
+
+function toRow(txn: payment_transactions, ctx: FlagContext): PaymentTransactionRow {
+  const order = txn.order_id ? ctx.orders.get(txn.order_id) ?? null : null;
+  const flags = computeFlags(txn, ctx);
+  const acked = ctx.acknowledged.get(txn.id) || [];
+  return {
+    id: txn.id,
+    external_id: txn.external_id,
+    gateway: txn.gateway,
+    currency: txn.currency,
+    amount: Number(txn.amount),
+    status: txn.status,
+    is_processed: txn.is_processed,
+    processed_at: txn.processed_at,
+    created_at: txn.created_at,
+    user_id: txn.user_id,
+    order_id: txn.order_id,
+    invoice: txn.invoice,
+    purpose: transactionPurpose(txn, order),
+    order: order
+      ? { id: order.id, is_paid: order.is_paid === 1, shipping_status: order.shipping_status, total: round2(order.total) }
+      : null,
+    callback_amount: callbackAmount(txn.callback_data),
+    flags,
+    acknowledged: flags.length > 0 && flags.every((f) => acked.includes(f)),
+  };
+}
+
+export interface PaymentFilters {
+  gateway?: string | null;
+  status?: string | null;
+  dateFrom?: string | null;
+  dateTo?: string | null;
+  /** External ID fragment, or a transaction / order ID */
+  search?: string | null;
+  /** Only transactions with unacknowledged flags */
+  flagged?: boolean;
+  page: number;
+  limit: number;
+}
+
+/** How many recent transactions the `flagged` filter checks */
+const FLAG_SCAN_LIMIT = 5000;
+
+function buildWhere(filters: PaymentFilters): Prisma.payment_transactionsWhereInput {
+  const where: Prisma.payment_transactionsWhereInput = {};
+  if (filters.gateway) where.gateway = filters.gateway;
+  if (filters.status) where.status = filters.status;
+  if (filters.dateFrom || filters.dateTo) {
+    const created: Prisma.DateTimeFilter = {};
+    if (filters.dateFrom) created.gte = new Date(filters.dateFrom);
+    if (filters.dateTo) {
+      const end = new Date(filters.dateTo);
+      end.setHours(23, 59, 59, 999);
+      created.lte = end;
+    }
+    where.created_at = created;
+  }
+  const search = filters.search?.trim();
+  if (search) {
+    const numeric = /^\d+$/.test(search) ? Number(search) : null;
+    where.OR = [
+      { external_id: { contains: search } },
+      ...(numeric ? [{ id: numeric }, { order_id: numeric }] : []),
+    ];
+  }
+  return where;
+}
+
+/**
+ * Transactions matching the filters, newest first. With `flagged`, the
+ * most recent FLAG_SCAN_LIMIT matches are checked and the flagged ones
+ * paginated.
+ */
+export async function listPaymentTransactions(filters: PaymentFilters) {
+  const where = buildWhere(filters);
+  const skip = (filters.page - 1) * filters.limit;
+
+  let rows: PaymentTransactionRow[];
+  let totalCount: number;
+  if (filters.flagged) {
+    const scanned = await prisma.payment_transactions.findMany({
+      where,
+      orderBy: { id: "desc" },
+      take: FLAG_SCAN_LIMIT,
+    });
+    const ctx = await loadFlagContext(prisma, scanned);
+    const flagged = scanned.map((t) => toRow(t, ctx)).filter((r) => r.flags.length > 0 && !r.acknowledged);
+    totalCount = flagged.length;
+    rows = flagged.slice(skip, skip + filters.limit);
+  } else {
+    const [page, count] = await Promise.all([
+      prisma.payment_transactions.findMany({ where, orderBy: { id: "desc" }, skip, take: filters.limit }),
+      prisma.payment_transactions.count({ where }),
+    ]);
+    const ctx = await loadFlagContext(prisma, page);
+    rows = page.map((t) => toRow(t, ctx));
+    totalCount = count;
+  }
+
+  const [gateways, statuses] = await Promise.all([
+    prisma.payment_transactions.groupBy({ by: ["gateway"], orderBy: { gateway: "asc" } }),
+    prisma.payment_transactions.groupBy({ by: ["status"], orderBy: { status: "asc" } }),
+  ]);
+
+  return {
+    transactions: rows,
+    pagination: {
+      page: filters.page,
+      limit: filters.limit,
+      totalCount,
+      totalPages: Math.ceil(totalCount / filters.limit),
+    },
+    gateways: gateways.map((g) => g.gateway),
+    statuses: statuses.map((s) => s.status),
+  };
+}
+
+export interface ReconciliationEntry {
+  id: number;
+  action: ReconcileAction;
+  order_id: number | null;
+  flags: PaymentFlag[];
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  note: string | null;
+  created_by: { id: number; name: string } | null;
+  created_at: Date;
+}
+
+async function listReconciliations(transactionId: number): Promise<ReconciliationEntry[]> {
+  const rows = await prisma.cms_payment_reconciliations.findMany({
+    where: { transaction_id: transactionId },
+    orderBy: { id: "desc" },
+  });
+  const userIds = [...new Set(rows.map((r) => r.created_by).filter((id): id is number => id !== null))];
+  const users = userIds.length
+    ? await prisma.ag_users.findMany({
+        where: { user_id: { in: userIds } },
+        select: { user_id: true, user_name: true, first_name: true, last_name: true },
+      })
+    : [];
+  const userMap = new Map(
+    users.map((u) => [u.user_id, [u.first_name, u.last_name].filter(Boolean).join(" ") || u.user_name])
+  );
+
+  return rows.map((r) => ({
+    id: r.id,
+    action: r.action,
+    order_id: r.order_id,
+    flags: (parseJson(r.flags) as PaymentFlag[] | null) || [],
+    before: parseJson(r.before_state) as Record<string, unknown> | null,
+    after: parseJson(r.after_state) as Record<string, unknown> | null,
+    note: r.note,
+    created_by: r.created_by ? { id: r.created_by, name: userMap.get(r.created_by) ?? `User #${r.created_by}` } : null,
+    created_at: r.created_at,
+  }));
+}
+
+/** One transaction with its raw gateway payloads, its order's other transactions and the reconciliation log */
+export async function getPaymentTransaction(transactionId: number) {
+  const txn = await prisma.payment_transactions.findUnique({ where: { id: transactionId } });
+  if (!txn) throw new PaymentReconcileError("Transaction not found", 404);
+
+  const siblings = txn.order_id
+    ? await prisma.payment_transactions.findMany({
+        where: { order_id: txn.order_id, id: { not: txn.id } },
+        orderBy: { id: "desc" },
+      })
+    : [];
+  const ctx = await loadFlagContext(prisma, [txn, ...siblings]);
+
+  return {
+    transaction: {
+      ...toRow(txn, ctx),
+      collect_url: txn.collect_url,
+      checkout_data: txn.checkout_data,
+      gateway_response: txn.gateway_response,
+      callback_data: txn.callback_data,
+      updated_at: txn.updated_at,
+    },
+    order_transactions: siblings.map((s) => toRow(s, ctx)),
+    reconciliations: await listReconciliations(txn.id),
+  };
+}
+
+/** Every transaction of an order, newest first, with purpose and flags */
+export async function listOrderTransactions(orderId: number): Promise<PaymentTransactionRow[]> {
+  const txns = await prisma.payment_transactions.findMany({
+    where: { order_id: orderId },
+    orderBy: { id: "desc" },
+  });
+  const ctx = await loadFlagContext(prisma, txns);
+  return txns.map((t) => toRow(t, ctx));
+}
+
+function stateOf(txn: TransactionRow, order: OrderPaymentState | null) {
+  return {
+    status: txn.status,
+    is_processed: txn.is_processed,
+    order_id: txn.order_id,
+    order_is_paid: order ? order.is_paid : null,
+    order_shipping_status: order ? order.shipping_status : null,
+  };
+}
+
+/** Apply a manual reconciliation to a transaction and log it */
+export async function reconcileTransaction(input: {
+  transactionId: number;
+  action: ReconcileAction;
+  orderId?: number | null;
+  note: string;
+  actor: WorkflowActor;
+}) {
+  const { transactionId, action, actor } = input;
+  const note = input.note.trim();
+  if (!RECONCILE_ACTIONS.includes(action)) {
+    throw new PaymentReconcileError(`action must be one of: ${RECONCILE_ACTIONS.join(", ")}`);
+  }
+  if (!note) throw new PaymentReconcileError("A note is required for the audit trail");
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`SELECT id FROM payment_transactions WHERE id = ${transactionId} FOR UPDATE`;
+      const txn = await tx.payment_transactions.findUnique({ where: { id: transactionId } });
+      if (!txn) throw new PaymentReconcileError("Transaction not found", 404);
+      if (txn.order_id) {
+        await tx.$queryRaw`SELECT id FROM orders WHERE id = ${txn.order_id} FOR UPDATE`;
+      }
+
+      const ctx = await loadFlagContext(tx, [txn]);
+      const flags = computeFlags(txn, ctx);
+      const order = txn.order_id ? ctx.orders.get(txn.order_id) ?? null : null;
+      const before = stateOf(txn, order);
+      const now = new Date();
+      let after = before;
+      let linkedOrderId = txn.order_id;
+
+      if (action === "mark_paid") {
+        if (!order) throw new PaymentReconcileError("Link the transaction to an order first", 409);
+        const purpose = transactionPurpose(txn, order);
+        const updatedTxn = await tx.payment_transactions.update({
+          where: { id: txn.id },
+          data: {
+            status: isPaidStatus(txn.status) ? txn.status : "success",
+            is_processed: true,
+            processed_at: txn.processed_at ?? now,
+            updated_at: now,
+          },
+        });
+        const updatedOrder = await tx.orders.update({
+          where: { id: order.id },
+          data:
+            purpose === "shipping"
+              ? { shipping_status: 2, shipping_payment_id: order.shipping_payment_id || txn.external_id, updated_at: now }
+              : { is_paid: 1, payment_id: order.payment_id || txn.external_id, updated_at: now },
+          select: ORDER_PAYMENT_SELECT,
+        });
+        after = stateOf(updatedTxn, updatedOrder);
+      } else if (action === "mark_failed") {
+        const updatedTxn = await tx.payment_transactions.update({
+          where: { id: txn.id },
+          data: { status: "failed", is_processed: true, processed_at: txn.processed_at ?? now, updated_at: now },
+        });
+        after = stateOf(updatedTxn, order);
+      } else if (action === "link_order") {
+        const targetId = Number(input.orderId);
+        if (!Number.isInteger(targetId) || targetId <= 0) throw new PaymentReconcileError("order_id is required");
+        if (targetId === txn.order_id) throw new PaymentReconcileError("Transaction is already linked to this order");
+        const target = await tx.orders.findUnique({ where: { id: targetId }, select: ORDER_PAYMENT_SELECT });
+        if (!target) throw new PaymentReconcileError(`Order #${targetId} not found`, 404);
+        if (target.r_user_id !== txn.user_id) {
+          throw new PaymentReconcileError(`Order #${targetId} belongs to another customer`, 409);
+        }
+        const updatedTxn = await tx.payment_transactions.update({
+          where: { id: txn.id },
+          data: { order_id: targetId, updated_at: now },
+        });
+        linkedOrderId = targetId;
+        after = stateOf(updatedTxn, target);
+      } else if (!flags.length) {
+        throw new PaymentReconcileError("This transaction has no flags to acknowledge", 409);
+      }
+
+      await tx.cms_payment_reconciliations.create({
+        data: {
+          transaction_id: txn.id,
+          order_id: linkedOrderId,
+          action,
+          flags: JSON.stringify(flags),
+          before_state: JSON.stringify(before),
+          after_state: JSON.stringify(after),
+          note,
+          created_by: actor.userId,
+        },
+      });
+    },
+    { timeout: 15_000 }
+  );
+
+  return getPaymentTransaction(transactionId);
+}
@@ -0,0 +1,326 @@
+import { toSVG } from "bwip-js/node";
+import { prisma } from "./prisma";
+
+/**
+ * Printable warehouse documents — item labels and packing slips.
+ *
+ * Everything renders to a self-contained HTML page with inline SVG
+ * barcodes, sized with CSS @page so the browser's print dialog produces
+ * the right paper size (and "Save as PDF" gives a PDF). Server-only:
+ * bwip-js renders the barcodes and items are loaded through Prisma.
+ *
+ * Item labels encode `ITEM-<order_products.id>`, which is what the scan
+ * station (/api/scan-station) resolves.
+ */
+
+export const ITEM_CODE_PREFIX = "ITEM-";
+
+export type Symbology = "code128" | "qrcode";
+export type LabelLayout = "thermal" | "a4";
+
+export const SYMBOLOGIES: Symbology[] = ["code128", "qrcode"];
+export const LABEL_LAYOUTS: LabelLayout[] = ["thermal", "a4"];
+
+/** Upper bound for one print job — keeps the HTML a browser can lay out */
+export const MAX_PRINT_ITEMS = 500;
+
+export interface PrintableItem {
+  id: number;
+  order_id: number;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  shipping_method: string | null;
+  tracking_number: string | null;
+}
+
+export interface PackingSlipOrder {
+  id: number;
+  customer_name: string;
+  phone: string;
+  city: string;
+  country: string;
+  items: PrintableItem[];
+}
+
+export interface PackingSlip {
+  reference: string;
+  title: string;
+  /** Extra header lines, e.g. carrier and departure for a shipment */
+  details?: { label: string; value: string }[];
+  orders: PackingSlipOrder[];
+}
+
+export const itemCode = (id: number) => `${ITEM_CODE_PREFIX}${id}`;
+
+export function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/** Parse "1,2,3" into unique positive ids */
+export function parseIdList(raw: string | null): number[] {
+  if (!raw) return [];
+  return [
+    ...new Set(
+      raw
+        .split(",")
+        .map((s) => Number(s.trim()))
+        .filter((n) => Number.isInteger(n) && n > 0)
+    ),
+  ];
+}
+
+export function barcodeSvg(text: string, symbology: Symbology = "code128"): string {
+  if (symbology === "qrcode") {
+    return toSVG({ bcid: "qrcode", text });
+  }
+  return toSVG({ bcid: "code128", text, height: 10 });
+}
+
+/** Printable HTML page; opens the print dialog on load unless `autoPrint` is false */
+export function htmlDocument(
+  title: string,
+  pageCss: string,
+  body: string,
+  options: { autoPrint?: boolean } = {}
+): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, "Segoe UI", Roboto, Arial, sans-serif; color: #000; }
+  .barcode svg { display: block; width: 100%; height: 100%; }
+  .mono { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  .muted { color: #555; }
+  ${pageCss}
+  @media screen { body { background: #eee; } .page { background: #fff; margin: 12px auto; box-shadow: 0 1px 4px rgba(0,0,0,.2); } }
+</style>
+</head>
+<body>
+${body}
+${options.autoPrint === false ? "" : `<script>window.addEventListener("load", function () { window.print(); });</script>`}
+</body>
+</html>`;
+}
+
+// ── Item labels ───────────────────────────────────────────────────────
+
+const LABEL_CSS: Record<LabelLayout, string> = {
+  // One 100 × 50 mm label per page, for thermal label printers
+  thermal: `
+  @page { size: 100mm 50mm; margin: 0; }
+  .page { width: 100mm; height: 50mm; page-break-after: always; overflow: hidden; }
+  .label { width: 100mm; height: 50mm; }`,
+  // 3 × 8 grid of 70 × 37 mm labels on A4 sticker sheets
+  a4: `
+  @page { size: A4; margin: 0; }
+  .page { width: 210mm; height: 297mm; padding: 0.5mm 0; display: grid; grid-template-columns: repeat(3, 70mm); grid-auto-rows: 37mm; page-break-after: always; }
+  .label { width: 70mm; height: 37mm; font-size: 0.85em; }`,
+};
+const LABELS_PER_PAGE: Record<LabelLayout, number> = { thermal: 1, a4: 24 };
+
+const LABEL_BASE_CSS = `
+  .label { padding: 2.5mm 3mm; display: flex; gap: 2mm; overflow: hidden; }
+  .label .info { flex: 1; min-width: 0; display: flex; flex-direction: column; font-size: 8pt; line-height: 1.25; }
+  .label .code { font-size: 11pt; font-weight: 700; }
+  .label .name { overflow: hidden; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; }
+  .label .variation { overflow: hidden; white-space: nowrap; text-overflow: ellipsis; }
+  .label .barcode { margin-top: auto; height: 12mm; }
+  .label.qrcode .barcode { margin: 0; width: 30mm; height: 30mm; flex-shrink: 0; }`;
+
+function renderLabel(item: PrintableItem, symbology: Symbology): string {
+  const code = itemCode(item.id);
+  const barcode = `<div class="barcode">${barcodeSvg(code, symbology)}</div>`;
+  return `<div class="label ${symbology}">
+  ${symbology === "qrcode" ? barcode : ""}
+  <div class="info">
+    <div class="code mono">${escapeHtml(code)}</div>
+    <div>Order <b>#${escapeHtml(item.order_id)}</b> · Qty <b>${escapeHtml(item.quantity)}</b>${item.shipping_method ? ` · ${escapeHtml(item.shipping_method.toUpperCase())}` : ""}</div>
+    <div class="name">${escapeHtml(item.product_name)}</div>
+    ${item.variation_name ? `<div class="variation muted">${escapeHtml(item.variation_name)}</div>` : ""}
+    ${symbology === "code128" ? barcode : ""}
+  </div>
+</div>`;
+}
+
+export function renderItemLabels(
+  items: PrintableItem[],
+  options: { symbology?: Symbology; layout?: LabelLayout } = {}
+): string {
+  const symbology = options.symbology ?? "code128";
+  const layout = options.layout ?? "thermal";
+  const perPage = LABELS_PER_PAGE[layout];
+
+  const pages: string[] = [];
+  for (let i = 0; i < items.length; i += perPage) {
+    const labels = items.slice(i, i + perPage).map((item) => renderLabel(item, symbology));
+    pages.push(`<div class="page">${labels.join("")}</div>`);
+  }
+
+  return htmlDocument(
+    `Item labels (${items.length})`,
+    LABEL_CSS[layout] + LABEL_BASE_CSS,
+    pages.join("\n")
+  );
+}
+
+// ── Packing slips ─────────────────────────────────────────────────────
+
+const SLIP_CSS = `
+  @page { size: A4; margin: 12mm; }
+  .page { width: 186mm; min-height: 273mm; font-size: 9pt; }
+  @media screen { .page { padding: 12mm; width: 210mm; } }
+  header { display: flex; justify-content: space-between; align-items: flex-start; gap: 8mm; border-bottom: 2px solid #000; padding-bottom: 4mm; margin-bottom: 4mm; }
+  header h1 { margin: 0 0 1mm; font-size: 16pt; }
+  header .barcode { width: 70mm; height: 16mm; }
+  dl { display: grid; grid-template-columns: auto 1fr; gap: 0.5mm 4mm; margin: 2mm 0 0; }
+  dt { color: #555; }
+  dd { margin: 0; font-weight: 600; }
+  section { break-inside: avoid; margin-bottom: 5mm; }
+  section h2 { font-size: 10pt; margin: 0 0 1.5mm; display: flex; justify-content: space-between; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #999; padding: 1mm 1.5mm; text-align: left; vertical-align: middle; }
+  th { background: #f0f0f0; font-size: 8pt; }
+  td.item { width: 40mm; padding: 0.5mm 1mm; }
+  td.item .barcode { height: 7mm; }
+  td.check { width: 8mm; }
+  td.num { text-align: right; width: 12mm; }
+  footer { margin-top: 8mm; display: grid; grid-template-columns: 1fr 1fr; gap: 10mm; }
+  footer div { border-top: 1px solid #000; padding-top: 1mm; }`;
+
+export function renderPackingSlip(slip: PackingSlip): string {
+  const itemCount = slip.orders.reduce((n, o) => n + o.items.length, 0);
+  const unitCount = slip.orders.reduce(
+    (n, o) => n + o.items.reduce((q, i) => q + (i.quantity || 0), 0),
+    0
+  );
+  const details = [
+    ...(slip.details ?? []),
+    { label: "Orders", value: String(slip.orders.length) },
+    { label: "Items", value: `${itemCount} (${unitCount} units)` },
+    { label: "Printed", value: new Date().toLocaleString("en-GB") },
+  ];
+
+  const sections = slip.orders.map(
+    (order) => `<section>
+  <h2><span>Order #${escapeHtml(order.id)} — ${escapeHtml(order.customer_name)}</span><span class="muted">${escapeHtml(order.city)}, ${escapeHtml(order.country)} · ${escapeHtml(order.phone)}</span></h2>
+  <table>
+    <thead><tr><th></th><th>Item</th><th>Product</th><th>Variation</th><th>Qty</th><th>Method</th><th>Tracking</th></tr></thead>
+    <tbody>
+      ${order.items
+        .map(
+          (item) => `<tr>
+        <td class="check">☐</td>
+        <td class="item"><div class="barcode">${barcodeSvg(itemCode(item.id))}</div><div class="mono">${escapeHtml(itemCode(item.id))}</div></td>
+        <td>${escapeHtml(item.product_name)}</td>
+        <td>${escapeHtml(item.variation_name || "—")}</td>
+        <td class="num">${escapeHtml(item.quantity)}</td>
+        <td>${escapeHtml(item.shipping_method?.toUpperCase() || "—")}</td>
+        <td class="mono">${escapeHtml(item.tracking_number || "—")}</td>
+      </tr>`
+        )
+        .join("")}
+    </tbody>
+  </table>
+</section>`
+  );
+
+  const body = `<div class="page">
+<header>
+  <div>
+    <h1>${escapeHtml(slip.title)}</h1>
+    <div class="mono">${escapeHtml(slip.reference)}</div>
+    <dl>${details.map((d) => `<dt>${escapeHtml(d.label)}</dt><dd>${escapeHtml(d.value)}</dd>`).join("")}</dl>
+  </div>
+  <div class="barcode">${barcodeSvg(slip.reference)}</div>
+</header>
+${sections.join("\n")}
+<footer><div>Packed by</div><div>Checked by</div></footer>
+</div>`;
+
+  return htmlDocument(`${slip.title} ${slip.reference}`, SLIP_CSS, body);
+}
+
+export const HTML_HEADERS = {
+  "Content-Type": "text/html; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+// ── Loading ───────────────────────────────────────────────────────────
+
+/**
+ * Items to print, either an explicit selection or every item of one order,
+ * in order → item id order. `truncated` is set when the selection is
+ * larger than MAX_PRINT_ITEMS.
+ */
+export async function loadPrintableItems(
+  selection: { itemIds: number[] } | { orderId: number }
+): Promise<{ items: PrintableItem[]; truncated: boolean }> {
+  const rows = await prisma.order_products.findMany({
+    where: "orderId" in selection
+      ? { r_order_id: selection.orderId }
+      : { id: { in: selection.itemIds } },
+    select: {
+      id: true,
+      r_order_id: true,
+      product_name: true,
+      variation_name: true,
+      quantity: true,
+      shipping_method: true,
+      tracking_number: true,
+    },
+    orderBy: [{ r_order_id: "asc" }, { id: "asc" }],
+    take: MAX_PRINT_ITEMS + 1,
+  });
+
+  return {
+    items: rows.slice(0, MAX_PRINT_ITEMS).map((r) => ({
+      id: r.id,
+      order_id: r.r_order_id,
+      product_name: r.product_name,
+      variation_name: r.variation_name,
+      quantity: r.quantity,
+      shipping_method: r.shipping_method,
+      tracking_number: r.tracking_number,
+    })),
+    truncated: rows.length > MAX_PRINT_ITEMS,
+  };
+}
+
+/** Group items under their orders with the shipping address a slip needs */
+export async function groupItemsByOrder(items: PrintableItem[]): Promise<PackingSlipOrder[]> {
+  const orderIds = [...new Set(items.map((i) => i.order_id))];
+  const orders = await prisma.orders.findMany({
+    where: { id: { in: orderIds } },
+    select: {
+      id: true,
+      address_first_name: true,
+      address_last_name: true,
+      address_country_code: true,
+      address_phone_number: true,
+      city: true,
+      country: true,
+    },
+  });
+  const orderMap = new Map(orders.map((o) => [o.id, o]));
+
+  return orderIds.map((id) => {
+    const o = orderMap.get(id);
+    return {
+      id,
+      customer_name: o ? `${o.address_first_name} ${o.address_last_name}`.trim() : "",
+      phone: o ? `${o.address_country_code} ${o.address_phone_number}`.trim() : "",
+      city: o?.city || "",
+      country: o?.country || "",
+      items: items.filter((i) => i.order_id === id),
+    };
+  });
+}
@@ -0,0 +1,711 @@
+import {
+  Prisma,
+  type cms_push_campaigns,
+  type cms_push_campaigns_status,
+  type cms_push_campaign_recipients_status,
+} from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Scheduled, segmented push campaigns.
+ *
+ * A campaign is a notification (subject, body, optional link/image) sent
+ * to the active customers matching an audience segment, now or at a time
+ * in a chosen timezone. The segment is resolved when the campaign starts,
+ * not when it is scheduled.
+ *
+ * `cms_push_campaign_recipients` is the send queue: starting a campaign
+ * writes one `pending` row per recipient plus the in-app `notifications`
+ * row (shared, like a broadcast) and its `users_notifications` rows. The
+ * dispatcher (/api/cron/push-campaigns) then works through the pending
+ * rows in batches, pushing to each customer's FCM token and recording
+ * `sent`, `skipped` (no token) or `failed` (after MAX_ATTEMPTS) per
+ * recipient. A lease on the campaign keeps two dispatcher runs from
+ * sending the same campaign.
+ */
+
+const BACKEND_URL =
+  process.env.NEXT_PUBLIC_BACKEND_URL || "https://cms2.devback.website";
+
+/** Request-level failure (bad input, wrong campaign state) */
+export class PushCampaignError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PushCampaignError";
+    this.status = status;
+  }
+}
+
+export const DEVICE_TYPES = ["ios", "android", "web"] as const;
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+/** Audience filters; every set filter must match. Active customers only. */
+export interface AudienceSegment {
+  device_types: DeviceType[];
+  /** `users.country_code` values */
+  countries: string[];
+  /** Logged in within the last N days */
+  last_login_within_days: number | null;
+  /** No login for at least N days (or never) */
+  inactive_for_days: number | null;
+  min_orders: number | null;
+  max_orders: number | null;
+  /** Interested in any of these categories or their subcategories (`user_interests`) */
+  interest_category_ids: number[];
+  /** Favorited a product in any of these categories or their subcategories */
+  favorite_category_ids: number[];
+}
+
+/** Pending recipients pushed per batch */
+const BATCH_SIZE = 200;
+/** Pushes in flight at once */
+const PUSH_CONCURRENCY = 10;
+/** A failed push is retried on later runs until it has failed this often */
+const MAX_ATTEMPTS = 3;
+/** How long a dispatcher run holds a campaign */
+const LEASE_MS = 2 * 60 * 1000;
+const DEFAULT_BUDGET_MS = 50_000;
+/** First dispatch pass of a "send now" campaign, inside the request */
+const SEND_NOW_BUDGET_MS = 10_000;
+
+const MAX_NAME_LENGTH = 150;
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_SEGMENT_IDS = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/* ─── Segments ─── */
+
+function idList(value: unknown, field: string): number[] {
+  if (value == null) return [];
+  if (!Array.isArray(value)) throw new PushCampaignError(`${field} must be an array`);
+  const ids = [...new Set(value.map(Number))];
+  if (ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new PushCampaignError(`${field} must contain positive integers`);
+  }
+  if (ids.length > MAX_SEGMENT_IDS) throw new PushCampaignError(`${field} can list at most ${MAX_SEGMENT_IDS} values`);
+  return ids;
+}
+
+function optionalCount(value: unknown, field: string): number | null {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new PushCampaignError(`${field} must be a whole number`);
+  return n;
+}
+
+/** Validate a segment from a request body */
+export function parseSegment(input: unknown): AudienceSegment {
+  const raw = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+
+  const deviceTypes = raw.device_types == null ? [] : raw.device_types;
+  if (!Array.isArray(deviceTypes) || deviceTypes.some((d) => !DEVICE_TYPES.includes(d))) {
+    throw new PushCampaignError(`device_types must be any of: ${DEVICE_TYPES.join(", ")}`);
+  }
+  const countries = raw.countries == null ? [] : raw.countries;
+  if (!Array.isArray(countries) || countries.some((c) => typeof c !== "string" || !c.trim())) {
+    throw new PushCampaignError("countries must be an array of country codes");
+  }
+
+  const segment: AudienceSegment = {
+    device_types: [...new Set(deviceTypes as DeviceType[])],
+    countries: [...new Set((countries as string[]).map((c) => c.trim()))].slice(0, MAX_SEGMENT_IDS),
+    last_login_within_days: optionalCount(raw.last_login_within_days, "last_login_within_days"),
+    inactive_for_days: optionalCount(raw.inactive_for_days, "inactive_for_days"),
+    min_orders: optionalCount(raw.min_orders, "min_orders"),
+    max_orders: optionalCount(raw.max_orders, "max_orders"),
+    interest_category_ids: idList(raw.interest_category_ids, "interest_category_ids"),
+    favorite_category_ids: idList(raw.favorite_category_ids, "favorite_category_ids"),
+  };
+  if (segment.min_orders !== null && segment.max_orders !== null && segment.min_orders > segment.max_orders) {
+    throw new PushCampaignError("min_orders cannot be more than max_orders");
+  }
+  return segment;
+}
+
+/** The given categories plus all their descendants */
+async function withSubcategories(ids: number[]) {
+  const all = await prisma.category.findMany({ select: { id: true, parent: true } });
+  const childrenMap = new Map<number, number[]>();
+  for (const c of all) {
+    if (c.parent == null) continue;
+    const siblings = childrenMap.get(c.parent) || [];
+    siblings.push(c.id);
+    childrenMap.set(c.parent, siblings);
+  }
+  const result = new Set(ids);
+  const frontier = [...ids];
+  while (frontier.length) {
+    for (const childId of childrenMap.get(frontier.pop()!) || []) {
+      if (!result.has(childId)) {
+        result.add(childId);
+        frontier.push(childId);
+      }
+    }
+  }
+  return [...result];
+}
+
+/** SQL condition on `users u` selecting the segment */
+async function segmentCondition(segment: AudienceSegment): Promise<Prisma.Sql> {
+  const conditions = [Prisma.sql`u.is_active = 1`];
+  const now = Date.now();
+
+  if (segment.device_types.length) {
+    conditions.push(Prisma.sql`u.device_type IN (${Prisma.join(segment.device_types)})`);
+  }
+  if (segment.countries.length) {
+    conditions.push(Prisma.sql`u.country_code IN (${Prisma.join(segment.countries)})`);
+  }
+  if (segment.last_login_within_days !== null) {
+    conditions.push(Prisma.sql`u.last_login >= ${new Date(now - segment.last_login_within_days * DAY_MS)}`);
+  }
+  if (segment.inactive_for_days !== null) {
+    const cutoff = new Date(now - segment.inactive_for_days * DAY_MS);
+    conditions.push(Prisma.sql`(u.last_login IS NULL OR u.last_login < ${cutoff})`);
+  }
+  if (segment.min_orders !== null) {
+    conditions.push(Prisma.sql`(SELECT COUNT(*) FROM orders o WHERE o.r_user_id = u.id) >= ${segment.min_orders}`);
+  }
+  if (segment.max_orders !== null) {
+    conditions.push(Prisma.sql`(SELECT COUNT(*) FROM orders o WHERE o.r_user_id = u.id) <= ${segment.max_orders}`);
+  }
+  if (segment.interest_category_ids.length) {
+    const ids = await withSubcategories(segment.interest_category_ids);
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM user_interests ui
+      WHERE ui.user_id = u.id AND ui.category_id IN (${Prisma.join(ids)}))`);
+  }
+  if (segment.favorite_category_ids.length) {
+    const ids = await withSubcategories(segment.favorite_category_ids);
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM favorite f
+      JOIN product p ON p.id = f.product_id
+      WHERE f.user_id = u.id AND p.category_id IN (${Prisma.join(ids)}))`);
+  }
+  return Prisma.join(conditions, " AND ");
+}
+
+/** Dry run: how many customers the segment reaches right now */
+export async function countAudience(segment: AudienceSegment) {
+  const where = await segmentCondition(segment);
+  const [counts, sample] = await Promise.all([
+    prisma.$queryRaw<{ recipients: bigint; with_push_token: bigint }[]>`
+      SELECT COUNT(*) AS recipients,
+             COALESCE(SUM(u.mobile_token <> ''), 0) AS with_push_token
+      FROM users u
+      WHERE ${where}`,
+    prisma.$queryRaw<{ id: number; first_name: string | null; last_name: string | null; email: string | null }[]>`
+      SELECT u.id, u.first_name, u.last_name, u.email
+      FROM users u
+      WHERE ${where}
+      ORDER BY u.id DESC
+      LIMIT 5`,
+  ]);
+  return {
+    recipients: Number(counts[0]?.recipients ?? 0),
+    with_push_token: Number(counts[0]?.with_push_token ?? 0),
+    sample: sample.map((u) => ({ ...u, id: Number(u.id) })),
+  };
+}
+
+/** Device types and countries that occur among active customers, for the segment builder */
+export async function audienceOptions() {
+  const [devices, countries] = await Promise.all([
+    prisma.users.groupBy({
+      by: ["device_type"],
+      where: { is_active: 1 },
+      _count: { id: true },
+    }),
+    prisma.users.groupBy({
+      by: ["country_code"],
+      where: { is_active: 1, country_code: { not: null } },
+      _count: { id: true },
+      orderBy: { _count: { id: "desc" } },
+      take: 100,
+    }),
+  ]);
+  return {
+    device_types: DEVICE_TYPES.map((type) => ({
+      type,
+      users: devices.find((d) => d.device_type === type)?._count.id ?? 0,
+    })),
+    countries: countries
+      .filter((c) => c.country_code?.trim())
+      .map((c) => ({ code: c.country_code!, users: c._count.id })),
+  };
+}
+
+/* ─── Scheduling ─── */
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `timeZone` from UTC at `instant`, in ms */
+function zoneOffsetMs(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+/** "YYYY-MM-DDTHH:mm" wall-clock time in `timeZone` → UTC instant */
+export function zonedTimeToUtc(local: string, timeZone: string) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(local);
+  if (!m) throw new PushCampaignError("send_at must be a date and time (YYYY-MM-DDTHH:mm)");
+  const wallClock = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), Number(m[4]), Number(m[5]));
+  // Resolve the offset at the target time; a second pass handles DST edges
+  let instant = wallClock - zoneOffsetMs(wallClock, timeZone);
+  instant = wallClock - zoneOffsetMs(instant, timeZone);
+  return new Date(instant);
+}
+
+/* ─── Campaign CRUD ─── */
+
+export interface CampaignInput {
+  name?: unknown;
+  subject?: unknown;
+  body?: unknown;
+  notification_type?: unknown;
+  row_id?: unknown;
+  action_url?: unknown;
+  image_url?: unknown;
+  send_push?: unknown;
+  segment?: unknown;
+  /** "draft" keeps it editable; "scheduled" queues it for send_at (now when omitted) */
+  status?: unknown;
+  /** Local wall-clock time in `timezone`, "YYYY-MM-DDTHH:mm" */
+  send_at?: unknown;
+  timezone?: unknown;
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function campaignData(input: CampaignInput, current?: cms_push_campaigns) {
+  const name = input.name === undefined && current ? current.name : text(input.name);
+  const subject = input.subject === undefined && current ? current.subject : text(input.subject);
+  const body = input.body === undefined && current ? current.body : text(input.body);
+  if (!name) throw new PushCampaignError("Campaign name is required");
+  if (name.length > MAX_NAME_LENGTH) throw new PushCampaignError(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (!subject || !body) throw new PushCampaignError("Subject and body are required");
+  if (subject.length > MAX_SUBJECT_LENGTH) {
+    throw new PushCampaignError(`Subject must be at most ${MAX_SUBJECT_LENGTH} characters`);
+  }
+
+  const status = input.status === undefined ? (current?.status ?? "draft") : input.status;
+  if (status !== "draft" && status !== "scheduled") {
+    throw new PushCampaignError("status must be draft or scheduled");
+  }
+  const timezone = input.timezone === undefined ? (current?.timezone ?? "UTC") : text(input.timezone);
+  if (!isValidTimeZone(timezone)) throw new PushCampaignError(`Unknown timezone: ${timezone}`);
+
+  let scheduledAt = current?.scheduled_at ?? null;
+  if (input.send_at !== undefined) {
+    scheduledAt = input.send_at ? zonedTimeToUtc(text(input.send_at), timezone) : null;
+  }
+  if (status === "scheduled") {
+    if (!scheduledAt) scheduledAt = new Date();
+    else if (input.send_at && scheduledAt.getTime() < Date.now() - 60_000) {
+      throw new PushCampaignError("send_at is in the past");
+    }
+  }
+
+  const optional = (value: unknown, fallback: string | null | undefined) =>
+    value === undefined ? (fallback ?? null) : text(value) || null;
+  const rowId = input.row_id === undefined ? (current?.row_id ?? null) : Number(input.row_id) || null;
+  const segment = input.segment === undefined && current ? (JSON.parse(current.segment) as AudienceSegment) : parseSegment(input.segment);
+
+  return {
+    name,
+    subject,
+    body,
+    notification_type: optional(input.notification_type, current?.notification_type) || "promo",
+    row_id: rowId,
+    action_url: optional(input.action_url, current?.action_url),
+    image_url: optional(input.image_url, current?.image_url),
+    send_push: typeof input.send_push === "boolean" ? input.send_push : (current?.send_push ?? true),
+    segment: JSON.stringify(segment),
+    status: status as cms_push_campaigns_status,
+    timezone,
+    scheduled_at: scheduledAt,
+  };
+}
+
+export async function createCampaign(input: CampaignInput, createdBy: number) {
+  const data = campaignData(input);
+  const now = new Date();
+  return prisma.cms_push_campaigns.create({
+    data: { ...data, created_by: createdBy, created_at: now, updated_at: now },
+  });
+}
+
+/** Edit a draft or scheduled campaign (the guard keeps a dispatcher start from racing the edit) */
+export async function updateCampaign(id: number, input: CampaignInput) {
+  const current = await prisma.cms_push_campaigns.findUnique({ where: { id } });
+  if (!current) throw new PushCampaignError("Campaign not found", 404);
+  if (current.status !== "draft" && current.status !== "scheduled") {
+    throw new PushCampaignError(`A ${current.status} campaign can no longer be edited`, 409);
+  }
+  const data = campaignData(input, current);
+  const { count } = await prisma.cms_push_campaigns.updateMany({
+    where: { id, status: current.status },
+    data: { ...data, updated_at: new Date() },
+  });
+  if (!count) throw new PushCampaignError("The campaign changed while saving; reload and try again", 409);
+  return prisma.cms_push_campaigns.findUniqueOrThrow({ where: { id } });
+}
+
+/** Stop a campaign; one that is already sending drops its pending recipients */
+export async function cancelCampaign(id: number) {
+  const current = await prisma.cms_push_campaigns.findUnique({ where: { id } });
+  if (!current) throw new PushCampaignError("Campaign not found", 404);
+  if (current.status === "sent" || current.status === "cancelled") {
+    throw new PushCampaignError(`Campaign is already ${current.status}`, 409);
+  }
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.cms_push_campaigns.update({
+      where: { id },
+      data: { status: "cancelled", completed_at: now, updated_at: now },
+    }),
+    prisma.cms_push_campaign_recipients.updateMany({
+      where: { campaign_id: id, status: "pending" },
+      data: { status: "cancelled", updated_at: now },
+    }),
+  ]);
+  await refreshCounts(id);
+  return prisma.cms_push_campaigns.findUniqueOrThrow({ where: { id } });
+}
+
+function serialize(c: cms_push_campaigns) {
+  return { ...c, segment: JSON.parse(c.segment) as AudienceSegment };
+}
+
+export type PushCampaign = ReturnType<typeof serialize>;
+
+export async function findCampaign(id: number): Promise<PushCampaign> {
+  const campaign = await prisma.cms_push_campaigns.findUnique({ where: { id } });
+  if (!campaign) throw new PushCampaignError("Campaign not found", 404);
+  return serialize(campaign);
+}
+
+export async function listCampaigns(opts: { status?: string | null; page: number; limit: number }) {
+  const where: Prisma.cms_push_campaignsWhereInput = {};
+  if (opts.status) where.status = opts.status as cms_push_campaigns_status;
+  const [rows, total] = await Promise.all([
+    prisma.cms_push_campaigns.findMany({
+      where,
+      orderBy: { id: "desc" },
+      skip: (opts.page - 1) * opts.limit,
+      take: opts.limit,
+    }),
+    prisma.cms_push_campaigns.count({ where }),
+  ]);
+  return { campaigns: rows.map(serialize), total };
+}
+
+/** A campaign with its per-status recipient counts and one page of recipients */
+export async function getCampaign(
+  id: number,
+  opts: { recipientStatus?: string | null; page: number; limit: number }
+) {
+  const campaign = await prisma.cms_push_campaigns.findUnique({ where: { id } });
+  if (!campaign) throw new PushCampaignError("Campaign not found", 404);
+
+  const where: Prisma.cms_push_campaign_recipientsWhereInput = { campaign_id: id };
+  if (opts.recipientStatus) where.status = opts.recipientStatus as cms_push_campaign_recipients_status;
+
+  const [byStatus, recipients, total] = await Promise.all([
+    prisma.cms_push_campaign_recipients.groupBy({
+      by: ["status"],
+      where: { campaign_id: id },
+      _count: { id: true },
+    }),
+    prisma.cms_push_campaign_recipients.findMany({
+      where,
+      orderBy: { id: "asc" },
+      skip: (opts.page - 1) * opts.limit,
+      take: opts.limit,
+    }),
+    prisma.cms_push_campaign_recipients.count({ where }),
+  ]);
+  const users = recipients.length
+    ? await prisma.users.findMany({
+        where: { id: { in: recipients.map((r) => r.user_id) } },
+        select: { id: true, first_name: true, last_name: true, email: true, device_type: true },
+      })
+    : [];
+  const userMap = new Map(users.map((u) => [u.id, u]));
+  const segment = JSON.parse(campaign.segment) as AudienceSegment;
+  const categoryIds = [...segment.interest_category_ids, ...segment.favorite_category_ids];
+  const categories = categoryIds.length
+    ? await prisma.category.findMany({
+        where: { id: { in: categoryIds } },
+        select: { id: true, category_name: true, category_name_en: true },
+      })
+    : [];
+
+  return {
+    campaign: serialize(campaign),
+    /** Names of the segment's categories */
+    categories: categories.map((c) => ({ id: c.id, name: c.category_name_en || c.category_name })),
+    status_counts: Object.fromEntries(byStatus.map((s) => [s.status, s._count.id])),
+    recipients: recipients.map((r) => ({ ...r, user: userMap.get(r.user_id) ?? null })),
+    total,
+  };
+}
+
+/* ─── Dispatcher ─── */
+
+async function refreshCounts(campaignId: number) {
+  const byStatus = await prisma.cms_push_campaign_recipients.groupBy({
+    by: ["status"],
+    where: { campaign_id: campaignId },
+    _count: { id: true },
+  });
+  const count = (status: string) => byStatus.find((s) => s.status === status)?._count.id ?? 0;
+  await prisma.cms_push_campaigns.update({
+    where: { id: campaignId },
+    data: { sent_count: count("sent"), failed_count: count("failed"), skipped_count: count("skipped") },
+  });
+  return count("pending");
+}
+
+/** Take the campaign for this run unless another run holds it */
+async function claimCampaign(campaignId: number) {
+  const now = new Date();
+  const { count } = await prisma.cms_push_campaigns.updateMany({
+    where: {
+      id: campaignId,
+      OR: [{ locked_until: null }, { locked_until: { lt: now } }],
+    },
+    data: { locked_until: new Date(now.getTime() + LEASE_MS) },
+  });
+  return count === 1;
+}
+
+async function releaseCampaign(campaignId: number) {
+  await prisma.cms_push_campaigns.update({ where: { id: campaignId }, data: { locked_until: null } });
+}
+
+/**
+ * Scheduled → sending: resolve the segment into recipient rows and write
+ * the in-app notification. Runs under the campaign lease, in one
+ * transaction, so a campaign starts once.
+ */
+async function startCampaign(campaign: cms_push_campaigns) {
+  const where = await segmentCondition(JSON.parse(campaign.segment) as AudienceSegment);
+  const now = new Date();
+
+  await prisma.$transaction(
+    async (tx) => {
+      const { count } = await tx.cms_push_campaigns.updateMany({
+        where: { id: campaign.id, status: "scheduled" },
+        data: { status: "sending", started_at: now, updated_at: now },
+      });
+      if (!count) return;
+
+      const notification = await tx.notifications.create({
+        data: {
+          subject: campaign.subject,
+          body: campaign.body,
+          notification_type: campaign.notification_type,
+          r_user_id: null,
+          row_id: campaign.row_id,
+          action_url: campaign.action_url,
+          image_url: campaign.image_url,
+          created_by: campaign.created_by,
+          is_seen: 0,
+        },
+      });
+      // In-app only campaigns have nothing to push: recipients are done once the row exists
+      const initialStatus = campaign.send_push ? "pending" : "sent";
+      const recipients = await tx.$executeRaw`
+        INSERT IGNORE INTO cms_push_campaign_recipients (campaign_id, user_id, status, attempts, sent_at, updated_at)
+        SELECT ${campaign.id}, u.id, ${initialStatus}, 0, ${campaign.send_push ? null : now}, ${now}
+        FROM users u
+        WHERE ${where}`;
+      await tx.$executeRaw`
+        INSERT INTO users_notifications (r_user_id, notification_id, is_seen)
+        SELECT r.user_id, ${notification.id}, 0
+        FROM cms_push_campaign_recipients r
+        WHERE r.campaign_id = ${campaign.id}`;
+      await tx.cms_push_campaigns.update({
+        where: { id: campaign.id },
+        data: { notification_id: notification.id, recipient_count: recipients },
+      });
+    },
+    { timeout: 60_000 }
+  );
+}
+
+async function sendPush(token: string, campaign: cms_push_campaigns) {
+  const res = await fetch(`${BACKEND_URL}/v3_0_0-notification/send-push`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      fcm_token: token,
+      title: campaign.subject,
+      body: campaign.body,
+      data: {
+        notification_type: campaign.notification_type,
+        target_id: campaign.row_id ? String(campaign.row_id) : "",
+        action_url: campaign.action_url || "",
+        image_url: campaign.image_url || "",
+        campaign_id: String(campaign.id),
+      },
+    }),
+  });
+  if (!res.ok) {
+    const errText = await res.text().catch(() => "");
+    throw new Error(`FCM push failed [${res.status}] ${errText}`.trim());
+  }
+}
+
+/** Push one batch of pending recipients; returns how many were handled */
+async function sendBatch(campaign: cms_push_campaigns, runStartedAt: Date) {
+  // Rows that failed earlier in this run wait for the next run
+  const batch = await prisma.cms_push_campaign_recipients.findMany({
+    where: {
+      campaign_id: campaign.id,
+      status: "pending",
+      OR: [{ attempts: 0 }, { updated_at: { lt: runStartedAt } }],
+    },
+    orderBy: { id: "asc" },
+    take: BATCH_SIZE,
+  });
+  if (!batch.length) return 0;
+
+  const users = await prisma.users.findMany({
+    where: { id: { in: batch.map((r) => r.user_id) } },
+    select: { id: true, mobile_token: true },
+  });
+  const tokens = new Map(users.map((u) => [u.id, u.mobile_token]));
+
+  const sent: number[] = [];
+  const skipped: number[] = [];
+  const failed: { id: number; attempts: number; error: string }[] = [];
+  for (let i = 0; i < batch.length; i += PUSH_CONCURRENCY) {
+    await Promise.all(
+      batch.slice(i, i + PUSH_CONCURRENCY).map(async (r) => {
+        const token = tokens.get(r.user_id);
+        if (!token) {
+          skipped.push(r.id);
+          return;
+        }
+        try {
+          await sendPush(token, campaign);
+          sent.push(r.id);
+        } catch (err) {
+          failed.push({ id: r.id, attempts: r.attempts + 1, error: err instanceof Error ? err.message : String(err) });
+        }
+      })
+    );
+  }
+
+  const now = new Date();
+  await prisma.cms_push_campaign_recipients.updateMany({
+    where: { id: { in: sent }, status: "pending" },
+    data: { status: "sent", attempts: { increment: 1 }, sent_at: now, error: null, updated_at: now },
+  });
+  await prisma.cms_push_campaign_recipients.updateMany({
+    where: { id: { in: skipped }, status: "pending" },
+    data: { status: "skipped", error: "No push token", updated_at: now },
+  });
+  for (const f of failed) {
+    await prisma.cms_push_campaign_recipients.updateMany({
+      where: { id: f.id, status: "pending" },
+      data: {
+        status: f.attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+        attempts: f.attempts,
+        error: f.error.slice(0, 255),
+        updated_at: now,
+      },
+    });
+  }
+  return batch.length;
+}
+
+export interface DispatchResult {
+  started: number[];
+  completed: number[];
+  pushed: number;
+}
+
+/**
+ * One dispatcher run: start due campaigns, then push pending recipients
+ * until the time budget runs out. Safe to run concurrently — each
+ * campaign is leased to one run at a time. Pass `campaignId` to work on a
+ * single campaign (used by "send now").
+ */
+export async function dispatchPushCampaigns(opts: { campaignId?: number; budgetMs?: number } = {}): Promise<DispatchResult> {
+  const runStartedAt = new Date();
+  const deadline = runStartedAt.getTime() + (opts.budgetMs ?? DEFAULT_BUDGET_MS);
+  const result: DispatchResult = { started: [], completed: [], pushed: 0 };
+
+  const campaigns = await prisma.cms_push_campaigns.findMany({
+    where: {
+      ...(opts.campaignId ? { id: opts.campaignId } : {}),
+      OR: [{ status: "sending" }, { status: "scheduled", scheduled_at: { lte: runStartedAt } }],
+    },
+    orderBy: { scheduled_at: "asc" },
+  });
+
+  for (const queued of campaigns) {
+    if (Date.now() >= deadline) break;
+    if (!(await claimCampaign(queued.id))) continue;
+    try {
+      if (queued.status === "scheduled") {
+        await startCampaign(queued);
+        result.started.push(queued.id);
+      }
+      while (Date.now() < deadline) {
+        // Re-read each batch so a cancellation stops the run
+        const campaign = await prisma.cms_push_campaigns.findUnique({ where: { id: queued.id } });
+        if (campaign?.status !== "sending") break;
+        const handled = await sendBatch(campaign, runStartedAt);
+        result.pushed += handled;
+        if (!handled) break;
+      }
+      const pending = await refreshCounts(queued.id);
+      if (!pending) {
+        const now = new Date();
+        const { count } = await prisma.cms_push_campaigns.updateMany({
+          where: { id: queued.id, status: "sending" },
+          data: { status: "sent", completed_at: now, updated_at: now },
+        });
+        if (count) result.completed.push(queued.id);
+      }
+    } catch (err) {
+      console.error(`Push campaign #${queued.id} dispatch failed:`, err);
+    } finally {
+      await releaseCampaign(queued.id);
+    }
+  }
+  return result;
+}
+
+/** "Send now": give a due campaign a short first pass; the cron sends the rest */
+export async function dispatchIfDue(campaign: Pick<cms_push_campaigns, "id" | "status" | "scheduled_at">) {
+  if (campaign.status !== "scheduled" || !campaign.scheduled_at || campaign.scheduled_at > new Date()) return;
+  await dispatchPushCampaigns({ campaignId: campaign.id, budgetMs: SEND_NOW_BUDGET_MS });
+}
@@ -1,4 +1,6 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "./prisma";
+import { syncCustomerStatus, type CustomerStatus } from "./customer-status";
 
 /**
  * Fetch the user's primary role + merged permissions (role perms + user overrides).
@@ -44,7 +46,7 @@ export async function getUserRoleAndPermissions(userId: number) {
   });
 
   for (const ov of overrides) {
-    if (ov.allowed === 1) {
+    if (ov.allowed) {
       permSet.add(ov.permission_key);
     } else {
       permSet.delete(ov.permission_key);
@@ -119,6 +121,14 @@ export async function getAllowedTransitions(roleKey: string, currentStatusId: nu
     });
 }
 
+export interface DerivedOrderStatus {
+  /** New legacy orders.status, or null when it did not change */
+  orderStatus: number | null;
+  customerStatus: { from: CustomerStatus | null; to: CustomerStatus } | null;
+}
+
+const UNCHANGED: DerivedOrderStatus = { orderStatus: null, customerStatus: null };
+
 /**
  * After an item status change, check if the whole order should auto-update.
  * Logic:
@@ -126,22 +136,31 @@ export async function getAllowedTransitions(roleKey: string, currentStatusId: nu
  *   - If ALL items are refunded → order status = 6 (refunded)
  *   - If ALL items are terminal (mix of cancelled + refunded) → order status = 5 (cancelled)
  *   - Otherwise: derive order workflow_status from the lowest non-terminal item workflow
+ *   - Customer-facing order_tracking rows are written via syncCustomerStatus,
+ *     only when the customer-visible status changes
+ *
+ * Returns the new legacy order status (when it changed) and the customer
+ * status change (when one was recorded). Pass a transaction client to
+ * derive inside the caller's transaction.
  */
-export async function deriveOrderStatusFromItems(orderId: number) {
-  const items = await prisma.order_products.findMany({
+export async function deriveOrderStatusFromItems(
+  orderId: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<DerivedOrderStatus> {
+  const items = await db.order_products.findMany({
     where: { r_order_id: orderId },
     select: { workflow_status_id: true },
   });
 
-  if (!items.length) return null;
+  if (!items.length) return UNCHANGED;
 
   const statusIds = items
     .map((i) => i.workflow_status_id)
     .filter((id): id is number => id !== null);
 
-  if (!statusIds.length) return null;
+  if (!statusIds.length) return UNCHANGED;
 
-  const statuses = await prisma.cms_order_item_statuses.findMany({
+  const statuses = await db.cms_order_item_statuses.findMany({
     where: { id: { in: statusIds } },
   });
   const statusMap = new Map(statuses.map((s) => [s.id, s]));
@@ -163,26 +182,19 @@ export async function deriveOrderStatusFromItems(orderId: number) {
     });
 
     if (allRefunded) {
-      // Set order status to 6 (refunded) — tracking uses workflow status_order 91
-      await prisma.orders.update({
+      // Set order status to 6 (refunded)
+      await db.orders.update({
         where: { id: orderId },
         data: { status: 6, updated_at: new Date() },
       });
-      await prisma.order_tracking.create({
-        data: { r_order_id: orderId, r_status_id: 91, track_date: new Date() },
-      });
-      return 6;
+      return { orderStatus: 6, customerStatus: await syncCustomerStatus(orderId, db) };
     } else {
       // All cancelled, or mix of cancelled+refunded → cancelled
-      // tracking uses workflow status_order 90
-      await prisma.orders.update({
+      await db.orders.update({
         where: { id: orderId },
         data: { status: allCancelled ? 5 : 5, updated_at: new Date() },
       });
-      await prisma.order_tracking.create({
-        data: { r_order_id: orderId, r_status_id: 90, track_date: new Date() },
-      });
-      return 5;
+      return { orderStatus: 5, customerStatus: await syncCustomerStatus(orderId, db) };
     }
   }
 
@@ -192,7 +204,7 @@ export async function deriveOrderStatusFromItems(orderId: number) {
     return s && !s.is_terminal;
   });
 
-  if (!nonTerminalItems.length) return null;
+  if (!nonTerminalItems.length) return UNCHANGED;
 
   const lowestStatus = nonTerminalItems.reduce((lowest, item) => {
     const s = statusMap.get(item.workflow_status_id!);
@@ -203,20 +215,14 @@ export async function deriveOrderStatusFromItems(orderId: number) {
 
   const lowestWs = statusMap.get(lowestStatus.workflow_status_id!);
   if (lowestWs) {
-    await prisma.orders.update({
+    await db.orders.update({
       where: { id: orderId },
       data: { workflow_status_id: lowestWs.id, updated_at: new Date() },
     });
 
-    // Create order_tracking entry so the timeline reflects the current state
-    await prisma.order_tracking.create({
-      data: {
-        r_order_id: orderId,
-        r_status_id: lowestWs.status_order,
-        track_date: new Date(),
-      },
-    });
+    // The customer timeline only moves when the customer-visible bucket does
+    return { orderStatus: null, customerStatus: await syncCustomerStatus(orderId, db) };
   }
 
-  return null; // no legacy status change needed
+  return UNCHANGED; // no legacy status change needed
 }
@@ -0,0 +1,486 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { transitionItems, SKIP_HTTP_STATUS, type ItemTransitionResult, type WorkflowActor } from "./workflow";
+import { createCreditNote } from "./invoices";
+import { TERMINAL_STATUS_KEYS } from "./workflow-config";
+
+/**
+ * Refund ledger — every refund on an order is a `cms_order_refunds` row,
+ * item refunds carry one `cms_order_refund_items` row per item.
+ *
+ * An item line refunds `product_price × quantity`, less the item's share
+ * of the order discount (pro rata by line value) plus its own tax
+ * (`order_products.tax_amount`, pro rata by quantity). The ledger total
+ * can never exceed what the customer paid: the products once
+ * `orders.is_paid` is set, the shipping once `shipping_status` is Paid.
+ *
+ * An item whose whole quantity has been refunded is moved to `refunded`
+ * through `transitionItems`, in the same transaction as the ledger write —
+ * if the role may not refund the item, no money is recorded either.
+ * Order-level refunds that return the rest of the paid products move the
+ * open items the same way — `refunded` is only reachable through here.
+ * `orders.refund_amount` mirrors the ledger total. Every refund also
+ * issues a credit note (`createCreditNote`) in the same transaction.
+ */
+
+export type RefundType = "items" | "full" | "products_only" | "shipping_only";
+export type OrderRefundType = Exclude<RefundType, "items">;
+
+/** Request-level failure (over-refund, bad quantities, transition refused) */
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RefundError";
+    this.status = status;
+  }
+}
+
+export interface RefundableItem {
+  id: number;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  refunded_quantity: number;
+  refundable_quantity: number;
+  unit_price: number;
+  status_key: string | null;
+  status_label: string | null;
+}
+
+export interface RefundLine {
+  item_id: number;
+  quantity: number;
+  unit_price: number;
+  discount_amount: number;
+  tax_amount: number;
+  amount: number;
+}
+
+export interface RefundSummary {
+  paid: { products: number; shipping: number; total: number };
+  refunded_total: number;
+  refundable: number;
+  items: RefundableItem[];
+  refunds: {
+    id: number;
+    refund_type: RefundType;
+    amount: number;
+    notes: string | null;
+    created_by: number | null;
+    created_at: Date;
+    items: { order_product_id: number; quantity: number; amount: number }[];
+  }[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+async function loadRefundState(orderId: number, db: Prisma.TransactionClient) {
+  const order = await db.orders.findUnique({ where: { id: orderId } });
+  if (!order) throw new RefundError("Order not found", 404);
+
+  const [items, refunds, shippingInvoice] = await Promise.all([
+    db.order_products.findMany({
+      where: { r_order_id: orderId },
+      select: {
+        id: true,
+        product_name: true,
+        product_code: true,
+        variation_name: true,
+        quantity: true,
+        product_price: true,
+        tax_amount: true,
+        workflow_status_id: true,
+      },
+      orderBy: { id: "asc" },
+    }),
+    db.cms_order_refunds.findMany({
+      where: { order_id: orderId },
+      include: { items: true },
+      orderBy: { created_at: "asc" },
+    }),
+    order.shipping_status === 2
+      ? db.invoices.findFirst({
+          where: { order_id: orderId, type: "shipping", status: { not: "void" } },
+          select: { total: true },
+        })
+      : null,
+  ]);
+
+  const statuses = await db.cms_order_item_statuses.findMany({
+    where: { id: { in: [...new Set(items.map((i) => i.workflow_status_id ?? 0))] } },
+    select: { id: true, status_key: true, status_label: true },
+  });
+  const statusMap = new Map(statuses.map((s) => [s.id, s]));
+
+  const itemsSubtotal = items.reduce((sum, i) => sum + i.product_price * i.quantity, 0);
+  const productsPaid = order.is_paid
+    ? Math.max(0, (order.subtotal ?? itemsSubtotal) - (order.discount_amount || 0))
+    : 0;
+  const shippingPaid =
+    order.shipping_status === 2
+      ? shippingInvoice
+        ? Number(shippingInvoice.total)
+        : order.shipping_amount + (order.tax_amount || 0)
+      : 0;
+
+  const ledgerTotal = refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+  // refund_amount mirrors the ledger total plus any refund recorded before the ledger existed
+  const refundedTotal = round2(Math.max(ledgerTotal, Number(order.refund_amount || 0)));
+
+  const refundedQty = new Map<number, number>();
+  for (const r of refunds) {
+    for (const ri of r.items) {
+      refundedQty.set(ri.order_product_id, (refundedQty.get(ri.order_product_id) || 0) + ri.quantity);
+    }
+  }
+
+  const paidTotal = round2(productsPaid + shippingPaid);
+  const summary: RefundSummary = {
+    paid: { products: round2(productsPaid), shipping: round2(shippingPaid), total: paidTotal },
+    refunded_total: refundedTotal,
+    refundable: Math.max(0, round2(paidTotal - refundedTotal)),
+    items: items.map((i) => {
+      const ws = i.workflow_status_id ? statusMap.get(i.workflow_status_id) : null;
+      const refunded = Math.min(i.quantity, refundedQty.get(i.id) || 0);
+      return {
+        id: i.id,
+        product_name: i.product_name,
+        variation_name: i.variation_name,
+        quantity: i.quantity,
+        refunded_quantity: refunded,
+        refundable_quantity: i.quantity - refunded,
+        unit_price: i.product_price,
+        status_key: ws?.status_key || null,
+        status_label: ws?.status_label || null,
+      };
+    }),
+    refunds: refunds.map((r) => ({
+      id: r.id,
+      refund_type: r.refund_type,
+      amount: Number(r.amount),
+      notes: r.notes,
+      created_by: r.created_by,
+      created_at: r.created_at,
+      items: r.items.map((ri) => ({
+        order_product_id: ri.order_product_id,
+        quantity: ri.quantity,
+        amount: Number(ri.amount),
+      })),
+    })),
+  };
+
+  return { order, items, itemsSubtotal, summary };
+}
+
+export async function getRefundSummary(orderId: number): Promise<RefundSummary> {
+  return (await loadRefundState(orderId, prisma)).summary;
+}
+
+type RefundState = Awaited<ReturnType<typeof loadRefundState>>;
+
+/** Price the requested item quantities against the current ledger */
+function priceLines(state: RefundState, requested: { item_id: number; quantity: number }[]): RefundLine[] {
+  const qtyByItem = new Map<number, number>();
+  for (const r of requested) {
+    const id = Number(r.item_id);
+    const qty = Number(r.quantity);
+    if (!Number.isInteger(qty) || qty < 1) {
+      throw new RefundError(`Invalid quantity for item #${id}`);
+    }
+    qtyByItem.set(id, (qtyByItem.get(id) || 0) + qty);
+  }
+  if (!qtyByItem.size) throw new RefundError("Select at least one item to refund");
+
+  const discount = state.order.discount_amount || 0;
+  return [...qtyByItem].map(([id, qty]) => {
+    const item = state.items.find((i) => i.id === id);
+    const refundable = state.summary.items.find((i) => i.id === id);
+    if (!item || !refundable) throw new RefundError(`Item #${id} is not part of this order`);
+    if (qty > refundable.refundable_quantity) {
+      throw new RefundError(
+        `Only ${refundable.refundable_quantity} of item #${id} can still be refunded`
+      );
+    }
+
+    const gross = item.product_price * qty;
+    const discountShare = state.itemsSubtotal > 0 ? (discount * gross) / state.itemsSubtotal : 0;
+    const taxShare = (Number(item.tax_amount || 0) * qty) / item.quantity;
+    return {
+      item_id: id,
+      quantity: qty,
+      unit_price: item.product_price,
+      discount_amount: round2(discountShare),
+      tax_amount: round2(taxShare),
+      amount: round2(gross - discountShare + taxShare),
+    };
+  });
+}
+
+function assertWithinPaid(state: RefundState, amount: number) {
+  if (amount <= 0) throw new RefundError("Refund amount must be greater than zero");
+  if (amount > state.summary.refundable + 0.001) {
+    throw new RefundError(
+      `Refund of $${amount.toFixed(2)} exceeds the $${state.summary.refundable.toFixed(2)} still refundable ` +
+        `($${state.summary.paid.total.toFixed(2)} paid, $${state.summary.refunded_total.toFixed(2)} already refunded)`
+    );
+  }
+}
+
+/** Lock the order row so concurrent refunds see each other's ledger rows */
+async function lockOrder(tx: Prisma.TransactionClient, orderId: number) {
+  await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+}
+
+/** Price an item refund without recording it */
+export async function previewItemRefund(orderId: number, lines: { item_id: number; quantity: number }[]) {
+  const state = await loadRefundState(orderId, prisma);
+  const priced = priceLines(state, lines);
+  const amount = round2(priced.reduce((sum, l) => sum + l.amount, 0));
+  return { lines: priced, amount, refundable: state.summary.refundable };
+}
+
+/**
+ * Refund item quantities. Items refunded in full move to `refunded`;
+ * the ledger row and the status change commit together.
+ */
+export async function createItemRefund(input: {
+  orderId: number;
+  lines: { item_id: number; quantity: number }[];
+  notes?: string | null;
+  actor: WorkflowActor;
+}) {
+  const { orderId, actor } = input;
+  const notes = input.notes?.trim() || null;
+
+  // Validate up front for clear errors; re-checked under the order lock
+  const initial = await loadRefundState(orderId, prisma);
+  const initialLines = priceLines(initial, input.lines);
+  assertWithinPaid(initial, round2(initialLines.reduce((sum, l) => sum + l.amount, 0)));
+
+  const write = async (tx: Prisma.TransactionClient) => {
+    await lockOrder(tx, orderId);
+    const state = await loadRefundState(orderId, tx);
+    const lines = priceLines(state, input.lines);
+    const amount = round2(lines.reduce((sum, l) => sum + l.amount, 0));
+    assertWithinPaid(state, amount);
+
+    const refund = await tx.cms_order_refunds.create({
+      data: {
+        order_id: orderId,
+        refund_type: "items",
+        amount,
+        notes,
+        created_by: actor.userId,
+        created_at: new Date(),
+        items: {
+          create: lines.map((l) => ({
+            order_product_id: l.item_id,
+            quantity: l.quantity,
+            unit_price: l.unit_price,
+            discount_amount: l.discount_amount,
+            tax_amount: l.tax_amount,
+            amount: l.amount,
+          })),
+        },
+      },
+    });
+    const creditNote = await createCreditNote(tx, {
+      order: state.order,
+      refund: { id: refund.id, refund_type: "items", amount, notes },
+      lines: lines.map((l) => {
+        const item = state.items.find((i) => i.id === l.item_id)!;
+        return {
+          product_name: item.product_name,
+          product_code: item.product_code,
+          variation_name: item.variation_name,
+          quantity: l.quantity,
+          unit_price: l.unit_price,
+          discount_amount: l.discount_amount,
+          tax_amount: l.tax_amount,
+          total: l.amount,
+        };
+      }),
+    });
+    await tx.orders.update({
+      where: { id: orderId },
+      data: {
+        refund_amount: round2(state.summary.refunded_total + amount),
+        refunded_at: new Date(),
+        updated_at: new Date(),
+      },
+    });
+    return { id: refund.id, amount, lines, credit_note_number: creditNote.invoice_number };
+  };
+
+  const fullyRefunded = initialLines
+    .filter((l) => {
+      const item = initial.summary.items.find((i) => i.id === l.item_id)!;
+      return l.quantity === item.refundable_quantity && item.status_key !== "refunded";
+    })
+    .map((l) => l.item_id);
+
+  let refund: Awaited<ReturnType<typeof write>> | undefined;
+  let transition: ItemTransitionResult | undefined;
+
+  if (fullyRefunded.length) {
+    const blockingSkip = (result: ItemTransitionResult) =>
+      result.skipped.find((s) => s.code !== "unchanged");
+
+    transition = await transitionItems({
+      itemIds: fullyRefunded,
+      toStatusKey: "refunded",
+      actor,
+      orderId,
+      note: notes ? `Refund: ${notes}` : "Refunded",
+      viaRefundLedger: true,
+      withinTransaction: async (tx, result) => {
+        const skip = blockingSkip(result);
+        if (skip) throw new RefundError(`Item #${skip.id}: ${skip.reason}`, SKIP_HTTP_STATUS[skip.code]);
+        refund = await write(tx);
+      },
+    });
+
+    const skip = blockingSkip(transition);
+    if (skip) throw new RefundError(`Item #${skip.id}: ${skip.reason}`, SKIP_HTTP_STATUS[skip.code]);
+  }
+
+  // No item changed status (partial quantities, or already marked refunded)
+  if (!refund) refund = await prisma.$transaction(write);
+
+  return { refund, refundedItemIds: transition?.updated.map((u) => u.id) ?? [] };
+}
+
+/**
+ * Still refundable per order-level refund type. Products and shipping
+ * are tracked against what was paid for each; `full` refunds count
+ * against the products first. All are capped by the ledger's refundable.
+ */
+function remainingByType(state: RefundState): Record<OrderRefundType, number> {
+  const { paid, refunds, refundable } = state.summary;
+  let products = paid.products;
+  let shipping = paid.shipping;
+  for (const r of refunds) {
+    if (r.refund_type === "shipping_only") {
+      shipping -= r.amount;
+    } else if (r.refund_type === "full") {
+      const fromProducts = Math.min(Math.max(0, products), r.amount);
+      products -= fromProducts;
+      shipping -= r.amount - fromProducts;
+    } else {
+      products -= r.amount;
+    }
+  }
+  return {
+    full: refundable,
+    products_only: round2(Math.min(Math.max(0, products), refundable)),
+    shipping_only: round2(Math.min(Math.max(0, shipping), refundable)),
+  };
+}
+
+/**
+ * Record an order-level refund (full / products only / shipping only).
+ * `amount` defaults to what is still refundable for the type — only paid
+ * products / shipping, less earlier refunds; either way it is capped by
+ * what is still refundable.
+ *
+ * A full or products-only refund that returns the rest of the paid
+ * products moves the open items to `refunded` in the same transaction.
+ * The order itself is marked refunded (status 6) once nothing is left.
+ */
+export async function createOrderRefund(input: {
+  orderId: number;
+  refundType: OrderRefundType;
+  amount?: number | null;
+  notes?: string | null;
+  actor: WorkflowActor;
+}) {
+  const { orderId, refundType, actor } = input;
+  const notes = input.notes?.trim() || null;
+
+  const resolveAmount = (state: RefundState) => {
+    const amount = round2(Number(input.amount ?? remainingByType(state)[refundType]));
+    if (!Number.isFinite(amount)) throw new RefundError("Invalid refund amount");
+    assertWithinPaid(state, amount);
+    return amount;
+  };
+
+  // Whether this refund returns the rest of the paid products
+  const refundsProducts = (state: RefundState, amount: number) =>
+    refundType !== "shipping_only" &&
+    state.summary.paid.products > 0 &&
+    amount + 0.001 >= remainingByType(state).products_only;
+
+  // Validate up front for clear errors; re-checked under the order lock
+  const initial = await loadRefundState(orderId, prisma);
+  const initialAmount = resolveAmount(initial);
+
+  const write = async (tx: Prisma.TransactionClient) => {
+    await lockOrder(tx, orderId);
+    const state = await loadRefundState(orderId, tx);
+    const amount = resolveAmount(state);
+    const fullyRefunded = state.summary.refundable - amount <= 0.001;
+
+    const refund = await tx.cms_order_refunds.create({
+      data: {
+        order_id: orderId,
+        refund_type: refundType,
+        amount,
+        notes,
+        created_by: actor.userId,
+        created_at: new Date(),
+      },
+    });
+    const creditNote = await createCreditNote(tx, {
+      order: state.order,
+      refund: { id: refund.id, refund_type: refundType, amount, notes },
+    });
+    await tx.orders.update({
+      where: { id: orderId },
+      data: {
+        ...(fullyRefunded ? { status: 6 } : {}),
+        refund_type: refundType,
+        refund_amount: round2(state.summary.refunded_total + amount),
+        refund_notes: notes,
+        refunded_at: new Date(),
+        updated_at: new Date(),
+      },
+    });
+    return { id: refund.id, amount, credit_note_number: creditNote.invoice_number, fully_refunded: fullyRefunded };
+  };
+
+  const openItems = initial.summary.items
+    .filter((i) => !TERMINAL_STATUS_KEYS.includes(i.status_key ?? ""))
+    .map((i) => i.id);
+
+  let refund: Awaited<ReturnType<typeof write>> | undefined;
+  let transition: ItemTransitionResult | undefined;
+
+  if (openItems.length && refundsProducts(initial, initialAmount)) {
+    const blockingSkip = (result: ItemTransitionResult) =>
+      result.skipped.find((s) => s.code !== "unchanged");
+
+    transition = await transitionItems({
+      itemIds: openItems,
+      toStatusKey: "refunded",
+      actor,
+      orderId,
+      note: notes ? `Order refund: ${notes}` : "Order refunded",
+      viaRefundLedger: true,
+      withinTransaction: async (tx, result) => {
+        const skip = blockingSkip(result);
+        if (skip) throw new RefundError(`Item #${skip.id}: ${skip.reason}`, SKIP_HTTP_STATUS[skip.code]);
+        refund = await write(tx);
+      },
+    });
+
+    const skip = blockingSkip(transition);
+    if (skip) throw new RefundError(`Item #${skip.id}: ${skip.reason}`, SKIP_HTTP_STATUS[skip.code]);
+  }
+
+  // No item changed status (shipping only, partial amount, or nothing open)
+  if (!refund) refund = await prisma.$transaction(write);
+
+  return { ...refund, refundedItemIds: transition?.updated.map((u) => u.id) ?? [] };
+}
@@ -0,0 +1,59 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getSession, type SessionPayload } from "./auth";
+import { hasAnyPermission } from "./rbac";
+import { AUTHENTICATED, PUBLIC, getApiPermission } from "./route-permissions";
+
+type RouteHandler<Ctx> = (
+  req: NextRequest,
+  ctx: Ctx,
+  session: SessionPayload
+) => Promise<Response>;
+
+/**
+ * Wrap an API route handler with session + permission enforcement.
+ *
+ * The required permission is looked up in API_PERMISSIONS by request path
+ * and method, so route files never hard-code permission keys:
+ *
+ *   export const DELETE = withPermission(async (req, { params }, session) => { ... });
+ *
+ * Responses:
+ *   401 — no valid session
+ *   403 — session lacks the permission, or the route/method is not registered
+ */
+export function withPermission<Ctx>(handler: RouteHandler<Ctx>) {
+  return async (req: NextRequest, ctx: Ctx): Promise<Response> => {
+    const required = getApiPermission(req.nextUrl.pathname, req.method);
+
+    if (required === undefined) {
+      console.error(
+        `[route-guard] ${req.method} ${req.nextUrl.pathname} has no entry in API_PERMISSIONS`
+      );
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const keys = Array.isArray(required) ? required : [required];
+    const open = keys.includes(AUTHENTICATED) || keys.includes(PUBLIC);
+    if (!open && !hasAnyPermission(session.permissions, keys)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return handler(req, ctx, session);
+  };
+}
+
+/**
+ * Scheduler routes sit outside the session guard and send
+ * `Authorization: Bearer $CRON_SECRET`; compared in constant time.
+ */
+export function hasCronSecret(req: NextRequest, secret: string): boolean {
+  const given = Buffer.from(req.headers.get("authorization") ?? "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,301 @@
+/* ── Route → permission registry ─────────────────────────────────────
+ * Single source of truth for which cms_permissions.permission_key guards
+ * each dashboard page and each API route handler.
+ *
+ * Kept free of Prisma / Node-only imports so middleware (edge runtime)
+ * can read it too.
+ */
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** No session required (login, signup, logout). */
+export const PUBLIC = "public";
+/** Any signed-in CMS user, regardless of role. */
+export const AUTHENTICATED = "authenticated";
+
+/**
+ * A single permission key, or a list meaning "any of these".
+ * PUBLIC / AUTHENTICATED are sentinels, not real permission keys.
+ */
+export type RoutePermission = string | string[];
+
+// Read endpoints shared by several pages (pickers, search boxes)
+const CATALOG_READ = ["page.products", "page.categories", "page.banners", "page.splash_ads", "page.notifications", "page.flash_sales"];
+const ORDER_READ = ["page.orders", "page.orders.item_master_list"];
+// Labels and packing slips are printed from the order, item, scan and shipment screens
+const WAREHOUSE_PRINT = [...ORDER_READ, "page.scan_station", "page.shipments"];
+
+/**
+ * Page route prefix → required permission (checked in middleware).
+ * First matching prefix wins, so more specific prefixes go first.
+ * /dashboard/items is deliberately absent: it is the redirect target for
+ * unauthorized users and every role can open it.
+ */
+export const PAGE_PERMISSIONS: Record<string, RoutePermission> = {
+  // Order detail is linked from the item list, so item-list roles may open it
+  "/dashboard/orders/": ORDER_READ,
+  "/dashboard/orders": "page.orders",
+  "/dashboard/products": "page.products",
+  "/dashboard/categories": "page.categories",
+  "/dashboard/banners": "page.banners",
+  "/dashboard/splash-ads": "page.splash_ads",
+  "/dashboard/coupons": "page.coupons",
+  "/dashboard/flash-sales": "page.flash_sales",
+  "/dashboard/customers": "page.customers",
+  "/dashboard/cms-users": "page.cms_users",
+  "/dashboard/roles": "page.roles",
+  "/dashboard/workflow": "page.workflow",
+  "/dashboard/scan-station": "page.scan_station",
+  "/dashboard/shipments": "page.shipments",
+  "/dashboard/payments": "page.payments",
+  "/dashboard/notifications": "page.notifications",
+  "/dashboard/tryon-prompts": "page.tryon_prompts",
+  "/dashboard/tryon-analytics": "page.tryon_analytics",
+};
+
+/**
+ * API route (Next.js folder pattern) → HTTP method → required permission.
+ * Every exported route handler wrapped with `withPermission` MUST have an
+ * entry here; unregistered handlers are rejected with 403.
+ */
+export const API_PERMISSIONS: Record<string, Partial<Record<HttpMethod, RoutePermission>>> = {
+  // ── Auth ──────────────────────────────────────────────────────
+  "/api/auth/login": { POST: PUBLIC },
+  "/api/auth/logout": { POST: PUBLIC },
+  "/api/auth/signup": { GET: PUBLIC, POST: PUBLIC },
+  "/api/auth/me": { GET: AUTHENTICATED },
+
+  // ── Shared ────────────────────────────────────────────────────
+  "/api/search": { GET: AUTHENTICATED },
+  "/api/upload": { POST: AUTHENTICATED },
+  "/api/dashboard/stats": { GET: "page.dashboard" },
+  "/api/alerts": { GET: AUTHENTICATED },
+  "/api/alerts/[id]": { PUT: AUTHENTICATED },
+  // Scheduler endpoints authenticate with CRON_SECRET instead of a session
+  "/api/cron/sla-alerts": { GET: PUBLIC, POST: PUBLIC },
+  "/api/cron/push-campaigns": { GET: PUBLIC, POST: PUBLIC },
+
+  // ── Orders ────────────────────────────────────────────────────
+  "/api/orders": { GET: "page.orders" },
+  "/api/orders/search": { GET: ["page.orders", "page.notifications"] },
+  "/api/orders/catalog": { GET: "page.orders" },
+  "/api/orders/[id]": { GET: ORDER_READ, PUT: "page.orders" },
+  "/api/orders/[id]/items": { PUT: "page.orders" },
+  "/api/orders/[id]/lines": { GET: "page.orders", POST: "action.orders.lines.edit" },
+  "/api/orders/[id]/split": { POST: "action.orders.split" },
+  "/api/orders/[id]/merge": { GET: "page.orders", POST: "action.orders.merge" },
+  "/api/orders/[id]/links": { GET: ORDER_READ },
+  "/api/orders/[id]/history": { GET: ORDER_READ },
+  "/api/orders/[id]/customer-status": { GET: ORDER_READ },
+  "/api/orders/[id]/status": { PUT: "action.orders.item.status.change" },
+  "/api/orders/[id]/refund": { POST: "action.orders.refund" },
+  "/api/orders/[id]/refunds": { GET: "page.orders", POST: "action.orders.refund" },
+  "/api/orders/[id]/shipping": { PUT: "page.orders" },
+  "/api/orders/[id]/shipping-estimate": { GET: "page.orders" },
+  "/api/orders/[id]/shipping-quote": { GET: "page.orders", PUT: "page.orders" },
+  "/api/orders/[id]/settlements": { GET: "page.orders" },
+  "/api/orders/shipping-reminders": { POST: "action.orders.shipping.remind" },
+  "/api/orders/[id]/invoices": { GET: "page.orders", POST: "page.orders" },
+  "/api/orders/[id]/invoice-deliveries": { GET: "page.orders" },
+  "/api/invoices/[id]": { GET: "page.orders", PUT: "page.orders" },
+  "/api/invoices/[id]/document": { GET: "page.orders" },
+  "/api/invoices/[id]/send": { POST: "action.orders.invoice.send" },
+  "/api/orders/items": { GET: "page.orders.item_master_list" },
+  "/api/orders/items/[itemId]/history": { GET: ORDER_READ },
+  "/api/orders/items/[itemId]/workflow": {
+    GET: ORDER_READ,
+    PUT: "action.orders.item.status.change",
+  },
+  "/api/orders/items/bulk-workflow": { PUT: "action.orders.item.status.change" },
+
+  // ── Catalog ───────────────────────────────────────────────────
+  "/api/products": { GET: CATALOG_READ, DELETE: "action.products.delete" },
+  "/api/products/[id]": {
+    GET: "page.products",
+    PATCH: "page.products",
+    DELETE: "action.products.delete",
+  },
+  "/api/products/[id]/refresh": { POST: "page.products" },
+  "/api/categories": { GET: CATALOG_READ },
+  "/api/categories/list": { GET: CATALOG_READ },
+  "/api/categories/tree": { GET: CATALOG_READ },
+  "/api/categories/reorder": { POST: "page.categories" },
+  "/api/categories/[id]": { GET: "page.categories", PATCH: "page.categories" },
+  "/api/categories/[id]/products": { GET: "page.categories" },
+  "/api/settings/pricing": {
+    GET: "page.products",
+    PATCH: "action.settings.pricing.update",
+  },
+  "/api/settings/invoice": { GET: "page.orders", PUT: "action.settings.invoice.update" },
+  "/api/settings/invoice/preview": { POST: "page.orders" },
+  "/api/settings/document-sequences": { GET: "page.orders", PUT: "action.settings.invoice.update" },
+  "/api/settings/document-sequences/gaps": { GET: "page.orders" },
+
+  // ── Marketing ─────────────────────────────────────────────────
+  "/api/banners": { GET: "page.banners", POST: "page.banners" },
+  "/api/banners/[id]": { PUT: "page.banners", DELETE: "page.banners" },
+  "/api/grid-elements": { POST: "page.banners" },
+  "/api/grid-elements/[id]": { PUT: "page.banners", DELETE: "page.banners" },
+  "/api/splash-ads": { GET: "page.splash_ads", POST: "page.splash_ads" },
+  "/api/splash-ads/[id]": {
+    GET: "page.splash_ads",
+    PUT: "page.splash_ads",
+    DELETE: "page.splash_ads",
+  },
+  "/api/coupons": { GET: "page.coupons", POST: "page.coupons" },
+  "/api/coupons/[id]": { GET: "page.coupons", PUT: "page.coupons", DELETE: "page.coupons" },
+  "/api/coupons/[id]/usage": { GET: "page.coupons" },
+  "/api/flash-sales": { GET: "page.flash_sales", POST: "page.flash_sales" },
+  "/api/flash-sales/[id]": {
+    GET: "page.flash_sales",
+    PUT: "page.flash_sales",
+    DELETE: "page.flash_sales",
+  },
+  "/api/flash-sales/[id]/products": {
+    GET: "page.flash_sales",
+    POST: "page.flash_sales",
+    DELETE: "page.flash_sales",
+  },
+
+  // ── People ────────────────────────────────────────────────────
+  "/api/customers": { GET: ["page.customers", "page.notifications"] },
+  "/api/customers/[id]": { GET: "page.customers", PUT: "page.customers" },
+  // Roles page picks users for overrides from this list
+  "/api/cms-users": { GET: ["page.cms_users", "page.roles"], POST: "page.cms_users" },
+  "/api/cms-users/[id]": {
+    GET: "page.cms_users",
+    PUT: "page.cms_users",
+    DELETE: "page.cms_users",
+  },
+
+  // ── Roles & permissions ───────────────────────────────────────
+  "/api/rbac/routes": { GET: "page.roles" },
+  "/api/rbac/roles": { GET: "page.roles", POST: "action.roles.manage" },
+  "/api/rbac/roles/[id]": { PUT: "action.roles.manage", DELETE: "action.roles.manage" },
+  "/api/rbac/roles/[id]/permissions": { PUT: "action.roles.manage" },
+  "/api/rbac/permissions": { GET: "page.roles" },
+  "/api/rbac/users/[id]/overrides": {
+    GET: "page.roles",
+    POST: "action.roles.manage",
+    DELETE: "action.roles.manage",
+  },
+  "/api/rbac/users/[id]/effective": { GET: "page.roles" },
+  "/api/workflow/config": { GET: "page.workflow", PUT: "action.workflow.manage" },
+  "/api/scan-station": { GET: "page.scan_station", POST: "action.orders.item.status.change" },
+  "/api/print/labels": { GET: WAREHOUSE_PRINT },
+  "/api/print/packing-slip": { GET: WAREHOUSE_PRINT },
+  "/api/shipments": { GET: "page.shipments", POST: "action.shipments.manage" },
+  "/api/shipments/[id]": {
+    GET: "page.shipments",
+    PUT: "action.shipments.manage",
+    DELETE: "action.shipments.manage",
+  },
+  "/api/shipments/[id]/items": {
+    POST: "action.shipments.manage",
+    DELETE: "action.shipments.manage",
+  },
+  "/api/shipments/[id]/transition": { POST: "action.orders.item.status.change" },
+  "/api/payments": { GET: "page.payments" },
+  "/api/payments/[id]": { GET: "page.payments" },
+  "/api/payments/[id]/reconcile": { POST: "action.payments.reconcile" },
+  "/api/sla/ageing": { GET: [...ORDER_READ, "page.dashboard"] },
+
+  // ── Communication ─────────────────────────────────────────────
+  "/api/notifications": { GET: "page.notifications", POST: "action.notifications.send" },
+  "/api/notifications/[id]": { GET: "page.notifications", DELETE: "page.notifications" },
+  "/api/notifications/rules": { GET: "page.notifications" },
+  "/api/notifications/rules/[event]": {
+    PUT: "action.notifications.rules.manage",
+    DELETE: "action.notifications.rules.manage",
+  },
+  "/api/notifications/templates": { GET: "page.notifications" },
+  "/api/notifications/templates/[key]": {
+    PUT: "action.notifications.templates.manage",
+    DELETE: "action.notifications.templates.manage",
+  },
+  "/api/notifications/templates/[key]/preview": { POST: "page.notifications" },
+  "/api/notifications/campaigns": { GET: "page.notifications", POST: "action.notifications.send" },
+  "/api/notifications/campaigns/audience": { GET: "page.notifications", POST: "page.notifications" },
+  "/api/notifications/campaigns/[id]": { GET: "page.notifications", PUT: "action.notifications.send" },
+  "/api/notifications/campaigns/[id]/cancel": { POST: "action.notifications.send" },
+
+  // ── AI features ───────────────────────────────────────────────
+  "/api/tryon-prompts": { GET: "page.tryon_prompts", POST: "page.tryon_prompts" },
+  "/api/tryon-prompts/[id]": {
+    GET: "page.tryon_prompts",
+    PATCH: "page.tryon_prompts",
+    DELETE: "page.tryon_prompts",
+  },
+  "/api/tryon-prompts/by-category/[categoryId]": {
+    GET: ["page.tryon_prompts", "page.categories"],
+  },
+  "/api/tryon-prompts/search-categories": { GET: "page.tryon_prompts" },
+  "/api/tryon-generations": { GET: "page.tryon_analytics" },
+  "/api/tryon-generations/stats": { GET: "page.tryon_analytics" },
+};
+
+/**
+ * Resolve a concrete pathname (e.g. /api/orders/42/refund) to its registry
+ * pattern. Static segments win over dynamic ones, so /api/orders/items is
+ * never mistaken for /api/orders/[id].
+ */
+export function matchApiRoute(pathname: string): string | null {
+  const parts = pathname.replace(/\/+$/, "").split("/");
+  let best: { pattern: string; score: number } | null = null;
+
+  for (const pattern of Object.keys(API_PERMISSIONS)) {
+    const segs = pattern.split("/");
+    if (segs.length !== parts.length) continue;
+
+    let score = 0;
+    let matched = true;
+    for (let i = 0; i < segs.length; i++) {
+      if (segs[i].startsWith("[") && segs[i].endsWith("]")) continue;
+      if (segs[i] !== parts[i]) {
+        matched = false;
+        break;
+      }
+      score++;
+    }
+
+    if (matched && (!best || score > best.score)) {
+      best = { pattern, score };
+    }
+  }
+
+  return best?.pattern ?? null;
+}
+
+/**
+ * Permission required for a request, or undefined if the route/method
+ * pair is not registered.
+ */
+export function getApiPermission(
+  pathname: string,
+  method: string
+): RoutePermission | undefined {
+  const pattern = matchApiRoute(pathname);
+  if (!pattern) return undefined;
+  return API_PERMISSIONS[pattern][method.toUpperCase() as HttpMethod];
+}
+
+/**
+ * Flat listing of every guarded route, for the RBAC audit view.
+ */
+export function listRoutePermissions() {
+  const api = Object.entries(API_PERMISSIONS).flatMap(([route, methods]) =>
+    Object.entries(methods).map(([method, permission]) => ({
+      route,
+      method,
+      permissions: Array.isArray(permission) ? permission : [permission],
+    }))
+  );
+
+  const pages = Object.entries(PAGE_PERMISSIONS).map(([route, permission]) => ({
+    route,
+    method: "PAGE",
+    permissions: Array.isArray(permission) ? permission : [permission],
+  }));
+
+  return [...pages, ...api];
+}
@@ -0,0 +1,179 @@
+import { prisma } from "./prisma";
+import { getAllowedTransitions } from "./rbac";
+import {
+  transitionItems,
+  WorkflowError,
+  type ItemTransitionResult,
+  type WorkflowActor,
+} from "./workflow";
+
+/**
+ * Consolidated shipment batches (containers / air batches) between the
+ * China and Lebanon warehouses.
+ *
+ * A batch groups order items (cms_shipment_batch_items, one batch per item)
+ * and moves them together: `transitionBatch` runs every open item through
+ * `transitionItems`, so role rules, tracking requirements and history rows
+ * apply exactly as for single items. Items can only be added or removed
+ * while the batch is still open.
+ */
+
+export type BatchStatus = "open" | "in_transit" | "received";
+export type BatchShippingMethod = "air" | "sea";
+
+export const BATCH_METHODS: BatchShippingMethod[] = ["air", "sea"];
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  open: "Open",
+  in_transit: "In Transit",
+  received: "Received",
+};
+
+/** Item workflow statuses that move the batch itself forward */
+export const BATCH_STATUS_BY_ITEM_STATUS: Record<string, BatchStatus> = {
+  shipped_to_leb: "in_transit",
+  received_to_leb: "received",
+};
+
+/** Display code printed on manifests, e.g. SEA-00012 */
+export const batchCode = (batch: { id: number; shipping_method: string }) =>
+  `${batch.shipping_method.toUpperCase()}-${String(batch.id).padStart(5, "0")}`;
+
+/** "YYYY-MM-DD" → Date, "" / null → null, anything unparseable → undefined */
+export function parseBatchDate(value: unknown): Date | null | undefined {
+  if (value === null || value === undefined || value === "") return null;
+  const d = new Date(String(value));
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+export interface BatchItem {
+  id: number;
+  order_id: number;
+  product_name: string;
+  variation_name: string | null;
+  image_url: string | null;
+  quantity: number;
+  shipping_method: string | null;
+  tracking_number: string | null;
+  workflow_status_id: number | null;
+  workflow_status_key: string | null;
+  workflow_status_label: string;
+  is_terminal: boolean;
+}
+
+/** Every item in a batch with its current workflow status */
+export async function loadBatchItems(batchId: number): Promise<BatchItem[]> {
+  const links = await prisma.cms_shipment_batch_items.findMany({
+    where: { batch_id: batchId },
+    select: { order_product_id: true },
+  });
+  if (!links.length) return [];
+
+  const items = await prisma.order_products.findMany({
+    where: { id: { in: links.map((l) => l.order_product_id) } },
+    select: {
+      id: true,
+      r_order_id: true,
+      product_name: true,
+      variation_name: true,
+      main_image: true,
+      variation_image: true,
+      quantity: true,
+      shipping_method: true,
+      tracking_number: true,
+      workflow_status_id: true,
+    },
+    orderBy: [{ r_order_id: "asc" }, { id: "asc" }],
+  });
+
+  const statuses = await prisma.cms_order_item_statuses.findMany({
+    where: { id: { in: [...new Set(items.map((i) => i.workflow_status_id ?? 0))] } },
+  });
+  const statusMap = new Map(statuses.map((s) => [s.id, s]));
+
+  return items.map((item) => {
+    const ws = item.workflow_status_id ? statusMap.get(item.workflow_status_id) : null;
+    return {
+      id: item.id,
+      order_id: item.r_order_id,
+      product_name: item.product_name,
+      variation_name: item.variation_name,
+      image_url: item.variation_image || item.main_image,
+      quantity: item.quantity,
+      shipping_method: item.shipping_method,
+      tracking_number: item.tracking_number,
+      workflow_status_id: item.workflow_status_id,
+      workflow_status_key: ws?.status_key || null,
+      workflow_status_label: ws?.status_label || "Unset",
+      is_terminal: ws?.is_terminal === true,
+    };
+  });
+}
+
+/**
+ * Transitions the role may apply to the whole batch — those allowed from
+ * the current status of every non-terminal item.
+ */
+export async function getBatchTransitions(roleKey: string, items: BatchItem[]) {
+  const open = items.filter((i) => !i.is_terminal && i.workflow_status_id);
+  if (!open.length) return [];
+
+  const statusIds = [...new Set(open.map((i) => i.workflow_status_id!))];
+  const perStatus = await Promise.all(statusIds.map((id) => getAllowedTransitions(roleKey, id)));
+  return perStatus[0].filter((t) =>
+    perStatus.every((list) => list.some((o) => o.toStatusKey === t.toStatusKey))
+  );
+}
+
+export interface BatchTransitionResult extends ItemTransitionResult {
+  batchStatus: BatchStatus;
+}
+
+/**
+ * Move every non-terminal item in the batch to `toStatusKey`.
+ *
+ * When the target is one of BATCH_STATUS_BY_ITEM_STATUS and every item
+ * made it (or already was there), the batch status follows and
+ * departed_at / received_at are stamped.
+ */
+export async function transitionBatch(input: {
+  batchId: number;
+  toStatusKey: string;
+  actor: WorkflowActor;
+  trackingNumber?: string;
+  note?: string | null;
+  expectedFromStatus?: Record<number, string>;
+}): Promise<BatchTransitionResult> {
+  const batch = await prisma.cms_shipment_batches.findUnique({ where: { id: input.batchId } });
+  if (!batch) throw new WorkflowError("Shipment batch not found", 404);
+
+  const items = (await loadBatchItems(batch.id)).filter((i) => !i.is_terminal);
+  if (!items.length) throw new WorkflowError("This batch has no open items to move");
+
+  const result = await transitionItems({
+    itemIds: items.map((i) => i.id),
+    toStatusKey: input.toStatusKey,
+    actor: input.actor,
+    trackingNumber: input.trackingNumber,
+    note: input.note || `Shipment batch ${batchCode(batch)}`,
+    expectedFromStatus: input.expectedFromStatus,
+  });
+
+  let batchStatus = batch.status as BatchStatus;
+  const next = BATCH_STATUS_BY_ITEM_STATUS[result.targetStatus.key];
+  const complete = result.skipped.every((s) => s.code === "unchanged");
+  if (next && complete && next !== batchStatus) {
+    const now = new Date();
+    await prisma.cms_shipment_batches.update({
+      where: { id: batch.id },
+      data: {
+        status: next,
+        updated_at: now,
+        ...(next === "in_transit" ? { departed_at: now } : { received_at: now }),
+      },
+    });
+    batchStatus = next;
+  }
+
+  return { ...result, batchStatus };
+}
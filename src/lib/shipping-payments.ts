@@ -0,0 +1,318 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { SHIPPING_STATUS } from "./order-constants";
+import { notifyOrderCustomer } from "./customer-notifications";
+import { isPaidStatus, listOrderTransactions, type PaymentPurpose, type PaymentTransactionRow } from "./payments";
+import type { WorkflowActor } from "./workflow";
+
+/**
+ * Product and shipping payments as two settlements. The product
+ * settlement is `subtotal - discount_amount`, settled by `is_paid`; the
+ * shipping settlement is `shipping_amount + tax_amount`, settled by
+ * `shipping_status = 2` — the same split the product and shipping invoices
+ * use. Each is matched to its `payment_transactions` rows by purpose (see
+ * transactionPurpose in payments.ts).
+ *
+ * Confirming the shipping price (status 0 → 1) records a
+ * `cms_shipping_confirmations` row so the CMS knows how long the customer
+ * has had the Pay button; resetting to Pending Review drops it. Orders
+ * confirmed before the table existed fall back to `orders.updated_at`,
+ * reported as an estimate. The row also counts payment reminders.
+ */
+
+/** Request-level failure (bad input) */
+export class ShippingPaymentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ShippingPaymentError";
+    this.status = status;
+  }
+}
+
+/** Minimum time between two reminders for the same order */
+export const SHIPPING_REMINDER_COOLDOWN_HOURS = 24;
+
+/** Most orders one reminder request can cover */
+const MAX_REMINDER_BATCH = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Start (or restart) the unpaid-shipping clock when the price is confirmed */
+export async function recordShippingConfirmation(
+  orderId: number,
+  confirmedBy: number | null,
+  db: Prisma.TransactionClient = prisma
+) {
+  const now = new Date();
+  await db.cms_shipping_confirmations.upsert({
+    where: { order_id: orderId },
+    create: { order_id: orderId, confirmed_at: now, confirmed_by: confirmedBy, updated_at: now },
+    update: {
+      confirmed_at: now,
+      confirmed_by: confirmedBy,
+      reminder_count: 0,
+      last_reminded_at: null,
+      last_reminded_by: null,
+      updated_at: now,
+    },
+  });
+}
+
+/** Stop the clock when the price goes back to Pending Review */
+export async function clearShippingConfirmation(orderId: number, db: Prisma.TransactionClient = prisma) {
+  await db.cms_shipping_confirmations.deleteMany({ where: { order_id: orderId } });
+}
+
+export interface ShippingConfirmation {
+  confirmed_at: Date;
+  /** True when no confirmation was recorded and `updated_at` stands in */
+  confirmed_at_estimated: boolean;
+  days_waiting: number;
+  reminder_count: number;
+  last_reminded_at: Date | null;
+  can_remind: boolean;
+}
+
+type ConfirmableOrder = { id: number; shipping_status: number; updated_at: Date | null; created_at: Date };
+
+/** Confirmation details for the orders that are Ready to Pay */
+export async function shippingConfirmationsFor(orders: ConfirmableOrder[]) {
+  const waiting = orders.filter((o) => o.shipping_status === 1);
+  const rows = waiting.length
+    ? await prisma.cms_shipping_confirmations.findMany({ where: { order_id: { in: waiting.map((o) => o.id) } } })
+    : [];
+  const rowMap = new Map(rows.map((r) => [r.order_id, r]));
+  const now = Date.now();
+  const cooldownStart = now - SHIPPING_REMINDER_COOLDOWN_HOURS * 60 * 60 * 1000;
+
+  const result = new Map<number, ShippingConfirmation>();
+  for (const order of waiting) {
+    const row = rowMap.get(order.id);
+    const confirmedAt = row?.confirmed_at ?? order.updated_at ?? order.created_at;
+    result.set(order.id, {
+      confirmed_at: confirmedAt,
+      confirmed_at_estimated: !row,
+      days_waiting: Math.max(0, Math.floor((now - confirmedAt.getTime()) / DAY_MS)),
+      reminder_count: row?.reminder_count ?? 0,
+      last_reminded_at: row?.last_reminded_at ?? null,
+      can_remind: !row?.last_reminded_at || row.last_reminded_at.getTime() < cooldownStart,
+    });
+  }
+  return result;
+}
+
+/**
+ * Orders-list filter: shipping confirmed (Ready to Pay) at least `days`
+ * days ago and still unpaid. Orders without a confirmation row use the
+ * same `updated_at` fallback as shippingConfirmationsFor.
+ */
+export function shippingUnpaidWhere(days: number): Prisma.ordersWhereInput {
+  const cutoff = new Date(Date.now() - days * DAY_MS);
+  return {
+    shipping_status: 1,
+    OR: [
+      { cms_shipping_confirmations: { is: { confirmed_at: { lte: cutoff } } } },
+      {
+        cms_shipping_confirmations: { is: null },
+        OR: [{ updated_at: { lte: cutoff } }, { updated_at: null, created_at: { lte: cutoff } }],
+      },
+    ],
+  };
+}
+
+export interface Settlement {
+  purpose: PaymentPurpose;
+  due: number;
+  /** Sum of the paid transactions for this purpose */
+  paid_amount: number;
+  outstanding: number;
+  is_settled: boolean;
+  settled_at: Date | null;
+  payment_id: string | null;
+  transactions: PaymentTransactionRow[];
+}
+
+function settle(
+  purpose: PaymentPurpose,
+  due: number,
+  isSettled: boolean,
+  paymentId: string | null,
+  transactions: PaymentTransactionRow[]
+): Settlement {
+  const own = transactions.filter((t) => t.purpose === purpose);
+  const paid = own.filter((t) => isPaidStatus(t.status));
+  const paidAmount = round2(paid.reduce((sum, t) => sum + t.amount, 0));
+  const latest = paid[0] ?? null;
+  return {
+    purpose,
+    due: round2(due),
+    paid_amount: paidAmount,
+    outstanding: isSettled ? 0 : Math.max(0, round2(due - paidAmount)),
+    is_settled: isSettled,
+    settled_at: latest ? (latest.processed_at ?? latest.created_at) : null,
+    payment_id: paymentId,
+    transactions: own,
+  };
+}
+
+/** The product and shipping settlements of one order */
+export async function getOrderSettlements(orderId: number) {
+  const order = await prisma.orders.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      subtotal: true,
+      discount_amount: true,
+      shipping_amount: true,
+      tax_amount: true,
+      is_paid: true,
+      payment_id: true,
+      shipping_status: true,
+      shipping_payment_id: true,
+      updated_at: true,
+      created_at: true,
+    },
+  });
+  if (!order) throw new ShippingPaymentError("Order not found", 404);
+
+  const [transactions, confirmations] = await Promise.all([
+    listOrderTransactions(orderId),
+    shippingConfirmationsFor([order]),
+  ]);
+
+  return {
+    order_id: orderId,
+    product: settle(
+      "order",
+      (order.subtotal || 0) - (order.discount_amount || 0),
+      order.is_paid === 1,
+      order.payment_id,
+      transactions
+    ),
+    shipping: {
+      ...settle(
+        "shipping",
+        order.shipping_amount + (order.tax_amount ?? 0),
+        order.shipping_status === 2,
+        order.shipping_payment_id,
+        transactions
+      ),
+      status: order.shipping_status,
+      status_label: SHIPPING_STATUS[order.shipping_status]?.label || "Unknown",
+      confirmation: confirmations.get(orderId) ?? null,
+    },
+  };
+}
+
+export interface ReminderResult {
+  sent: number[];
+  skipped: { order_id: number; reason: string }[];
+}
+
+/**
+ * Remind customers to pay confirmed shipping. Orders that are not Ready to
+ * Pay, or were reminded within the cooldown, are skipped. The reminder is
+ * claimed on the confirmation row before the notification goes out, so
+ * two admins clicking at once send it once.
+ */
+export async function sendShippingReminders(input: { orderIds: unknown; actor: WorkflowActor }): Promise<ReminderResult> {
+  if (!Array.isArray(input.orderIds) || !input.orderIds.length) {
+    throw new ShippingPaymentError("order_ids must be a non-empty array");
+  }
+  const orderIds = [...new Set(input.orderIds.map(Number))];
+  if (orderIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new ShippingPaymentError("order_ids must be positive integers");
+  }
+  if (orderIds.length > MAX_REMINDER_BATCH) {
+    throw new ShippingPaymentError(`At most ${MAX_REMINDER_BATCH} orders per request`);
+  }
+
+  const orders = await prisma.orders.findMany({
+    where: { id: { in: orderIds } },
+    select: {
+      id: true,
+      r_user_id: true,
+      shipping_status: true,
+      shipping_amount: true,
+      tax_amount: true,
+      updated_at: true,
+      created_at: true,
+    },
+  });
+  const orderMap = new Map(orders.map((o) => [o.id, o]));
+  const confirmations = await shippingConfirmationsFor(orders);
+  const cooldownStart = new Date(Date.now() - SHIPPING_REMINDER_COOLDOWN_HOURS * 60 * 60 * 1000);
+
+  const result: ReminderResult = { sent: [], skipped: [] };
+  for (const orderId of orderIds) {
+    const order = orderMap.get(orderId);
+    const confirmation = confirmations.get(orderId);
+    if (!order) {
+      result.skipped.push({ order_id: orderId, reason: "Order not found" });
+      continue;
+    }
+    if (!confirmation) {
+      result.skipped.push({ order_id: orderId, reason: "Shipping is not awaiting payment" });
+      continue;
+    }
+
+    const now = new Date();
+    let claimed: boolean;
+    if (confirmation.confirmed_at_estimated) {
+      try {
+        await prisma.cms_shipping_confirmations.create({
+          data: {
+            order_id: orderId,
+            confirmed_at: confirmation.confirmed_at,
+            reminder_count: 1,
+            last_reminded_at: now,
+            last_reminded_by: input.actor.userId,
+            updated_at: now,
+          },
+        });
+        claimed = true;
+      } catch (err) {
+        if (!(err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002")) throw err;
+        claimed = false;
+      }
+    } else {
+      const { count } = await prisma.cms_shipping_confirmations.updateMany({
+        where: {
+          order_id: orderId,
+          OR: [{ last_reminded_at: null }, { last_reminded_at: { lt: cooldownStart } }],
+        },
+        data: {
+          reminder_count: { increment: 1 },
+          last_reminded_at: now,
+          last_reminded_by: input.actor.userId,
+          updated_at: now,
+        },
+      });
+      claimed = count === 1;
+    }
+    if (!claimed) {
+      result.skipped.push({
+        order_id: orderId,
+        reason: `Already reminded in the last ${SHIPPING_REMINDER_COOLDOWN_HOURS} hours`,
+      });
+      continue;
+    }
+
+    const amount = round2(order.shipping_amount + (order.tax_amount ?? 0));
+    await notifyOrderCustomer({
+      userId: order.r_user_id,
+      orderId,
+      type: "shipping",
+      template: "shipping_reminder",
+      values: { shipping_amount: amount.toFixed(2) },
+      details: { shipping_amount: amount, reminder: true },
+    });
+    result.sent.push(orderId);
+  }
+
+  return result;
+}
@@ -0,0 +1,317 @@
+import type { Prisma, orders } from "@prisma/client";
+import { prisma } from "./prisma";
+import { notifyOrderCustomer } from "./customer-notifications";
+import { recordShippingConfirmation } from "./shipping-payments";
+import {
+  computeShippingEstimation,
+  resolveInheritedShippingFields,
+  SHIPPING_CATEGORY_SELECT,
+  type InheritedShippingFields,
+} from "./shipping-estimation";
+
+/**
+ * CMS-native shipping quotes. Each line is priced by air and by sea with
+ * the same category-inherited rates the product page shows
+ * (computeShippingEstimation): the per-unit cost times the quantity, using
+ * the line's CNY `provider_price` for the surcharge. Category taxes are
+ * per unit and apply once the line reaches the category's minimum
+ * quantity (always, when none is set).
+ *
+ * Applying a quote stores both costs on the line (`by_air` / `by_sea`),
+ * sets each line's chosen method, and writes the order's
+ * `shipping_amount`, `tax_amount`, `shipping_method` (air / sea / both) and
+ * `total`. It can also confirm the price (`shipping_status = 1`), which
+ * notifies the customer the same way the shipping editor does.
+ */
+
+/** Request-level failure (bad input, shipping already paid) */
+export class ShippingQuoteError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ShippingQuoteError";
+    this.status = status;
+  }
+}
+
+export type QuoteMethod = "air" | "sea";
+
+export interface QuoteOption {
+  unit_shipping: number;
+  shipping: number;
+  unit_tax: number;
+  tax: number;
+}
+
+export interface ShippingQuoteLine {
+  item_id: number;
+  product_id: number;
+  product_name: string;
+  variation_name: string | null;
+  quantity: number;
+  /** "estimated" when the product has no weight or dimensions */
+  status: string;
+  source_category: string | null;
+  method: QuoteMethod;
+  current_shipping: number;
+  air: QuoteOption;
+  sea: QuoteOption;
+}
+
+export interface QuoteTotals {
+  shipping: number;
+  tax: number;
+}
+
+export interface ShippingQuote {
+  order_id: number;
+  shipping_status: number;
+  shipping_method: string | null;
+  shipping_amount: number;
+  tax_amount: number;
+  lines: ShippingQuoteLine[];
+  totals: { air: QuoteTotals; sea: QuoteTotals; selected: QuoteTotals };
+}
+
+/** Item statuses whose lines no longer ship */
+const UNSHIPPED_STATUS_KEYS = ["cancelled", "refunded"];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function taxFor(unitTax: number, minQty: number | null, quantity: number) {
+  if (!unitTax || (minQty !== null && quantity < minQty)) return 0;
+  return round2(unitTax * quantity);
+}
+
+function shippingMethodOf(methods: QuoteMethod[]) {
+  const set = new Set(methods);
+  return set.has("air") && set.has("sea") ? "both" : set.has("sea") ? "sea" : "air";
+}
+
+function sumOption(lines: ShippingQuoteLine[], pick: (l: ShippingQuoteLine) => QuoteOption): QuoteTotals {
+  return {
+    shipping: round2(lines.reduce((sum, l) => sum + pick(l).shipping, 0)),
+    tax: round2(lines.reduce((sum, l) => sum + pick(l).tax, 0)),
+  };
+}
+
+async function buildQuote(db: Prisma.TransactionClient, order: orders): Promise<ShippingQuote> {
+  const unshipped = await db.cms_order_item_statuses.findMany({
+    where: { status_key: { in: UNSHIPPED_STATUS_KEYS } },
+    select: { id: true },
+  });
+  const items = await db.order_products.findMany({
+    where: {
+      r_order_id: order.id,
+      OR: [{ workflow_status_id: null }, { workflow_status_id: { notIn: unshipped.map((s) => s.id) } }],
+    },
+    orderBy: { id: "asc" },
+  });
+
+  const productIds = [...new Set(items.map((i) => i.r_product_id))];
+  const [products, exchangeRateRow, shippingSettings] = await Promise.all([
+    db.product.findMany({
+      where: { id: { in: productIds } },
+      select: {
+        id: true,
+        product_weight: true,
+        length_m: true,
+        width_m: true,
+        height_m: true,
+        origin_price: true,
+        category_id: true,
+      },
+    }),
+    db.ex_currency.findFirst({
+      where: { from_currency: 9, to_currency: 6 },
+      select: { rate: true },
+    }),
+    db.shipping_settings.findFirst({
+      select: { air_price_per_kg: true, sea_price_per_cbm: true },
+    }),
+  ]);
+  const exchangeRate = exchangeRateRow?.rate ?? 0.14;
+  const productMap = new Map(products.map((p) => [p.id, p]));
+
+  // Resolve each category's inherited rates once
+  const categoryIds = [...new Set(products.map((p) => p.category_id).filter((id): id is number => id !== null))];
+  const categories = await db.category.findMany({
+    where: { id: { in: categoryIds } },
+    select: SHIPPING_CATEGORY_SELECT,
+  });
+  const fieldsByCategory = new Map<number, InheritedShippingFields>();
+  for (const category of categories) {
+    fieldsByCategory.set(category.id, await resolveInheritedShippingFields(category, db));
+  }
+  const noCategory = await resolveInheritedShippingFields(null, db);
+
+  const lines = items.map((item): ShippingQuoteLine => {
+    const product = productMap.get(item.r_product_id);
+    const fields = (product?.category_id && fieldsByCategory.get(product.category_id)) || noCategory;
+    const estimate = computeShippingEstimation(
+      {
+        product_weight: product?.product_weight ?? null,
+        length_m: product?.length_m ?? null,
+        width_m: product?.width_m ?? null,
+        height_m: product?.height_m ?? null,
+        origin_price: item.provider_price || product?.origin_price || null,
+      },
+      fields,
+      exchangeRate,
+      shippingSettings
+    );
+    const method: QuoteMethod = item.shipping_method === "sea" ? "sea" : "air";
+
+    return {
+      item_id: item.id,
+      product_id: item.r_product_id,
+      product_name: item.product_name,
+      variation_name: item.variation_name,
+      quantity: item.quantity,
+      status: estimate.status,
+      source_category: estimate.rates.sourceCategory,
+      method,
+      current_shipping: round2(method === "sea" ? (item.by_sea ?? 0) : (item.by_air ?? 0)),
+      air: {
+        unit_shipping: estimate.air.total,
+        shipping: round2(estimate.air.total * item.quantity),
+        unit_tax: estimate.tax.air,
+        tax: taxFor(estimate.tax.air, estimate.tax.minQtyAir, item.quantity),
+      },
+      sea: {
+        unit_shipping: estimate.sea.total,
+        shipping: round2(estimate.sea.total * item.quantity),
+        unit_tax: estimate.tax.sea,
+        tax: taxFor(estimate.tax.sea, estimate.tax.minQtySea, item.quantity),
+      },
+    };
+  });
+
+  return {
+    order_id: order.id,
+    shipping_status: order.shipping_status,
+    shipping_method: order.shipping_method,
+    shipping_amount: round2(order.shipping_amount),
+    tax_amount: round2(order.tax_amount ?? 0),
+    lines,
+    totals: {
+      air: sumOption(lines, (l) => l.air),
+      sea: sumOption(lines, (l) => l.sea),
+      selected: sumOption(lines, (l) => l[l.method]),
+    },
+  };
+}
+
+/** Air and sea costs for every shipping line of an order */
+export async function getShippingQuote(orderId: number): Promise<ShippingQuote> {
+  const order = await prisma.orders.findUnique({ where: { id: orderId } });
+  if (!order) throw new ShippingQuoteError("Order not found", 404);
+  return buildQuote(prisma, order);
+}
+
+/** Validate `{ items: [{ item_id, method }] }` into an item → method map */
+export function parseQuoteSelections(body: Record<string, unknown>): Map<number, QuoteMethod> {
+  if (!Array.isArray(body.items)) throw new ShippingQuoteError("items must be an array of { item_id, method }");
+  const selections = new Map<number, QuoteMethod>();
+  for (const entry of body.items as Record<string, unknown>[]) {
+    const itemId = Number(entry?.item_id);
+    if (!Number.isInteger(itemId) || itemId <= 0) throw new ShippingQuoteError("item_id must be a positive integer");
+    if (entry.method !== "air" && entry.method !== "sea") {
+      throw new ShippingQuoteError(`Item ${itemId}: method must be "air" or "sea"`);
+    }
+    selections.set(itemId, entry.method);
+  }
+  return selections;
+}
+
+export interface AppliedShippingQuote {
+  quote: ShippingQuote;
+  total: number;
+  confirmed: boolean;
+  notified: boolean;
+}
+
+/**
+ * Write the quote with the chosen per-item methods (lines not listed keep
+ * theirs). `confirm` also moves the order to Ready to Pay.
+ */
+export async function applyShippingQuote(input: {
+  orderId: number;
+  selections: Map<number, QuoteMethod>;
+  confirm?: boolean;
+  /** Admin confirming the price, recorded with the confirmation */
+  confirmedBy?: number | null;
+}): Promise<AppliedShippingQuote> {
+  const { orderId, selections } = input;
+
+  const result = await prisma.$transaction(
+    async (tx) => {
+      await tx.$queryRaw`SELECT id FROM orders WHERE id = ${orderId} FOR UPDATE`;
+      const order = await tx.orders.findUnique({ where: { id: orderId } });
+      if (!order) throw new ShippingQuoteError("Order not found", 404);
+      if (order.shipping_status === 2) {
+        throw new ShippingQuoteError("Shipping is already paid by the customer. Cannot modify.", 409);
+      }
+
+      const quote = await buildQuote(tx, order);
+      if (!quote.lines.length) throw new ShippingQuoteError("Order has no items to ship", 409);
+      const unknown = [...selections.keys()].filter((id) => !quote.lines.some((l) => l.item_id === id));
+      if (unknown.length) {
+        throw new ShippingQuoteError(`Items ${unknown.join(", ")} are not shipping lines of order #${orderId}`, 404);
+      }
+
+      const methods = quote.lines.map((l) => selections.get(l.item_id) ?? l.method);
+      for (const [i, line] of quote.lines.entries()) {
+        await tx.order_products.update({
+          where: { id: line.item_id },
+          data: {
+            shipping_method: methods[i],
+            by_air: line.air.shipping,
+            by_sea: line.sea.shipping,
+          },
+        });
+      }
+
+      const shipping = round2(quote.lines.reduce((sum, l, i) => sum + l[methods[i]].shipping, 0));
+      const tax = round2(quote.lines.reduce((sum, l, i) => sum + l[methods[i]].tax, 0));
+      const total = round2((order.subtotal || 0) + shipping + tax - (order.discount_amount || 0));
+      const confirming = !!input.confirm && order.shipping_status === 0;
+
+      const updated = await tx.orders.update({
+        where: { id: orderId },
+        data: {
+          shipping_amount: shipping,
+          tax_amount: tax,
+          shipping_method: shippingMethodOf(methods),
+          total,
+          ...(confirming ? { shipping_status: 1 } : {}),
+          updated_at: new Date(),
+        },
+      });
+
+      if (confirming) await recordShippingConfirmation(orderId, input.confirmedBy ?? null, tx);
+
+      return { quote: await buildQuote(tx, updated), total, confirming, userId: order.r_user_id };
+    },
+    { timeout: 15_000 }
+  );
+
+  if (result.confirming) {
+    await notifyOrderCustomer({
+      userId: result.userId,
+      orderId,
+      type: "shipping",
+      template: "shipping_confirmed",
+      values: { shipping_amount: result.quote.shipping_amount.toFixed(2) },
+      details: { shipping_amount: result.quote.shipping_amount },
+    });
+  }
+
+  return {
+    quote: result.quote,
+    total: result.total,
+    confirmed: result.quote.shipping_status === 1,
+    notified: result.confirming,
+  };
+}
@@ -0,0 +1,265 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Workflow SLA — how long items may sit in a status.
+ *
+ * Each status can carry `sla_hours` (edited in the workflow editor). An
+ * item is overdue when it entered its current status longer ago than that:
+ * `workflow_status_updated_at`, or the order's `created_at` for items that
+ * never moved. The roles responsible for a status are the ones allowed to
+ * move items out of it; super_admin is only responsible when no other
+ * role is.
+ *
+ * `raiseSlaAlerts` keeps one open `cms_alerts` row per (status, role)
+ * while that status has overdue items, updates its count on every run and
+ * resolves it once the backlog is cleared.
+ */
+
+export const SLA_ALERT_TYPE = "sla_breach";
+
+/** Overdue items returned per status in the ageing view */
+const ITEMS_PER_STATUS = 50;
+const HOUR_MS = 3_600_000;
+
+export interface SlaRole {
+  id: number;
+  role_key: string;
+  role_name: string;
+}
+
+export interface SlaStatusSummary {
+  status_id: number;
+  status_key: string;
+  status_label: string;
+  sla_hours: number;
+  overdue_count: number;
+  oldest_hours: number | null;
+  roles: SlaRole[];
+}
+
+export interface OverdueItem {
+  id: number;
+  order_id: number;
+  product_name: string;
+  variation_name: string | null;
+  image_url: string | null;
+  quantity: number;
+  status_key: string;
+  status_label: string;
+  entered_at: string;
+  age_hours: number;
+  overdue_hours: number;
+}
+
+export interface AgeingReport {
+  statuses: SlaStatusSummary[];
+  roles: (SlaRole & { overdue_count: number })[];
+  items: OverdueItem[];
+}
+
+function overdueWhere(statusId: number, cutoff: Date): Prisma.order_productsWhereInput {
+  return {
+    workflow_status_id: statusId,
+    OR: [
+      { workflow_status_updated_at: { lt: cutoff } },
+      { workflow_status_updated_at: null, order: { created_at: { lt: cutoff } } },
+    ],
+  };
+}
+
+/** Active, non-terminal statuses with an SLA, each with its responsible roles */
+async function getSlaStatuses() {
+  const statuses = await prisma.cms_order_item_statuses.findMany({
+    where: { is_active: true, is_terminal: false, sla_hours: { not: null } },
+    orderBy: { status_order: "asc" },
+  });
+  if (!statuses.length) return [];
+
+  const [rules, roles] = await Promise.all([
+    prisma.cms_role_item_transition_permissions.findMany({
+      where: { from_status_id: { in: statuses.map((s) => s.id) }, can_transition: true },
+      select: { role_id: true, from_status_id: true },
+    }),
+    prisma.cms_roles.findMany({
+      where: { is_active: true },
+      select: { id: true, role_key: true, role_name: true },
+    }),
+  ]);
+  const roleMap = new Map(roles.map((r) => [r.id, r]));
+  const superAdmin = roles.find((r) => r.role_key === "super_admin");
+
+  return statuses.map((s) => {
+    const responsible = [
+      ...new Set(rules.filter((r) => r.from_status_id === s.id).map((r) => r.role_id)),
+    ]
+      .map((id) => roleMap.get(id))
+      .filter((r): r is SlaRole => !!r && r.role_key !== "super_admin");
+    return {
+      ...s,
+      sla_hours: s.sla_hours!,
+      roles: responsible.length || !superAdmin ? responsible : [superAdmin],
+    };
+  });
+}
+
+/**
+ * Overdue items grouped by status and by responsible role.
+ * `roleKey` narrows the report to the statuses that role is responsible for.
+ */
+export async function getAgeingReport(
+  filters: { statusKey?: string; roleKey?: string } = {}
+): Promise<AgeingReport> {
+  const now = Date.now();
+  const statuses = (await getSlaStatuses()).filter(
+    (s) =>
+      (!filters.statusKey || s.status_key === filters.statusKey) &&
+      (!filters.roleKey || s.roles.some((r) => r.role_key === filters.roleKey))
+  );
+
+  const summaries: SlaStatusSummary[] = [];
+  const items: OverdueItem[] = [];
+
+  for (const s of statuses) {
+    const where = overdueWhere(s.id, new Date(now - s.sla_hours * HOUR_MS));
+    const [count, rows] = await Promise.all([
+      prisma.order_products.count({ where }),
+      prisma.order_products.findMany({
+        where,
+        select: {
+          id: true,
+          r_order_id: true,
+          product_name: true,
+          variation_name: true,
+          main_image: true,
+          variation_image: true,
+          quantity: true,
+          workflow_status_updated_at: true,
+          order: { select: { created_at: true } },
+        },
+        orderBy: [{ workflow_status_updated_at: "asc" }, { id: "asc" }],
+        take: ITEMS_PER_STATUS,
+      }),
+    ]);
+
+    let oldest: number | null = null;
+    for (const row of rows) {
+      const entered = row.workflow_status_updated_at ?? row.order.created_at;
+      const age = (now - entered.getTime()) / HOUR_MS;
+      oldest = Math.max(oldest ?? 0, age);
+      items.push({
+        id: row.id,
+        order_id: row.r_order_id,
+        product_name: row.product_name,
+        variation_name: row.variation_name,
+        image_url: row.variation_image || row.main_image,
+        quantity: row.quantity,
+        status_key: s.status_key,
+        status_label: s.status_label,
+        entered_at: entered.toISOString(),
+        age_hours: Math.floor(age),
+        overdue_hours: Math.floor(age - s.sla_hours),
+      });
+    }
+
+    summaries.push({
+      status_id: s.id,
+      status_key: s.status_key,
+      status_label: s.status_label,
+      sla_hours: s.sla_hours,
+      overdue_count: count,
+      oldest_hours: oldest === null ? null : Math.floor(oldest),
+      roles: s.roles,
+    });
+  }
+
+  const byRole = new Map<number, SlaRole & { overdue_count: number }>();
+  for (const s of summaries) {
+    for (const r of s.roles) {
+      const entry = byRole.get(r.id) || { ...r, overdue_count: 0 };
+      entry.overdue_count += s.overdue_count;
+      byRole.set(r.id, entry);
+    }
+  }
+
+  items.sort((a, b) => b.overdue_hours - a.overdue_hours);
+
+  return {
+    statuses: summaries,
+    roles: Array.from(byRole.values()).sort((a, b) => b.overdue_count - a.overdue_count),
+    items,
+  };
+}
+
+/**
+ * Raise, refresh and resolve SLA alerts. Safe to run as often as you like;
+ * meant to be called on a schedule via /api/cron/sla-alerts.
+ */
+export async function raiseSlaAlerts(): Promise<{ raised: number; updated: number; resolved: number }> {
+  const now = new Date();
+  const report = await getAgeingReport();
+  const open = await prisma.cms_alerts.findMany({
+    where: { alert_type: SLA_ALERT_TYPE, is_resolved: false },
+  });
+  const openByKey = new Map(open.map((a) => [`${a.status_id}:${a.role_id}`, a]));
+  const touched = new Set<number>();
+  let raised = 0;
+  let updated = 0;
+
+  for (const s of report.statuses) {
+    if (!s.overdue_count) continue;
+    const subject = `${s.overdue_count} item${s.overdue_count === 1 ? "" : "s"} overdue in ${s.status_label}`;
+    const body =
+      `Items have been in "${s.status_label}" longer than the ${s.sla_hours}h SLA` +
+      (s.oldest_hours !== null ? ` — the oldest for ${s.oldest_hours}h.` : ".");
+    const action_url = `/dashboard/items?overdue=${s.status_key}`;
+
+    for (const role of s.roles) {
+      const existing = openByKey.get(`${s.status_id}:${role.id}`);
+      if (existing) {
+        touched.add(existing.id);
+        if (existing.item_count === s.overdue_count) continue;
+        await prisma.cms_alerts.update({
+          where: { id: existing.id },
+          data: {
+            subject,
+            body,
+            item_count: s.overdue_count,
+            updated_at: now,
+            // A growing backlog resurfaces an acknowledged alert
+            ...(s.overdue_count > existing.item_count
+              ? { acknowledged_by: null, acknowledged_at: null }
+              : {}),
+          },
+        });
+        updated++;
+      } else {
+        await prisma.cms_alerts.create({
+          data: {
+            alert_type: SLA_ALERT_TYPE,
+            role_id: role.id,
+            status_id: s.status_id,
+            subject,
+            body,
+            action_url,
+            item_count: s.overdue_count,
+            created_at: now,
+            updated_at: now,
+          },
+        });
+        raised++;
+      }
+    }
+  }
+
+  // Backlog cleared, SLA removed, or role no longer responsible
+  const stale = open.filter((a) => !touched.has(a.id)).map((a) => a.id);
+  if (stale.length) {
+    await prisma.cms_alerts.updateMany({
+      where: { id: { in: stale } },
+      data: { is_resolved: true, resolved_at: now, updated_at: now },
+    });
+  }
+
+  return { raised, updated, resolved: stale.length };
+}
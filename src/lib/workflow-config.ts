@@ -0,0 +1,226 @@
+/**
+ * Item workflow configuration — shape + validation.
+ *
+ * The workflow editor (/dashboard/workflow) edits the whole graph as one
+ * document: statuses, global transitions and per-role transition rules, all
+ * referenced by status_key so new statuses can be wired up before they have
+ * an id. This module has no DB access so the editor can run the same
+ * validation client-side before saving.
+ */
+
+export const CUSTOMER_BUCKETS = ["processing", "shipped", "delivered"] as const;
+export type CustomerBucket = (typeof CUSTOMER_BUCKETS)[number];
+
+/** Status keys referenced directly by code — cannot be retired */
+export const SYSTEM_STATUS_KEYS = ["processing", "cancelled", "refunded"];
+/** deriveOrderStatusFromItems relies on these being terminal */
+export const TERMINAL_STATUS_KEYS = ["cancelled", "refunded"];
+
+export interface WorkflowStatusConfig {
+  id?: number;
+  status_key: string;
+  status_label: string;
+  status_order: number;
+  customer_bucket: CustomerBucket;
+  is_terminal: boolean;
+  is_active: boolean;
+  /** Hours an item may sit in this status before it counts as overdue; null = no SLA */
+  sla_hours?: number | null;
+}
+
+export interface WorkflowTransitionConfig {
+  from: string;
+  to: string;
+}
+
+export interface WorkflowRoleRuleConfig {
+  role_id: number;
+  from: string;
+  to: string;
+  can_transition: boolean;
+  requires_tracking_number: boolean;
+}
+
+export interface WorkflowConfig {
+  statuses: WorkflowStatusConfig[];
+  transitions: WorkflowTransitionConfig[];
+  role_rules: WorkflowRoleRuleConfig[];
+}
+
+export interface WorkflowValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+const STATUS_KEY_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+/** One year — anything longer is a typo */
+export const MAX_SLA_HOURS = 8760;
+
+export const edgeKey = (from: string, to: string) => `${from}->${to}`;
+
+/**
+ * The entry point of the graph: the active status with the lowest
+ * status_order. New order items start here.
+ */
+export function getInitialStatusKey(statuses: WorkflowStatusConfig[]): string | null {
+  const active = statuses.filter((s) => s.is_active);
+  if (!active.length) return null;
+  return active.reduce((a, b) => (b.status_order < a.status_order ? b : a)).status_key;
+}
+
+/**
+ * Validate a full workflow config.
+ * `existingKeys` are the status keys already in the DB — statuses can be
+ * retired (is_active = false) but never removed, since history rows and
+ * order items reference them.
+ */
+export function validateWorkflowConfig(
+  config: WorkflowConfig,
+  existingKeys: string[] = []
+): WorkflowValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // ── Statuses ──
+  const byKey = new Map<string, WorkflowStatusConfig>();
+  for (const s of config.statuses) {
+    if (!STATUS_KEY_PATTERN.test(s.status_key)) {
+      errors.push(`Invalid status key "${s.status_key}" — use lowercase letters, digits and underscores`);
+      continue;
+    }
+    if (byKey.has(s.status_key)) {
+      errors.push(`Duplicate status key "${s.status_key}"`);
+      continue;
+    }
+    byKey.set(s.status_key, s);
+
+    if (!s.status_label?.trim()) {
+      errors.push(`Status "${s.status_key}" needs a label`);
+    }
+    if (!Number.isInteger(s.status_order)) {
+      errors.push(`Status "${s.status_key}" needs a whole-number order`);
+    }
+    if (!CUSTOMER_BUCKETS.includes(s.customer_bucket)) {
+      errors.push(`Status "${s.status_key}" has an invalid customer bucket`);
+    }
+    if (s.sla_hours != null) {
+      if (!Number.isInteger(s.sla_hours) || s.sla_hours < 1 || s.sla_hours > MAX_SLA_HOURS) {
+        errors.push(`Status "${s.status_key}" SLA must be 1-${MAX_SLA_HOURS} hours`);
+      } else if (s.is_terminal) {
+        warnings.push(`Terminal status "${s.status_key}" has an SLA — it will never be checked`);
+      }
+    }
+  }
+
+  for (const key of existingKeys) {
+    if (!byKey.has(key)) {
+      errors.push(`Status "${key}" cannot be deleted — retire it instead`);
+    }
+  }
+
+  for (const key of SYSTEM_STATUS_KEYS) {
+    const s = byKey.get(key);
+    if (s && !s.is_active) errors.push(`Status "${key}" is used by the system and cannot be retired`);
+  }
+  for (const key of TERMINAL_STATUS_KEYS) {
+    const s = byKey.get(key);
+    if (s && !s.is_terminal) errors.push(`Status "${key}" must stay terminal`);
+  }
+
+  const active = config.statuses.filter((s) => s.is_active && byKey.get(s.status_key) === s);
+  const orders = new Map<number, string>();
+  for (const s of active) {
+    const clash = orders.get(s.status_order);
+    if (clash) {
+      errors.push(`Statuses "${clash}" and "${s.status_key}" share order ${s.status_order}`);
+    }
+    orders.set(s.status_order, s.status_key);
+  }
+  if (!active.some((s) => s.is_terminal)) {
+    errors.push("At least one active terminal status is required");
+  }
+
+  // ── Transitions ──
+  const edges = new Set<string>();
+  const outgoing = new Map<string, string[]>();
+  for (const t of config.transitions) {
+    const label = `${t.from} → ${t.to}`;
+    const from = byKey.get(t.from);
+    const to = byKey.get(t.to);
+    if (!from || !to) {
+      errors.push(`Transition ${label} references an unknown status`);
+      continue;
+    }
+    if (t.from === t.to) {
+      errors.push(`Transition ${label} loops back to itself`);
+      continue;
+    }
+    if (!from.is_active || !to.is_active) {
+      errors.push(`Transition ${label} touches a retired status`);
+      continue;
+    }
+    if (edges.has(edgeKey(t.from, t.to))) {
+      errors.push(`Transition ${label} is defined twice`);
+      continue;
+    }
+    if (from.is_terminal) {
+      errors.push(`Terminal status "${from.status_key}" cannot have outgoing transitions (${label})`);
+      continue;
+    }
+    edges.add(edgeKey(t.from, t.to));
+    outgoing.set(t.from, [...(outgoing.get(t.from) || []), t.to]);
+  }
+
+  // Every active status must be reachable from the initial status
+  const initial = getInitialStatusKey(active);
+  if (initial) {
+    const seen = new Set([initial]);
+    const queue = [initial];
+    while (queue.length) {
+      const key = queue.shift()!;
+      for (const next of outgoing.get(key) || []) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    for (const s of active) {
+      if (!seen.has(s.status_key)) {
+        errors.push(`Status "${s.status_key}" is unreachable from "${initial}"`);
+      }
+    }
+  }
+
+  for (const s of active) {
+    if (!s.is_terminal && !outgoing.has(s.status_key)) {
+      warnings.push(`Status "${s.status_key}" has no outgoing transitions — items will stop there`);
+    }
+  }
+
+  // ── Role rules ──
+  const ruleKeys = new Set<string>();
+  const permitted = new Set<string>();
+  for (const r of config.role_rules) {
+    const key = edgeKey(r.from, r.to);
+    if (!edges.has(key)) {
+      errors.push(`Role rule ${r.from} → ${r.to} has no matching transition`);
+      continue;
+    }
+    const ruleKey = `${r.role_id}:${key}`;
+    if (ruleKeys.has(ruleKey)) {
+      errors.push(`Role rule ${r.from} → ${r.to} is defined twice for the same role`);
+      continue;
+    }
+    ruleKeys.add(ruleKey);
+    if (r.can_transition) permitted.add(key);
+  }
+
+  for (const key of edges) {
+    if (!permitted.has(key)) {
+      warnings.push(`No role can perform ${key.replace("->", " → ")}`);
+    }
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,302 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { hasPermission, getAllowedTransitions, deriveOrderStatusFromItems, type DerivedOrderStatus } from "./rbac";
+import { notifyWorkflowChanges } from "./notification-rules";
+import type { SessionPayload } from "./auth";
+
+/**
+ * Shared item workflow service.
+ *
+ * Every path that changes an order item's workflow status (per-item
+ * workflow route, bulk route, order-level status route, order item editor)
+ * goes through `transitionItems` so the same rules apply everywhere:
+ *   - cancel / refund need their action permissions
+ *   - the role must be allowed the from → to transition
+ *   - transitions flagged requires_tracking_number need a tracking number
+ *   - each change writes an order_product_status_history row
+ *   - legacy order_products.status is kept in sync for terminal states
+ *   - the parent order status is re-derived
+ *   - once committed, customer notifications go out per the notification
+ *     rules (see notification-rules.ts)
+ *
+ * The write phase is one DB transaction. Parent orders are locked first
+ * (SELECT … FOR UPDATE, ascending id) and each item update is conditional
+ * on the status it was validated against, so two people scanning the same
+ * item cannot both advance it — the loser gets a 409 and nothing is
+ * written. Callers can also pass the status the user saw
+ * (`expectedFromStatus`); items that have moved since are skipped with a
+ * `conflict` code.
+ */
+
+export type WorkflowActor = Pick<SessionPayload, "userId" | "roleKey" | "permissions">;
+
+/** Request-level failure (bad target status, missing permission) */
+export class WorkflowError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "WorkflowError";
+    this.status = status;
+  }
+}
+
+export type SkipCode =
+  | "not_found"
+  | "no_status"
+  | "unchanged"
+  | "conflict"
+  | "not_allowed"
+  | "tracking_required";
+
+export interface SkippedItem {
+  id: number;
+  code: SkipCode;
+  reason: string;
+}
+
+/** HTTP status for single-item callers that surface a skip as an error */
+export const SKIP_HTTP_STATUS: Record<SkipCode, number> = {
+  not_found: 404,
+  no_status: 400,
+  unchanged: 400,
+  conflict: 409,
+  not_allowed: 403,
+  tracking_required: 400,
+};
+
+export interface ItemTransitionInput {
+  itemIds: number[];
+  toStatusKey: string;
+  actor: WorkflowActor;
+  /** undefined leaves tracking numbers untouched; "" or null clears them */
+  trackingNumber?: string | null;
+  note?: string | null;
+  /** Only items belonging to this order are considered */
+  orderId?: number;
+  /** itemId → status_key the user saw; items that have moved are skipped as conflicts */
+  expectedFromStatus?: Record<number, string>;
+  /**
+   * Extra writes that must commit or roll back with the status change
+   * (e.g. a refund ledger entry). Only runs when at least one item moves;
+   * throwing aborts the whole transition.
+   */
+  withinTransaction?: (tx: Prisma.TransactionClient, result: ItemTransitionResult) => Promise<void>;
+  /**
+   * Set only by createItemRefund: items reach `refunded` solely through the
+   * refund ledger, so every refunded item has a refund row and credit note.
+   */
+  viaRefundLedger?: boolean;
+  /** false skips the per-item `item_cancelled` notification (the caller sends its own) */
+  notifyItemCancelled?: boolean;
+}
+
+export interface ItemTransitionResult {
+  targetStatus: { id: number; key: string; label: string; isTerminal: boolean };
+  updated: { id: number; orderId: number; fromStatusId: number; trackingNumber: string | null }[];
+  skipped: SkippedItem[];
+  /** orderId → new legacy orders.status, only for orders whose status changed */
+  orderStatusChanges: Record<number, number>;
+  /** orderId → customer-visible status change, only for orders whose bucket moved */
+  customerStatusChanges: Record<number, NonNullable<DerivedOrderStatus["customerStatus"]>>;
+}
+
+/** Bulk changes touch up to 200 items across many orders */
+const TRANSACTION_TIMEOUT_MS = 20_000;
+
+/** Legacy order_products.status for terminal workflow states */
+const LEGACY_ITEM_STATUS: Record<string, number> = {
+  cancelled: 5,
+  refunded: 6,
+};
+
+export async function transitionItems(input: ItemTransitionInput): Promise<ItemTransitionResult> {
+  const { toStatusKey, actor, trackingNumber, note, orderId, expectedFromStatus } = input;
+
+  if (toStatusKey === "cancelled" && !hasPermission(actor.permissions, "action.orders.item.cancel")) {
+    throw new WorkflowError("You do not have permission to cancel items", 403);
+  }
+  if (toStatusKey === "refunded" && !hasPermission(actor.permissions, "action.orders.item.refund")) {
+    throw new WorkflowError("You do not have permission to refund items", 403);
+  }
+  if (toStatusKey === "refunded" && !input.viaRefundLedger) {
+    throw new WorkflowError("Items are refunded from the Refunds card on the order, which records the refund and credit note");
+  }
+
+  const target = await prisma.cms_order_item_statuses.findFirst({
+    where: { status_key: toStatusKey, is_active: true },
+  });
+  if (!target) {
+    throw new WorkflowError(`Unknown status: ${toStatusKey}`);
+  }
+
+  const ids = [...new Set(input.itemIds.map(Number).filter((n) => Number.isFinite(n) && n > 0))];
+  const items = await prisma.order_products.findMany({
+    where: { id: { in: ids }, ...(orderId !== undefined ? { r_order_id: orderId } : {}) },
+    select: { id: true, r_order_id: true, workflow_status_id: true, tracking_number: true },
+  });
+
+  const skipped: SkippedItem[] = [];
+  const found = new Set(items.map((i) => i.id));
+  for (const id of ids) {
+    if (!found.has(id)) skipped.push({ id, code: "not_found", reason: "Item not found" });
+  }
+
+  // Status keys/labels for conflict checks against what the user saw
+  const statusById = new Map<number, { key: string; label: string }>();
+  if (expectedFromStatus) {
+    const current = await prisma.cms_order_item_statuses.findMany({
+      where: { id: { in: [...new Set(items.map((i) => i.workflow_status_id ?? 0))] } },
+      select: { id: true, status_key: true, status_label: true },
+    });
+    for (const s of current) statusById.set(s.id, { key: s.status_key, label: s.status_label });
+  }
+
+  // One transition lookup per distinct current status
+  const transitionCache = new Map<number, Awaited<ReturnType<typeof getAllowedTransitions>>>();
+  const valid: typeof items = [];
+
+  for (const item of items) {
+    if (!item.workflow_status_id) {
+      skipped.push({ id: item.id, code: "no_status", reason: "Item has no workflow status assigned" });
+      continue;
+    }
+    const expected = expectedFromStatus?.[item.id];
+    if (expected !== undefined) {
+      const current = statusById.get(item.workflow_status_id);
+      if (current?.key !== expected) {
+        skipped.push({
+          id: item.id,
+          code: "conflict",
+          reason: `Item has already moved to ${current?.label || "another status"} — reload and try again`,
+        });
+        continue;
+      }
+    }
+    if (item.workflow_status_id === target.id) {
+      skipped.push({ id: item.id, code: "unchanged", reason: `Item is already ${target.status_label}` });
+      continue;
+    }
+
+    let transitions = transitionCache.get(item.workflow_status_id);
+    if (!transitions) {
+      transitions = await getAllowedTransitions(actor.roleKey, item.workflow_status_id);
+      transitionCache.set(item.workflow_status_id, transitions);
+    }
+
+    const allowed = transitions.find((t) => t.toStatusId === target.id);
+    if (!allowed) {
+      skipped.push({
+        id: item.id,
+        code: "not_allowed",
+        reason: `Transition to '${toStatusKey}' is not allowed for your role from the current status`,
+      });
+      continue;
+    }
+    if (allowed.requiresTracking && !trackingNumber && !item.tracking_number) {
+      skipped.push({
+        id: item.id,
+        code: "tracking_required",
+        reason: "Tracking number is required for this transition",
+      });
+      continue;
+    }
+
+    valid.push(item);
+  }
+
+  const result: ItemTransitionResult = {
+    targetStatus: {
+      id: target.id,
+      key: target.status_key,
+      label: target.status_label,
+      isTerminal: target.is_terminal === true,
+    },
+    updated: [],
+    skipped,
+    orderStatusChanges: {},
+    customerStatusChanges: {},
+  };
+
+  if (!valid.length) return result;
+
+  const now = new Date();
+  const updateData: {
+    workflow_status_id: number;
+    workflow_status_updated_at: Date;
+    workflow_status_updated_by: number;
+    tracking_number?: string | null;
+    status?: number;
+  } = {
+    workflow_status_id: target.id,
+    workflow_status_updated_at: now,
+    workflow_status_updated_by: actor.userId,
+  };
+  if (trackingNumber !== undefined) {
+    updateData.tracking_number = trackingNumber || null;
+  }
+  if (LEGACY_ITEM_STATUS[toStatusKey] !== undefined) {
+    updateData.status = LEGACY_ITEM_STATUS[toStatusKey];
+  }
+
+  result.updated = valid.map((item) => ({
+    id: item.id,
+    orderId: item.r_order_id,
+    fromStatusId: item.workflow_status_id!,
+    trackingNumber: trackingNumber !== undefined ? trackingNumber || null : item.tracking_number,
+  }));
+
+  const affectedOrderIds = [...new Set(valid.map((i) => i.r_order_id))].sort((a, b) => a - b);
+
+  // Group by the status each item was validated against
+  const byFromStatus = new Map<number, number[]>();
+  for (const u of result.updated) {
+    byFromStatus.set(u.fromStatusId, [...(byFromStatus.get(u.fromStatusId) || []), u.id]);
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      // Serialise concurrent changes on the same orders so derived
+      // order status and order_tracking rows stay consistent
+      await tx.$queryRaw`SELECT id FROM orders WHERE id IN (${Prisma.join(affectedOrderIds)}) ORDER BY id FOR UPDATE`;
+
+      for (const [fromStatusId, ids] of byFromStatus) {
+        const { count } = await tx.order_products.updateMany({
+          where: { id: { in: ids }, workflow_status_id: fromStatusId },
+          data: updateData,
+        });
+        if (count !== ids.length) {
+          throw new WorkflowError(
+            "Item status was changed by someone else — reload and try again",
+            409
+          );
+        }
+      }
+
+      await tx.order_product_status_history.createMany({
+        data: result.updated.map((u) => ({
+          order_product_id: u.id,
+          order_id: u.orderId,
+          from_status_id: u.fromStatusId,
+          to_status_id: target.id,
+          changed_by_user_id: actor.userId,
+          tracking_number_snapshot: u.trackingNumber,
+          note: note || null,
+          changed_at: now,
+        })),
+      });
+
+      for (const id of affectedOrderIds) {
+        const derived = await deriveOrderStatusFromItems(id, tx);
+        if (derived.orderStatus !== null) result.orderStatusChanges[id] = derived.orderStatus;
+        if (derived.customerStatus) result.customerStatusChanges[id] = derived.customerStatus;
+      }
+
+      if (input.withinTransaction) await input.withinTransaction(tx, result);
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  await notifyWorkflowChanges(result, { itemCancelled: input.notifyItemCancelled });
+  return result;
+}
@@ -1,18 +1,13 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { jwtVerify } from "jose";
+import { PAGE_PERMISSIONS } from "@/lib/route-permissions";
 
 const JWT_SECRET = new TextEncoder().encode(
   process.env.JWT_SECRET || "chihelo-cms-secret-key-change-in-production-2026"
 );
 
-const PUBLIC_PATHS = ["/login", "/signup", "/api/auth/login", "/api/auth/signup"];
-
-// Route-prefix → required permission (checked server-side)
-const ROUTE_PERMISSIONS: Record<string, string> = {
-  "/dashboard/tryon-prompts": "page.tryon_prompts",
-  "/dashboard/tryon-analytics": "page.tryon_analytics",
-};
+const PUBLIC_PATHS = ["/login", "/signup", "/api/auth/login", "/api/auth/signup", "/api/cron/"];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -43,9 +38,16 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // API routes answer with JSON instead of redirecting to the login page.
+  // Per-route permissions are enforced in the handlers (see withPermission).
+  const isApi = pathname.startsWith("/api/");
+
   // Check auth for all other routes
   const token = request.cookies.get("cms_session")?.value;
   if (!token) {
+    if (isApi) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
     return NextResponse.redirect(new URL("/login", request.url));
   }
 
@@ -53,15 +55,20 @@ export async function middleware(request: NextRequest) {
     const { payload } = await jwtVerify(token, JWT_SECRET);
     const perms = (payload.permissions as string[]) || [];
 
+    if (isApi) {
+      return NextResponse.next();
+    }
+
     // If hitting /dashboard exactly and user lacks page.dashboard, send to /dashboard/items
     if (pathname === "/dashboard" && !perms.includes("page.dashboard")) {
       return NextResponse.redirect(new URL("/dashboard/items", request.url));
     }
 
     // Check route-level permissions
-    for (const [route, requiredPerm] of Object.entries(ROUTE_PERMISSIONS)) {
+    for (const [route, requiredPerm] of Object.entries(PAGE_PERMISSIONS)) {
       if (pathname.startsWith(route)) {
-        if (!perms.includes(requiredPerm)) {
+        const required = Array.isArray(requiredPerm) ? requiredPerm : [requiredPerm];
+        if (!required.some((p) => perms.includes(p))) {
           // Redirect unauthorized users to items list (safe default)
           return NextResponse.redirect(new URL("/dashboard/items", request.url));
         }
@@ -72,7 +79,9 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   } catch {
     // Token expired or invalid
-    const response = NextResponse.redirect(new URL("/login", request.url));
+    const response = isApi
+      ? NextResponse.json({ error: "Not authenticated" }, { status: 401 })
+      : NextResponse.redirect(new URL("/login", request.url));
     response.cookies.delete("cms_session");
     return response;
   }